@@ -15,16 +15,34 @@ import {
   InventoryStatusForm,
   ComponentsForm,
   AdditionalDetailsForm,
+  CustomFieldsForm,
 } from './components/forms';
 import { PresetManager } from './components/PresetManager';
 import { PrintQueue } from './components/PrintQueue';
 import { CardPreview } from './components/CardPreview';
 import { PDFExporter } from './components/PDFExporter';
+import { ZplExporter } from './components/ZplExporter';
+import { EslExporter } from './components/EslExporter';
 import { BrandIconManager } from './components/BrandIconManager';
+import { FontManager } from './components/FontManager';
+import { CardSizeManager } from './components/CardSizeManager';
+import { SpecAbbreviationManager } from './components/SpecAbbreviationManager';
+import { SpecVisibilityManager } from './components/SpecVisibilityManager';
+import { CardDesigner } from './components/CardDesigner';
+import { SheetProfileManager } from './components/SheetProfileManager';
 import { VisualSettingsComponent } from './components/VisualSettings';
 import { ErrorBoundary } from './components/common/ErrorBoundary';
-import { useConfigStore, useUIStore, useBrandIconsStore, usePrintQueueStore } from './stores';
+import {
+  useConfigStore,
+  useUIStore,
+  useBrandIconsStore,
+  useFontsStore,
+  useCardSizesStore,
+  useSheetProfilesStore,
+  usePrintQueueStore,
+} from './stores';
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { useCustomFontFaces } from './hooks/useCustomFontFaces';
 import { VisualSettings } from './types';
 
 function App() {
@@ -45,6 +63,9 @@ function App() {
     }))
   );
   const brandIcons = useBrandIconsStore((state) => state.icons);
+  const customFonts = useFontsStore((state) => state.fonts);
+  const customSizes = useCardSizesStore((state) => state.sizes);
+  const sheetProfiles = useSheetProfilesStore((state) => state.profiles);
   const addMultipleToQueue = usePrintQueueStore((state) => state.addMultipleToQueue);
 
   // Keyboard shortcuts
@@ -64,6 +85,9 @@ function App() {
     useConfigStore.getState().setVisualSettings(settings);
   }, []);
 
+  // Make uploaded fonts available to the preview
+  useCustomFontFaces(customFonts);
+
   useKeyboardShortcuts({
     onSave: handleKeyboardSave,
     onNew: handleKeyboardNew,
@@ -97,6 +121,9 @@ function App() {
           <ErrorBoundary compact>
             <AdditionalDetailsForm />
           </ErrorBoundary>
+          <ErrorBoundary compact>
+            <CustomFieldsForm />
+          </ErrorBoundary>
         </div>
 
         {/* Right Column - Preview & Export */}
@@ -122,7 +149,41 @@ function App() {
             <BrandIconManager />
           </ErrorBoundary>
           <ErrorBoundary compact>
-            <CardPreview config={config} cardSize={cardSize} brandIcons={brandIcons} />
+            <FontManager />
+          </ErrorBoundary>
+          <ErrorBoundary compact>
+            <CardSizeManager />
+          </ErrorBoundary>
+          <ErrorBoundary compact>
+            <CardDesigner
+              config={config}
+              cardSize={cardSize}
+              brandIcons={brandIcons}
+              customFonts={customFonts}
+              customSizes={customSizes}
+            />
+          </ErrorBoundary>
+          <ErrorBoundary compact>
+            <SpecAbbreviationManager
+              config={config}
+              brandIcons={brandIcons}
+              customSizes={customSizes}
+            />
+          </ErrorBoundary>
+          <ErrorBoundary compact>
+            <SpecVisibilityManager config={config} cardSize={cardSize} customSizes={customSizes} />
+          </ErrorBoundary>
+          <ErrorBoundary compact>
+            <SheetProfileManager />
+          </ErrorBoundary>
+          <ErrorBoundary compact>
+            <CardPreview
+              config={config}
+              cardSize={cardSize}
+              brandIcons={brandIcons}
+              customFonts={customFonts}
+              customSizes={customSizes}
+            />
           </ErrorBoundary>
           <ErrorBoundary compact>
             <PDFExporter
@@ -130,8 +191,22 @@ function App() {
               cardSize={cardSize}
               onCardSizeChange={setCardSize}
               brandIcons={brandIcons}
+              customFonts={customFonts}
+              customSizes={customSizes}
+              sheetProfiles={sheetProfiles}
+            />
+          </ErrorBoundary>
+          <ErrorBoundary compact>
+            <ZplExporter
+              config={config}
+              brandIcons={brandIcons}
+              customFonts={customFonts}
+              customSizes={customSizes}
             />
           </ErrorBoundary>
+          <ErrorBoundary compact>
+            <EslExporter config={config} customFonts={customFonts} />
+          </ErrorBoundary>
         </div>
       </div>
     </MainLayout>
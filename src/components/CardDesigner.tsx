@@ -0,0 +1,711 @@
+/**
+ * CardDesigner - Lay out a card size by hand
+ * Elements are dragged and resized on the card, hidden or restyled, and the
+ * result is saved as a named design that the preview and exports can use.
+ * Designs travel between stores as .cardtemplate.json files.
+ */
+
+import { useState, useId, useMemo, useRef, memo } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useCardDesignsStore } from '../stores';
+import type { PrebuildConfig, CardSize, BrandIcon, CustomFont, CustomCardSize } from '../types';
+import { getThemeColors } from '../types';
+import { resolveCardSize } from '../utils/cardSizes';
+import { validateImageFile } from '../utils/validation';
+import {
+  CARD_TEMPLATE_EXTENSION,
+  getTemplateFilename,
+  TemplateIssue,
+} from '../utils/cardTemplates';
+import { buildDesignLayout } from '../utils/layoutBuilders';
+import { renderLayoutToHtml } from '../utils/renderToHtml';
+import {
+  CardDesign,
+  DesignBinding,
+  DesignElement,
+  DesignElementStyle,
+  DESIGN_BINDINGS,
+  clampFrame,
+  createDesign,
+  createDesignElement,
+} from '../utils/cardDesigns';
+import type { Frame, TextAlign } from '../utils/layoutSchema';
+
+/** On-screen width of the design canvas */
+const CANVAS_WIDTH = 280;
+
+/** Points per inch, for sizing the canvas text */
+const PT_PER_INCH = 72;
+
+/** Distance an arrow key moves or resizes the selected element, in inches */
+const NUDGE = 0.05;
+
+const BINDING_OPTIONS = Object.entries(DESIGN_BINDINGS) as [
+  DesignBinding,
+  { label: string; height: number },
+][];
+
+interface CardDesignerProps {
+  config: PrebuildConfig;
+  cardSize: CardSize;
+  brandIcons: BrandIcon[];
+  customFonts?: CustomFont[];
+  customSizes?: CustomCardSize[];
+}
+
+interface DragState {
+  id: string;
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  frame: Frame;
+}
+
+export const CardDesigner = memo(function CardDesigner({
+  config,
+  cardSize,
+  brandIcons,
+  customFonts,
+  customSizes,
+}: CardDesignerProps) {
+  // Use shallow selector to prevent unnecessary re-renders
+  const {
+    designs,
+    activeIds,
+    saveDesign,
+    removeDesign,
+    setActiveDesign,
+    exportTemplate,
+    importTemplate,
+  } = useCardDesignsStore(
+    useShallow((state) => ({
+      designs: state.designs,
+      activeIds: state.activeIds,
+      saveDesign: state.saveDesign,
+      removeDesign: state.removeDesign,
+      setActiveDesign: state.setActiveDesign,
+      exportTemplate: state.exportTemplate,
+      importTemplate: state.importTemplate,
+    }))
+  );
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [draft, setDraft] = useState<CardDesign | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newBinding, setNewBinding] = useState<DesignBinding>('text');
+  const [importErrors, setImportErrors] = useState<TemplateIssue[]>([]);
+  const [importNotice, setImportNotice] = useState<string | null>(null);
+  const [imageError, setImageError] = useState<string | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const templateInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const baseId = useId();
+
+  const size = resolveCardSize(cardSize, customSizes);
+  const pxPerInch = CANVAS_WIDTH / size.width;
+  const sizeDesigns = designs.filter((design) => design.cardSize === cardSize);
+  // A draft left over from another size is not shown
+  const current = draft?.cardSize === cardSize ? draft : null;
+  const isSaved = !!current && designs.some((design) => design.id === current.id);
+  const isActive = !!current && activeIds[cardSize] === current.id;
+  const selected = current?.elements.find((item) => item.id === selectedId) ?? null;
+
+  const layout = useMemo(
+    () =>
+      current
+        ? buildDesignLayout(
+            {
+              config,
+              cardSize,
+              colors: getThemeColors(config),
+              brandIcons,
+              customFonts,
+              customSizes,
+            },
+            current
+          )
+        : null,
+    [current, config, cardSize, brandIcons, customFonts, customSizes]
+  );
+
+  const updateElement = (id: string, changes: Partial<DesignElement>) => {
+    setDraft((prev) =>
+      prev
+        ? {
+            ...prev,
+            elements: prev.elements.map((item) =>
+              item.id === id ? { ...item, ...changes } : item
+            ),
+          }
+        : prev
+    );
+  };
+
+  const updateStyle = (id: string, changes: DesignElementStyle) => {
+    const item = current?.elements.find((el) => el.id === id);
+    if (item) {
+      updateElement(id, { style: { ...item.style, ...changes } });
+    }
+  };
+
+  const setFrame = (id: string, frame: Frame) => {
+    updateElement(id, { frame: clampFrame(frame, size.width, size.height) });
+  };
+
+  const handleNew = () => {
+    const design = createDesign(
+      `${size.name} design ${sizeDesigns.length + 1}`,
+      cardSize,
+      size.width,
+      size.height
+    );
+    setDraft(design);
+    setSelectedId(null);
+  };
+
+  const handleOpen = (id: string) => {
+    const design = sizeDesigns.find((d) => d.id === id);
+    setDraft(design ? { ...design, elements: design.elements.map((el) => ({ ...el })) } : null);
+    setSelectedId(null);
+  };
+
+  const handleAddElement = () => {
+    if (!current) return;
+    const element = createDesignElement(newBinding, size.width, size.height);
+    setDraft({ ...current, elements: [...current.elements, element] });
+    setSelectedId(element.id);
+  };
+
+  const handleRemoveElement = (id: string) => {
+    if (!current) return;
+    setDraft({ ...current, elements: current.elements.filter((item) => item.id !== id) });
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const handleSave = () => {
+    if (!current || !current.name.trim()) return;
+    saveDesign({ ...current, name: current.name.trim() });
+  };
+
+  const handleDelete = () => {
+    if (!current) return;
+    removeDesign(current.id);
+    setDraft(null);
+    setSelectedId(null);
+  };
+
+  // Export saves the design first, so the file matches what's on screen
+  const handleExportTemplate = async () => {
+    if (!current || !current.name.trim()) return;
+    saveDesign({ ...current, name: current.name.trim() });
+    const json = exportTemplate(current.id, customSizes);
+    if (!json) return;
+    const { downloadBlob } = await import('../utils/zipArchive');
+    downloadBlob(new Blob([json], { type: 'application/json' }), getTemplateFilename(current.name));
+  };
+
+  const handleImportTemplate = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { design, errors } = importTemplate(await file.text(), customSizes);
+    setImportErrors(errors);
+    if (design) {
+      const sizeName = resolveCardSize(design.cardSize, customSizes).name;
+      setImportNotice(`Imported "${design.name}" for ${sizeName} cards`);
+      setDraft(design);
+      setSelectedId(null);
+    } else {
+      setImportNotice(null);
+    }
+  };
+
+  // The image is kept with the design as an asset
+  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !selected) return;
+
+    const validation = validateImageFile(file);
+    if (!validation.valid) {
+      setImageError(validation.error ?? 'Invalid image');
+      return;
+    }
+    setImageError(null);
+
+    const elementId = selected.id;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const assetId = `asset-${Date.now()}`;
+      const asset = { name: file.name, data: event.target?.result as string };
+      setDraft((prev) =>
+        prev
+          ? {
+              ...prev,
+              assets: { ...prev.assets, [assetId]: asset },
+              elements: prev.elements.map((item) =>
+                item.id === elementId ? { ...item, assetId } : item
+              ),
+            }
+          : prev
+      );
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handlePointerDown = (
+    e: React.PointerEvent<HTMLElement>,
+    item: DesignElement,
+    mode: DragState['mode']
+  ) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+    dragRef.current = {
+      id: item.id,
+      mode,
+      startX: e.clientX,
+      startY: e.clientY,
+      frame: item.frame,
+    };
+    setSelectedId(item.id);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = (e.clientX - drag.startX) / pxPerInch;
+    const dy = (e.clientY - drag.startY) / pxPerInch;
+    const { frame } = drag;
+    setFrame(
+      drag.id,
+      drag.mode === 'move'
+        ? { ...frame, x: frame.x + dx, y: frame.y + dy }
+        : { ...frame, width: frame.width + dx, height: frame.height + dy }
+    );
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  // Arrow keys move the element; with Shift they resize it
+  const handleKeyDown = (e: React.KeyboardEvent, item: DesignElement) => {
+    const offsets: Record<string, [number, number]> = {
+      ArrowLeft: [-NUDGE, 0],
+      ArrowRight: [NUDGE, 0],
+      ArrowUp: [0, -NUDGE],
+      ArrowDown: [0, NUDGE],
+    };
+    const offset = offsets[e.key];
+    if (!offset) return;
+    e.preventDefault();
+    const [dx, dy] = offset;
+    const { frame } = item;
+    setFrame(
+      item.id,
+      e.shiftKey
+        ? { ...frame, width: frame.width + dx, height: frame.height + dy }
+        : { ...frame, x: frame.x + dx, y: frame.y + dy }
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={isExpanded}
+        aria-controls={`${baseId}-content`}
+      >
+        <h2 className="text-lg font-semibold text-gray-800">
+          Card Designer
+          <span className="ml-2 text-sm font-normal text-gray-500">
+            ({sizeDesigns.length} for {size.name})
+          </span>
+        </h2>
+        <svg
+          className={`w-5 h-5 text-gray-500 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+          aria-hidden="true"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isExpanded && (
+        <div id={`${baseId}-content`} className="mt-3 space-y-3">
+          <p className="text-xs text-gray-500">
+            Drag elements to move them and their corner to resize. Arrow keys nudge the selected
+            element; Shift+arrows resize it.
+          </p>
+
+          {/* Design picker */}
+          <div className="flex gap-2">
+            <label htmlFor={`${baseId}-design`} className="sr-only">
+              Design
+            </label>
+            <select
+              id={`${baseId}-design`}
+              value={isSaved ? current!.id : ''}
+              onChange={(e) => handleOpen(e.target.value)}
+              className="flex-1 px-2 py-1.5 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">{current && !isSaved ? 'Unsaved design' : 'Open a design…'}</option>
+              {sizeDesigns.map((design) => (
+                <option key={design.id} value={design.id}>
+                  {design.name}
+                  {activeIds[cardSize] === design.id ? ' (in use)' : ''}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleNew}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+            >
+              New Design
+            </button>
+            <input
+              ref={templateInputRef}
+              type="file"
+              accept={`${CARD_TEMPLATE_EXTENSION},.json,application/json`}
+              onChange={handleImportTemplate}
+              className="hidden"
+              aria-label="Import template file"
+            />
+            <button
+              onClick={() => templateInputRef.current?.click()}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              Import
+            </button>
+          </div>
+
+          {importNotice && (
+            <p className="text-xs text-green-700" role="status">
+              {importNotice}
+            </p>
+          )}
+          {importErrors.length > 0 && (
+            <div className="text-xs text-red-600" role="alert">
+              <p className="font-medium">The template could not be imported:</p>
+              <ul className="list-disc pl-4">
+                {importErrors.map((issue, index) => (
+                  <li key={index}>
+                    {issue.path && <code>{issue.path}</code>}
+                    {issue.path && ': '}
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {current && layout && (
+            <>
+              {/* Canvas */}
+              <div className="flex justify-center">
+                <div
+                  data-testid="design-canvas"
+                  className="relative border-2 border-gray-300 shadow-lg overflow-hidden select-none"
+                  style={{ width: `${CANVAS_WIDTH}px`, height: `${size.height * pxPerInch}px` }}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  onPointerCancel={handlePointerUp}
+                >
+                  {renderLayoutToHtml(layout, {
+                    scale: { inch: pxPerInch, font: pxPerInch / PT_PER_INCH },
+                  })}
+                  {current.elements.map(
+                    (item) =>
+                      item.visible && (
+                        <div
+                          key={item.id}
+                          role="button"
+                          tabIndex={0}
+                          aria-label={`${DESIGN_BINDINGS[item.binding].label} element`}
+                          aria-pressed={item.id === selectedId}
+                          onPointerDown={(e) => handlePointerDown(e, item, 'move')}
+                          onKeyDown={(e) => handleKeyDown(e, item)}
+                          onFocus={() => setSelectedId(item.id)}
+                          className={`absolute cursor-move touch-none focus:outline-none ${
+                            item.id === selectedId
+                              ? 'border-2 border-blue-500'
+                              : 'border border-dashed border-gray-400 hover:border-blue-400'
+                          }`}
+                          style={{
+                            left: `${item.frame.x * pxPerInch}px`,
+                            top: `${item.frame.y * pxPerInch}px`,
+                            width: `${item.frame.width * pxPerInch}px`,
+                            height: `${item.frame.height * pxPerInch}px`,
+                          }}
+                        >
+                          {item.id === selectedId && (
+                            <span
+                              data-testid="resize-handle"
+                              onPointerDown={(e) => handlePointerDown(e, item, 'resize')}
+                              className="absolute -right-1 -bottom-1 w-2.5 h-2.5 bg-blue-500 cursor-se-resize"
+                              aria-hidden="true"
+                            />
+                          )}
+                        </div>
+                      )
+                  )}
+                </div>
+              </div>
+
+              {/* Elements */}
+              <ul className="space-y-1" aria-label="Design elements">
+                {current.elements.map((item) => {
+                  const label = DESIGN_BINDINGS[item.binding].label;
+                  return (
+                    <li
+                      key={item.id}
+                      className={`flex items-center gap-2 px-2 py-1 rounded-md ${
+                        item.id === selectedId ? 'bg-blue-50' : 'bg-gray-50'
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={item.visible}
+                        onChange={(e) => updateElement(item.id, { visible: e.target.checked })}
+                        className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                        aria-label={`Show ${label}`}
+                      />
+                      <button
+                        onClick={() => setSelectedId(item.id)}
+                        className="flex-1 text-left text-sm text-gray-800 truncate focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+                      >
+                        {item.binding === 'text' ? item.text || label : label}
+                      </button>
+                      <button
+                        onClick={() => handleRemoveElement(item.id)}
+                        className="text-xs text-red-600 hover:text-red-800 focus:outline-none focus:ring-2 focus:ring-red-500 rounded"
+                        aria-label={`Remove ${label}`}
+                      >
+                        Remove
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+
+              <div className="flex gap-2">
+                <label htmlFor={`${baseId}-binding`} className="sr-only">
+                  Element to add
+                </label>
+                <select
+                  id={`${baseId}-binding`}
+                  value={newBinding}
+                  onChange={(e) => setNewBinding(e.target.value as DesignBinding)}
+                  className="flex-1 px-2 py-1.5 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {BINDING_OPTIONS.map(([binding, { label }]) => (
+                    <option key={binding} value={binding}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleAddElement}
+                  className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  Add Element
+                </button>
+              </div>
+
+              {/* Selected element style */}
+              {selected && (
+                <fieldset className="space-y-2 border border-gray-200 rounded-md p-2">
+                  <legend className="px-1 text-xs font-medium text-gray-600">
+                    {DESIGN_BINDINGS[selected.binding].label}
+                  </legend>
+                  {selected.binding === 'text' && (
+                    <div>
+                      <label
+                        htmlFor={`${baseId}-text`}
+                        className="block text-xs text-gray-600 mb-1"
+                      >
+                        Text
+                      </label>
+                      <input
+                        id={`${baseId}-text`}
+                        type="text"
+                        value={selected.text ?? ''}
+                        onChange={(e) => updateElement(selected.id, { text: e.target.value })}
+                        className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  )}
+                  {selected.binding === 'image' && (
+                    <div>
+                      <input
+                        ref={imageInputRef}
+                        type="file"
+                        accept="image/jpeg,image/png,image/gif,image/webp,image/svg+xml"
+                        onChange={handleImageSelect}
+                        className="hidden"
+                        aria-label="Upload image"
+                      />
+                      <button
+                        onClick={() => imageInputRef.current?.click()}
+                        className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {selected.assetId ? 'Replace Image' : 'Choose Image'}
+                      </button>
+                      {imageError && (
+                        <p className="mt-1 text-xs text-red-600" role="alert">
+                          {imageError}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label
+                        htmlFor={`${baseId}-font-size`}
+                        className="block text-xs text-gray-600 mb-1"
+                      >
+                        Font size (pt)
+                      </label>
+                      <input
+                        id={`${baseId}-font-size`}
+                        type="number"
+                        min="1"
+                        step="any"
+                        value={selected.style.fontSize ?? ''}
+                        placeholder="Default"
+                        onChange={(e) =>
+                          updateStyle(selected.id, {
+                            fontSize: parseFloat(e.target.value) || undefined,
+                          })
+                        }
+                        className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label
+                        htmlFor={`${baseId}-align`}
+                        className="block text-xs text-gray-600 mb-1"
+                      >
+                        Alignment
+                      </label>
+                      <select
+                        id={`${baseId}-align`}
+                        value={selected.style.align ?? ''}
+                        onChange={(e) =>
+                          updateStyle(selected.id, {
+                            align: (e.target.value || undefined) as TextAlign | undefined,
+                          })
+                        }
+                        className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="">Default</option>
+                        <option value="left">Left</option>
+                        <option value="center">Center</option>
+                        <option value="right">Right</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label
+                        htmlFor={`${baseId}-color`}
+                        className="block text-xs text-gray-600 mb-1"
+                      >
+                        Color
+                      </label>
+                      <input
+                        id={`${baseId}-color`}
+                        type="color"
+                        value={selected.style.color ?? '#000000'}
+                        onChange={(e) => updateStyle(selected.id, { color: e.target.value })}
+                        className="w-full h-8 border border-gray-300 rounded-md"
+                      />
+                    </div>
+                    <div>
+                      <label
+                        htmlFor={`${baseId}-background`}
+                        className="block text-xs text-gray-600 mb-1"
+                      >
+                        Background
+                      </label>
+                      <input
+                        id={`${baseId}-background`}
+                        type="color"
+                        value={selected.style.backgroundColor ?? '#ffffff'}
+                        onChange={(e) =>
+                          updateStyle(selected.id, { backgroundColor: e.target.value })
+                        }
+                        className="w-full h-8 border border-gray-300 rounded-md"
+                      />
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => updateElement(selected.id, { style: {} })}
+                    className="text-xs text-gray-600 hover:text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+                  >
+                    Reset style
+                  </button>
+                </fieldset>
+              )}
+
+              {/* Save */}
+              <div>
+                <label htmlFor={`${baseId}-name`} className="sr-only">
+                  Design name
+                </label>
+                <input
+                  id={`${baseId}-name`}
+                  type="text"
+                  value={current.name}
+                  onChange={(e) => setDraft({ ...current, name: e.target.value })}
+                  placeholder="Design name"
+                  className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={isActive}
+                  disabled={!isSaved}
+                  onChange={(e) => setActiveDesign(cardSize, e.target.checked ? current.id : null)}
+                  className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                Use for {size.name} cards
+              </label>
+              <div className="flex gap-2">
+                <button
+                  onClick={handleSave}
+                  disabled={!current.name.trim()}
+                  className="flex-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+                >
+                  Save Design
+                </button>
+                <button
+                  onClick={handleExportTemplate}
+                  disabled={!current.name.trim()}
+                  className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  title="Save and download as a template file"
+                >
+                  Export
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className="px-3 py-1.5 text-sm text-red-600 border border-red-200 rounded-md hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-500"
+                >
+                  {isSaved ? 'Delete' : 'Discard'}
+                </button>
+              </div>
+            </>
+          )}
+
+          {!current && sizeDesigns.length === 0 && (
+            <p className="text-sm text-gray-400 text-center py-4">
+              No designs for this size yet. The built-in layout is used.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,236 @@
+/**
+ * CardSizeManager - Define custom card sizes
+ * Custom sizes appear in the size pickers alongside the built-in sizes
+ */
+
+import { useState, useId, memo } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useCardSizesStore, useUIStore } from '../stores';
+import type { CardOrientation, CardSizeUnit, CustomCardSizeId } from '../types';
+import { CARD_SIZES } from '../types';
+import {
+  formatCardSizeDimensions,
+  getClosestBuiltInSize,
+  getCustomSizeDimensions,
+} from '../utils/cardSizes';
+import { validateCardDimension } from '../utils/validation';
+
+export const CardSizeManager = memo(function CardSizeManager() {
+  // Use shallow selector to prevent unnecessary re-renders
+  const { sizes, addSize, removeSize } = useCardSizesStore(
+    useShallow((state) => ({
+      sizes: state.sizes,
+      addSize: state.addSize,
+      removeSize: state.removeSize,
+    }))
+  );
+  const { cardSize, setCardSize } = useUIStore(
+    useShallow((state) => ({
+      cardSize: state.cardSize,
+      setCardSize: state.setCardSize,
+    }))
+  );
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [name, setName] = useState('');
+  const [width, setWidth] = useState('');
+  const [height, setHeight] = useState('');
+  const [unit, setUnit] = useState<CardSizeUnit>('in');
+  const [orientation, setOrientation] = useState<CardOrientation>('portrait');
+  const [error, setError] = useState<string | null>(null);
+  const baseId = useId();
+
+  const handleAdd = () => {
+    const widthValue = parseFloat(width);
+    const heightValue = parseFloat(height);
+
+    if (!name.trim()) {
+      setError('Enter a name for the size');
+      return;
+    }
+    for (const value of [widthValue, heightValue]) {
+      const result = validateCardDimension(value, unit);
+      if (!result.valid) {
+        setError(result.error ?? 'Invalid size');
+        return;
+      }
+    }
+
+    const size = addSize({
+      name: name.trim(),
+      width: widthValue,
+      height: heightValue,
+      unit,
+      orientation,
+    });
+    setCardSize(size.id);
+    setName('');
+    setWidth('');
+    setHeight('');
+    setError(null);
+  };
+
+  const handleRemove = (id: CustomCardSizeId) => {
+    if (cardSize === id) {
+      setCardSize('price');
+    }
+    removeSize(id);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={isExpanded}
+        aria-controls={`${baseId}-content`}
+      >
+        <h2 className="text-lg font-semibold text-gray-800">
+          Custom Card Sizes
+          <span className="ml-2 text-sm font-normal text-gray-500">({sizes.length} defined)</span>
+        </h2>
+        <svg
+          className={`w-5 h-5 text-gray-500 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+          aria-hidden="true"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isExpanded && (
+        <div id={`${baseId}-content`} className="mt-3 space-y-3">
+          <p className="text-xs text-gray-500">
+            Each size uses the layout of the closest built-in size, scaled to fit.
+          </p>
+
+          {/* Add size form */}
+          <div className="space-y-2">
+            <div>
+              <label htmlFor={`${baseId}-name`} className="sr-only">
+                Size name
+              </label>
+              <input
+                id={`${baseId}-name`}
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Name (e.g. Business Card)"
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label htmlFor={`${baseId}-width`} className="block text-xs text-gray-600 mb-1">
+                  Width
+                </label>
+                <input
+                  id={`${baseId}-width`}
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={width}
+                  onChange={(e) => setWidth(e.target.value)}
+                  className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor={`${baseId}-height`} className="block text-xs text-gray-600 mb-1">
+                  Height
+                </label>
+                <input
+                  id={`${baseId}-height`}
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={height}
+                  onChange={(e) => setHeight(e.target.value)}
+                  className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor={`${baseId}-unit`} className="block text-xs text-gray-600 mb-1">
+                  Unit
+                </label>
+                <select
+                  id={`${baseId}-unit`}
+                  value={unit}
+                  onChange={(e) => setUnit(e.target.value as CardSizeUnit)}
+                  className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="in">Inches</option>
+                  <option value="mm">Millimeters</option>
+                </select>
+              </div>
+              <div>
+                <label
+                  htmlFor={`${baseId}-orientation`}
+                  className="block text-xs text-gray-600 mb-1"
+                >
+                  Orientation
+                </label>
+                <select
+                  id={`${baseId}-orientation`}
+                  value={orientation}
+                  onChange={(e) => setOrientation(e.target.value as CardOrientation)}
+                  className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="portrait">Portrait</option>
+                  <option value="landscape">Landscape</option>
+                </select>
+              </div>
+            </div>
+            <button
+              onClick={handleAdd}
+              className="w-full px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+            >
+              Add Size
+            </button>
+          </div>
+
+          {error && (
+            <p className="text-xs text-red-600" role="alert">
+              {error}
+            </p>
+          )}
+
+          {/* Defined sizes list */}
+          {sizes.length > 0 && (
+            <ul className="space-y-1" aria-label="Custom card sizes">
+              {sizes.map((size) => {
+                const { width: w, height: h } = getCustomSizeDimensions(size);
+                const baseName = CARD_SIZES[getClosestBuiltInSize(w, h)].name;
+                return (
+                  <li
+                    key={size.id}
+                    className="flex items-center justify-between px-2 py-1.5 bg-gray-50 rounded-md"
+                  >
+                    <span className="text-sm text-gray-800 truncate">
+                      {size.name}
+                      <span className="ml-2 text-xs text-gray-400">
+                        {formatCardSizeDimensions(size.width, size.height, size.unit)} ·{' '}
+                        {size.orientation} · {baseName} layout
+                      </span>
+                    </span>
+                    <button
+                      onClick={() => handleRemove(size.id)}
+                      className="text-xs text-red-600 hover:text-red-800 focus:outline-none focus:ring-2 focus:ring-red-500 rounded"
+                      aria-label={`Remove ${size.name} size`}
+                    >
+                      Remove
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {sizes.length === 0 && (
+            <p className="text-sm text-gray-400 text-center py-4">No custom sizes defined yet</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
@@ -13,6 +13,7 @@ import {
   pdfToBase64,
 } from '../utils/emailService';
 import { PrebuildConfig, formatPrice } from '../types';
+import { COMPONENT_CATEGORIES, getComponentValues } from '../utils/componentItems';
 
 interface EmailDialogProps {
   isOpen: boolean;
@@ -64,16 +65,9 @@ export function EmailDialog({ isOpen, onClose, config, pdfDoc, cardSize }: Email
         generateEmailBody(
           config.modelName || 'PC Build',
           config.price > 0 ? formatPrice(config.price) : '',
-          {
-            cpu: config.components.cpu,
-            gpu: config.components.gpu,
-            ram: config.components.ram,
-            storage: config.components.storage,
-            motherboard: config.components.motherboard,
-            psu: config.components.psu,
-            case: config.components.case,
-            cooling: config.components.cooling,
-          },
+          Object.fromEntries(
+            COMPONENT_CATEGORIES.map((category) => [category, getComponentValues(config, category)])
+          ),
           config.storeName
         )
       );
@@ -11,6 +11,8 @@ import {
 
 interface EnhancedComponentSelectorProps {
   category: ComponentCategory;
+  /** Shown instead of the category name, e.g. "Storage 2" */
+  label?: string;
   value: string;
   library: ComponentLibrary;
   onChange: (value: string) => void;
@@ -18,6 +20,8 @@ interface EnhancedComponentSelectorProps {
   priceValue?: number;
   onPriceChange?: (value: number) => void;
   showPrice?: boolean;
+  /** Shows a remove button, for line items beyond the main slot */
+  onRemove?: () => void;
 }
 
 const FAVORITES_KEY = 'component-favorites';
@@ -26,6 +30,7 @@ const MAX_RECENT = 5;
 
 export const EnhancedComponentSelector = memo(function EnhancedComponentSelector({
   category,
+  label = COMPONENT_LABELS[category],
   value,
   library,
   onChange,
@@ -33,6 +38,7 @@ export const EnhancedComponentSelector = memo(function EnhancedComponentSelector
   priceValue,
   onPriceChange,
   showPrice,
+  onRemove,
 }: EnhancedComponentSelectorProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
@@ -227,20 +233,31 @@ export const EnhancedComponentSelector = memo(function EnhancedComponentSelector
   return (
     <div className="mb-3 relative" ref={dropdownRef}>
       <div className="flex items-center justify-between mb-1">
-        <label className="block text-sm font-medium text-gray-700">
-          {COMPONENT_LABELS[category]}
-        </label>
-        <button
-          type="button"
-          onClick={() => {
-            setShowAddForm(!showAddForm);
-            setIsOpen(true);
-          }}
-          className="w-5 h-5 flex items-center justify-center bg-green-100 hover:bg-green-200 text-green-700 rounded-full text-sm font-bold"
-          title="Add new component"
-        >
-          +
-        </button>
+        <label className="block text-sm font-medium text-gray-700">{label}</label>
+        <div className="flex items-center gap-1">
+          {onRemove && (
+            <button
+              type="button"
+              onClick={onRemove}
+              className="w-5 h-5 flex items-center justify-center bg-red-50 hover:bg-red-100 text-red-600 rounded-full text-sm font-bold"
+              title={`Remove ${label}`}
+              aria-label={`Remove ${label}`}
+            >
+              ×
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => {
+              setShowAddForm(!showAddForm);
+              setIsOpen(true);
+            }}
+            className="w-5 h-5 flex items-center justify-center bg-green-100 hover:bg-green-200 text-green-700 rounded-full text-sm font-bold"
+            title="Add new component"
+          >
+            +
+          </button>
+        </div>
       </div>
 
       {/* Input field */}
@@ -464,7 +481,7 @@ export const EnhancedComponentSelector = memo(function EnhancedComponentSelector
             type="text"
             value={formatPriceForInput(priceValue ?? 0)}
             onChange={(e) => onPriceChange(parsePrice(e.target.value))}
-            placeholder={`${COMPONENT_LABELS[category]} price`}
+            placeholder={`${label} price`}
             className="w-full pl-5 pr-2 py-1 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
           />
         </div>
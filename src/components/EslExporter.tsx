@@ -0,0 +1,218 @@
+/**
+ * EslExporter - Export the card as a bitmap for e-paper shelf labels
+ * Label model, colours and dithering are remembered between sessions
+ */
+
+import { useState, useEffect, useId, memo } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useEslLabelStore } from '../stores';
+import type { PrebuildConfig, CustomFont } from '../types';
+import {
+  DITHER_MODES,
+  DitherMode,
+  ESL_LABEL_MODELS,
+  ESL_PALETTES,
+  EslImage,
+  EslLabelModelId,
+  EslPaletteId,
+  eslImageToBitplanes,
+  eslImageToPng,
+  renderEslImage,
+} from '../utils/eslExport';
+import { blobToDataUrl } from '../utils/canvas';
+import { downloadBlob } from '../utils/zipArchive';
+
+interface EslExporterProps {
+  config: PrebuildConfig;
+  customFonts?: CustomFont[];
+}
+
+const EMPTY_FONTS: CustomFont[] = [];
+
+export const EslExporter = memo(function EslExporter({
+  config,
+  customFonts = EMPTY_FONTS,
+}: EslExporterProps) {
+  const { modelId, palette, dither, setSettings } = useEslLabelStore(
+    useShallow((state) => ({
+      modelId: state.modelId,
+      palette: state.palette,
+      dither: state.dither,
+      setSettings: state.setSettings,
+    }))
+  );
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [image, setImage] = useState<EslImage | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const baseId = useId();
+
+  // Re-render the label while the panel is open
+  useEffect(() => {
+    if (!isExpanded) return;
+    let cancelled = false;
+
+    const render = async () => {
+      try {
+        const next = await renderEslImage(config, { modelId, palette, dither }, customFonts);
+        const url = await blobToDataUrl(await eslImageToPng(next));
+        if (cancelled) return;
+        setImage(next);
+        setPreview(url);
+        setError(null);
+      } catch (err) {
+        if (!cancelled) {
+          setError(`Failed to render label: ${(err as Error).message}`);
+        }
+      }
+    };
+    render();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isExpanded, config, customFonts, modelId, palette, dither]);
+
+  const filename = `${config.modelName || 'PC-Build'}-${modelId}`;
+
+  const handleDownloadPng = async () => {
+    if (!image) return;
+    try {
+      downloadBlob(await eslImageToPng(image), `${filename}.png`);
+    } catch (err) {
+      setError(`Failed to export PNG: ${(err as Error).message}`);
+    }
+  };
+
+  const handleDownloadBitplanes = () => {
+    if (!image) return;
+    downloadBlob(eslImageToBitplanes(image), `${filename}.bin`);
+  };
+
+  const model = ESL_LABEL_MODELS[modelId];
+  const inputClass =
+    'w-full px-2 py-1 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={isExpanded}
+        aria-controls={`${baseId}-content`}
+      >
+        <h2 className="text-lg font-semibold text-gray-800">E-Paper Labels</h2>
+        <svg
+          className={`w-5 h-5 text-gray-500 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+          aria-hidden="true"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isExpanded && (
+        <div id={`${baseId}-content`} className="mt-3 space-y-3">
+          <p className="text-xs text-gray-500">
+            Bitmaps for electronic shelf labels, at the panel&apos;s exact resolution. The .bin file
+            holds one bit per pixel (0 = ink): the black plane, then the red plane.
+          </p>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label htmlFor={`${baseId}-model`} className="block text-xs text-gray-600 mb-1">
+                Label
+              </label>
+              <select
+                id={`${baseId}-model`}
+                value={modelId}
+                onChange={(e) => setSettings({ modelId: e.target.value as EslLabelModelId })}
+                className={inputClass}
+              >
+                {Object.values(ESL_LABEL_MODELS).map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor={`${baseId}-palette`} className="block text-xs text-gray-600 mb-1">
+                Colours
+              </label>
+              <select
+                id={`${baseId}-palette`}
+                value={palette}
+                onChange={(e) => setSettings({ palette: e.target.value as EslPaletteId })}
+                className={inputClass}
+              >
+                {Object.entries(ESL_PALETTES).map(([id, option]) => (
+                  <option key={id} value={id}>
+                    {option.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor={`${baseId}-dither`} className="block text-xs text-gray-600 mb-1">
+                Dithering
+              </label>
+              <select
+                id={`${baseId}-dither`}
+                value={dither}
+                onChange={(e) => setSettings({ dither: e.target.value as DitherMode })}
+                className={inputClass}
+              >
+                {Object.entries(DITHER_MODES).map(([id, option]) => (
+                  <option key={id} value={id} title={option.description}>
+                    {option.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {preview && (
+            <div className="flex justify-center bg-gray-100 rounded-md p-2">
+              <img
+                src={preview}
+                alt={`${model.name} label preview`}
+                width={model.width}
+                height={model.height}
+                className="border border-gray-300 max-w-full h-auto"
+                style={{ imageRendering: 'pixelated' }}
+              />
+            </div>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600" role="alert">
+              {error}
+            </p>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleDownloadPng}
+              disabled={!image}
+              className="flex-1 px-3 py-2 text-sm bg-gray-700 text-white rounded-md hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
+            >
+              Download PNG
+            </button>
+            <button
+              onClick={handleDownloadBitplanes}
+              disabled={!image}
+              className="flex-1 px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+            >
+              Download .bin
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default EslExporter;
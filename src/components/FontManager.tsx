@@ -0,0 +1,147 @@
+/**
+ * FontManager - Upload and manage custom TTF/OTF fonts
+ * Uploaded fonts appear in Visual Settings and are embedded in exported PDFs
+ */
+
+import { useRef, useState, useId, memo } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useFontsStore } from '../stores';
+import { readFontFile } from '../utils/fontManager';
+
+export const FontManager = memo(function FontManager() {
+  // Use shallow selector to prevent unnecessary re-renders
+  const { fonts, addFont, removeFont } = useFontsStore(
+    useShallow((state) => ({
+      fonts: state.fonts,
+      addFont: state.addFont,
+      removeFont: state.removeFont,
+    }))
+  );
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [fontName, setFontName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const baseId = useId();
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const font = await readFontFile(file, fontName);
+      addFont(font);
+      setFontName('');
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={isExpanded}
+        aria-controls={`${baseId}-content`}
+      >
+        <h2 className="text-lg font-semibold text-gray-800">
+          Custom Fonts
+          <span className="ml-2 text-sm font-normal text-gray-500">({fonts.length} uploaded)</span>
+        </h2>
+        <svg
+          className={`w-5 h-5 text-gray-500 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+          aria-hidden="true"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isExpanded && (
+        <div id={`${baseId}-content`} className="mt-3 space-y-3">
+          <p className="text-xs text-gray-500">
+            Upload TTF or OTF fonts. Select them under Visual Settings; they&apos;re embedded in
+            exported PDFs.
+          </p>
+
+          {/* Upload section */}
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <label htmlFor={`${baseId}-font-name`} className="sr-only">
+                Font name
+              </label>
+              <input
+                id={`${baseId}-font-name`}
+                type="text"
+                value={fontName}
+                onChange={(e) => setFontName(e.target.value)}
+                placeholder="Font name (optional)"
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".ttf,.otf,font/ttf,font/otf"
+              onChange={handleFileSelect}
+              className="hidden"
+              aria-label="Upload font file"
+            />
+
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+            >
+              Upload
+            </button>
+          </div>
+
+          {error && (
+            <p className="text-xs text-red-600" role="alert">
+              {error}
+            </p>
+          )}
+
+          {/* Uploaded fonts list */}
+          {fonts.length > 0 && (
+            <ul className="space-y-1" aria-label="Uploaded fonts">
+              {fonts.map((font) => (
+                <li
+                  key={font.id}
+                  className="flex items-center justify-between px-2 py-1.5 bg-gray-50 rounded-md"
+                >
+                  <span
+                    className="text-sm text-gray-800 truncate"
+                    style={{ fontFamily: `"${font.name}"` }}
+                  >
+                    {font.name}
+                    <span className="ml-2 text-xs text-gray-400">{font.fileName}</span>
+                  </span>
+                  <button
+                    onClick={() => removeFont(font.id)}
+                    className="text-xs text-red-600 hover:text-red-800 focus:outline-none focus:ring-2 focus:ring-red-500 rounded"
+                    aria-label={`Remove ${font.name} font`}
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {fonts.length === 0 && (
+            <p className="text-sm text-gray-400 text-center py-4">No custom fonts uploaded yet</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
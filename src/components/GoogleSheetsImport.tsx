@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { importFromGoogleSheet, downloadCSV } from '../utils/googleSheets';
+import { useCustomFieldsStore } from '../stores';
 import { PrebuildConfig } from '../types';
 
 interface GoogleSheetsImportProps {
@@ -13,6 +14,7 @@ export function GoogleSheetsImport({ onImport, currentBuilds }: GoogleSheetsImpo
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [importedCount, setImportedCount] = useState<number | null>(null);
+  const customFields = useCustomFieldsStore((state) => state.fields);
 
   const handleImport = async () => {
     if (!sheetUrl.trim()) {
@@ -24,7 +26,7 @@ export function GoogleSheetsImport({ onImport, currentBuilds }: GoogleSheetsImpo
     setError('');
     setImportedCount(null);
 
-    const result = await importFromGoogleSheet(sheetUrl);
+    const result = await importFromGoogleSheet(sheetUrl, customFields);
 
     setLoading(false);
 
@@ -43,7 +45,7 @@ export function GoogleSheetsImport({ onImport, currentBuilds }: GoogleSheetsImpo
 
   const handleExport = () => {
     if (currentBuilds && currentBuilds.length > 0) {
-      downloadCSV(currentBuilds);
+      downloadCSV(currentBuilds, undefined, customFields);
     }
   };
 
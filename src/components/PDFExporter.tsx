@@ -3,8 +3,38 @@
  * PDF libraries are loaded on-demand to reduce initial bundle size
  */
 
-import { useState, useCallback, useId, memo } from 'react';
-import { PrebuildConfig, CardSize, CARD_SIZES, BrandIcon } from '../types';
+import { useState, useCallback, useId, useMemo, memo } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { PrebuildConfig, CardSize, BrandIcon, CustomFont, CustomCardSize } from '../types';
+import { getCardSizeOptions, resolveCardSize, formatCardSizeDimensions } from '../utils/cardSizes';
+import {
+  BUILT_IN_SHEET_PROFILES,
+  getSheetProfile,
+  SheetProfile,
+  DuplexFlip,
+} from '../utils/imposition';
+import {
+  DEFAULT_IMAGE_EXPORT,
+  IMAGE_DPI_OPTIONS,
+  IMAGE_FORMATS,
+  ImageFormat,
+} from '../utils/imageExport';
+import { BLEED_OPTIONS, SAFE_MARGIN_OPTIONS } from '../utils/printProduction';
+import { DUPLEX_FLIP_OPTIONS, hasCardBack } from '../utils/cardBacks';
+import {
+  createEmptyWarnings,
+  formatWarnings,
+  hasWarnings,
+  PDFGenerationWarnings,
+} from '../utils/logger';
+import {
+  usePrintProductionStore,
+  useCardBacksStore,
+  useCardDesignsStore,
+  useSpecAbbreviationsStore,
+  useSpecVisibilityStore,
+  useCustomFieldsStore,
+} from '../stores';
 import { EmailDialog } from './EmailDialog';
 import type { jsPDF } from 'jspdf';
 
@@ -13,9 +43,14 @@ interface PDFExporterProps {
   cardSize: CardSize;
   onCardSizeChange: (size: CardSize) => void;
   brandIcons: BrandIcon[];
+  customFonts?: CustomFont[];
+  customSizes?: CustomCardSize[];
+  sheetProfiles?: SheetProfile[];
 }
 
-const ALL_SIZES: CardSize[] = ['shelf', 'price', 'poster'];
+const EMPTY_FONTS: CustomFont[] = [];
+const EMPTY_SIZES: CustomCardSize[] = [];
+const EMPTY_PROFILES: SheetProfile[] = [];
 
 // Module cache for lazy-loaded PDF functions
 let pdfModule: typeof import('../utils/pdfGenerator') | null = null;
@@ -33,17 +68,70 @@ export const PDFExporter = memo(function PDFExporter({
   cardSize,
   onCardSizeChange,
   brandIcons,
+  customFonts = EMPTY_FONTS,
+  customSizes = EMPTY_SIZES,
+  sheetProfiles = EMPTY_PROFILES,
 }: PDFExporterProps) {
   const [isGenerating, setIsGenerating] = useState(false);
   const [isGeneratingAll, setIsGeneratingAll] = useState(false);
-  const [isGeneratingShelfMultiUp, setIsGeneratingShelfMultiUp] = useState(false);
-  const [isGeneratingPriceMultiUp, setIsGeneratingPriceMultiUp] = useState(false);
+  const [isGeneratingSheet, setIsGeneratingSheet] = useState(false);
+  const [isGeneratingImage, setIsGeneratingImage] = useState(false);
+  const [imageFormat, setImageFormat] = useState<ImageFormat>(DEFAULT_IMAGE_EXPORT.format);
+  const [imageDpi, setImageDpi] = useState(DEFAULT_IMAGE_EXPORT.dpi!);
+  const [transparentBackground, setTransparentBackground] = useState(false);
+  const [isGeneratingSvg, setIsGeneratingSvg] = useState(false);
+  const [sheetProfileId, setSheetProfileId] = useState(BUILT_IN_SHEET_PROFILES[0].id);
   const [batchProgress, setBatchProgress] = useState(0);
   const [emailDialogOpen, setEmailDialogOpen] = useState(false);
   const [currentPdf, setCurrentPdf] = useState<jsPDF | null>(null);
   const [isPreparingEmail, setIsPreparingEmail] = useState(false);
   const [isLoadingModule, setIsLoadingModule] = useState(false);
+  const [exportWarnings, setExportWarnings] = useState<string[]>([]);
   const baseId = useId();
+  const production = usePrintProductionStore(
+    useShallow((state) => ({
+      bleed: state.bleed,
+      cropMarks: state.cropMarks,
+      registrationMarks: state.registrationMarks,
+      safeMargin: state.safeMargin,
+      showSafeZone: state.showSafeZone,
+    }))
+  );
+  const setProduction = usePrintProductionStore((state) => state.setSettings);
+  const cardBacks = useCardBacksStore(
+    useShallow((state) => ({ sizes: state.sizes, flip: state.flip }))
+  );
+  const setBackEnabled = useCardBacksStore((state) => state.setBackEnabled);
+  const setCardBacks = useCardBacksStore((state) => state.setSettings);
+  const designs = useCardDesignsStore(useShallow((state) => state.getActiveDesigns()));
+  const abbreviations = useSpecAbbreviationsStore(
+    useShallow((state) => ({ sizes: state.sizes, categories: state.categories }))
+  );
+  const specVisibility = useSpecVisibilityStore((state) => state.defaults);
+  const customFields = useCustomFieldsStore((state) => state.fields);
+  const renderOptions = useMemo(
+    () => ({
+      brandIcons,
+      customFonts,
+      customSizes,
+      designs,
+      abbreviations,
+      specVisibility,
+      customFields,
+    }),
+    [brandIcons, customFonts, customSizes, designs, abbreviations, specVisibility, customFields]
+  );
+
+  const sizeOptions = useMemo(() => getCardSizeOptions(customSizes), [customSizes]);
+  const selectedSize = resolveCardSize(cardSize, customSizes);
+  const withBack = hasCardBack(cardBacks, cardSize);
+
+  // What went wrong in the last export, e.g. text the card had to cut
+  const showWarnings = useCallback(
+    (warnings: PDFGenerationWarnings) =>
+      setExportWarnings(hasWarnings(warnings) ? formatWarnings(warnings, customSizes) : []),
+    [customSizes]
+  );
 
   // Lazy load the PDF generator module
   const loadPDFModule = useCallback(async () => {
@@ -61,8 +149,15 @@ export const PDFExporter = memo(function PDFExporter({
     setIsGenerating(true);
     try {
       const { generatePDF, downloadPDF } = await loadPDFModule();
-      const doc = await generatePDF(config, cardSize, brandIcons);
-      const filename = `${config.modelName || 'PC-Build'}-${CARD_SIZES[cardSize].name.replace(/\s+/g, '-')}.pdf`;
+      const warnings = createEmptyWarnings();
+      const doc = await generatePDF(config, cardSize, {
+        ...renderOptions,
+        production,
+        withBack,
+        warnings,
+      });
+      showWarnings(warnings);
+      const filename = `${config.modelName || 'PC-Build'}-${selectedSize.name.replace(/\s+/g, '-')}.pdf`;
       downloadPDF(doc, filename);
     } catch (error) {
       console.error('Failed to generate PDF:', error);
@@ -70,25 +165,51 @@ export const PDFExporter = memo(function PDFExporter({
     } finally {
       setIsGenerating(false);
     }
-  }, [config, cardSize, brandIcons, loadPDFModule]);
+  }, [
+    config,
+    cardSize,
+    selectedSize,
+    renderOptions,
+    production,
+    withBack,
+    showWarnings,
+    loadPDFModule,
+  ]);
 
   const handleExportAll = useCallback(async () => {
     setIsGeneratingAll(true);
     setBatchProgress(0);
 
     try {
-      const { generatePDF, downloadPDF } = await loadPDFModule();
-
-      for (let i = 0; i < ALL_SIZES.length; i++) {
-        const size = ALL_SIZES[i];
-        setBatchProgress(i + 1);
+      // Generate in the PDF worker so the page stays responsive
+      const [{ startPdfJob }, { downloadBlob }] = await Promise.all([
+        import('../utils/pdfWorkerClient'),
+        import('../utils/zipArchive'),
+      ]);
+      const { files, warnings } = await startPdfJob(
+        {
+          kind: 'sizes',
+          config,
+          cardSizes: sizeOptions.map((size) => size.id),
+          brandIcons,
+          customFonts,
+          customSizes,
+          production,
+          cardBacks,
+          designs,
+          abbreviations,
+          specVisibility,
+          customFields,
+        },
+        (progress) => setBatchProgress(progress.current)
+      ).promise;
+      showWarnings(warnings);
 
-        const doc = await generatePDF(config, size, brandIcons);
-        const filename = `${config.modelName || 'PC-Build'}-${CARD_SIZES[size].name.replace(/\s+/g, '-')}.pdf`;
-        downloadPDF(doc, filename);
+      for (let i = 0; i < files.length; i++) {
+        downloadBlob(files[i].blob, files[i].name);
 
         // Small delay between downloads to prevent browser issues
-        if (i < ALL_SIZES.length - 1) {
+        if (i < files.length - 1) {
           await new Promise((resolve) => setTimeout(resolve, 300));
         }
       }
@@ -99,43 +220,103 @@ export const PDFExporter = memo(function PDFExporter({
       setIsGeneratingAll(false);
       setBatchProgress(0);
     }
-  }, [config, brandIcons, loadPDFModule]);
+  }, [
+    config,
+    sizeOptions,
+    brandIcons,
+    customFonts,
+    customSizes,
+    production,
+    cardBacks,
+    designs,
+    abbreviations,
+    specVisibility,
+    customFields,
+    showWarnings,
+  ]);
 
-  const handleExportShelfMultiUp = useCallback(async () => {
-    setIsGeneratingShelfMultiUp(true);
+  const handleExportSheet = useCallback(async () => {
+    setIsGeneratingSheet(true);
     try {
-      const { generateShelfTagMultiUp, downloadPDF } = await loadPDFModule();
-      const doc = await generateShelfTagMultiUp(config, true, brandIcons);
-      const filename = `${config.modelName || 'PC-Build'}-Shelf-Tags-12up.pdf`;
+      const { generateSheet, downloadPDF } = await loadPDFModule();
+      const profile = getSheetProfile(sheetProfileId, sheetProfiles);
+      const warnings = createEmptyWarnings();
+      const doc = await generateSheet(config, cardSize, profile, {
+        ...renderOptions,
+        duplex: withBack ? cardBacks.flip : undefined,
+        warnings,
+      });
+      showWarnings(warnings);
+      const filename = `${config.modelName || 'PC-Build'}-${selectedSize.name.replace(/\s+/g, '-')}-Sheet.pdf`;
       downloadPDF(doc, filename);
     } catch (error) {
       console.error('Failed to generate multi-up PDF:', error);
       alert('Failed to generate PDF. Please try again.');
     } finally {
-      setIsGeneratingShelfMultiUp(false);
+      setIsGeneratingSheet(false);
     }
-  }, [config, brandIcons, loadPDFModule]);
+  }, [
+    config,
+    cardSize,
+    selectedSize,
+    sheetProfileId,
+    sheetProfiles,
+    renderOptions,
+    withBack,
+    cardBacks.flip,
+    showWarnings,
+    loadPDFModule,
+  ]);
 
-  const handleExportPriceMultiUp = useCallback(async () => {
-    setIsGeneratingPriceMultiUp(true);
+  const handleExportImage = useCallback(async () => {
+    setIsGeneratingImage(true);
     try {
-      const { generatePriceCardMultiUp, downloadPDF } = await loadPDFModule();
-      const doc = await generatePriceCardMultiUp(config, true, brandIcons);
-      const filename = `${config.modelName || 'PC-Build'}-Price-Cards-2up.pdf`;
-      downloadPDF(doc, filename);
+      const [{ generateCardImage, getImageFilename }, { downloadBlob }] = await Promise.all([
+        import('../utils/imageExport'),
+        import('../utils/zipArchive'),
+      ]);
+      const blob = await generateCardImage(
+        config,
+        cardSize,
+        { format: imageFormat, dpi: imageDpi, transparentBackground },
+        renderOptions
+      );
+      downloadBlob(
+        blob,
+        getImageFilename(config.modelName || 'PC-Build', selectedSize.name, imageFormat)
+      );
     } catch (error) {
-      console.error('Failed to generate multi-up PDF:', error);
-      alert('Failed to generate PDF. Please try again.');
+      console.error('Failed to generate image:', error);
+      alert('Failed to generate image. Please try again.');
+    } finally {
+      setIsGeneratingImage(false);
+    }
+  }, [config, cardSize, selectedSize, imageFormat, imageDpi, transparentBackground, renderOptions]);
+
+  const handleExportSvg = useCallback(async () => {
+    setIsGeneratingSvg(true);
+    try {
+      const [{ generateCardSvg }, { downloadBlob }] = await Promise.all([
+        import('../utils/renderToSvg'),
+        import('../utils/zipArchive'),
+      ]);
+      const svg = await generateCardSvg(config, cardSize, renderOptions);
+      const filename = `${config.modelName || 'PC-Build'}-${selectedSize.name.replace(/\s+/g, '-')}.svg`;
+      downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), filename);
+    } catch (error) {
+      console.error('Failed to generate SVG:', error);
+      alert('Failed to generate SVG. Please try again.');
     } finally {
-      setIsGeneratingPriceMultiUp(false);
+      setIsGeneratingSvg(false);
     }
-  }, [config, brandIcons, loadPDFModule]);
+  }, [config, cardSize, selectedSize, renderOptions]);
 
   const isDisabled =
     isGenerating ||
     isGeneratingAll ||
-    isGeneratingShelfMultiUp ||
-    isGeneratingPriceMultiUp ||
+    isGeneratingSheet ||
+    isGeneratingImage ||
+    isGeneratingSvg ||
     isPreparingEmail ||
     isLoadingModule;
 
@@ -143,7 +324,14 @@ export const PDFExporter = memo(function PDFExporter({
     setIsPreparingEmail(true);
     try {
       const { generatePDF } = await loadPDFModule();
-      const doc = await generatePDF(config, cardSize, brandIcons);
+      const warnings = createEmptyWarnings();
+      const doc = await generatePDF(config, cardSize, {
+        ...renderOptions,
+        production,
+        withBack,
+        warnings,
+      });
+      showWarnings(warnings);
       setCurrentPdf(doc);
       setEmailDialogOpen(true);
     } catch (error) {
@@ -152,7 +340,7 @@ export const PDFExporter = memo(function PDFExporter({
     } finally {
       setIsPreparingEmail(false);
     }
-  }, [config, cardSize, brandIcons, loadPDFModule]);
+  }, [config, cardSize, renderOptions, production, withBack, showWarnings, loadPDFModule]);
 
   // Handle preload on mouse enter - memoized to prevent recreation
   const handleMouseEnter = useCallback(() => {
@@ -171,8 +359,8 @@ export const PDFExporter = memo(function PDFExporter({
           Card Size
         </label>
         <div className="space-y-2" role="radiogroup" aria-labelledby={`${baseId}-size-label`}>
-          {(Object.keys(CARD_SIZES) as CardSize[]).map((size) => {
-            const sizeConfig = CARD_SIZES[size];
+          {sizeOptions.map((sizeConfig) => {
+            const size = sizeConfig.id;
             return (
               <label
                 key={size}
@@ -193,7 +381,8 @@ export const PDFExporter = memo(function PDFExporter({
                 <div className="flex-1">
                   <p className="font-medium text-gray-800">{sizeConfig.name}</p>
                   <p className="text-xs text-gray-500">
-                    {sizeConfig.width}&quot; × {sizeConfig.height}&quot; - {sizeConfig.description}
+                    {formatCardSizeDimensions(sizeConfig.width, sizeConfig.height, 'in')} -{' '}
+                    {sizeConfig.description}
                   </p>
                 </div>
                 {cardSize === size && (
@@ -216,6 +405,124 @@ export const PDFExporter = memo(function PDFExporter({
         </div>
       </div>
 
+      {/* Print Production */}
+      <details className="mb-4 rounded-md border border-gray-200 p-3">
+        <summary className="text-sm font-medium text-gray-700 cursor-pointer">
+          Print production
+        </summary>
+        <div className="mt-3 space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label htmlFor={`${baseId}-bleed`} className="block text-xs text-gray-600 mb-1">
+                Bleed
+              </label>
+              <select
+                id={`${baseId}-bleed`}
+                value={production.bleed}
+                onChange={(e) => setProduction({ bleed: Number(e.target.value) })}
+                className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {BLEED_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor={`${baseId}-safe-margin`} className="block text-xs text-gray-600 mb-1">
+                Safe margin
+              </label>
+              <select
+                id={`${baseId}-safe-margin`}
+                value={production.safeMargin}
+                onChange={(e) => setProduction({ safeMargin: Number(e.target.value) })}
+                className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {SAFE_MARGIN_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="space-y-1 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={production.cropMarks}
+                onChange={(e) => setProduction({ cropMarks: e.target.checked })}
+                className="rounded border-gray-300"
+              />
+              Crop marks
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={production.registrationMarks}
+                onChange={(e) => setProduction({ registrationMarks: e.target.checked })}
+                className="rounded border-gray-300"
+              />
+              Registration marks
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={production.showSafeZone}
+                onChange={(e) => setProduction({ showSafeZone: e.target.checked })}
+                className="rounded border-gray-300"
+              />
+              Show safe zone in preview
+            </label>
+          </div>
+          <p className="text-xs text-gray-500">
+            Bleed and marks apply to single-card PDFs, which get trim and bleed boxes for the print
+            shop.
+          </p>
+        </div>
+      </details>
+
+      {/* Card Back & Duplex */}
+      <details className="mb-4 rounded-md border border-gray-200 p-3">
+        <summary className="text-sm font-medium text-gray-700 cursor-pointer">
+          Card back &amp; duplex
+        </summary>
+        <div className="mt-3 space-y-3">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={withBack}
+              onChange={(e) => setBackEnabled(cardSize, e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            Print a back side on {selectedSize.name}
+          </label>
+          <div>
+            <label htmlFor={`${baseId}-duplex-flip`} className="block text-xs text-gray-600 mb-1">
+              Duplex flip
+            </label>
+            <select
+              id={`${baseId}-duplex-flip`}
+              value={cardBacks.flip}
+              onChange={(e) => setCardBacks({ flip: e.target.value as DuplexFlip })}
+              className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {DUPLEX_FLIP_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <p className="text-xs text-gray-500">
+            The back lists every component with its price, the warranty, financing terms and a large
+            QR code. Single-card PDFs put it on the page after the front; multi-up sheets get a back
+            sheet after each front sheet, mirrored for the flip.
+          </p>
+        </div>
+      </details>
+
       {/* Export Buttons */}
       <div className="space-y-2">
         {/* Single Export Button */}
@@ -266,7 +573,7 @@ export const PDFExporter = memo(function PDFExporter({
                   d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
                 />
               </svg>
-              Download {CARD_SIZES[cardSize].name}
+              Download {selectedSize.name}
             </>
           )}
         </button>
@@ -276,16 +583,43 @@ export const PDFExporter = memo(function PDFExporter({
           </p>
         )}
 
-        {/* Multi-up Buttons */}
-        <div className="grid grid-cols-2 gap-2">
-          {/* Multi-up Shelf Tags Button */}
+        {/* Multi-up Sheet */}
+        <div className="flex gap-2">
+          <div className="flex-1">
+            <label htmlFor={`${baseId}-sheet-profile`} className="sr-only">
+              Sheet profile
+            </label>
+            <select
+              id={`${baseId}-sheet-profile`}
+              value={sheetProfileId}
+              onChange={(e) => setSheetProfileId(e.target.value)}
+              className="w-full px-2 py-2 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              <optgroup label="Built-in">
+                {BUILT_IN_SHEET_PROFILES.map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </option>
+                ))}
+              </optgroup>
+              {sheetProfiles.length > 0 && (
+                <optgroup label="Custom">
+                  {sheetProfiles.map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.name}
+                    </option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+          </div>
           <button
-            onClick={handleExportShelfMultiUp}
+            onClick={handleExportSheet}
             disabled={isDisabled}
             className="px-3 py-2 bg-purple-600 text-white text-sm font-medium rounded-md hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-1 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2"
-            aria-label="Download 12-up shelf tags on letter paper"
+            aria-label={`Download a sheet of ${selectedSize.name} cards`}
           >
-            {isGeneratingShelfMultiUp ? (
+            {isGeneratingSheet ? (
               <svg
                 className="animate-spin h-4 w-4"
                 xmlns="http://www.w3.org/2000/svg"
@@ -323,19 +657,58 @@ export const PDFExporter = memo(function PDFExporter({
                     d="M4 5a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1V5zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1V5zM4 15a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1v-4zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1v-4z"
                   />
                 </svg>
-                Shelf 12-up
+                Sheet
               </>
             )}
           </button>
+        </div>
+        <p className="text-xs text-gray-500 text-center">
+          Multi-up sheet of the selected size in the chosen profile
+        </p>
 
-          {/* Multi-up Price Cards Button */}
+        {/* Image Export */}
+        <div className="flex gap-2">
+          <div className="flex-1">
+            <label htmlFor={`${baseId}-image-format`} className="sr-only">
+              Image format
+            </label>
+            <select
+              id={`${baseId}-image-format`}
+              value={imageFormat}
+              onChange={(e) => setImageFormat(e.target.value as ImageFormat)}
+              className="w-full px-2 py-2 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-teal-500"
+            >
+              {Object.entries(IMAGE_FORMATS).map(([id, format]) => (
+                <option key={id} value={id}>
+                  {format.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex-1">
+            <label htmlFor={`${baseId}-image-dpi`} className="sr-only">
+              Image resolution
+            </label>
+            <select
+              id={`${baseId}-image-dpi`}
+              value={imageDpi}
+              onChange={(e) => setImageDpi(Number(e.target.value))}
+              className="w-full px-2 py-2 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-teal-500"
+            >
+              {IMAGE_DPI_OPTIONS.map((dpi) => (
+                <option key={dpi} value={dpi}>
+                  {dpi} dpi
+                </option>
+              ))}
+            </select>
+          </div>
           <button
-            onClick={handleExportPriceMultiUp}
+            onClick={handleExportImage}
             disabled={isDisabled}
-            className="px-3 py-2 bg-purple-600 text-white text-sm font-medium rounded-md hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-1 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2"
-            aria-label="Download 2-up price cards on letter paper"
+            className="px-3 py-2 bg-teal-600 text-white text-sm font-medium rounded-md hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-1 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2"
+            aria-label={`Download ${selectedSize.name} as ${IMAGE_FORMATS[imageFormat].name}`}
           >
-            {isGeneratingPriceMultiUp ? (
+            {isGeneratingImage ? (
               <svg
                 className="animate-spin h-4 w-4"
                 xmlns="http://www.w3.org/2000/svg"
@@ -370,24 +743,41 @@ export const PDFExporter = memo(function PDFExporter({
                     strokeLinecap="round"
                     strokeLinejoin="round"
                     strokeWidth={2}
-                    d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7"
+                    d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
                   />
                 </svg>
-                Price 2-up
+                Image
               </>
             )}
           </button>
         </div>
-        <p className="text-xs text-gray-500 text-center">
-          Multi-up on letter paper with crop marks
-        </p>
+        <label className="flex items-center justify-center gap-2 text-xs text-gray-500">
+          <input
+            type="checkbox"
+            checked={transparentBackground && IMAGE_FORMATS[imageFormat].supportsTransparency}
+            disabled={!IMAGE_FORMATS[imageFormat].supportsTransparency}
+            onChange={(e) => setTransparentBackground(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Transparent background
+        </label>
+
+        {/* Vector Export */}
+        <button
+          onClick={handleExportSvg}
+          disabled={isDisabled}
+          className="w-full px-4 py-2 text-sm font-medium text-teal-700 border border-teal-600 rounded-md hover:bg-teal-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2"
+          aria-label={`Download ${selectedSize.name} as SVG`}
+        >
+          {isGeneratingSvg ? 'Generating...' : 'Download SVG (vector)'}
+        </button>
 
         {/* Batch Export Button */}
         <button
           onClick={handleExportAll}
           disabled={isDisabled}
           className="w-full px-4 py-3 bg-green-600 text-white font-medium rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2"
-          aria-label="Download all three card sizes"
+          aria-label="Download all card sizes"
         >
           {isGeneratingAll ? (
             <>
@@ -412,7 +802,7 @@ export const PDFExporter = memo(function PDFExporter({
                   d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                 />
               </svg>
-              Generating {batchProgress} of {ALL_SIZES.length}...
+              Generating {batchProgress} of {sizeOptions.length}...
             </>
           ) : (
             <>
@@ -435,7 +825,7 @@ export const PDFExporter = memo(function PDFExporter({
           )}
         </button>
         <p className="text-xs text-gray-500 text-center">
-          Downloads Shelf Tag, Price Card, and Poster
+          Downloads {sizeOptions.map((size) => size.name).join(', ')}
         </p>
 
         {/* Email Button */}
@@ -443,7 +833,7 @@ export const PDFExporter = memo(function PDFExporter({
           onClick={handlePrepareEmail}
           disabled={isDisabled}
           className="w-full px-4 py-3 bg-orange-500 text-white font-medium rounded-md hover:bg-orange-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:ring-offset-2"
-          aria-label={`Email ${CARD_SIZES[cardSize].name} PDF`}
+          aria-label={`Email ${selectedSize.name} PDF`}
         >
           {isPreparingEmail ? (
             <>
@@ -486,12 +876,23 @@ export const PDFExporter = memo(function PDFExporter({
                   d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z"
                 />
               </svg>
-              Email {CARD_SIZES[cardSize].name}
+              Email {selectedSize.name}
             </>
           )}
         </button>
       </div>
 
+      {exportWarnings.length > 0 && (
+        <div className="mt-3 text-xs text-amber-700" role="status">
+          <p className="font-medium">Exported with warnings:</p>
+          <ul className="list-disc pl-4">
+            {exportWarnings.map((message) => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Email Dialog */}
       <EmailDialog
         isOpen={emailDialogOpen}
@@ -501,7 +902,7 @@ export const PDFExporter = memo(function PDFExporter({
         }}
         config={config}
         pdfDoc={currentPdf}
-        cardSize={CARD_SIZES[cardSize].name}
+        cardSize={selectedSize.name}
       />
     </div>
   );
@@ -5,8 +5,43 @@
 
 import { useState, useId, memo } from 'react';
 import { useShallow } from 'zustand/react/shallow';
-import { usePrintQueueStore, useBrandIconsStore } from '../stores';
-import { CardSize, CARD_SIZES, formatPrice } from '../types';
+import {
+  usePrintQueueStore,
+  useBrandIconsStore,
+  useFontsStore,
+  useCardSizesStore,
+  useSheetProfilesStore,
+  useCardBacksStore,
+  useCardDesignsStore,
+  useSpecAbbreviationsStore,
+  useSpecVisibilityStore,
+  useCustomFieldsStore,
+  PrintQueueOutput,
+  PrintQueueItem,
+  PrintQueueItemStatus,
+} from '../stores';
+import { CardSize, formatPrice } from '../types';
+import { getCardSizeOptions, formatCardSizeDimensions } from '../utils/cardSizes';
+import { BUILT_IN_SHEET_PROFILES, getSheetProfile, SheetFillOrder } from '../utils/imposition';
+import {
+  DEFAULT_IMAGE_EXPORT,
+  IMAGE_DPI_OPTIONS,
+  IMAGE_FORMATS,
+  ImageFormat,
+} from '../utils/imageExport';
+
+const OUTPUT_HINTS: Record<PrintQueueOutput, string> = {
+  merged: 'Pending items will be downloaded as one PDF; multi-up items are packed onto sheets',
+  zip: 'Pending items will be downloaded as a ZIP with one PDF per item and size, plus a manifest',
+  images:
+    'Pending items will be downloaded as a ZIP with one image per item and size, plus a manifest',
+};
+
+const STATUS_STYLES: Record<PrintQueueItemStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-gray-200 text-gray-600' },
+  done: { label: 'Done', className: 'bg-green-100 text-green-700' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-700' },
+};
 
 export const PrintQueue = memo(function PrintQueue() {
   // Use shallow selectors to prevent unnecessary re-renders
@@ -15,8 +50,10 @@ export const PrintQueue = memo(function PrintQueue() {
     isProcessing,
     progress,
     error,
+    updateItem,
     removeFromQueue,
     clearQueue,
+    clearCompleted,
     reorderQueue,
     processQueue,
     cancelProcessing,
@@ -27,8 +64,10 @@ export const PrintQueue = memo(function PrintQueue() {
       isProcessing: state.isProcessing,
       progress: state.progress,
       error: state.error,
+      updateItem: state.updateItem,
       removeFromQueue: state.removeFromQueue,
       clearQueue: state.clearQueue,
+      clearCompleted: state.clearCompleted,
       reorderQueue: state.reorderQueue,
       processQueue: state.processQueue,
       cancelProcessing: state.cancelProcessing,
@@ -37,9 +76,25 @@ export const PrintQueue = memo(function PrintQueue() {
   );
 
   const brandIcons = useBrandIconsStore((state) => state.icons);
+  const customFonts = useFontsStore((state) => state.fonts);
+  const customSizes = useCardSizesStore((state) => state.sizes);
+  const sheetProfiles = useSheetProfilesStore((state) => state.profiles);
+  const cardBacks = useCardBacksStore(
+    useShallow((state) => ({ sizes: state.sizes, flip: state.flip }))
+  );
+  const designs = useCardDesignsStore(useShallow((state) => state.getActiveDesigns()));
+  const abbreviations = useSpecAbbreviationsStore(
+    useShallow((state) => ({ sizes: state.sizes, categories: state.categories }))
+  );
+  const specVisibility = useSpecVisibilityStore((state) => state.defaults);
+  const customFields = useCustomFieldsStore((state) => state.fields);
   const baseId = useId();
 
-  const [cardSize, setCardSize] = useState<CardSize>('price');
+  const [output, setOutput] = useState<PrintQueueOutput>('merged');
+  const [sheetProfileId, setSheetProfileId] = useState(BUILT_IN_SHEET_PROFILES[0].id);
+  const [fillOrder, setFillOrder] = useState<SheetFillOrder>('grouped');
+  const [imageFormat, setImageFormat] = useState<ImageFormat>(DEFAULT_IMAGE_EXPORT.format);
+  const [imageDpi, setImageDpi] = useState(DEFAULT_IMAGE_EXPORT.dpi!);
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
 
   const handleDragStart = (index: number) => {
@@ -59,9 +114,42 @@ export const PrintQueue = memo(function PrintQueue() {
   };
 
   const handleProcess = async () => {
-    await processQueue(cardSize, brandIcons);
+    await processQueue(brandIcons, customFonts, customSizes, {
+      output,
+      sheetProfile: getSheetProfile(sheetProfileId, sheetProfiles),
+      fillOrder,
+      image: { format: imageFormat, dpi: imageDpi },
+      cardBacks,
+      designs,
+      abbreviations,
+      specVisibility,
+      customFields,
+    });
+  };
+
+  const toggleCardSize = (item: PrintQueueItem, size: CardSize) => {
+    const cardSizes = item.cardSizes.includes(size)
+      ? item.cardSizes.filter((s) => s !== size)
+      : [...item.cardSizes, size];
+    // Keep at least one size selected
+    if (cardSizes.length > 0) {
+      updateItem(item.id, { cardSizes });
+    }
   };
 
+  const sizeOptions = getCardSizeOptions(customSizes);
+  const remaining = queue.filter((item) => item.status !== 'done');
+  const failedCount = queue.filter((item) => item.status === 'failed').length;
+  const doneCount = queue.length - remaining.length;
+  const hasMultiUp = remaining.some((item) => item.multiUp);
+  const itemCount = `${remaining.length} item${remaining.length === 1 ? '' : 's'}`;
+
+  let downloadLabel =
+    output === 'merged' ? `Download PDF (${itemCount})` : `Download ZIP (${itemCount})`;
+  if (remaining.length > 0 && failedCount === remaining.length) {
+    downloadLabel = `Retry ${failedCount} Failed`;
+  }
+
   if (queue.length === 0 && !isProcessing) {
     return null;
   }
@@ -94,13 +182,24 @@ export const PrintQueue = memo(function PrintQueue() {
           Print Queue ({queue.length})
         </h2>
         {queue.length > 0 && !isProcessing && (
-          <button
-            onClick={clearQueue}
-            className="text-xs text-gray-500 hover:text-red-600 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-1 rounded px-1"
-            aria-label="Clear all items from print queue"
-          >
-            Clear All
-          </button>
+          <div className="flex items-center gap-2">
+            {doneCount > 0 && (
+              <button
+                onClick={clearCompleted}
+                className="text-xs text-gray-500 hover:text-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-1 rounded px-1"
+                aria-label="Remove printed items from print queue"
+              >
+                Clear Done
+              </button>
+            )}
+            <button
+              onClick={clearQueue}
+              className="text-xs text-gray-500 hover:text-red-600 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-1 rounded px-1"
+              aria-label="Clear all items from print queue"
+            >
+              Clear All
+            </button>
+          </div>
         )}
       </div>
 
@@ -171,97 +270,260 @@ export const PrintQueue = memo(function PrintQueue() {
         </div>
       )}
 
-      {/* Card size selector */}
+      {/* Output selector */}
       {!isProcessing && queue.length > 0 && (
-        <div className="mb-3">
-          <label
-            htmlFor={`${baseId}-card-size`}
-            className="block text-xs font-medium text-gray-600 mb-1"
-          >
-            Card Size
-          </label>
-          <select
-            id={`${baseId}-card-size`}
-            value={cardSize}
-            onChange={(e) => setCardSize(e.target.value as CardSize)}
-            className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-purple-500"
-          >
-            {Object.entries(CARD_SIZES).map(([key, size]) => (
-              <option key={key} value={key}>
-                {size.name} ({size.width}×{size.height} {size.unit})
-              </option>
-            ))}
-          </select>
+        <div className="mb-3 space-y-2">
+          <div>
+            <label
+              htmlFor={`${baseId}-output`}
+              className="block text-xs font-medium text-gray-600 mb-1"
+            >
+              Output
+            </label>
+            <select
+              id={`${baseId}-output`}
+              value={output}
+              onChange={(e) => setOutput(e.target.value as PrintQueueOutput)}
+              className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              <option value="merged">Single combined PDF</option>
+              <option value="zip">ZIP of PDFs + manifest</option>
+              <option value="images">ZIP of images + manifest</option>
+            </select>
+          </div>
+
+          {output === 'images' && (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label
+                  htmlFor={`${baseId}-image-format`}
+                  className="block text-xs font-medium text-gray-600 mb-1"
+                >
+                  Format
+                </label>
+                <select
+                  id={`${baseId}-image-format`}
+                  value={imageFormat}
+                  onChange={(e) => setImageFormat(e.target.value as ImageFormat)}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                >
+                  {Object.entries(IMAGE_FORMATS).map(([id, format]) => (
+                    <option key={id} value={id}>
+                      {format.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label
+                  htmlFor={`${baseId}-image-dpi`}
+                  className="block text-xs font-medium text-gray-600 mb-1"
+                >
+                  Resolution
+                </label>
+                <select
+                  id={`${baseId}-image-dpi`}
+                  value={imageDpi}
+                  onChange={(e) => setImageDpi(Number(e.target.value))}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                >
+                  {IMAGE_DPI_OPTIONS.map((dpi) => (
+                    <option key={dpi} value={dpi}>
+                      {dpi} dpi
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          {hasMultiUp && output !== 'images' && (
+            <>
+              <div>
+                <label
+                  htmlFor={`${baseId}-sheet-profile`}
+                  className="block text-xs font-medium text-gray-600 mb-1"
+                >
+                  Sheet
+                </label>
+                <select
+                  id={`${baseId}-sheet-profile`}
+                  value={sheetProfileId}
+                  onChange={(e) => setSheetProfileId(e.target.value)}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                >
+                  <optgroup label="Built-in">
+                    {BUILT_IN_SHEET_PROFILES.map((profile) => (
+                      <option key={profile.id} value={profile.id}>
+                        {profile.name}
+                      </option>
+                    ))}
+                  </optgroup>
+                  {sheetProfiles.length > 0 && (
+                    <optgroup label="Custom">
+                      {sheetProfiles.map((profile) => (
+                        <option key={profile.id} value={profile.id}>
+                          {profile.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                  )}
+                </select>
+              </div>
+              <div>
+                <label
+                  htmlFor={`${baseId}-fill-order`}
+                  className="block text-xs font-medium text-gray-600 mb-1"
+                >
+                  Fill Order
+                </label>
+                <select
+                  id={`${baseId}-fill-order`}
+                  value={fillOrder}
+                  onChange={(e) => setFillOrder(e.target.value as SheetFillOrder)}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                >
+                  <option value="grouped">Grouped (AA BB)</option>
+                  <option value="collated">Collated (AB AB)</option>
+                </select>
+              </div>
+            </>
+          )}
         </div>
       )}
 
       {/* Queue list */}
       {queue.length > 0 && !isProcessing && (
         <ul
-          className="space-y-1 mb-3 max-h-48 overflow-y-auto"
+          className="space-y-1 mb-3 max-h-96 overflow-y-auto"
           role="list"
           aria-label="Presets in print queue"
         >
-          {queue.map((preset, index) => (
-            <li
-              key={preset.id}
-              draggable
-              onDragStart={() => handleDragStart(index)}
-              onDragOver={(e) => handleDragOver(e, index)}
-              onDragEnd={handleDragEnd}
-              className={`flex items-center gap-2 p-2 bg-gray-50 rounded-md cursor-move hover:bg-gray-100 transition-colors ${
-                draggedIndex === index ? 'opacity-50' : ''
-              }`}
-              aria-label={`${preset.name}${preset.config.price > 0 ? `, ${formatPrice(preset.config.price)}` : ''}. Drag to reorder.`}
-            >
-              {/* Drag handle */}
-              <div className="text-gray-400" aria-hidden="true">
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M4 8h16M4 16h16"
-                  />
-                </svg>
-              </div>
+          {queue.map((item, index) => {
+            const { preset } = item;
+            const status = STATUS_STYLES[item.status];
+            return (
+              <li
+                key={item.id}
+                draggable
+                onDragStart={() => handleDragStart(index)}
+                onDragOver={(e) => handleDragOver(e, index)}
+                onDragEnd={handleDragEnd}
+                className={`p-2 bg-gray-50 rounded-md cursor-move hover:bg-gray-100 transition-colors ${
+                  draggedIndex === index ? 'opacity-50' : ''
+                }`}
+                aria-label={`${preset.name}${preset.config.price > 0 ? `, ${formatPrice(preset.config.price)}` : ''}, ${status.label}. Drag to reorder.`}
+              >
+                <div className="flex items-center gap-2">
+                  {/* Drag handle */}
+                  <div className="text-gray-400" aria-hidden="true">
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M4 8h16M4 16h16"
+                      />
+                    </svg>
+                  </div>
+
+                  {/* Preset info */}
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-gray-700 truncate">{preset.name}</div>
+                    {preset.config.price > 0 && (
+                      <div className="text-xs text-gray-500">
+                        {formatPrice(preset.config.price)}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Status */}
+                  <span
+                    className={`px-1.5 py-0.5 text-xs rounded ${status.className}`}
+                    title={item.error}
+                  >
+                    {status.label}
+                  </span>
+
+                  {/* Remove button */}
+                  <button
+                    onClick={() => removeFromQueue(item.id)}
+                    className="p-1 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded focus:outline-none focus:ring-2 focus:ring-red-500"
+                    aria-label={`Remove ${preset.name} from queue`}
+                  >
+                    <svg
+                      className="w-4 h-4"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                      aria-hidden="true"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M6 18L18 6M6 6l12 12"
+                      />
+                    </svg>
+                  </button>
+                </div>
 
-              {/* Preset info */}
-              <div className="flex-1 min-w-0">
-                <div className="text-sm font-medium text-gray-700 truncate">{preset.name}</div>
-                {preset.config.price > 0 && (
-                  <div className="text-xs text-gray-500">{formatPrice(preset.config.price)}</div>
+                {item.status === 'failed' && item.error && (
+                  <div className="mt-1 ml-6 text-xs text-red-600">{item.error}</div>
                 )}
-              </div>
 
-              {/* Remove button */}
-              <button
-                onClick={() => removeFromQueue(preset.id)}
-                className="p-1 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded focus:outline-none focus:ring-2 focus:ring-red-500"
-                aria-label={`Remove ${preset.name} from queue`}
-              >
-                <svg
-                  className="w-4 h-4"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                  aria-hidden="true"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M6 18L18 6M6 6l12 12"
-                  />
-                </svg>
-              </button>
-            </li>
-          ))}
+                {/* Per-item print settings */}
+                <div className="mt-1 ml-6 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-600">
+                  <fieldset className="flex flex-wrap gap-x-2">
+                    <legend className="sr-only">Card sizes for {preset.name}</legend>
+                    {sizeOptions.map((size) => (
+                      <label key={size.id} className="flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          checked={item.cardSizes.includes(size.id)}
+                          onChange={() => toggleCardSize(item, size.id)}
+                          title={formatCardSizeDimensions(size.width, size.height, 'in')}
+                          className="w-3 h-3 text-purple-600 rounded focus:ring-purple-500"
+                        />
+                        {size.name}
+                      </label>
+                    ))}
+                  </fieldset>
+                  <label className="flex items-center gap-1">
+                    Copies
+                    <input
+                      type="number"
+                      min={1}
+                      max={99}
+                      value={item.copies}
+                      onChange={(e) =>
+                        updateItem(item.id, {
+                          copies: Math.max(1, parseInt(e.target.value, 10) || 1),
+                        })
+                      }
+                      aria-label={`Copies of ${preset.name}`}
+                      className="w-12 px-1 py-0.5 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    />
+                  </label>
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={item.multiUp}
+                      onChange={(e) => updateItem(item.id, { multiUp: e.target.checked })}
+                      aria-label={`Print ${preset.name} multi-up`}
+                      className="w-3 h-3 text-purple-600 rounded focus:ring-purple-500"
+                    />
+                    Multi-up
+                  </label>
+                </div>
+              </li>
+            );
+          })}
         </ul>
       )}
 
       {/* Process button */}
-      {queue.length > 0 && !isProcessing && (
+      {remaining.length > 0 && !isProcessing && (
         <button
           onClick={handleProcess}
           className="w-full px-4 py-2 text-sm bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors flex items-center justify-center gap-2 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2"
@@ -281,11 +543,11 @@ export const PrintQueue = memo(function PrintQueue() {
               d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
             />
           </svg>
-          Download {queue.length} PDF{queue.length > 1 ? 's' : ''}
+          {downloadLabel}
         </button>
       )}
       <span id={`${baseId}-download-hint`} className="sr-only">
-        Downloads will be generated with the selected card size
+        {OUTPUT_HINTS[output]}
       </span>
     </div>
   );
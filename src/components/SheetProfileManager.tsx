@@ -0,0 +1,474 @@
+/**
+ * SheetProfileManager - Create and calibrate multi-up sheet profiles
+ * Profiles appear in the Export PDF sheet picker
+ */
+
+import { useState, useId, memo } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useSheetProfilesStore } from '../stores';
+import type { CardOrientation, CardSizeUnit } from '../types';
+import {
+  BUILT_IN_SHEET_PROFILES,
+  PAPER_SIZES,
+  PaperSizeId,
+  SheetProfile,
+  getSheetProfile,
+} from '../utils/imposition';
+import { toInches } from '../utils/cardSizes';
+
+/** Editable form values, as strings in the chosen unit */
+interface ProfileForm {
+  name: string;
+  paper: PaperSizeId;
+  orientation: CardOrientation;
+  autoMargins: boolean;
+  marginTop: string;
+  marginRight: string;
+  marginBottom: string;
+  marginLeft: string;
+  gutterX: string;
+  gutterY: string;
+  cols: string;
+  rows: string;
+  useSlot: boolean;
+  slotWidth: string;
+  slotHeight: string;
+  rotate: boolean;
+  cropMarks: boolean;
+  bleed: string;
+  offsetX: string;
+  offsetY: string;
+}
+
+type LengthField = Exclude<
+  keyof ProfileForm,
+  | 'name'
+  | 'paper'
+  | 'orientation'
+  | 'autoMargins'
+  | 'useSlot'
+  | 'rotate'
+  | 'cropMarks'
+  | 'cols'
+  | 'rows'
+>;
+
+const LENGTH_FIELDS: Array<{ key: LengthField; label: string }> = [
+  { key: 'gutterX', label: 'Gutter X' },
+  { key: 'gutterY', label: 'Gutter Y' },
+  { key: 'bleed', label: 'Bleed' },
+  { key: 'offsetX', label: 'Offset X' },
+  { key: 'offsetY', label: 'Offset Y' },
+];
+
+const MARGIN_FIELDS: Array<{ key: LengthField; label: string }> = [
+  { key: 'marginTop', label: 'Top' },
+  { key: 'marginRight', label: 'Right' },
+  { key: 'marginBottom', label: 'Bottom' },
+  { key: 'marginLeft', label: 'Left' },
+];
+
+function fromInches(value: number, unit: CardSizeUnit): string {
+  return String(
+    unit === 'mm' ? Math.round(value * 25.4 * 100) / 100 : Math.round(value * 1000) / 1000
+  );
+}
+
+function profileToForm(profile: SheetProfile, unit: CardSizeUnit, name: string): ProfileForm {
+  const length = (value: number | undefined) => fromInches(value ?? 0, unit);
+  return {
+    name,
+    paper: profile.paper,
+    orientation: profile.orientation,
+    autoMargins: !profile.margins,
+    marginTop: length(profile.margins?.top),
+    marginRight: length(profile.margins?.right),
+    marginBottom: length(profile.margins?.bottom),
+    marginLeft: length(profile.margins?.left),
+    gutterX: length(profile.gutterX),
+    gutterY: length(profile.gutterY),
+    cols: String(profile.cols ?? 0),
+    rows: String(profile.rows ?? 0),
+    useSlot: !!profile.slot,
+    slotWidth: length(profile.slot?.width),
+    slotHeight: length(profile.slot?.height),
+    rotate: profile.rotate,
+    cropMarks: profile.cropMarks,
+    bleed: length(profile.bleed),
+    offsetX: length(profile.offsetX),
+    offsetY: length(profile.offsetY),
+  };
+}
+
+function formToProfile(form: ProfileForm, unit: CardSizeUnit): Omit<SheetProfile, 'id'> {
+  const length = (value: string) => toInches(parseFloat(value) || 0, unit);
+  const count = (value: string) => Math.max(0, parseInt(value, 10) || 0) || undefined;
+  return {
+    name: form.name.trim(),
+    paper: form.paper,
+    orientation: form.orientation,
+    margins: form.autoMargins
+      ? undefined
+      : {
+          top: length(form.marginTop),
+          right: length(form.marginRight),
+          bottom: length(form.marginBottom),
+          left: length(form.marginLeft),
+        },
+    gutterX: length(form.gutterX),
+    gutterY: length(form.gutterY),
+    cols: count(form.cols),
+    rows: count(form.rows),
+    slot: form.useSlot
+      ? { width: length(form.slotWidth), height: length(form.slotHeight) }
+      : undefined,
+    rotate: form.rotate,
+    cropMarks: form.cropMarks,
+    bleed: length(form.bleed),
+    offsetX: length(form.offsetX),
+    offsetY: length(form.offsetY),
+  };
+}
+
+export const SheetProfileManager = memo(function SheetProfileManager() {
+  // Use shallow selector to prevent unnecessary re-renders
+  const { profiles, addProfile, updateProfile, removeProfile } = useSheetProfilesStore(
+    useShallow((state) => ({
+      profiles: state.profiles,
+      addProfile: state.addProfile,
+      updateProfile: state.updateProfile,
+      removeProfile: state.removeProfile,
+    }))
+  );
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [unit, setUnit] = useState<CardSizeUnit>('in');
+  const [sourceId, setSourceId] = useState(BUILT_IN_SHEET_PROFILES[0].id);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ProfileForm | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const baseId = useId();
+
+  const updateForm = <K extends keyof ProfileForm>(key: K, value: ProfileForm[K]) => {
+    setForm((prev) => (prev ? { ...prev, [key]: value } : prev));
+  };
+
+  const handleNew = () => {
+    const source = getSheetProfile(sourceId, profiles);
+    setEditingId(null);
+    setForm(profileToForm(source, unit, `${source.name} (copy)`));
+    setError(null);
+  };
+
+  const handleEdit = (profile: SheetProfile) => {
+    setEditingId(profile.id);
+    setForm(profileToForm(profile, unit, profile.name));
+    setError(null);
+  };
+
+  const handleUnitChange = (next: CardSizeUnit) => {
+    // Re-express the form's lengths in the new unit
+    if (form) {
+      setForm(profileToForm({ ...formToProfile(form, unit), id: '' }, next, form.name));
+    }
+    setUnit(next);
+  };
+
+  const handleSave = () => {
+    if (!form) return;
+    if (!form.name.trim()) {
+      setError('Enter a name for the profile');
+      return;
+    }
+    const profile = formToProfile(form, unit);
+    if (profile.slot && (profile.slot.width <= 0 || profile.slot.height <= 0)) {
+      setError('Label slots need a width and height');
+      return;
+    }
+
+    if (editingId) {
+      updateProfile(editingId, profile);
+    } else {
+      addProfile(profile);
+    }
+    setForm(null);
+    setEditingId(null);
+    setError(null);
+  };
+
+  const inputClass =
+    'w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  const renderLengthInput = ({ key, label }: { key: LengthField; label: string }) =>
+    form && (
+      <div key={key}>
+        <label htmlFor={`${baseId}-${key}`} className="block text-xs text-gray-600 mb-1">
+          {label} ({unit})
+        </label>
+        <input
+          id={`${baseId}-${key}`}
+          type="number"
+          step="any"
+          value={form[key]}
+          onChange={(e) => updateForm(key, e.target.value)}
+          className={inputClass}
+        />
+      </div>
+    );
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={isExpanded}
+        aria-controls={`${baseId}-content`}
+      >
+        <h2 className="text-lg font-semibold text-gray-800">
+          Sheet Profiles
+          <span className="ml-2 text-sm font-normal text-gray-500">({profiles.length} custom)</span>
+        </h2>
+        <svg
+          className={`w-5 h-5 text-gray-500 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+          aria-hidden="true"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isExpanded && (
+        <div id={`${baseId}-content`} className="mt-3 space-y-3">
+          <p className="text-xs text-gray-500">
+            Copy a profile to set paper, margins, gutters and label slots, or to calibrate your
+            printer&apos;s offset.
+          </p>
+
+          {/* New profile from an existing one */}
+          <div className="flex gap-2">
+            <label htmlFor={`${baseId}-source`} className="sr-only">
+              Copy from profile
+            </label>
+            <select
+              id={`${baseId}-source`}
+              value={sourceId}
+              onChange={(e) => setSourceId(e.target.value)}
+              className="flex-1 px-2 py-1.5 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {[...BUILT_IN_SHEET_PROFILES, ...profiles].map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleNew}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+            >
+              Copy
+            </button>
+          </div>
+
+          {/* Profile editor */}
+          {form && (
+            <div className="space-y-2 p-2 border border-gray-200 rounded-md">
+              <div className="flex gap-2">
+                <div className="flex-1">
+                  <label htmlFor={`${baseId}-name`} className="block text-xs text-gray-600 mb-1">
+                    Name
+                  </label>
+                  <input
+                    id={`${baseId}-name`}
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => updateForm('name', e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label htmlFor={`${baseId}-unit`} className="block text-xs text-gray-600 mb-1">
+                    Unit
+                  </label>
+                  <select
+                    id={`${baseId}-unit`}
+                    value={unit}
+                    onChange={(e) => handleUnitChange(e.target.value as CardSizeUnit)}
+                    className={`${inputClass} bg-white`}
+                  >
+                    <option value="in">in</option>
+                    <option value="mm">mm</option>
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label htmlFor={`${baseId}-paper`} className="block text-xs text-gray-600 mb-1">
+                    Paper
+                  </label>
+                  <select
+                    id={`${baseId}-paper`}
+                    value={form.paper}
+                    onChange={(e) => updateForm('paper', e.target.value as PaperSizeId)}
+                    className={`${inputClass} bg-white`}
+                  >
+                    {(Object.keys(PAPER_SIZES) as PaperSizeId[]).map((paper) => (
+                      <option key={paper} value={paper}>
+                        {PAPER_SIZES[paper].name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label
+                    htmlFor={`${baseId}-orientation`}
+                    className="block text-xs text-gray-600 mb-1"
+                  >
+                    Orientation
+                  </label>
+                  <select
+                    id={`${baseId}-orientation`}
+                    value={form.orientation}
+                    onChange={(e) => updateForm('orientation', e.target.value as CardOrientation)}
+                    className={`${inputClass} bg-white`}
+                  >
+                    <option value="portrait">Portrait</option>
+                    <option value="landscape">Landscape</option>
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor={`${baseId}-cols`} className="block text-xs text-gray-600 mb-1">
+                    Columns (0 = fit)
+                  </label>
+                  <input
+                    id={`${baseId}-cols`}
+                    type="number"
+                    min="0"
+                    value={form.cols}
+                    onChange={(e) => updateForm('cols', e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label htmlFor={`${baseId}-rows`} className="block text-xs text-gray-600 mb-1">
+                    Rows (0 = fit)
+                  </label>
+                  <input
+                    id={`${baseId}-rows`}
+                    type="number"
+                    min="0"
+                    value={form.rows}
+                    onChange={(e) => updateForm('rows', e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+                {LENGTH_FIELDS.map(renderLengthInput)}
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.autoMargins}
+                  onChange={(e) => updateForm('autoMargins', e.target.checked)}
+                />
+                Centre grid on the page
+              </label>
+              {!form.autoMargins && (
+                <div className="grid grid-cols-4 gap-2">{MARGIN_FIELDS.map(renderLengthInput)}</div>
+              )}
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.useSlot}
+                  onChange={(e) => updateForm('useSlot', e.target.checked)}
+                />
+                Pre-cut label stock (fixed slot size)
+              </label>
+              {form.useSlot && (
+                <div className="grid grid-cols-2 gap-2">
+                  {renderLengthInput({ key: 'slotWidth', label: 'Slot width' })}
+                  {renderLengthInput({ key: 'slotHeight', label: 'Slot height' })}
+                </div>
+              )}
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.rotate}
+                  onChange={(e) => updateForm('rotate', e.target.checked)}
+                />
+                Rotate cards 90°
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.cropMarks}
+                  onChange={(e) => updateForm('cropMarks', e.target.checked)}
+                />
+                Crop marks
+              </label>
+
+              {error && (
+                <p className="text-xs text-red-600" role="alert">
+                  {error}
+                </p>
+              )}
+
+              <div className="flex gap-2">
+                <button
+                  onClick={handleSave}
+                  className="flex-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+                >
+                  {editingId ? 'Save Profile' : 'Add Profile'}
+                </button>
+                <button
+                  onClick={() => setForm(null)}
+                  className="px-3 py-1.5 text-sm text-gray-600 border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-400"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Custom profiles list */}
+          {profiles.length > 0 && (
+            <ul className="space-y-1" aria-label="Custom sheet profiles">
+              {profiles.map((profile) => (
+                <li
+                  key={profile.id}
+                  className="flex items-center justify-between px-2 py-1.5 bg-gray-50 rounded-md"
+                >
+                  <span className="text-sm text-gray-800 truncate">
+                    {profile.name}
+                    <span className="ml-2 text-xs text-gray-400">
+                      {PAPER_SIZES[profile.paper].name}
+                    </span>
+                  </span>
+                  <span className="flex gap-2">
+                    <button
+                      onClick={() => handleEdit(profile)}
+                      className="text-xs text-blue-600 hover:text-blue-800 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+                      aria-label={`Edit ${profile.name} profile`}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => removeProfile(profile.id)}
+                      className="text-xs text-red-600 hover:text-red-800 focus:outline-none focus:ring-2 focus:ring-red-500 rounded"
+                      aria-label={`Remove ${profile.name} profile`}
+                    >
+                      Remove
+                    </button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
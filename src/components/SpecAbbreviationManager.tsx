@@ -0,0 +1,240 @@
+/**
+ * SpecAbbreviationManager - Edit the rules that shorten spec values on small cards
+ * Shows each component of the current build next to its shortened form
+ */
+
+import { useState, useId, useMemo, memo } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useSpecAbbreviationsStore } from '../stores';
+import type { BrandIcon, ComponentCategory, CustomCardSize, PrebuildConfig } from '../types';
+import { COMPONENT_LABELS } from '../types';
+import { getCardSizeOptions } from '../utils/cardSizes';
+import { findBrandIcon } from '../utils/brandDetection';
+import { abbreviateSpec, AbbreviationRuleKind } from '../utils/specAbbreviations';
+
+interface SpecAbbreviationManagerProps {
+  config: PrebuildConfig;
+  brandIcons: BrandIcon[];
+  customSizes?: CustomCardSize[];
+}
+
+const RULE_LISTS: Array<{ kind: AbbreviationRuleKind; title: string; hint: string }> = [
+  { kind: 'tokens', title: 'Words', hint: 'Replaced wherever they appear as a whole word' },
+  { kind: 'suffixes', title: 'Endings', hint: 'Replaced only at the end of the value' },
+];
+
+const EMPTY_SIZES: CustomCardSize[] = [];
+
+export const SpecAbbreviationManager = memo(function SpecAbbreviationManager({
+  config,
+  brandIcons,
+  customSizes = EMPTY_SIZES,
+}: SpecAbbreviationManagerProps) {
+  const {
+    sizes,
+    categories,
+    setSizeEnabled,
+    setStripVendor,
+    addRule,
+    updateRule,
+    removeRule,
+    resetCategory,
+  } = useSpecAbbreviationsStore(
+    useShallow((state) => ({
+      sizes: state.sizes,
+      categories: state.categories,
+      setSizeEnabled: state.setSizeEnabled,
+      setStripVendor: state.setStripVendor,
+      addRule: state.addRule,
+      updateRule: state.updateRule,
+      removeRule: state.removeRule,
+      resetCategory: state.resetCategory,
+    }))
+  );
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [category, setCategory] = useState<ComponentCategory>('gpu');
+  const baseId = useId();
+
+  const sizeOptions = useMemo(() => getCardSizeOptions(customSizes), [customSizes]);
+  const rules = categories[category];
+
+  // Each component of the build, full and shortened
+  const previews = useMemo(
+    () =>
+      (Object.keys(COMPONENT_LABELS) as ComponentCategory[])
+        .filter((key) => config.components[key])
+        .map((key) => {
+          const value = config.components[key];
+          const vendor = findBrandIcon(value, brandIcons)?.name;
+          return { key, value, short: abbreviateSpec(value, categories[key], vendor) };
+        }),
+    [config.components, brandIcons, categories]
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={isExpanded}
+        aria-controls={`${baseId}-content`}
+      >
+        <h2 className="text-lg font-semibold text-gray-800">
+          Spec Abbreviations
+          <span className="ml-2 text-sm font-normal text-gray-500">
+            ({sizes.length} {sizes.length === 1 ? 'size' : 'sizes'})
+          </span>
+        </h2>
+        <svg
+          className={`w-5 h-5 text-gray-500 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+          aria-hidden="true"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isExpanded && (
+        <div id={`${baseId}-content`} className="mt-3 space-y-3">
+          <p className="text-xs text-gray-500">
+            Shorten component names on small cards, e.g. &quot;NVIDIA GeForce RTX 4070 Ti
+            Super&quot; to &quot;RTX 4070 Ti S&quot;.
+          </p>
+
+          {/* Sizes the rules are used on */}
+          <fieldset>
+            <legend className="block text-xs font-medium text-gray-700 mb-1">Use on</legend>
+            <div className="flex flex-wrap gap-x-3 gap-y-1">
+              {sizeOptions.map((size) => (
+                <label key={size.id} className="flex items-center gap-1 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={sizes.includes(size.id)}
+                    onChange={(e) => setSizeEnabled(size.id, e.target.checked)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  {size.name}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          {/* Rules of one category */}
+          <div>
+            <label
+              htmlFor={`${baseId}-category`}
+              className="block text-xs font-medium text-gray-700 mb-1"
+            >
+              Component
+            </label>
+            <select
+              id={`${baseId}-category`}
+              value={category}
+              onChange={(e) => setCategory(e.target.value as ComponentCategory)}
+              className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(COMPONENT_LABELS) as ComponentCategory[]).map((key) => (
+                <option key={key} value={key}>
+                  {COMPONENT_LABELS[key]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={rules.stripVendor}
+              onChange={(e) => setStripVendor(category, e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Drop the brand name when its icon is shown
+          </label>
+
+          {RULE_LISTS.map(({ kind, title, hint }) => (
+            <div key={kind}>
+              <p className="text-xs font-medium text-gray-700">{title}</p>
+              <p className="text-xs text-gray-500 mb-1">{hint}</p>
+              <ul className="space-y-1">
+                {rules[kind].map((rule, index) => (
+                  <li key={index} className="flex items-center gap-1">
+                    <input
+                      type="text"
+                      value={rule.find}
+                      onChange={(e) => updateRule(category, kind, index, { find: e.target.value })}
+                      placeholder="Find"
+                      aria-label={`${title} ${index + 1} find`}
+                      className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <span className="text-gray-400" aria-hidden="true">
+                      →
+                    </span>
+                    <input
+                      type="text"
+                      value={rule.replace}
+                      onChange={(e) =>
+                        updateRule(category, kind, index, { replace: e.target.value })
+                      }
+                      placeholder="(remove)"
+                      aria-label={`${title} ${index + 1} replace with`}
+                      className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <button
+                      onClick={() => removeRule(category, kind, index)}
+                      className="px-1.5 text-red-500 hover:text-red-700"
+                      aria-label={`Remove ${title.toLowerCase()} rule ${index + 1}`}
+                    >
+                      ×
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <button
+                onClick={() => addRule(category, kind)}
+                className="mt-1 text-xs text-blue-600 hover:text-blue-800"
+              >
+                + Add {title.toLowerCase().replace(/s$/, '')}
+              </button>
+            </div>
+          ))}
+
+          <button
+            onClick={() => resetCategory(category)}
+            className="text-xs text-gray-500 hover:text-gray-700 underline"
+          >
+            Reset {COMPONENT_LABELS[category]} rules
+          </button>
+
+          {/* Preview against the current build */}
+          <div>
+            <p className="text-xs font-medium text-gray-700 mb-1">Preview</p>
+            {previews.length === 0 ? (
+              <p className="text-xs text-gray-500">Add components to see them shortened.</p>
+            ) : (
+              <ul className="space-y-0.5 text-xs" aria-label="Abbreviation preview">
+                {previews.map(({ key, value, short }) => (
+                  <li key={key} className="flex gap-1">
+                    <span className="font-medium text-gray-700 w-20 flex-shrink-0">
+                      {COMPONENT_LABELS[key]}
+                    </span>
+                    <span className="text-gray-500 truncate" title={value}>
+                      {value}
+                    </span>
+                    <span className="text-gray-400" aria-hidden="true">
+                      →
+                    </span>
+                    <span className="text-gray-900 font-medium">{short}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default SpecAbbreviationManager;
@@ -0,0 +1,233 @@
+/**
+ * SpecVisibilityManager - Choose which specs and info bar items each card
+ * size shows, their order and labels, for all builds or just this one
+ */
+
+import { useState, useId, useMemo, memo } from 'react';
+import { useConfigStore, useCustomFieldsStore, useSpecVisibilityStore } from '../stores';
+import type {
+  CardSize,
+  CustomCardSize,
+  DisplayedItem,
+  InfoListKey,
+  PrebuildConfig,
+  SizeSpecVisibility,
+  SpecListKey,
+} from '../types';
+import { getCardSizeOptions, resolveCardSize } from '../utils/cardSizes';
+import { getDefaultItemLabel, getSizeSpecVisibility, moveItem } from '../utils/specVisibility';
+
+interface SpecVisibilityManagerProps {
+  config: PrebuildConfig;
+  cardSize: CardSize;
+  customSizes?: CustomCardSize[];
+}
+
+type Scope = 'default' | 'build';
+
+type ListKind = keyof SizeSpecVisibility;
+
+type ListItem = DisplayedItem<SpecListKey | InfoListKey>;
+
+const LIST_TITLES: Record<ListKind, string> = {
+  specs: 'Specs',
+  info: 'Info bar',
+};
+
+const EMPTY_SIZES: CustomCardSize[] = [];
+
+export const SpecVisibilityManager = memo(function SpecVisibilityManager({
+  config,
+  cardSize,
+  customSizes = EMPTY_SIZES,
+}: SpecVisibilityManagerProps) {
+  const defaults = useSpecVisibilityStore((state) => state.defaults);
+  const setSizeVisibility = useSpecVisibilityStore((state) => state.setSizeVisibility);
+  const resetSize = useSpecVisibilityStore((state) => state.resetSize);
+  const setSpecVisibility = useConfigStore((state) => state.setSpecVisibility);
+  const customFields = useCustomFieldsStore((state) => state.fields);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [selectedSize, setSelectedSize] = useState<CardSize>(cardSize);
+  const [scope, setScope] = useState<Scope>('default');
+  const baseId = useId();
+
+  const sizeOptions = useMemo(() => getCardSizeOptions(customSizes), [customSizes]);
+  const { baseSize } = resolveCardSize(selectedSize, customSizes);
+  const buildLists = scope === 'build' ? config.specVisibility : undefined;
+  const visibility = getSizeSpecVisibility(
+    selectedSize,
+    baseSize,
+    [buildLists, defaults],
+    customFields
+  );
+  const isCustomized =
+    scope === 'build' ? !!config.specVisibility?.[selectedSize] : !!defaults[selectedSize];
+
+  const save = (next: SizeSpecVisibility) => {
+    if (scope === 'build') {
+      setSpecVisibility({ ...config.specVisibility, [selectedSize]: next });
+    } else {
+      setSizeVisibility(selectedSize, next);
+    }
+  };
+
+  const handleReset = () => {
+    if (scope === 'default') {
+      resetSize(selectedSize);
+      return;
+    }
+    const lists = { ...config.specVisibility };
+    delete lists[selectedSize];
+    setSpecVisibility(Object.keys(lists).length > 0 ? lists : undefined);
+  };
+
+  const updateItem = (kind: ListKind, index: number, update: Partial<ListItem>) =>
+    save({
+      ...visibility,
+      [kind]: visibility[kind].map((item, i) => (i === index ? { ...item, ...update } : item)),
+    });
+
+  const move = (kind: ListKind, from: number, to: number) =>
+    save({ ...visibility, [kind]: moveItem<ListItem>(visibility[kind], from, to) });
+
+  const renderList = (kind: ListKind) => {
+    const items: ListItem[] = visibility[kind];
+    return (
+      <div>
+        <p className="text-xs font-medium text-gray-700 mb-1">{LIST_TITLES[kind]}</p>
+        <ul className="space-y-1" aria-label={LIST_TITLES[kind]}>
+          {items.map((item, index) => {
+            const defaultLabel = getDefaultItemLabel(item.key, customFields);
+            return (
+              <li key={item.key} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={item.visible}
+                  onChange={(e) => updateItem(kind, index, { visible: e.target.checked })}
+                  aria-label={`Show ${defaultLabel}`}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <input
+                  type="text"
+                  value={item.label ?? ''}
+                  onChange={(e) => updateItem(kind, index, { label: e.target.value || undefined })}
+                  placeholder={defaultLabel}
+                  aria-label={`${defaultLabel} label`}
+                  className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  onClick={() => move(kind, index, index - 1)}
+                  disabled={index === 0}
+                  className="px-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                  aria-label={`Move ${defaultLabel} up`}
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => move(kind, index, index + 1)}
+                  disabled={index === items.length - 1}
+                  className="px-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                  aria-label={`Move ${defaultLabel} down`}
+                >
+                  ↓
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={isExpanded}
+        aria-controls={`${baseId}-content`}
+      >
+        <h2 className="text-lg font-semibold text-gray-800">Spec Visibility</h2>
+        <svg
+          className={`w-5 h-5 text-gray-500 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+          aria-hidden="true"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isExpanded && (
+        <div id={`${baseId}-content`} className="mt-3 space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label
+                htmlFor={`${baseId}-size`}
+                className="block text-xs font-medium text-gray-700 mb-1"
+              >
+                Card size
+              </label>
+              <select
+                id={`${baseId}-size`}
+                value={selectedSize}
+                onChange={(e) => setSelectedSize(e.target.value as CardSize)}
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {sizeOptions.map((size) => (
+                  <option key={size.id} value={size.id}>
+                    {size.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label
+                htmlFor={`${baseId}-scope`}
+                className="block text-xs font-medium text-gray-700 mb-1"
+              >
+                Applies to
+              </label>
+              <select
+                id={`${baseId}-scope`}
+                value={scope}
+                onChange={(e) => setScope(e.target.value as Scope)}
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="default">All builds</option>
+                <option value="build">This build</option>
+              </select>
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            {scope === 'build'
+              ? isCustomized
+                ? 'This build has its own lists for this size, saved with its preset.'
+                : 'This build uses the lists for all builds. Changes here apply only to it.'
+              : 'Used by every build that has no lists of its own for this size.'}
+          </p>
+
+          {renderList('specs')}
+          {baseSize === 'shelf' ? (
+            <p className="text-xs text-gray-500">Shelf tags have no info bar.</p>
+          ) : (
+            renderList('info')
+          )}
+
+          {isCustomized && (
+            <button
+              onClick={handleReset}
+              className="text-xs text-gray-500 hover:text-gray-700 underline"
+            >
+              {scope === 'build' ? 'Use the lists for all builds' : 'Reset to built-in lists'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default SpecVisibilityManager;
@@ -11,6 +11,10 @@ import {
 import { generateQRCodeDataUrl } from '../utils/qrcode';
 import { generateBarcodeDataUrl, isValidBarcode } from '../utils/barcode';
 import { validateUrl, validateImageFile } from '../utils/validation';
+import { useFontsStore } from '../stores';
+
+/** Prefix distinguishing uploaded fonts from built-in families in the font select */
+const CUSTOM_FONT_PREFIX = 'custom:';
 
 interface VisualSettingsProps {
   settings: VisualSettingsType;
@@ -29,6 +33,8 @@ export function VisualSettingsComponent({ settings, sku, onChange }: VisualSetti
   const [barcodePreview, setBarcodePreview] = useState<string>('');
   const [errors, setErrors] = useState<FormErrors>({});
   const productImageRef = useRef<HTMLInputElement>(null);
+  const customFonts = useFontsStore((state) => state.fonts);
+  const selectedCustomFont = customFonts.find((f) => f.id === settings.customFontId);
 
   // Generate QR preview when URL changes
   useEffect(() => {
@@ -42,7 +48,7 @@ export function VisualSettingsComponent({ settings, sku, onChange }: VisualSetti
   // Generate barcode preview when SKU changes
   useEffect(() => {
     if (sku && isValidBarcode(sku)) {
-      setBarcodePreview(generateBarcodeDataUrl(sku, { height: 30, displayValue: false }));
+      generateBarcodeDataUrl(sku, { height: 30, displayValue: false }).then(setBarcodePreview);
     } else {
       setBarcodePreview('');
     }
@@ -87,6 +93,14 @@ export function VisualSettingsComponent({ settings, sku, onChange }: VisualSetti
     reader.readAsDataURL(file);
   };
 
+  const handleFontChange = (value: string) => {
+    if (value.startsWith(CUSTOM_FONT_PREFIX)) {
+      onChange({ ...settings, customFontId: value.slice(CUSTOM_FONT_PREFIX.length) });
+    } else {
+      onChange({ ...settings, fontFamily: value as FontFamily, customFontId: null });
+    }
+  };
+
   const handleRemoveProductImage = () => {
     onChange({ ...settings, productImage: null });
     if (productImageRef.current) {
@@ -160,8 +174,12 @@ export function VisualSettingsComponent({ settings, sku, onChange }: VisualSetti
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">Font Family</label>
             <select
-              value={settings.fontFamily}
-              onChange={(e) => onChange({ ...settings, fontFamily: e.target.value as FontFamily })}
+              value={
+                selectedCustomFont
+                  ? `${CUSTOM_FONT_PREFIX}${selectedCustomFont.id}`
+                  : settings.fontFamily
+              }
+              onChange={(e) => handleFontChange(e.target.value)}
               className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
             >
               {(Object.keys(FONT_FAMILIES) as FontFamily[]).map((font) => (
@@ -169,6 +187,19 @@ export function VisualSettingsComponent({ settings, sku, onChange }: VisualSetti
                   {FONT_FAMILIES[font].name}
                 </option>
               ))}
+              {customFonts.length > 0 && (
+                <optgroup label="Custom Fonts">
+                  {customFonts.map((font) => (
+                    <option
+                      key={font.id}
+                      value={`${CUSTOM_FONT_PREFIX}${font.id}`}
+                      style={{ fontFamily: `"${font.name}"` }}
+                    >
+                      {font.name}
+                    </option>
+                  ))}
+                </optgroup>
+              )}
             </select>
           </div>
 
@@ -0,0 +1,257 @@
+/**
+ * ZplExporter - Export the shelf tag as ZPL for Zebra thermal printers
+ * Label size and printer address are remembered between sessions
+ */
+
+import { useState, useId, memo } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import {
+  useLabelPrinterStore,
+  useCardDesignsStore,
+  useSpecAbbreviationsStore,
+  useSpecVisibilityStore,
+  useCustomFieldsStore,
+} from '../stores';
+import type { PrebuildConfig, BrandIcon, CustomFont, CustomCardSize } from '../types';
+import {
+  ZPL_DPI_OPTIONS,
+  ZplDpi,
+  downloadZpl,
+  generateShelfTagZpl,
+  sendZplToPrinter,
+} from '../utils/zplGenerator';
+import { createEmptyWarnings, formatWarnings, hasWarnings } from '../utils/logger';
+
+interface ZplExporterProps {
+  config: PrebuildConfig;
+  brandIcons: BrandIcon[];
+  customFonts?: CustomFont[];
+  customSizes?: CustomCardSize[];
+}
+
+const EMPTY_FONTS: CustomFont[] = [];
+const EMPTY_SIZES: CustomCardSize[] = [];
+
+export const ZplExporter = memo(function ZplExporter({
+  config,
+  brandIcons,
+  customFonts = EMPTY_FONTS,
+  customSizes = EMPTY_SIZES,
+}: ZplExporterProps) {
+  const { dpi, widthDots, heightDots, printerAddress, setLabel, setPrinterAddress } =
+    useLabelPrinterStore(
+      useShallow((state) => ({
+        dpi: state.dpi,
+        widthDots: state.widthDots,
+        heightDots: state.heightDots,
+        printerAddress: state.printerAddress,
+        setLabel: state.setLabel,
+        setPrinterAddress: state.setPrinterAddress,
+      }))
+    );
+  const designs = useCardDesignsStore(useShallow((state) => state.getActiveDesigns()));
+  const abbreviations = useSpecAbbreviationsStore(
+    useShallow((state) => ({ sizes: state.sizes, categories: state.categories }))
+  );
+  const specVisibility = useSpecVisibilityStore((state) => state.defaults);
+  const customFields = useCustomFieldsStore((state) => state.fields);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [labelWarnings, setLabelWarnings] = useState<string[]>([]);
+  const baseId = useId();
+
+  const buildZpl = () => {
+    const warnings = createEmptyWarnings();
+    const zpl = generateShelfTagZpl(
+      config,
+      { dpi, widthDots, heightDots },
+      {
+        brandIcons,
+        customFonts,
+        customSizes,
+        designs,
+        abbreviations,
+        specVisibility,
+        customFields,
+        warnings,
+      }
+    );
+    setLabelWarnings(hasWarnings(warnings) ? formatWarnings(warnings, customSizes) : []);
+    return zpl;
+  };
+
+  const handleDpiChange = (next: ZplDpi) => {
+    // Keep the physical label size when switching print heads
+    setLabel({
+      dpi: next,
+      widthDots: Math.round((widthDots * next) / dpi),
+      heightDots: Math.round((heightDots * next) / dpi),
+    });
+  };
+
+  const handleDownload = () => {
+    setError(null);
+    setStatus(null);
+    try {
+      downloadZpl(buildZpl(), `${config.modelName || 'PC-Build'}-Shelf-Tag.zpl`);
+    } catch (err) {
+      setError(`Failed to generate ZPL: ${(err as Error).message}`);
+    }
+  };
+
+  const handleSend = async () => {
+    setError(null);
+    setStatus(null);
+    setIsSending(true);
+    try {
+      await sendZplToPrinter(buildZpl(), printerAddress);
+      setStatus(`Sent to ${printerAddress.trim()}`);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={isExpanded}
+        aria-controls={`${baseId}-content`}
+      >
+        <h2 className="text-lg font-semibold text-gray-800">Thermal Labels (ZPL)</h2>
+        <svg
+          className={`w-5 h-5 text-gray-500 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+          aria-hidden="true"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isExpanded && (
+        <div id={`${baseId}-content`} className="mt-3 space-y-3">
+          <p className="text-xs text-gray-500">
+            Print the shelf tag on a Zebra thermal printer. Text, the SKU barcode and the QR code
+            are included; colours and images are not.
+          </p>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label htmlFor={`${baseId}-dpi`} className="block text-xs text-gray-600 mb-1">
+                Resolution
+              </label>
+              <select
+                id={`${baseId}-dpi`}
+                value={dpi}
+                onChange={(e) => handleDpiChange(Number(e.target.value) as ZplDpi)}
+                className={`${inputClass} bg-white`}
+              >
+                {ZPL_DPI_OPTIONS.map((option) => (
+                  <option key={option} value={option}>
+                    {option} dpi
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor={`${baseId}-width`} className="block text-xs text-gray-600 mb-1">
+                Width (dots)
+              </label>
+              <input
+                id={`${baseId}-width`}
+                type="number"
+                min={1}
+                value={widthDots}
+                onChange={(e) =>
+                  setLabel({ widthDots: Math.max(1, parseInt(e.target.value) || 0) })
+                }
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor={`${baseId}-height`} className="block text-xs text-gray-600 mb-1">
+                Height (dots)
+              </label>
+              <input
+                id={`${baseId}-height`}
+                type="number"
+                min={1}
+                value={heightDots}
+                onChange={(e) =>
+                  setLabel({ heightDots: Math.max(1, parseInt(e.target.value) || 0) })
+                }
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            {(widthDots / dpi).toFixed(2)}&quot; × {(heightDots / dpi).toFixed(2)}&quot;
+          </p>
+
+          <div>
+            <label htmlFor={`${baseId}-address`} className="block text-xs text-gray-600 mb-1">
+              Printer address
+            </label>
+            <input
+              id={`${baseId}-address`}
+              type="text"
+              value={printerAddress}
+              onChange={(e) => setPrinterAddress(e.target.value)}
+              placeholder="192.168.1.50"
+              className={inputClass}
+            />
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600" role="alert">
+              {error}
+            </p>
+          )}
+          {status && (
+            <p className="text-sm text-green-700" role="status">
+              {status}
+            </p>
+          )}
+          {labelWarnings.length > 0 && (
+            <div className="text-xs text-amber-700">
+              <p className="font-medium">Label created with warnings:</p>
+              <ul className="list-disc pl-4">
+                {labelWarnings.map((message) => (
+                  <li key={message}>{message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleDownload}
+              className="flex-1 px-3 py-2 text-sm bg-gray-700 text-white rounded-md hover:bg-gray-800 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
+            >
+              Download .zpl
+            </button>
+            <button
+              onClick={handleSend}
+              disabled={isSending || !printerAddress.trim()}
+              className="flex-1 px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+            >
+              {isSending ? 'Sending...' : 'Send to Printer'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default ZplExporter;
@@ -7,7 +7,7 @@ import { useRef, useState, useEffect, useCallback, memo } from 'react';
 import { useShallow } from 'zustand/react/shallow';
 import { useConfigStore } from '../../stores';
 import { EnhancedComponentSelector } from '../EnhancedComponentSelector';
-import { ComponentCategory, calculateComponentTotal } from '../../types';
+import { ComponentCategory, COMPONENT_LABELS, calculateComponentTotal } from '../../types';
 import {
   ComponentLibrary,
   loadComponentLibrary,
@@ -18,26 +18,27 @@ import {
   importLibrary,
 } from '../../utils/componentLibrary';
 import { componentOptions } from '../../data/componentOptions';
-
-const COMPONENT_ORDER: ComponentCategory[] = [
-  'cpu',
-  'gpu',
-  'ram',
-  'storage',
-  'motherboard',
-  'psu',
-  'case',
-  'cooling',
-];
+import { COMPONENT_CATEGORIES } from '../../utils/componentItems';
 
 export const ComponentsForm = memo(function ComponentsForm() {
   // Use shallow selector to prevent unnecessary re-renders
-  const { config, setConfig, setComponent, setComponentPrice } = useConfigStore(
+  const {
+    config,
+    setConfig,
+    setComponent,
+    setComponentPrice,
+    addComponentItem,
+    setComponentItem,
+    removeComponentItem,
+  } = useConfigStore(
     useShallow((state) => ({
       config: state.config,
       setConfig: state.setConfig,
       setComponent: state.setComponent,
       setComponentPrice: state.setComponentPrice,
+      addComponentItem: state.addComponentItem,
+      setComponentItem: state.setComponentItem,
+      removeComponentItem: state.removeComponentItem,
     }))
   );
   const libraryImportRef = useRef<HTMLInputElement>(null);
@@ -143,19 +144,48 @@ export const ComponentsForm = memo(function ComponentsForm() {
         </div>
       )}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4">
-        {COMPONENT_ORDER.map((category) => (
-          <EnhancedComponentSelector
-            key={category}
-            category={category}
-            value={config.components[category]}
-            library={componentLibrary}
-            onChange={(value) => setComponent(category, value)}
-            onAddNew={handleAddComponent}
-            showPrice={config.showComponentPrices}
-            priceValue={config.componentPrices[category]}
-            onPriceChange={(value) => setComponentPrice(category, value)}
-          />
-        ))}
+        {COMPONENT_CATEGORIES.map((category) => {
+          // Line items beyond the main slot, e.g. a second drive
+          const extras = (config.extraComponents ?? []).filter(
+            (item) => item.category === category
+          );
+          return (
+            <div key={category}>
+              <EnhancedComponentSelector
+                category={category}
+                value={config.components[category]}
+                library={componentLibrary}
+                onChange={(value) => setComponent(category, value)}
+                onAddNew={handleAddComponent}
+                showPrice={config.showComponentPrices}
+                priceValue={config.componentPrices[category]}
+                onPriceChange={(value) => setComponentPrice(category, value)}
+              />
+              {extras.map((item, index) => (
+                <EnhancedComponentSelector
+                  key={item.id}
+                  category={category}
+                  label={`${COMPONENT_LABELS[category]} ${index + 2}`}
+                  value={item.value}
+                  library={componentLibrary}
+                  onChange={(value) => setComponentItem(item.id, value)}
+                  onAddNew={handleAddComponent}
+                  showPrice={config.showComponentPrices}
+                  priceValue={config.componentPrices[item.id]}
+                  onPriceChange={(value) => setComponentPrice(item.id, value)}
+                  onRemove={() => removeComponentItem(item.id)}
+                />
+              ))}
+              <button
+                onClick={() => addComponentItem(category)}
+                className="-mt-2 mb-3 text-xs text-blue-600 hover:text-blue-700"
+                aria-label={`Add another ${COMPONENT_LABELS[category]}`}
+              >
+                + Add another
+              </button>
+            </div>
+          );
+        })}
       </div>
     </div>
   );
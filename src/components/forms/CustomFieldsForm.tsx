@@ -0,0 +1,221 @@
+/**
+ * CustomFieldsForm - The store's own fields: this build's values, and the
+ * field definitions (type, choices, card placement, CSV headers)
+ */
+
+import { useState, useId } from 'react';
+import { useConfigStore, useCustomFieldsStore } from '../../stores';
+import type { CustomFieldDefinition, CustomFieldPlacement, CustomFieldType } from '../../types';
+import { CUSTOM_FIELD_TYPE_LABELS } from '../../utils/customFields';
+
+const PLACEMENT_LABELS: Record<CustomFieldPlacement, string> = {
+  none: 'Not on cards',
+  spec: 'With the specs',
+  info: 'In the info bar',
+};
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white';
+
+const SMALL_INPUT_CLASS =
+  'w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white';
+
+/** Comma-separated text to a list, keeping a trailing empty entry while typing */
+const splitList = (text: string) => text.split(',').map((item) => item.trim());
+
+export function CustomFieldsForm() {
+  const config = useConfigStore((state) => state.config);
+  const setCustomFieldValue = useConfigStore((state) => state.setCustomFieldValue);
+  const fields = useCustomFieldsStore((state) => state.fields);
+  const addField = useCustomFieldsStore((state) => state.addField);
+  const updateField = useCustomFieldsStore((state) => state.updateField);
+  const removeField = useCustomFieldsStore((state) => state.removeField);
+  const [isEditing, setIsEditing] = useState(false);
+  const baseId = useId();
+
+  const handleAdd = () => {
+    addField({ label: 'New field', type: 'text', options: [], placement: 'none', csvHeaders: [] });
+    setIsEditing(true);
+  };
+
+  const renderValueInput = (field: CustomFieldDefinition) => {
+    const id = `${baseId}-${field.id}`;
+    const value = config.customFields?.[field.id];
+
+    switch (field.type) {
+      case 'number':
+        return (
+          <input
+            id={id}
+            type="number"
+            value={typeof value === 'number' ? value : ''}
+            onChange={(e) =>
+              setCustomFieldValue(
+                field.id,
+                e.target.value === '' ? undefined : Number(e.target.value)
+              )
+            }
+            className={INPUT_CLASS}
+          />
+        );
+      case 'boolean':
+        return (
+          <select
+            id={id}
+            value={value === undefined ? '' : value ? 'yes' : 'no'}
+            onChange={(e) =>
+              setCustomFieldValue(
+                field.id,
+                e.target.value === '' ? undefined : e.target.value === 'yes'
+              )
+            }
+            className={INPUT_CLASS}
+          >
+            <option value="">Not set</option>
+            <option value="yes">Yes</option>
+            <option value="no">No</option>
+          </select>
+        );
+      case 'enum':
+        return (
+          <select
+            id={id}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => setCustomFieldValue(field.id, e.target.value || undefined)}
+            className={INPUT_CLASS}
+          >
+            <option value="">Select {field.label}...</option>
+            {field.options.filter(Boolean).map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        );
+      default:
+        return (
+          <input
+            id={id}
+            type="text"
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => setCustomFieldValue(field.id, e.target.value || undefined)}
+            className={INPUT_CLASS}
+          />
+        );
+    }
+  };
+
+  const renderDefinition = (field: CustomFieldDefinition) => (
+    <li key={field.id} className="p-2 border border-gray-200 rounded-md space-y-2">
+      <div className="flex items-center gap-1">
+        <input
+          type="text"
+          value={field.label}
+          onChange={(e) => updateField(field.id, { label: e.target.value })}
+          placeholder="Field name"
+          aria-label={`${field.label} name`}
+          className={SMALL_INPUT_CLASS}
+        />
+        <button
+          onClick={() => removeField(field.id)}
+          className="px-1.5 text-red-500 hover:text-red-700"
+          aria-label={`Remove ${field.label}`}
+        >
+          ×
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={field.type}
+          onChange={(e) => updateField(field.id, { type: e.target.value as CustomFieldType })}
+          aria-label={`${field.label} type`}
+          className={SMALL_INPUT_CLASS}
+        >
+          {(Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]).map((type) => (
+            <option key={type} value={type}>
+              {CUSTOM_FIELD_TYPE_LABELS[type]}
+            </option>
+          ))}
+        </select>
+        <select
+          value={field.placement}
+          onChange={(e) =>
+            updateField(field.id, { placement: e.target.value as CustomFieldPlacement })
+          }
+          aria-label={`${field.label} placement`}
+          className={SMALL_INPUT_CLASS}
+        >
+          {(Object.keys(PLACEMENT_LABELS) as CustomFieldPlacement[]).map((placement) => (
+            <option key={placement} value={placement}>
+              {PLACEMENT_LABELS[placement]}
+            </option>
+          ))}
+        </select>
+      </div>
+      {field.type === 'enum' && (
+        <input
+          type="text"
+          value={field.options.join(', ')}
+          onChange={(e) => updateField(field.id, { options: splitList(e.target.value) })}
+          placeholder="Choices, comma-separated"
+          aria-label={`${field.label} choices`}
+          className={SMALL_INPUT_CLASS}
+        />
+      )}
+      <input
+        type="text"
+        value={field.csvHeaders.join(', ')}
+        onChange={(e) => updateField(field.id, { csvHeaders: splitList(e.target.value) })}
+        placeholder="Other CSV headers, comma-separated"
+        aria-label={`${field.label} CSV headers`}
+        className={SMALL_INPUT_CLASS}
+      />
+    </li>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-lg font-semibold text-gray-800">Custom Fields</h2>
+        {fields.length > 0 && (
+          <button
+            onClick={() => setIsEditing(!isEditing)}
+            className="text-sm text-blue-600 hover:text-blue-800"
+            aria-expanded={isEditing}
+          >
+            {isEditing ? 'Done' : 'Edit fields'}
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-500 mb-3">
+        Your store&apos;s own fields, imported from CSV columns with the same name
+      </p>
+
+      {fields.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          {fields.map((field) => (
+            <div key={field.id}>
+              <label
+                htmlFor={`${baseId}-${field.id}`}
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                {field.label}
+              </label>
+              {renderValueInput(field)}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isEditing && (
+        <ul className="space-y-2 mb-3" aria-label="Field definitions">
+          {fields.map(renderDefinition)}
+        </ul>
+      )}
+
+      <button onClick={handleAdd} className="text-sm text-blue-600 hover:text-blue-800">
+        + Add field
+      </button>
+    </div>
+  );
+}
@@ -5,3 +5,4 @@ export { PricingSalesForm } from './PricingSalesForm';
 export { InventoryStatusForm } from './InventoryStatusForm';
 export { ComponentsForm } from './ComponentsForm';
 export { AdditionalDetailsForm } from './AdditionalDetailsForm';
+export { CustomFieldsForm } from './CustomFieldsForm';
@@ -3,42 +3,52 @@
  */
 
 import { useRef, useCallback } from 'react';
-import { useConfigStore } from '../../stores';
+import { useConfigStore, useCustomFieldsStore } from '../../stores';
 import { GoogleSheetsImport } from '../GoogleSheetsImport';
-import { defaultConfig, defaultComponentPrices } from '../../data/componentOptions';
-import type { PrebuildConfig, ComponentCategory } from '../../types';
-import { parsePrice } from '../../types';
+import type { PrebuildConfig } from '../../types';
+import { parseSheetData } from '../../utils/googleSheets';
 import { SHORTCUT_LABELS } from '../../hooks/useKeyboardShortcuts';
 import { env } from '../../config/env';
 
 export function Header() {
   const { config, setConfig, resetConfig, undo, redo, canUndo, canRedo } = useConfigStore();
+  const customFields = useCustomFieldsStore((state) => state.fields);
   const csvInputRef = useRef<HTMLInputElement>(null);
 
+  // Load an imported build into the current config; its components, their
+  // prices and its custom field values replace the current ones
+  const loadImportedBuild = useCallback(
+    (build: Partial<PrebuildConfig>) =>
+      setConfig({
+        modelName: build.modelName || config.modelName,
+        price: build.price || config.price,
+        sku: build.sku || config.sku,
+        os: build.os || config.os,
+        warranty: build.warranty || config.warranty,
+        wifi: build.wifi || config.wifi,
+        buildTier: build.buildTier || config.buildTier,
+        description: build.description || config.description,
+        condition: (build.condition as typeof config.condition) || config.condition,
+        stockStatus: (build.stockStatus as typeof config.stockStatus) || config.stockStatus,
+        stockQuantity: build.stockQuantity || config.stockQuantity,
+        components: {
+          ...config.components,
+          ...build.components,
+        },
+        componentPrices: build.componentPrices ?? config.componentPrices,
+        extraComponents: build.extraComponents ?? [],
+        customFields: build.customFields ?? config.customFields,
+      }),
+    [config, setConfig]
+  );
+
   // Handle Google Sheets import
   const handleSheetsImport = useCallback(
     (builds: Partial<PrebuildConfig>[]) => {
       if (builds.length === 0) return;
 
       // Load first build into current config
-      const firstBuild = builds[0];
-      setConfig({
-        modelName: firstBuild.modelName || config.modelName,
-        price: firstBuild.price || config.price,
-        sku: firstBuild.sku || config.sku,
-        os: firstBuild.os || config.os,
-        warranty: firstBuild.warranty || config.warranty,
-        wifi: firstBuild.wifi || config.wifi,
-        buildTier: firstBuild.buildTier || config.buildTier,
-        description: firstBuild.description || config.description,
-        condition: (firstBuild.condition as typeof config.condition) || config.condition,
-        stockStatus: (firstBuild.stockStatus as typeof config.stockStatus) || config.stockStatus,
-        stockQuantity: firstBuild.stockQuantity || config.stockQuantity,
-        components: {
-          ...config.components,
-          ...firstBuild.components,
-        },
-      });
+      loadImportedBuild(builds[0]);
 
       if (builds.length > 1) {
         alert(
@@ -46,7 +56,7 @@ export function Header() {
         );
       }
     },
-    [config, setConfig]
+    [loadImportedBuild]
   );
 
   // Handle CSV import
@@ -65,57 +75,10 @@ export function Header() {
             return;
           }
 
-          const headers = lines[0].split(',').map((h) => h.trim().toLowerCase());
-          const builds: Partial<PrebuildConfig>[] = [];
-
-          for (let i = 1; i < lines.length; i++) {
-            const values = lines[i].split(',').map((v) => v.trim());
-            const build: Partial<PrebuildConfig> = {
-              components: { ...defaultConfig.components },
-              componentPrices: { ...defaultComponentPrices },
-            };
-
-            headers.forEach((header, idx) => {
-              const value = values[idx] || '';
-              switch (header) {
-                case 'model':
-                case 'modelname':
-                case 'name':
-                  build.modelName = value;
-                  break;
-                case 'price':
-                  build.price = parsePrice(value);
-                  break;
-                case 'sku':
-                  build.sku = value;
-                  break;
-                case 'cpu':
-                case 'gpu':
-                case 'ram':
-                case 'storage':
-                case 'motherboard':
-                case 'psu':
-                case 'case':
-                case 'cooling':
-                  if (build.components) build.components[header as ComponentCategory] = value;
-                  break;
-                case 'os':
-                  build.os = value;
-                  break;
-                case 'warranty':
-                  build.warranty = value;
-                  break;
-                case 'tier':
-                case 'buildtier':
-                  build.buildTier = value;
-                  break;
-              }
-            });
-
-            if (build.modelName || build.price) {
-              builds.push(build);
-            }
-          }
+          const rows = lines.map((line) => line.split(',').map((v) => v.trim()));
+          const builds = parseSheetData(rows, customFields).filter(
+            (build) => build.modelName || build.price
+          );
 
           if (builds.length === 0) {
             alert('No valid builds found in CSV');
@@ -123,10 +86,7 @@ export function Header() {
           }
 
           // Load first build into current config
-          setConfig({
-            ...builds[0],
-            components: { ...config.components, ...builds[0].components },
-          });
+          loadImportedBuild(builds[0]);
 
           alert(
             `Imported ${builds.length} build(s). First build loaded. Save as presets to keep others.`
@@ -143,7 +103,7 @@ export function Header() {
         csvInputRef.current.value = '';
       }
     },
-    [config, setConfig]
+    [customFields, loadImportedBuild]
   );
 
   const handleClearAll = useCallback(() => {
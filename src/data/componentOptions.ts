@@ -110,6 +110,37 @@ export const componentOptions: Record<ComponentCategory, string[]> = {
     'Low Profile Air Cooler',
     'Stock Cooler',
   ],
+  fans: [
+    '3x 120mm ARGB Case Fans',
+    '3x 140mm Case Fans',
+    '2x 120mm Case Fans',
+    'Noctua NF-A12x25 Fan Kit',
+    'Lian Li UNI FAN SL-INF 120 (3-Pack)',
+    'Corsair iCUE LINK QX120 RGB (3-Pack)',
+  ],
+  expansion: [
+    'Elgato 4K60 Pro MK.2 Capture Card',
+    'Elgato HD60 X Capture Card',
+    'Intel Wi-Fi 6E AX210 PCIe Card',
+    'TP-Link Archer TXE75E Wi-Fi 6E Card',
+    'Creative Sound Blaster AE-5 Plus',
+    '10GbE Network Card',
+  ],
+  peripherals: [
+    'Gaming Keyboard & Mouse Combo',
+    'Logitech G Pro X TKL Keyboard',
+    'Logitech G502 X Mouse',
+    'Razer BlackShark V2 Headset',
+    'HyperX Cloud III Headset',
+    'Webcam 1080p',
+  ],
+  monitor: [
+    '24" 1080p 165Hz Gaming Monitor',
+    '27" 1440p 165Hz Gaming Monitor',
+    '27" 1440p 240Hz OLED Gaming Monitor',
+    '32" 4K 144Hz Gaming Monitor',
+    '34" Ultrawide 1440p 165Hz Monitor',
+  ],
 };
 
 export const osOptions = [
@@ -182,6 +213,10 @@ export const defaultComponents = {
   psu: '',
   case: '',
   cooling: '',
+  fans: '',
+  expansion: '',
+  peripherals: '',
+  monitor: '',
 };
 
 export const defaultComponentPrices = {
@@ -193,6 +228,10 @@ export const defaultComponentPrices = {
   psu: 0,
   case: 0,
   cooling: 0,
+  fans: 0,
+  expansion: 0,
+  peripherals: 0,
+  monitor: 0,
 };
 
 export const saleBadgeOptions = [
@@ -3,5 +3,6 @@
  */
 
 export { useCardLayout } from './useCardLayout';
+export { useCustomFontFaces } from './useCustomFontFaces';
 export { useHistory } from './useHistory';
 export { useKeyboardShortcuts } from './useKeyboardShortcuts';
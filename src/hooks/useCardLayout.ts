@@ -6,15 +6,31 @@
  */
 
 import { useMemo } from 'react';
-import type { PrebuildConfig, CardSize, BrandIcon } from '../types';
+import type {
+  PrebuildConfig,
+  CardSize,
+  BrandIcon,
+  CustomFont,
+  CustomCardSize,
+  SpecVisibility,
+  CustomFieldDefinition,
+} from '../types';
 import { getThemeColors } from '../types';
 import { buildCardLayout } from '../utils/layoutBuilders';
 import { CardLayout, LayoutBuilderContext, resetElementIdCounter } from '../utils/layoutSchema';
+import type { CardDesign } from '../utils/cardDesigns';
+import type { SpecAbbreviations } from '../utils/specAbbreviations';
 
 interface UseCardLayoutOptions {
   config: PrebuildConfig;
   cardSize: CardSize;
   brandIcons: BrandIcon[];
+  customFonts?: CustomFont[];
+  customSizes?: CustomCardSize[];
+  designs?: CardDesign[];
+  abbreviations?: SpecAbbreviations;
+  specVisibility?: SpecVisibility;
+  customFields?: CustomFieldDefinition[];
   qrCodeImage?: string;
   barcodeImage?: string;
 }
@@ -30,7 +46,19 @@ interface UseCardLayoutResult {
  * The layout is memoized and only rebuilds when inputs change.
  */
 export function useCardLayout(options: UseCardLayoutOptions): UseCardLayoutResult {
-  const { config, cardSize, brandIcons, qrCodeImage, barcodeImage } = options;
+  const {
+    config,
+    cardSize,
+    brandIcons,
+    customFonts,
+    customSizes,
+    designs,
+    abbreviations,
+    specVisibility,
+    customFields,
+    qrCodeImage,
+    barcodeImage,
+  } = options;
 
   const colors = useMemo(() => getThemeColors(config), [config]);
 
@@ -40,12 +68,31 @@ export function useCardLayout(options: UseCardLayoutOptions): UseCardLayoutResul
       cardSize,
       colors,
       brandIcons,
+      customFonts,
+      customSizes,
+      designs,
+      abbreviations,
+      specVisibility,
+      customFields,
       asyncData: {
         qrCodeImage,
         barcodeImage,
       },
     }),
-    [config, cardSize, colors, brandIcons, qrCodeImage, barcodeImage]
+    [
+      config,
+      cardSize,
+      colors,
+      brandIcons,
+      customFonts,
+      customSizes,
+      designs,
+      abbreviations,
+      specVisibility,
+      customFields,
+      qrCodeImage,
+      barcodeImage,
+    ]
   );
 
   const layout = useMemo(() => {
@@ -0,0 +1,18 @@
+/**
+ * useCustomFontFaces - Expose uploaded fonts to the preview as @font-face rules
+ */
+
+import { useEffect } from 'react';
+import type { CustomFont } from '../types';
+import { installFontFaces } from '../utils/fontManager';
+
+/**
+ * Keep the document's @font-face rules in sync with the uploaded fonts
+ */
+export function useCustomFontFaces(fonts: CustomFont[]): void {
+  useEffect(() => {
+    installFontFaces(fonts);
+  }, [fonts]);
+}
+
+export default useCustomFontFaces;
@@ -0,0 +1,35 @@
+/**
+ * Card Backs Store - Which card sizes print with a back side, and the duplex flip
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { CardSize } from '../types';
+import { CardBackSettings, DEFAULT_CARD_BACKS } from '../utils/cardBacks';
+
+interface CardBacksState extends CardBackSettings {
+  // Actions
+  setBackEnabled: (cardSize: CardSize, enabled: boolean) => void;
+  setSettings: (settings: Partial<CardBackSettings>) => void;
+}
+
+export const useCardBacksStore = create<CardBacksState>()(
+  persist(
+    (set) => ({
+      ...DEFAULT_CARD_BACKS,
+
+      setBackEnabled: (cardSize, enabled) =>
+        set((state) => ({
+          sizes: enabled
+            ? [...state.sizes.filter((size) => size !== cardSize), cardSize]
+            : state.sizes.filter((size) => size !== cardSize),
+        })),
+
+      setSettings: (settings) => set(settings),
+    }),
+    {
+      name: 'prebuild-card-backs-store',
+      version: 1,
+    }
+  )
+);
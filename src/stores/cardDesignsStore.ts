@@ -0,0 +1,101 @@
+/**
+ * Card Designs Store - Saved card designs and the one in use for each size
+ *
+ * Sizes without a design in use keep their built-in layout; removing a
+ * design puts its size back on the built-in layout.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { CardSize, CustomCardSize } from '../types';
+import type { CardDesign } from '../utils/cardDesigns';
+import {
+  importCardTemplate,
+  serializeCardTemplate,
+  CardTemplateImportResult,
+} from '../utils/cardTemplates';
+
+interface CardDesignsState {
+  designs: CardDesign[];
+  /** Id of the design in use for each card size */
+  activeIds: Partial<Record<CardSize, string>>;
+
+  // Actions
+  /** Add a design, or replace the saved design with the same id */
+  saveDesign: (design: CardDesign) => void;
+  removeDesign: (id: string) => void;
+  /** Use a design for its card size, or go back to the built-in layout with null */
+  setActiveDesign: (cardSize: CardSize, id: string | null) => void;
+
+  // Queries
+  getDesignById: (id: string) => CardDesign | undefined;
+  /** The designs in use, at most one per card size */
+  getActiveDesigns: () => CardDesign[];
+
+  // Template files
+  /** A saved design as .cardtemplate.json contents, or null if there's no such design */
+  exportTemplate: (id: string, customSizes?: CustomCardSize[]) => string | null;
+  /** Save the design in a template file; on errors nothing is saved */
+  importTemplate: (json: string, customSizes?: CustomCardSize[]) => CardTemplateImportResult;
+}
+
+export const useCardDesignsStore = create<CardDesignsState>()(
+  persist(
+    (set, get) => ({
+      designs: [],
+      activeIds: {},
+
+      saveDesign: (design) =>
+        set((state) => {
+          const saved = { ...design, updatedAt: Date.now() };
+          return state.designs.some((d) => d.id === design.id)
+            ? { designs: state.designs.map((d) => (d.id === design.id ? saved : d)) }
+            : { designs: [...state.designs, saved] };
+        }),
+
+      removeDesign: (id) =>
+        set((state) => ({
+          designs: state.designs.filter((d) => d.id !== id),
+          activeIds: Object.fromEntries(
+            Object.entries(state.activeIds).filter(([, activeId]) => activeId !== id)
+          ),
+        })),
+
+      setActiveDesign: (cardSize, id) =>
+        set((state) => {
+          const activeIds = { ...state.activeIds };
+          if (id) {
+            activeIds[cardSize] = id;
+          } else {
+            delete activeIds[cardSize];
+          }
+          return { activeIds };
+        }),
+
+      getDesignById: (id) => get().designs.find((d) => d.id === id),
+
+      getActiveDesigns: () => {
+        const { designs, activeIds } = get();
+        return designs.filter((d) => activeIds[d.cardSize] === d.id);
+      },
+
+      exportTemplate: (id, customSizes = []) => {
+        const design = get().getDesignById(id);
+        return design ? serializeCardTemplate(design, customSizes) : null;
+      },
+
+      importTemplate: (json, customSizes = []) => {
+        const result = importCardTemplate(json, customSizes);
+        const { design } = result;
+        if (design) {
+          set((state) => ({ designs: [...state.designs, design] }));
+        }
+        return result;
+      },
+    }),
+    {
+      name: 'prebuild-card-designs-store',
+      version: 1,
+    }
+  )
+);
@@ -0,0 +1,61 @@
+/**
+ * Card Sizes Store - Manages user-defined card sizes
+ *
+ * The selected card size is stored by id (uiStore.cardSize), so removing a
+ * size makes the selection fall back to the price card.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { CustomCardSize, CustomCardSizeId } from '../types';
+
+export type CustomCardSizeInput = Omit<CustomCardSize, 'id' | 'createdAt'>;
+
+interface CardSizesState {
+  sizes: CustomCardSize[];
+
+  // Actions
+  addSize: (size: CustomCardSizeInput) => CustomCardSize;
+  updateSize: (id: CustomCardSizeId, updates: Partial<CustomCardSizeInput>) => void;
+  removeSize: (id: CustomCardSizeId) => void;
+
+  // Queries
+  getSizeById: (id: string) => CustomCardSize | undefined;
+}
+
+const generateId = (): CustomCardSizeId =>
+  `custom-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+export const useCardSizesStore = create<CardSizesState>()(
+  persist(
+    (set, get) => ({
+      sizes: [],
+
+      addSize: (input) => {
+        const size: CustomCardSize = {
+          ...input,
+          id: generateId(),
+          createdAt: Date.now(),
+        };
+        set((state) => ({ sizes: [...state.sizes, size] }));
+        return size;
+      },
+
+      updateSize: (id, updates) =>
+        set((state) => ({
+          sizes: state.sizes.map((s) => (s.id === id ? { ...s, ...updates } : s)),
+        })),
+
+      removeSize: (id) =>
+        set((state) => ({
+          sizes: state.sizes.filter((s) => s.id !== id),
+        })),
+
+      getSizeById: (id) => get().sizes.find((s) => s.id === id),
+    }),
+    {
+      name: 'prebuild-card-sizes-store',
+      version: 1,
+    }
+  )
+);
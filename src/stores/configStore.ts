@@ -15,8 +15,13 @@ import type {
   SaleInfo,
   FinancingInfo,
   ThemeColors,
+  SpecVisibility,
+  CustomFieldId,
+  CustomFieldValue,
+  ComponentItemId,
 } from '../types';
 import { defaultConfig } from '../data/componentOptions';
+import { createComponentItemId, migrateComponents } from '../utils/componentItems';
 import { env } from '../config/env';
 
 interface HistoryState {
@@ -49,7 +54,13 @@ interface ConfigState {
   setModelName: (name: string) => void;
   setPrice: (price: number) => void;
   setComponent: (category: ComponentCategory, value: string) => void;
-  setComponentPrice: (category: ComponentCategory, price: number) => void;
+  /** Price a category's main slot, or a further line item by id */
+  setComponentPrice: (key: ComponentCategory | ComponentItemId, price: number) => void;
+  /** Add an empty line item to a category, after its main slot */
+  addComponentItem: (category: ComponentCategory) => ComponentItemId;
+  setComponentItem: (id: ComponentItemId, value: string) => void;
+  /** Remove a line item and its price */
+  removeComponentItem: (id: ComponentItemId) => void;
   setStoreName: (name: string) => void;
   setStoreLogo: (logo: string | null) => void;
   setSku: (sku: string) => void;
@@ -69,6 +80,10 @@ interface ConfigState {
   setSaleInfo: (info: Partial<SaleInfo>) => void;
   setFinancingInfo: (info: Partial<FinancingInfo>) => void;
   setVisualSettings: (settings: Partial<VisualSettings>) => void;
+  /** Set this build's specs per card size; undefined uses the global default */
+  setSpecVisibility: (visibility: SpecVisibility | undefined) => void;
+  /** Set this build's value of a custom field; undefined clears it */
+  setCustomFieldValue: (id: CustomFieldId, value: CustomFieldValue | undefined) => void;
 }
 
 const pushToHistory = (state: ConfigState, _newConfig: PrebuildConfig): HistoryState => {
@@ -120,7 +135,7 @@ export const useConfigStore = create<ConfigState>()(
       loadConfig: (config) =>
         set((state) => {
           const newHistory = pushToHistory(state, config);
-          state.config = config;
+          state.config = migrateComponents(config);
           state.history = newHistory;
           state.canUndo = newHistory.past.length > 0;
           state.canRedo = false;
@@ -161,10 +176,31 @@ export const useConfigStore = create<ConfigState>()(
         get().setConfig({
           components: { ...get().config.components, [category]: value },
         }),
-      setComponentPrice: (category, price) =>
+      setComponentPrice: (key, price) =>
         get().setConfig({
-          componentPrices: { ...get().config.componentPrices, [category]: price },
+          componentPrices: { ...get().config.componentPrices, [key]: price },
         }),
+      addComponentItem: (category) => {
+        const id = createComponentItemId();
+        get().setConfig({
+          extraComponents: [...(get().config.extraComponents ?? []), { id, category, value: '' }],
+        });
+        return id;
+      },
+      setComponentItem: (id, value) =>
+        get().setConfig({
+          extraComponents: (get().config.extraComponents ?? []).map((item) =>
+            item.id === id ? { ...item, value } : item
+          ),
+        }),
+      removeComponentItem: (id) => {
+        const componentPrices = { ...get().config.componentPrices };
+        delete componentPrices[id];
+        get().setConfig({
+          extraComponents: (get().config.extraComponents ?? []).filter((item) => item.id !== id),
+          componentPrices,
+        });
+      },
       setStoreName: (name) => get().setConfig({ storeName: name }),
       setStoreLogo: (logo) => get().setConfig({ storeLogo: logo }),
       setSku: (sku) => get().setConfig({ sku }),
@@ -199,6 +235,16 @@ export const useConfigStore = create<ConfigState>()(
         get().setConfig({
           visualSettings: { ...get().config.visualSettings, ...settings },
         }),
+      setSpecVisibility: (visibility) => get().setConfig({ specVisibility: visibility }),
+      setCustomFieldValue: (id, value) => {
+        const customFields = { ...get().config.customFields };
+        if (value === undefined) {
+          delete customFields[id];
+        } else {
+          customFields[id] = value;
+        }
+        get().setConfig({ customFields });
+      },
     })),
     {
       name: 'prebuild-config-store',
@@ -206,6 +252,15 @@ export const useConfigStore = create<ConfigState>()(
         config: state.config,
         // Don't persist history to keep storage small
       }),
+      // Version 0 -> 1: Add the component categories added since
+      migrate: (persistedState) => {
+        const state = persistedState as Pick<ConfigState, 'config'>;
+        if (state?.config) {
+          state.config = migrateComponents(state.config);
+        }
+        return state;
+      },
+      version: 1,
     }
   )
 );
@@ -0,0 +1,61 @@
+/**
+ * Custom Fields Store - The store's own fields added to every build
+ *
+ * Builds keep their values by field id (config.customFields), so removing a
+ * field hides its values everywhere without touching saved presets.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { CustomFieldDefinition, CustomFieldId } from '../types';
+
+export type CustomFieldInput = Omit<CustomFieldDefinition, 'id' | 'createdAt'>;
+
+interface CustomFieldsState {
+  fields: CustomFieldDefinition[];
+
+  // Actions
+  addField: (field: CustomFieldInput) => CustomFieldDefinition;
+  updateField: (id: CustomFieldId, updates: Partial<CustomFieldInput>) => void;
+  removeField: (id: CustomFieldId) => void;
+
+  // Queries
+  getFieldById: (id: string) => CustomFieldDefinition | undefined;
+}
+
+const generateId = (): CustomFieldId =>
+  `field-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+export const useCustomFieldsStore = create<CustomFieldsState>()(
+  persist(
+    (set, get) => ({
+      fields: [],
+
+      addField: (input) => {
+        const field: CustomFieldDefinition = {
+          ...input,
+          id: generateId(),
+          createdAt: Date.now(),
+        };
+        set((state) => ({ fields: [...state.fields, field] }));
+        return field;
+      },
+
+      updateField: (id, updates) =>
+        set((state) => ({
+          fields: state.fields.map((f) => (f.id === id ? { ...f, ...updates } : f)),
+        })),
+
+      removeField: (id) =>
+        set((state) => ({
+          fields: state.fields.filter((f) => f.id !== id),
+        })),
+
+      getFieldById: (id) => get().fields.find((f) => f.id === id),
+    }),
+    {
+      name: 'prebuild-custom-fields-store',
+      version: 1,
+    }
+  )
+);
@@ -0,0 +1,26 @@
+/**
+ * ESL Label Store - Settings for e-paper shelf label exports
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { DEFAULT_ESL_SETTINGS, EslExportSettings } from '../utils/eslExport';
+
+interface EslLabelState extends EslExportSettings {
+  // Actions
+  setSettings: (settings: Partial<EslExportSettings>) => void;
+}
+
+export const useEslLabelStore = create<EslLabelState>()(
+  persist(
+    (set) => ({
+      ...DEFAULT_ESL_SETTINGS,
+
+      setSettings: (settings) => set(settings),
+    }),
+    {
+      name: 'prebuild-esl-label-store',
+      version: 1,
+    }
+  )
+);
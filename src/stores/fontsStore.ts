@@ -0,0 +1,59 @@
+/**
+ * Fonts Store - Manages uploaded custom fonts
+ *
+ * Cards and presets reference fonts by id (VisualSettings.customFontId), so
+ * removing a font makes those cards fall back to their built-in font family.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { CustomFont } from '../types';
+import type { CustomFontInput } from '../utils/fontManager';
+
+interface FontsState {
+  fonts: CustomFont[];
+
+  // Actions
+  addFont: (font: CustomFontInput) => CustomFont;
+  renameFont: (id: string, name: string) => void;
+  removeFont: (id: string) => void;
+
+  // Queries
+  getFontById: (id: string) => CustomFont | undefined;
+}
+
+const generateId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+export const useFontsStore = create<FontsState>()(
+  persist(
+    (set, get) => ({
+      fonts: [],
+
+      addFont: (input) => {
+        const font: CustomFont = {
+          ...input,
+          id: generateId(),
+          createdAt: Date.now(),
+        };
+        set((state) => ({ fonts: [...state.fonts, font] }));
+        return font;
+      },
+
+      renameFont: (id, name) =>
+        set((state) => ({
+          fonts: state.fonts.map((f) => (f.id === id ? { ...f, name } : f)),
+        })),
+
+      removeFont: (id) =>
+        set((state) => ({
+          fonts: state.fonts.filter((f) => f.id !== id),
+        })),
+
+      getFontById: (id) => get().fonts.find((f) => f.id === id),
+    }),
+    {
+      name: 'prebuild-fonts-store',
+      version: 1,
+    }
+  )
+);
@@ -8,5 +8,27 @@ export { usePresetsStore } from './presetsStore';
 export { useLibraryStore } from './libraryStore';
 export type { LibraryComponent, ComponentLibrary } from './libraryStore';
 export { useBrandIconsStore } from './brandIconsStore';
-export { usePrintQueueStore } from './printQueueStore';
-export type { PrintQueueProgress } from './printQueueStore';
+export { useFontsStore } from './fontsStore';
+export { useCardSizesStore } from './cardSizesStore';
+export type { CustomCardSizeInput } from './cardSizesStore';
+export { useSheetProfilesStore } from './sheetProfilesStore';
+export type { SheetProfileInput } from './sheetProfilesStore';
+export { useLabelPrinterStore } from './labelPrinterStore';
+export { useEslLabelStore } from './eslLabelStore';
+export { usePrintProductionStore } from './printProductionStore';
+export { useCardBacksStore } from './cardBacksStore';
+export { useCardDesignsStore } from './cardDesignsStore';
+export { useSpecAbbreviationsStore } from './specAbbreviationsStore';
+export { useSpecVisibilityStore } from './specVisibilityStore';
+export { useCustomFieldsStore } from './customFieldsStore';
+export type { CustomFieldInput } from './customFieldsStore';
+export { usePrintQueueStore, DEFAULT_PRINT_QUEUE_SETTINGS } from './printQueueStore';
+export type {
+  PrintQueueProgress,
+  PrintQueueItem,
+  PrintQueueItemSettings,
+  PrintQueueItemStatus,
+  PrintQueueOptions,
+  PrintQueueOutput,
+  PrintQueueManifestEntry,
+} from './printQueueStore';
@@ -0,0 +1,33 @@
+/**
+ * Label Printer Store - Settings for ZPL shelf-tag exports
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { DEFAULT_ZPL_LABEL, ZplLabelSettings } from '../utils/zplGenerator';
+
+interface LabelPrinterState extends ZplLabelSettings {
+  /** Network address of the printer, e.g. "192.168.1.50" */
+  printerAddress: string;
+
+  // Actions
+  setLabel: (label: Partial<ZplLabelSettings>) => void;
+  setPrinterAddress: (address: string) => void;
+}
+
+export const useLabelPrinterStore = create<LabelPrinterState>()(
+  persist(
+    (set) => ({
+      ...DEFAULT_ZPL_LABEL,
+      printerAddress: '',
+
+      setLabel: (label) => set(label),
+
+      setPrinterAddress: (printerAddress) => set({ printerAddress }),
+    }),
+    {
+      name: 'prebuild-label-printer-store',
+      version: 1,
+    }
+  )
+);
@@ -6,6 +6,7 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import type { Preset, PresetFolder, PrebuildConfig } from '../types';
 import { DEFAULT_FOLDERS } from '../types';
+import { migrateComponents } from '../utils/componentItems';
 
 interface PresetsState {
   // Presets
@@ -134,6 +135,7 @@ export const usePresetsStore = create<PresetsState>()(
 
           const newPresets = imported.map((p) => ({
             ...p,
+            config: migrateComponents(p.config), // Files may predate the current categories
             id: generateId(), // Generate new IDs to avoid conflicts
             createdAt: Date.now(),
           }));
@@ -152,6 +154,12 @@ export const usePresetsStore = create<PresetsState>()(
       name: 'prebuild-presets-store',
       // Migrate from old localStorage keys
       migrate: (persistedState, version) => {
+        // Version 1 -> 2: Add the component categories added since
+        if (version === 1) {
+          const state = persistedState as PresetsState;
+          state.presets = state.presets.map((p) => ({ ...p, config: migrateComponents(p.config) }));
+          return state;
+        }
         if (version === 0) {
           // Check for legacy data
           try {
@@ -163,6 +171,10 @@ export const usePresetsStore = create<PresetsState>()(
             if (legacyPresets && state.presets.length === 0) {
               state.presets = JSON.parse(legacyPresets);
             }
+            state.presets = state.presets.map((p) => ({
+              ...p,
+              config: migrateComponents(p.config),
+            }));
             if (legacyFolders) {
               const folders = JSON.parse(legacyFolders);
               if (folders.length > 0) {
@@ -177,7 +189,7 @@ export const usePresetsStore = create<PresetsState>()(
         }
         return persistedState;
       },
-      version: 1,
+      version: 2,
     }
   )
 );
@@ -0,0 +1,26 @@
+/**
+ * Print Production Store - Bleed, printer's marks and safe-zone settings
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { DEFAULT_PRINT_PRODUCTION, PrintProductionSettings } from '../utils/printProduction';
+
+interface PrintProductionState extends PrintProductionSettings {
+  // Actions
+  setSettings: (settings: Partial<PrintProductionSettings>) => void;
+}
+
+export const usePrintProductionStore = create<PrintProductionState>()(
+  persist(
+    (set) => ({
+      ...DEFAULT_PRINT_PRODUCTION,
+
+      setSettings: (settings) => set(settings),
+    }),
+    {
+      name: 'prebuild-print-production-store',
+      version: 1,
+    }
+  )
+);
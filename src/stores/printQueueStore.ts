@@ -1,10 +1,33 @@
 /**
  * Print Queue Store - Manages batch printing of presets
- * Uses lazy loading for PDF generation to reduce initial bundle size
+ * PDFs are generated in the PDF worker (see utils/pdfWorkerClient), which is
+ * loaded lazily to keep it out of the initial bundle
+ *
+ * Every entry carries its own card sizes, copy count and multi-up flag, plus
+ * the status of its last print run. The queue is persisted, and a run only
+ * prints entries that are not done yet, so after a partial failure the same
+ * action retries just the failed entries.
  */
 
 import { create } from 'zustand';
-import { Preset, CardSize, BrandIcon, CARD_SIZES } from '../types';
+import { persist } from 'zustand/middleware';
+import {
+  Preset,
+  CardSize,
+  BrandIcon,
+  CustomFont,
+  CustomCardSize,
+  SpecVisibility,
+  CustomFieldDefinition,
+} from '../types';
+import type { SheetProfile, SheetFillOrder } from '../utils/imposition';
+import type { PdfManifestEntry } from '../utils/pdfJobs';
+import type { PdfJobHandle } from '../utils/pdfWorkerClient';
+import type { ImageExportOptions } from '../utils/imageExport';
+import type { CardBackSettings } from '../utils/cardBacks';
+import type { CardDesign } from '../utils/cardDesigns';
+import type { SpecAbbreviations } from '../utils/specAbbreviations';
+import { migrateComponents } from '../utils/componentItems';
 
 export interface PrintQueueProgress {
   current: number;
@@ -12,148 +35,282 @@ export interface PrintQueueProgress {
   currentPresetName: string;
 }
 
+export type PrintQueueItemStatus = 'pending' | 'done' | 'failed';
+
+/** Per-entry print settings */
+export interface PrintQueueItemSettings {
+  /** Card sizes to print; at least one */
+  cardSizes: CardSize[];
+  /** Copies of each size (at least 1) */
+  copies: number;
+  /** Pack the copies onto multi-up sheets instead of one card per page */
+  multiUp: boolean;
+}
+
+export interface PrintQueueItem extends PrintQueueItemSettings {
+  /** Same as the preset id; a preset is queued at most once */
+  id: string;
+  preset: Preset;
+  status: PrintQueueItemStatus;
+  /** Why the last run failed */
+  error?: string;
+}
+
+/**
+ * How the queue is downloaded:
+ * - merged: one PDF with single cards first, then multi-up sheets (default)
+ * - zip: a ZIP with one PDF per entry and size plus manifest.json
+ * - images: a ZIP with one image per entry and size plus manifest.json
+ */
+export type PrintQueueOutput = 'merged' | 'zip' | 'images';
+
+export interface PrintQueueOptions {
+  output?: PrintQueueOutput;
+  /** Format and resolution of 'images' output (default: PNG at 150 dpi) */
+  image?: ImageExportOptions;
+  /** Sheet used by multi-up entries (default: US Letter, fill page) */
+  sheetProfile?: SheetProfile;
+  /** Order of multi-up copies on the sheets (default 'grouped') */
+  fillOrder?: SheetFillOrder;
+  /** Sizes printed with back pages, and how back sheets flip */
+  cardBacks?: CardBackSettings;
+  /** Designs in use, at most one per card size */
+  designs?: CardDesign[];
+  /** Spec abbreviation rules, and the sizes they're used on */
+  abbreviations?: SpecAbbreviations;
+  /** Default specs shown on each size, for configs that don't set them */
+  specVisibility?: SpecVisibility;
+  /** The store's custom fields, for builds that show them */
+  customFields?: CustomFieldDefinition[];
+}
+
+/** One entry of the ZIP manifest */
+export type PrintQueueManifestEntry = PdfManifestEntry;
+
+export const DEFAULT_PRINT_QUEUE_SETTINGS: PrintQueueItemSettings = {
+  cardSizes: ['price'],
+  copies: 1,
+  multiUp: false,
+};
+
 interface PrintQueueState {
   // Queue state
-  queue: Preset[];
+  queue: PrintQueueItem[];
   isProcessing: boolean;
   progress: PrintQueueProgress | null;
   error: string | null;
 
   // Actions
-  addToQueue: (preset: Preset) => void;
-  addMultipleToQueue: (presets: Preset[]) => void;
+  addToQueue: (preset: Preset, settings?: Partial<PrintQueueItemSettings>) => void;
+  addMultipleToQueue: (presets: Preset[], settings?: Partial<PrintQueueItemSettings>) => void;
+  /** Change an entry's settings; it goes back to pending so the next run reprints it */
+  updateItem: (id: string, settings: Partial<PrintQueueItemSettings>) => void;
   removeFromQueue: (id: string) => void;
   clearQueue: () => void;
+  /** Remove the entries that printed successfully */
+  clearCompleted: () => void;
   reorderQueue: (fromIndex: number, toIndex: number) => void;
   isInQueue: (id: string) => boolean;
 
   // Processing
-  processQueue: (cardSize: CardSize, brandIcons: BrandIcon[]) => Promise<void>;
+  processQueue: (
+    brandIcons: BrandIcon[],
+    customFonts?: CustomFont[],
+    customSizes?: CustomCardSize[],
+    options?: PrintQueueOptions
+  ) => Promise<void>;
   cancelProcessing: () => void;
   clearError: () => void;
 }
 
-// Internal flag for cancellation
-let processingCancelled = false;
-
-// Module cache for lazy-loaded PDF functions
-let pdfModule: typeof import('../utils/pdfGenerator') | null = null;
+// The running job, so it can be cancelled
+let activeJob: PdfJobHandle | null = null;
 
-// Lazy load the PDF generator module
-const loadPDFModule = async () => {
-  if (!pdfModule) {
-    pdfModule = await import('../utils/pdfGenerator');
-  }
-  return pdfModule;
-};
+const createItem = (
+  preset: Preset,
+  settings: Partial<PrintQueueItemSettings> = {}
+): PrintQueueItem => ({
+  ...DEFAULT_PRINT_QUEUE_SETTINGS,
+  ...settings,
+  id: preset.id,
+  preset,
+  status: 'pending',
+});
 
-export const usePrintQueueStore = create<PrintQueueState>((set, get) => ({
-  queue: [],
-  isProcessing: false,
-  progress: null,
-  error: null,
-
-  addToQueue: (preset) => {
-    set((state) => {
-      // Don't add duplicates
-      if (state.queue.some((p) => p.id === preset.id)) {
-        return state;
-      }
-      return { queue: [...state.queue, preset] };
-    });
-  },
-
-  addMultipleToQueue: (presets) => {
-    set((state) => {
-      const newPresets = presets.filter((p) => !state.queue.some((q) => q.id === p.id));
-      return { queue: [...state.queue, ...newPresets] };
-    });
-  },
-
-  removeFromQueue: (id) => {
-    set((state) => ({
-      queue: state.queue.filter((p) => p.id !== id),
-    }));
-  },
-
-  clearQueue: () => {
-    set({ queue: [], error: null });
-  },
-
-  reorderQueue: (fromIndex, toIndex) => {
-    set((state) => {
-      const newQueue = [...state.queue];
-      const [removed] = newQueue.splice(fromIndex, 1);
-      newQueue.splice(toIndex, 0, removed);
-      return { queue: newQueue };
-    });
-  },
-
-  isInQueue: (id) => {
-    return get().queue.some((p) => p.id === id);
-  },
-
-  processQueue: async (cardSize, brandIcons) => {
-    const { queue } = get();
-    if (queue.length === 0) return;
-
-    processingCancelled = false;
-    set({
-      isProcessing: true,
-      progress: { current: 0, total: queue.length, currentPresetName: '' },
+export const usePrintQueueStore = create<PrintQueueState>()(
+  persist(
+    (set, get) => ({
+      queue: [],
+      isProcessing: false,
+      progress: null,
       error: null,
-    });
 
-    try {
-      // Lazy load PDF module
-      const { generatePDF, downloadPDF } = await loadPDFModule();
+      addToQueue: (preset, settings) => {
+        set((state) => {
+          // Don't add duplicates
+          if (state.queue.some((item) => item.id === preset.id)) {
+            return state;
+          }
+          return { queue: [...state.queue, createItem(preset, settings)] };
+        });
+      },
+
+      addMultipleToQueue: (presets, settings) => {
+        set((state) => {
+          const newPresets = presets.filter((p) => !state.queue.some((item) => item.id === p.id));
+          return {
+            queue: [...state.queue, ...newPresets.map((preset) => createItem(preset, settings))],
+          };
+        });
+      },
+
+      updateItem: (id, settings) => {
+        set((state) => ({
+          queue: state.queue.map((item) =>
+            item.id === id ? { ...item, ...settings, status: 'pending', error: undefined } : item
+          ),
+        }));
+      },
 
-      // Generate individual PDFs with a delay between downloads
-      for (let i = 0; i < queue.length; i++) {
-        if (processingCancelled) throw new Error('Cancelled');
+      removeFromQueue: (id) => {
+        set((state) => ({
+          queue: state.queue.filter((item) => item.id !== id),
+        }));
+      },
 
-        const preset = queue[i];
-        set({
-          progress: {
-            current: i + 1,
-            total: queue.length,
-            currentPresetName: preset.name,
-          },
+      clearQueue: () => {
+        set({ queue: [], error: null });
+      },
+
+      clearCompleted: () => {
+        set((state) => ({
+          queue: state.queue.filter((item) => item.status !== 'done'),
+        }));
+      },
+
+      reorderQueue: (fromIndex, toIndex) => {
+        set((state) => {
+          const newQueue = [...state.queue];
+          const [removed] = newQueue.splice(fromIndex, 1);
+          newQueue.splice(toIndex, 0, removed);
+          return { queue: newQueue };
         });
+      },
 
-        const doc = await generatePDF(preset.config, cardSize, brandIcons);
-        const safeName = preset.name.replace(/[^a-zA-Z0-9-_\s]/g, '').replace(/\s+/g, '-');
-        const sizeName = CARD_SIZES[cardSize].name.replace(/\s+/g, '-');
-        const filename = `${safeName}-${sizeName}.pdf`;
-        downloadPDF(doc, filename);
+      isInQueue: (id) => {
+        return get().queue.some((item) => item.id === id);
+      },
+
+      processQueue: async (brandIcons, customFonts = [], customSizes = [], options = {}) => {
+        const targets = get().queue.filter((item) => item.status !== 'done');
+        if (targets.length === 0) return;
 
-        // Delay between downloads to prevent browser blocking
-        if (i < queue.length - 1) {
-          await new Promise((resolve) => setTimeout(resolve, 500));
-        }
-      }
-
-      // Clear queue after successful processing
-      set({ queue: [], isProcessing: false, progress: null });
-    } catch (error) {
-      if ((error as Error).message === 'Cancelled') {
-        set({ isProcessing: false, progress: null });
-      } else {
-        console.error('Print queue error:', error);
         set({
-          isProcessing: false,
-          progress: null,
-          error: `Failed to generate PDFs: ${(error as Error).message}`,
+          isProcessing: true,
+          progress: { current: 0, total: targets.length, currentPresetName: '' },
+          error: null,
         });
-      }
-    }
-  },
 
-  cancelProcessing: () => {
-    processingCancelled = true;
-  },
+        try {
+          const sheetProfile =
+            options.sheetProfile ??
+            (await import('../utils/imposition')).BUILT_IN_SHEET_PROFILES[0];
+          const { startPdfJob } = await import('../utils/pdfWorkerClient');
+
+          // Generation runs in the PDF worker; only the download happens here
+          activeJob = startPdfJob(
+            {
+              kind: 'queue',
+              items: targets.map((item) => ({
+                id: item.id,
+                name: item.preset.name,
+                config: item.preset.config,
+                cardSizes: item.cardSizes,
+                copies: item.copies,
+                multiUp: item.multiUp,
+              })),
+              output: options.output ?? 'merged',
+              image: options.image,
+              sheetProfile,
+              fillOrder: options.fillOrder,
+              cardBacks: options.cardBacks,
+              designs: options.designs,
+              abbreviations: options.abbreviations,
+              specVisibility: options.specVisibility,
+              customFields: options.customFields,
+              brandIcons,
+              customFonts,
+              customSizes,
+            },
+            ({ current, total, label }) =>
+              set({ progress: { current, total, currentPresetName: label } })
+          );
+          const { files, failures } = await activeJob.promise;
+
+          const { downloadBlob } = await import('../utils/zipArchive');
+          for (const file of files) {
+            downloadBlob(file.blob, file.name);
+          }
+
+          const failureCount = Object.keys(failures).length;
+          const queue = get().queue.map((item): PrintQueueItem => {
+            if (!targets.some((target) => target.id === item.id)) return item;
+            const error = failures[item.id];
+            return error
+              ? { ...item, status: 'failed', error }
+              : { ...item, status: 'done', error: undefined };
+          });
+          set({
+            queue,
+            isProcessing: false,
+            progress: null,
+            error:
+              failureCount > 0
+                ? `Failed to generate ${failureCount} of ${targets.length} items`
+                : null,
+          });
+        } catch (error) {
+          if ((error as Error).message === 'Cancelled') {
+            set({ isProcessing: false, progress: null });
+          } else {
+            console.error('Print queue error:', error);
+            set({
+              isProcessing: false,
+              progress: null,
+              error: `Failed to generate PDFs: ${(error as Error).message}`,
+            });
+          }
+        } finally {
+          activeJob = null;
+        }
+      },
+
+      cancelProcessing: () => {
+        activeJob?.cancel();
+      },
 
-  clearError: () => {
-    set({ error: null });
-  },
-}));
+      clearError: () => {
+        set({ error: null });
+      },
+    }),
+    {
+      name: 'prebuild-print-queue-store',
+      version: 2,
+      migrate: (persistedState, version) => {
+        // Version 1 -> 2: Queued presets are snapshots; add the component categories added since
+        const state = persistedState as Pick<PrintQueueState, 'queue'>;
+        if (version < 2) {
+          state.queue = (state.queue ?? []).map((item) => ({
+            ...item,
+            preset: { ...item.preset, config: migrateComponents(item.preset.config) },
+          }));
+        }
+        return state as PrintQueueState;
+      },
+      partialize: (state) => ({
+        queue: state.queue,
+        // Processing state doesn't survive a reload
+      }),
+    }
+  )
+);
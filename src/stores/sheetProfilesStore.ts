@@ -0,0 +1,51 @@
+/**
+ * Sheet Profiles Store - Manages user-defined imposition profiles
+ *
+ * Built-in profiles live in utils/imposition and cannot be edited; copy one
+ * to adjust its margins or calibrate the printer offset.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { SheetProfile } from '../utils/imposition';
+
+export type SheetProfileInput = Omit<SheetProfile, 'id'>;
+
+interface SheetProfilesState {
+  profiles: SheetProfile[];
+
+  // Actions
+  addProfile: (profile: SheetProfileInput) => SheetProfile;
+  updateProfile: (id: string, updates: Partial<SheetProfileInput>) => void;
+  removeProfile: (id: string) => void;
+}
+
+const generateId = () => `sheet-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+export const useSheetProfilesStore = create<SheetProfilesState>()(
+  persist(
+    (set) => ({
+      profiles: [],
+
+      addProfile: (input) => {
+        const profile: SheetProfile = { ...input, id: generateId() };
+        set((state) => ({ profiles: [...state.profiles, profile] }));
+        return profile;
+      },
+
+      updateProfile: (id, updates) =>
+        set((state) => ({
+          profiles: state.profiles.map((p) => (p.id === id ? { ...p, ...updates } : p)),
+        })),
+
+      removeProfile: (id) =>
+        set((state) => ({
+          profiles: state.profiles.filter((p) => p.id !== id),
+        })),
+    }),
+    {
+      name: 'prebuild-sheet-profiles-store',
+      version: 1,
+    }
+  )
+);
@@ -0,0 +1,94 @@
+/**
+ * Spec Abbreviations Store - Rules for shortening spec values, and the card
+ * sizes they're used on
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { CardSize, ComponentCategory } from '../types';
+import {
+  AbbreviationRule,
+  AbbreviationRuleKind,
+  CategoryAbbreviations,
+  DEFAULT_CATEGORY_ABBREVIATIONS,
+  DEFAULT_SPEC_ABBREVIATIONS,
+  SpecAbbreviations,
+} from '../utils/specAbbreviations';
+
+interface SpecAbbreviationsState extends SpecAbbreviations {
+  // Actions
+  setSizeEnabled: (cardSize: CardSize, enabled: boolean) => void;
+  setStripVendor: (category: ComponentCategory, stripVendor: boolean) => void;
+  /** Add an empty rule to the end of a category's tokens or suffixes */
+  addRule: (category: ComponentCategory, kind: AbbreviationRuleKind) => void;
+  updateRule: (
+    category: ComponentCategory,
+    kind: AbbreviationRuleKind,
+    index: number,
+    rule: Partial<AbbreviationRule>
+  ) => void;
+  removeRule: (category: ComponentCategory, kind: AbbreviationRuleKind, index: number) => void;
+  /** Put a category's rules back to the defaults */
+  resetCategory: (category: ComponentCategory) => void;
+}
+
+export const useSpecAbbreviationsStore = create<SpecAbbreviationsState>()(
+  persist(
+    (set) => {
+      const updateCategory = (
+        category: ComponentCategory,
+        update: (rules: CategoryAbbreviations) => Partial<CategoryAbbreviations>
+      ) =>
+        set((state) => ({
+          categories: {
+            ...state.categories,
+            [category]: { ...state.categories[category], ...update(state.categories[category]) },
+          },
+        }));
+
+      return {
+        ...DEFAULT_SPEC_ABBREVIATIONS,
+
+        setSizeEnabled: (cardSize, enabled) =>
+          set((state) => ({
+            sizes: enabled
+              ? [...state.sizes.filter((size) => size !== cardSize), cardSize]
+              : state.sizes.filter((size) => size !== cardSize),
+          })),
+
+        setStripVendor: (category, stripVendor) =>
+          updateCategory(category, () => ({ stripVendor })),
+
+        addRule: (category, kind) =>
+          updateCategory(category, (rules) => ({
+            [kind]: [...rules[kind], { find: '', replace: '' }],
+          })),
+
+        updateRule: (category, kind, index, rule) =>
+          updateCategory(category, (rules) => ({
+            [kind]: rules[kind].map((r, i) => (i === index ? { ...r, ...rule } : r)),
+          })),
+
+        removeRule: (category, kind, index) =>
+          updateCategory(category, (rules) => ({
+            [kind]: rules[kind].filter((_, i) => i !== index),
+          })),
+
+        resetCategory: (category) =>
+          updateCategory(category, () => DEFAULT_CATEGORY_ABBREVIATIONS[category]),
+      };
+    },
+    {
+      name: 'prebuild-spec-abbreviations-store',
+      // Version 1 -> 2: Add rules for the component categories added since
+      migrate: (persistedState) => {
+        const state = persistedState as SpecAbbreviations;
+        return {
+          ...state,
+          categories: { ...DEFAULT_CATEGORY_ABBREVIATIONS, ...state.categories },
+        };
+      },
+      version: 2,
+    }
+  )
+);
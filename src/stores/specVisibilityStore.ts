@@ -0,0 +1,40 @@
+/**
+ * Spec Visibility Store - The default specs and info bar items shown on each
+ * card size, for presets that don't set their own
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { CardSize, SizeSpecVisibility, SpecVisibility } from '../types';
+
+interface SpecVisibilityState {
+  /** Lists by card size; sizes without one use their base size's built-in lists */
+  defaults: SpecVisibility;
+
+  // Actions
+  setSizeVisibility: (cardSize: CardSize, visibility: SizeSpecVisibility) => void;
+  /** Go back to the built-in lists for a size */
+  resetSize: (cardSize: CardSize) => void;
+}
+
+export const useSpecVisibilityStore = create<SpecVisibilityState>()(
+  persist(
+    (set) => ({
+      defaults: {},
+
+      setSizeVisibility: (cardSize, visibility) =>
+        set((state) => ({ defaults: { ...state.defaults, [cardSize]: visibility } })),
+
+      resetSize: (cardSize) =>
+        set((state) => {
+          const defaults = { ...state.defaults };
+          delete defaults[cardSize];
+          return { defaults };
+        }),
+    }),
+    {
+      name: 'prebuild-spec-visibility-store',
+      version: 1,
+    }
+  )
+);
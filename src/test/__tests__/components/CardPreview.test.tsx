@@ -0,0 +1,62 @@
+/**
+ * Tests for src/components/CardPreview.tsx
+ * Tests that the preview shows the shared card layout
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { CardPreview } from '../../../components/CardPreview';
+import {
+  useCardDesignsStore,
+  useCustomFieldsStore,
+  useSpecAbbreviationsStore,
+  useSpecVisibilityStore,
+} from '../../../stores';
+import { DEFAULT_SPEC_ABBREVIATIONS } from '../../../utils/specAbbreviations';
+import { defaultConfig } from '../../../data/componentOptions';
+import type { PrebuildConfig } from '../../../types';
+
+const config: PrebuildConfig = {
+  ...(defaultConfig as PrebuildConfig),
+  modelName: 'Gaming PC',
+  components: {
+    ...(defaultConfig as PrebuildConfig).components,
+    gpu: 'NVIDIA GeForce RTX 4070 Ti Super',
+  },
+};
+
+describe('CardPreview', () => {
+  beforeEach(() => {
+    useCardDesignsStore.setState({ designs: [], activeIds: {} });
+    useSpecAbbreviationsStore.setState(DEFAULT_SPEC_ABBREVIATIONS);
+    useSpecVisibilityStore.setState({ defaults: {} });
+    useCustomFieldsStore.setState({ fields: [] });
+  });
+
+  it('should follow the card template', () => {
+    const { rerender } = render(<CardPreview config={config} cardSize="price" brandIcons={[]} />);
+    expect(screen.getByText('Gaming PC')).toBeInTheDocument();
+
+    const tech = { ...config, visualSettings: { ...config.visualSettings, cardTemplate: 'tech' } };
+    rerender(<CardPreview config={tech as PrebuildConfig} cardSize="price" brandIcons={[]} />);
+
+    expect(screen.getByText('GAMING PC')).toBeInTheDocument();
+  });
+
+  it('should abbreviate specs on the sizes that use abbreviations', () => {
+    const { rerender } = render(<CardPreview config={config} cardSize="shelf" brandIcons={[]} />);
+    expect(screen.getByText(/NVIDIA RTX 4070 Ti S$/)).toBeInTheDocument();
+
+    rerender(<CardPreview config={config} cardSize="price" brandIcons={[]} />);
+
+    expect(screen.getByText('NVIDIA GeForce RTX 4070 Ti Super')).toBeInTheDocument();
+  });
+
+  it('should keep zoom controls', () => {
+    render(<CardPreview config={config} cardSize="price" brandIcons={[]} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Zoom in' }));
+
+    expect(screen.getByText('125%')).toBeInTheDocument();
+  });
+});
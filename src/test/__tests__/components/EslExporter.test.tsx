@@ -0,0 +1,104 @@
+/**
+ * Tests for src/components/EslExporter.tsx
+ * Rendering is mocked: jsdom has no canvas
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { EslExporter } from '../../../components/EslExporter';
+import { useEslLabelStore } from '../../../stores';
+import { DEFAULT_ESL_SETTINGS } from '../../../utils/eslExport';
+import * as eslExport from '../../../utils/eslExport';
+import { downloadBlob } from '../../../utils/zipArchive';
+import { defaultConfig } from '../../../data/componentOptions';
+import type { PrebuildConfig } from '../../../types';
+
+vi.mock('../../../utils/eslExport', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../utils/eslExport')>();
+  return {
+    ...actual,
+    renderEslImage: vi.fn(),
+    eslImageToPng: vi.fn(),
+  };
+});
+
+vi.mock('../../../utils/zipArchive', () => ({
+  downloadBlob: vi.fn(),
+}));
+
+const config = { ...(defaultConfig as PrebuildConfig), modelName: 'Gaming PC' };
+
+const image = {
+  width: 8,
+  height: 1,
+  palette: 'bw' as const,
+  indices: new Uint8Array([1, 0, 0, 0, 0, 0, 0, 1]),
+};
+
+const renderExpanded = () => {
+  render(<EslExporter config={config} />);
+  fireEvent.click(screen.getByRole('button', { name: /E-Paper Labels/ }));
+};
+
+describe('EslExporter', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useEslLabelStore.setState(DEFAULT_ESL_SETTINGS);
+    vi.mocked(eslExport.renderEslImage).mockResolvedValue(image);
+    vi.mocked(eslExport.eslImageToPng).mockResolvedValue(new Blob(['png'], { type: 'image/png' }));
+  });
+
+  it('should be collapsed by default', () => {
+    render(<EslExporter config={config} />);
+    expect(screen.queryByText('Download PNG')).not.toBeInTheDocument();
+    expect(eslExport.renderEslImage).not.toHaveBeenCalled();
+  });
+
+  it('should render a preview with the stored settings', async () => {
+    renderExpanded();
+
+    expect(await screen.findByAltText('2.9" (296 × 128) label preview')).toBeInTheDocument();
+    expect(eslExport.renderEslImage).toHaveBeenCalledWith(config, DEFAULT_ESL_SETTINGS, []);
+  });
+
+  it('should re-render when the settings change', async () => {
+    renderExpanded();
+
+    fireEvent.change(screen.getByLabelText('Dithering'), {
+      target: { value: 'floyd-steinberg' },
+    });
+
+    await waitFor(() => {
+      expect(eslExport.renderEslImage).toHaveBeenLastCalledWith(
+        config,
+        { ...DEFAULT_ESL_SETTINGS, dither: 'floyd-steinberg' },
+        []
+      );
+    });
+    expect(useEslLabelStore.getState().dither).toBe('floyd-steinberg');
+  });
+
+  it('should download the PNG and the bitplanes', async () => {
+    renderExpanded();
+    const png = screen.getByRole('button', { name: 'Download PNG' });
+    await waitFor(() => expect(png).toBeEnabled());
+
+    fireEvent.click(png);
+    await waitFor(() => {
+      expect(downloadBlob).toHaveBeenCalledWith(expect.any(Blob), 'Gaming PC-epaper-2.9.png');
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Download .bin' }));
+    expect(downloadBlob).toHaveBeenLastCalledWith(expect.any(Blob), 'Gaming PC-epaper-2.9.bin');
+  });
+
+  it('should show an error when rendering fails', async () => {
+    vi.mocked(eslExport.renderEslImage).mockRejectedValue(new Error('Canvas 2D is not supported'));
+    renderExpanded();
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'Failed to render label: Canvas 2D is not supported'
+    );
+    expect(screen.getByRole('button', { name: 'Download PNG' })).toBeDisabled();
+  });
+});
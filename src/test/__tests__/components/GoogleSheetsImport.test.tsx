@@ -136,7 +136,8 @@ describe('GoogleSheetsImport', () => {
       await user.click(screen.getByText('Import Builds'));
 
       expect(googleSheetsUtils.importFromGoogleSheet).toHaveBeenCalledWith(
-        'https://docs.google.com/spreadsheets/d/test123'
+        'https://docs.google.com/spreadsheets/d/test123',
+        []
       );
     });
 
@@ -296,7 +297,7 @@ describe('GoogleSheetsImport', () => {
       await user.click(screen.getByText('Sheets'));
       await user.click(screen.getByText('Download CSV (2 builds)'));
 
-      expect(googleSheetsUtils.downloadCSV).toHaveBeenCalledWith(mockBuilds);
+      expect(googleSheetsUtils.downloadCSV).toHaveBeenCalledWith(mockBuilds, undefined, []);
     });
   });
 
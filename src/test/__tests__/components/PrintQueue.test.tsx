@@ -3,10 +3,14 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { PrintQueue } from '../../../components/PrintQueue';
-import { usePrintQueueStore } from '../../../stores/printQueueStore';
+import {
+  usePrintQueueStore,
+  DEFAULT_PRINT_QUEUE_SETTINGS,
+  PrintQueueItem,
+} from '../../../stores/printQueueStore';
 import { useBrandIconsStore } from '../../../stores/brandIconsStore';
 import { Preset, PrebuildConfig } from '../../../types';
 
@@ -72,6 +76,19 @@ const createMockPreset = (id: string, name: string, price: number = 1000): Prese
   createdAt: Date.now(),
 });
 
+const createMockItem = (
+  id: string,
+  name: string,
+  price: number = 1000,
+  overrides: Partial<PrintQueueItem> = {}
+): PrintQueueItem => ({
+  ...DEFAULT_PRINT_QUEUE_SETTINGS,
+  id,
+  preset: createMockPreset(id, name, price),
+  status: 'pending',
+  ...overrides,
+});
+
 describe('PrintQueue', () => {
   beforeEach(() => {
     // Reset print queue store
@@ -98,7 +115,7 @@ describe('PrintQueue', () => {
 
     it('should render when queue has items', () => {
       usePrintQueueStore.setState({
-        queue: [createMockPreset('1', 'Gaming PC')],
+        queue: [createMockItem('1', 'Gaming PC')],
       });
 
       render(<PrintQueue />);
@@ -107,7 +124,7 @@ describe('PrintQueue', () => {
 
     it('should display queue count in header', () => {
       usePrintQueueStore.setState({
-        queue: [createMockPreset('1', 'Gaming PC'), createMockPreset('2', 'Workstation')],
+        queue: [createMockItem('1', 'Gaming PC'), createMockItem('2', 'Workstation')],
       });
 
       render(<PrintQueue />);
@@ -116,7 +133,7 @@ describe('PrintQueue', () => {
 
     it('should display preset names in queue', () => {
       usePrintQueueStore.setState({
-        queue: [createMockPreset('1', 'Gaming PC'), createMockPreset('2', 'Workstation')],
+        queue: [createMockItem('1', 'Gaming PC'), createMockItem('2', 'Workstation')],
       });
 
       render(<PrintQueue />);
@@ -126,46 +143,47 @@ describe('PrintQueue', () => {
 
     it('should display preset prices', () => {
       usePrintQueueStore.setState({
-        queue: [createMockPreset('1', 'Gaming PC', 1499)],
+        queue: [createMockItem('1', 'Gaming PC', 1499)],
       });
 
       render(<PrintQueue />);
       expect(screen.getByText('$1,499.00')).toBeInTheDocument();
     });
 
-    it('should show card size selector', () => {
+    it('should show print settings for each item', () => {
       usePrintQueueStore.setState({
-        queue: [createMockPreset('1', 'Gaming PC')],
+        queue: [createMockItem('1', 'Gaming PC')],
       });
 
       render(<PrintQueue />);
-      expect(screen.getByText('Card Size')).toBeInTheDocument();
-      expect(screen.getByRole('combobox')).toBeInTheDocument();
+      expect(screen.getByRole('group', { name: 'Card sizes for Gaming PC' })).toBeInTheDocument();
+      expect(screen.getByLabelText('Copies of Gaming PC')).toHaveValue(1);
+      expect(screen.getByLabelText('Print Gaming PC multi-up')).not.toBeChecked();
     });
 
     it('should show download button with count', () => {
       usePrintQueueStore.setState({
-        queue: [createMockPreset('1', 'Gaming PC'), createMockPreset('2', 'Workstation')],
+        queue: [createMockItem('1', 'Gaming PC'), createMockItem('2', 'Workstation')],
       });
 
       render(<PrintQueue />);
-      expect(screen.getByText('Download 2 PDFs')).toBeInTheDocument();
+      expect(screen.getByText('Download PDF (2 items)')).toBeInTheDocument();
     });
 
     it('should show singular PDF text for single item', () => {
       usePrintQueueStore.setState({
-        queue: [createMockPreset('1', 'Gaming PC')],
+        queue: [createMockItem('1', 'Gaming PC')],
       });
 
       render(<PrintQueue />);
-      expect(screen.getByText('Download 1 PDF')).toBeInTheDocument();
+      expect(screen.getByText('Download PDF (1 item)')).toBeInTheDocument();
     });
   });
 
   describe('clear all', () => {
     it('should show clear all button when queue has items', () => {
       usePrintQueueStore.setState({
-        queue: [createMockPreset('1', 'Gaming PC')],
+        queue: [createMockItem('1', 'Gaming PC')],
       });
 
       render(<PrintQueue />);
@@ -175,7 +193,7 @@ describe('PrintQueue', () => {
     it('should clear queue when clear all is clicked', async () => {
       const user = userEvent.setup();
       usePrintQueueStore.setState({
-        queue: [createMockPreset('1', 'Gaming PC'), createMockPreset('2', 'Workstation')],
+        queue: [createMockItem('1', 'Gaming PC'), createMockItem('2', 'Workstation')],
       });
 
       render(<PrintQueue />);
@@ -192,7 +210,7 @@ describe('PrintQueue', () => {
     it('should remove preset when remove button is clicked', async () => {
       const user = userEvent.setup();
       usePrintQueueStore.setState({
-        queue: [createMockPreset('1', 'Gaming PC'), createMockPreset('2', 'Workstation')],
+        queue: [createMockItem('1', 'Gaming PC'), createMockItem('2', 'Workstation')],
       });
 
       render(<PrintQueue />);
@@ -203,40 +221,206 @@ describe('PrintQueue', () => {
 
       const { queue } = usePrintQueueStore.getState();
       expect(queue).toHaveLength(1);
-      expect(queue[0].name).toBe('Workstation');
+      expect(queue[0].preset.name).toBe('Workstation');
+    });
+  });
+
+  describe('item settings', () => {
+    it('should offer every card size and default to price', () => {
+      usePrintQueueStore.setState({
+        queue: [createMockItem('1', 'Gaming PC')],
+      });
+
+      render(<PrintQueue />);
+
+      expect(screen.getByRole('checkbox', { name: 'Shelf Tag' })).not.toBeChecked();
+      expect(screen.getByRole('checkbox', { name: 'Price Card' })).toBeChecked();
+      expect(screen.getByRole('checkbox', { name: 'Poster' })).not.toBeChecked();
+    });
+
+    it('should toggle card sizes but keep at least one', async () => {
+      const user = userEvent.setup();
+      usePrintQueueStore.setState({
+        queue: [createMockItem('1', 'Gaming PC')],
+      });
+
+      render(<PrintQueue />);
+      await user.click(screen.getByRole('checkbox', { name: 'Shelf Tag' }));
+      expect(usePrintQueueStore.getState().queue[0].cardSizes).toEqual(['price', 'shelf']);
+
+      await user.click(screen.getByRole('checkbox', { name: 'Price Card' }));
+      await user.click(screen.getByRole('checkbox', { name: 'Shelf Tag' }));
+      expect(usePrintQueueStore.getState().queue[0].cardSizes).toEqual(['shelf']);
+    });
+
+    it('should update copies and the multi-up flag', async () => {
+      const user = userEvent.setup();
+      usePrintQueueStore.setState({
+        queue: [createMockItem('1', 'Gaming PC')],
+      });
+
+      render(<PrintQueue />);
+      fireEvent.change(screen.getByLabelText('Copies of Gaming PC'), { target: { value: '4' } });
+      await user.click(screen.getByLabelText('Print Gaming PC multi-up'));
+
+      expect(usePrintQueueStore.getState().queue[0]).toMatchObject({ copies: 4, multiUp: true });
+    });
+  });
+
+  describe('item status', () => {
+    it('should show the status and error of each item', () => {
+      usePrintQueueStore.setState({
+        queue: [
+          createMockItem('1', 'Gaming PC', 1000, { status: 'done' }),
+          createMockItem('2', 'Workstation', 1000, { status: 'failed', error: 'Logo missing' }),
+        ],
+      });
+
+      render(<PrintQueue />);
+      expect(screen.getByText('Done')).toBeInTheDocument();
+      expect(screen.getByText('Failed')).toBeInTheDocument();
+      expect(screen.getByText('Logo missing')).toBeInTheDocument();
+    });
+
+    it('should offer to retry when only failed items remain', () => {
+      usePrintQueueStore.setState({
+        queue: [
+          createMockItem('1', 'Gaming PC', 1000, { status: 'done' }),
+          createMockItem('2', 'Workstation', 1000, { status: 'failed', error: 'Logo missing' }),
+        ],
+      });
+
+      render(<PrintQueue />);
+      expect(screen.getByText('Retry 1 Failed')).toBeInTheDocument();
+    });
+
+    it('should hide the download button when everything is done', () => {
+      usePrintQueueStore.setState({
+        queue: [createMockItem('1', 'Gaming PC', 1000, { status: 'done' })],
+      });
+
+      render(<PrintQueue />);
+      expect(screen.queryByText(/Download/)).not.toBeInTheDocument();
+    });
+
+    it('should clear done items', async () => {
+      const user = userEvent.setup();
+      usePrintQueueStore.setState({
+        queue: [
+          createMockItem('1', 'Gaming PC', 1000, { status: 'done' }),
+          createMockItem('2', 'Workstation'),
+        ],
+      });
+
+      render(<PrintQueue />);
+      await user.click(screen.getByText('Clear Done'));
+
+      expect(usePrintQueueStore.getState().queue.map((item) => item.id)).toEqual(['2']);
+    });
+  });
+
+  describe('output selection', () => {
+    it('should default to a combined PDF', () => {
+      usePrintQueueStore.setState({
+        queue: [createMockItem('1', 'Gaming PC')],
+      });
+
+      render(<PrintQueue />);
+      expect(screen.getByLabelText('Output')).toHaveValue('merged');
+    });
+
+    it('should offer a ZIP download', async () => {
+      const user = userEvent.setup();
+      usePrintQueueStore.setState({
+        queue: [createMockItem('1', 'Gaming PC'), createMockItem('2', 'Workstation')],
+      });
+
+      render(<PrintQueue />);
+      await user.selectOptions(screen.getByLabelText('Output'), 'zip');
+
+      expect(screen.getByText('Download ZIP (2 items)')).toBeInTheDocument();
     });
   });
 
-  describe('card size selection', () => {
-    it('should have all card size options', () => {
+  describe('sheet output', () => {
+    it('should show sheet options once an item is multi-up', async () => {
+      const user = userEvent.setup();
       usePrintQueueStore.setState({
-        queue: [createMockPreset('1', 'Gaming PC')],
+        queue: [createMockItem('1', 'Gaming PC'), createMockItem('2', 'Workstation')],
       });
 
       render(<PrintQueue />);
+      expect(screen.queryByLabelText('Sheet')).not.toBeInTheDocument();
+
+      await user.click(screen.getByLabelText('Print Gaming PC multi-up'));
 
-      const select = screen.getByRole('combobox');
-      expect(select.querySelector('option[value="shelf"]')).toBeInTheDocument();
-      expect(select.querySelector('option[value="price"]')).toBeInTheDocument();
-      expect(select.querySelector('option[value="poster"]')).toBeInTheDocument();
+      expect(screen.getByLabelText('Sheet')).toBeInTheDocument();
+      expect(screen.getByLabelText('Fill Order')).toHaveValue('grouped');
     });
 
-    it('should default to price card size', () => {
+    it('should pass the output and sheet options to processQueue', async () => {
+      const user = userEvent.setup();
+      const originalProcessQueue = usePrintQueueStore.getState().processQueue;
+      const processQueue = vi.fn().mockResolvedValue(undefined);
       usePrintQueueStore.setState({
-        queue: [createMockPreset('1', 'Gaming PC')],
+        queue: [createMockItem('1', 'Gaming PC', 1000, { multiUp: true })],
+        processQueue,
       });
 
       render(<PrintQueue />);
+      await user.selectOptions(screen.getByLabelText('Sheet'), 'a4-fill');
+      await user.selectOptions(screen.getByLabelText('Fill Order'), 'collated');
+      await user.click(screen.getByText('Download PDF (1 item)'));
+
+      expect(processQueue).toHaveBeenCalledWith([], [], [], {
+        output: 'merged',
+        sheetProfile: expect.objectContaining({ id: 'a4-fill' }),
+        fillOrder: 'collated',
+        image: { format: 'png', dpi: 150 },
+        cardBacks: { sizes: [], flip: 'long-edge' },
+        designs: [],
+        abbreviations: expect.objectContaining({ sizes: ['shelf'] }),
+        specVisibility: {},
+        customFields: [],
+      });
+
+      usePrintQueueStore.setState({ processQueue: originalProcessQueue });
+    });
+  });
+
+  describe('image output', () => {
+    it('should pick the image format and resolution instead of sheet options', async () => {
+      const user = userEvent.setup();
+      const originalProcessQueue = usePrintQueueStore.getState().processQueue;
+      const processQueue = vi.fn().mockResolvedValue(undefined);
+      usePrintQueueStore.setState({
+        queue: [createMockItem('1', 'Gaming PC', 1000, { multiUp: true })],
+        processQueue,
+      });
+
+      render(<PrintQueue />);
+      await user.selectOptions(screen.getByLabelText('Output'), 'images');
+      expect(screen.queryByLabelText('Sheet')).not.toBeInTheDocument();
+
+      await user.selectOptions(screen.getByLabelText('Format'), 'webp');
+      await user.selectOptions(screen.getByLabelText('Resolution'), '300');
+      await user.click(screen.getByText('Download ZIP (1 item)'));
+
+      expect(processQueue).toHaveBeenCalledWith(
+        [],
+        [],
+        [],
+        expect.objectContaining({ output: 'images', image: { format: 'webp', dpi: 300 } })
+      );
 
-      const select = screen.getByRole('combobox') as HTMLSelectElement;
-      expect(select.value).toBe('price');
+      usePrintQueueStore.setState({ processQueue: originalProcessQueue });
     });
   });
 
   describe('error display', () => {
     it('should show error when error state is set', () => {
       usePrintQueueStore.setState({
-        queue: [createMockPreset('1', 'Gaming PC')],
+        queue: [createMockItem('1', 'Gaming PC')],
         error: 'Failed to generate PDFs',
       });
 
@@ -247,7 +431,7 @@ describe('PrintQueue', () => {
     it('should clear error when dismiss button is clicked', async () => {
       const user = userEvent.setup();
       usePrintQueueStore.setState({
-        queue: [createMockPreset('1', 'Gaming PC')],
+        queue: [createMockItem('1', 'Gaming PC')],
         error: 'Failed to generate PDFs',
       });
 
@@ -268,7 +452,7 @@ describe('PrintQueue', () => {
   describe('processing state', () => {
     it('should show progress indicator when processing', () => {
       usePrintQueueStore.setState({
-        queue: [createMockPreset('1', 'Gaming PC')],
+        queue: [createMockItem('1', 'Gaming PC')],
         isProcessing: true,
         progress: {
           current: 1,
@@ -288,7 +472,7 @@ describe('PrintQueue', () => {
 
     it('should show cancel button during processing', () => {
       usePrintQueueStore.setState({
-        queue: [createMockPreset('1', 'Gaming PC')],
+        queue: [createMockItem('1', 'Gaming PC')],
         isProcessing: true,
         progress: {
           current: 1,
@@ -301,9 +485,9 @@ describe('PrintQueue', () => {
       expect(screen.getByText('Cancel')).toBeInTheDocument();
     });
 
-    it('should hide card size selector during processing', () => {
+    it('should hide output options during processing', () => {
       usePrintQueueStore.setState({
-        queue: [createMockPreset('1', 'Gaming PC')],
+        queue: [createMockItem('1', 'Gaming PC')],
         isProcessing: true,
         progress: {
           current: 1,
@@ -313,12 +497,12 @@ describe('PrintQueue', () => {
       });
 
       render(<PrintQueue />);
-      expect(screen.queryByText('Card Size')).not.toBeInTheDocument();
+      expect(screen.queryByLabelText('Output')).not.toBeInTheDocument();
     });
 
     it('should hide download button during processing', () => {
       usePrintQueueStore.setState({
-        queue: [createMockPreset('1', 'Gaming PC')],
+        queue: [createMockItem('1', 'Gaming PC')],
         isProcessing: true,
         progress: {
           current: 1,
@@ -334,7 +518,7 @@ describe('PrintQueue', () => {
 
     it('should hide clear all button during processing', () => {
       usePrintQueueStore.setState({
-        queue: [createMockPreset('1', 'Gaming PC')],
+        queue: [createMockItem('1', 'Gaming PC')],
         isProcessing: true,
         progress: {
           current: 1,
@@ -351,7 +535,7 @@ describe('PrintQueue', () => {
   describe('drag and drop', () => {
     it('should have draggable items', () => {
       usePrintQueueStore.setState({
-        queue: [createMockPreset('1', 'Gaming PC'), createMockPreset('2', 'Workstation')],
+        queue: [createMockItem('1', 'Gaming PC'), createMockItem('2', 'Workstation')],
       });
 
       render(<PrintQueue />);
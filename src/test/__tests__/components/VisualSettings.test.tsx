@@ -13,7 +13,7 @@ import type { VisualSettings } from '../../../types';
 // Mock the barcode utilities
 vi.mock('../../../utils/barcode', () => ({
   isValidBarcode: vi.fn((text: string) => text.length > 0 && text.length <= 80),
-  generateBarcodeDataUrl: vi.fn((text: string) =>
+  generateBarcodeDataUrl: vi.fn(async (text: string) =>
     text ? 'data:image/png;base64,mockbarcode' : ''
   ),
 }));
@@ -0,0 +1,123 @@
+/**
+ * Tests for src/components/ZplExporter.tsx
+ * Tests the label settings and the download/send actions
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ZplExporter } from '../../../components/ZplExporter';
+import { useLabelPrinterStore, useSpecAbbreviationsStore } from '../../../stores';
+import { DEFAULT_SPEC_ABBREVIATIONS } from '../../../utils/specAbbreviations';
+import { DEFAULT_ZPL_LABEL } from '../../../utils/zplGenerator';
+import * as zplGenerator from '../../../utils/zplGenerator';
+import { defaultConfig } from '../../../data/componentOptions';
+import type { PrebuildConfig } from '../../../types';
+
+vi.mock('../../../utils/zplGenerator', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../utils/zplGenerator')>();
+  return {
+    ...actual,
+    downloadZpl: vi.fn(),
+    sendZplToPrinter: vi.fn(),
+  };
+});
+
+const config = { ...(defaultConfig as PrebuildConfig), modelName: 'Gaming PC' };
+
+const renderExpanded = () => {
+  render(<ZplExporter config={config} brandIcons={[]} />);
+  fireEvent.click(screen.getByRole('button', { name: /Thermal Labels/ }));
+};
+
+describe('ZplExporter', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useLabelPrinterStore.setState({ ...DEFAULT_ZPL_LABEL, printerAddress: '' });
+  });
+
+  it('should be collapsed by default', () => {
+    render(<ZplExporter config={config} brandIcons={[]} />);
+    expect(screen.queryByText('Download .zpl')).not.toBeInTheDocument();
+  });
+
+  it('should keep the physical label size when changing resolution', () => {
+    renderExpanded();
+
+    fireEvent.change(screen.getByLabelText('Resolution'), { target: { value: '300' } });
+
+    expect(useLabelPrinterStore.getState()).toMatchObject({
+      dpi: 300,
+      widthDots: 600,
+      heightDots: 900,
+    });
+    expect(screen.getByText('2.00" × 3.00"')).toBeInTheDocument();
+  });
+
+  it('should download the shelf tag as a .zpl file', () => {
+    renderExpanded();
+
+    fireEvent.click(screen.getByText('Download .zpl'));
+
+    expect(zplGenerator.downloadZpl).toHaveBeenCalledWith(
+      expect.stringContaining('^PW406'),
+      'Gaming PC-Shelf-Tag.zpl'
+    );
+  });
+
+  it('should build the tag with the stored abbreviations', () => {
+    useSpecAbbreviationsStore.setState(DEFAULT_SPEC_ABBREVIATIONS);
+    const spy = vi.spyOn(zplGenerator, 'generateShelfTagZpl');
+    renderExpanded();
+
+    fireEvent.click(screen.getByText('Download .zpl'));
+
+    expect(spy).toHaveBeenCalledWith(
+      config,
+      expect.any(Object),
+      expect.objectContaining({ abbreviations: DEFAULT_SPEC_ABBREVIATIONS })
+    );
+  });
+
+  it('should show the codes left off the label', () => {
+    const tag = {
+      ...config,
+      sku: 'GPC-RYZEN7-7800X3D-RTX4070-32GB-2TB-NVME',
+    };
+    render(<ZplExporter config={tag} brandIcons={[]} />);
+    fireEvent.click(screen.getByRole('button', { name: /Thermal Labels/ }));
+
+    fireEvent.click(screen.getByText('Download .zpl'));
+
+    expect(screen.getByText('Barcode generation failed')).toBeInTheDocument();
+  });
+
+  it('should only send once a printer address is entered', async () => {
+    renderExpanded();
+    const send = screen.getByRole('button', { name: 'Send to Printer' });
+    expect(send).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Printer address'), {
+      target: { value: '10.0.0.5' },
+    });
+    fireEvent.click(send);
+
+    await waitFor(() => {
+      expect(screen.getByRole('status')).toHaveTextContent('Sent to 10.0.0.5');
+    });
+    expect(zplGenerator.sendZplToPrinter).toHaveBeenCalledWith(expect.any(String), '10.0.0.5');
+  });
+
+  it('should show send errors', async () => {
+    vi.mocked(zplGenerator.sendZplToPrinter).mockRejectedValueOnce(
+      new Error('Could not reach the printer at 10.0.0.5')
+    );
+    useLabelPrinterStore.setState({ printerAddress: '10.0.0.5' });
+    renderExpanded();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Send to Printer' }));
+
+    await waitFor(() => {
+      expect(screen.getByRole('alert')).toHaveTextContent('Could not reach the printer');
+    });
+  });
+});
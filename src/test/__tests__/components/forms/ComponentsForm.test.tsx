@@ -35,23 +35,28 @@ vi.mock('../../../../utils/componentLibrary', () => ({
 vi.mock('../../../../components/EnhancedComponentSelector', () => ({
   EnhancedComponentSelector: ({
     category,
+    label,
     value,
     onChange,
     showPrice,
     priceValue,
     onPriceChange,
+    onRemove,
   }: {
     category: string;
+    label?: string;
     value: string;
     onChange: (value: string) => void;
     showPrice?: boolean;
     priceValue?: number;
     onPriceChange?: (value: number) => void;
+    onRemove?: () => void;
   }) => (
-    <div data-testid={`component-${category}`}>
-      <label>{category.toUpperCase()}</label>
+    <div data-testid={`component-${label ?? category}`}>
+      <label>{label ?? category.toUpperCase()}</label>
+      {onRemove && <button onClick={onRemove}>Remove {label}</button>}
       <select
-        data-testid={`${category}-select`}
+        data-testid={`${label ?? category}-select`}
         value={value}
         onChange={(e) => onChange(e.target.value)}
       >
@@ -63,7 +68,7 @@ vi.mock('../../../../components/EnhancedComponentSelector', () => ({
       </select>
       {showPrice && (
         <input
-          data-testid={`${category}-price`}
+          data-testid={`${label ?? category}-price`}
           type="number"
           value={priceValue || ''}
           onChange={(e) => onPriceChange?.(Number(e.target.value))}
@@ -156,6 +161,48 @@ describe('ComponentsForm', () => {
     });
   });
 
+  describe('further line items', () => {
+    it('should render the added categories', () => {
+      render(<ComponentsForm />);
+
+      expect(screen.getByTestId('component-fans')).toBeInTheDocument();
+      expect(screen.getByTestId('component-expansion')).toBeInTheDocument();
+      expect(screen.getByTestId('component-peripherals')).toBeInTheDocument();
+      expect(screen.getByTestId('component-monitor')).toBeInTheDocument();
+    });
+
+    it('should add, fill in and remove another line item of a category', async () => {
+      const user = userEvent.setup();
+      render(<ComponentsForm />);
+
+      await user.click(screen.getByLabelText('Add another Storage'));
+      await user.selectOptions(screen.getByTestId('Storage 2-select'), 'test-value');
+
+      const [item] = useConfigStore.getState().config.extraComponents ?? [];
+      expect(item).toMatchObject({ category: 'storage', value: 'test-value' });
+
+      await user.click(screen.getByText('Remove Storage 2'));
+      expect(useConfigStore.getState().config.extraComponents).toEqual([]);
+      expect(screen.queryByTestId('component-Storage 2')).not.toBeInTheDocument();
+    });
+
+    it('should price a line item by its id', async () => {
+      const user = userEvent.setup();
+      useConfigStore.setState({
+        config: {
+          ...defaultConfig,
+          showComponentPrices: true,
+          extraComponents: [{ id: 'item-1', category: 'fans', value: '2x 140mm' }],
+        },
+      });
+      render(<ComponentsForm />);
+
+      await user.type(screen.getByTestId('Fans 2-price'), '30');
+
+      expect(useConfigStore.getState().config.componentPrices['item-1']).toBe(30);
+    });
+  });
+
   describe('show prices toggle', () => {
     it('should be unchecked by default', () => {
       render(<ComponentsForm />);
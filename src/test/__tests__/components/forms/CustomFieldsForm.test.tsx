@@ -0,0 +1,110 @@
+/**
+ * Tests for src/components/forms/CustomFieldsForm.tsx
+ * Tests editing custom field values and definitions
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { CustomFieldsForm } from '../../../../components/forms/CustomFieldsForm';
+import { useConfigStore, useCustomFieldsStore } from '../../../../stores';
+import { defaultConfig } from '../../../../data/componentOptions';
+import type { CustomFieldDefinition } from '../../../../types';
+
+const fields: CustomFieldDefinition[] = [
+  {
+    id: 'field-bt',
+    label: 'Bluetooth',
+    type: 'boolean',
+    options: [],
+    placement: 'spec',
+    csvHeaders: [],
+    createdAt: 0,
+  },
+  {
+    id: 'field-size',
+    label: 'Monitor Size',
+    type: 'enum',
+    options: ['24"', '27"'],
+    placement: 'info',
+    csvHeaders: [],
+    createdAt: 0,
+  },
+  {
+    id: 'field-hours',
+    label: 'Assembly Hours',
+    type: 'number',
+    options: [],
+    placement: 'none',
+    csvHeaders: [],
+    createdAt: 0,
+  },
+];
+
+describe('CustomFieldsForm', () => {
+  beforeEach(() => {
+    useConfigStore.setState({
+      config: { ...defaultConfig },
+      history: { past: [], future: [] },
+      canUndo: false,
+      canRedo: false,
+    });
+    useCustomFieldsStore.setState({ fields });
+  });
+
+  it('should render an input per field', () => {
+    render(<CustomFieldsForm />);
+
+    expect(screen.getByText('Custom Fields')).toBeInTheDocument();
+    expect(screen.getByLabelText('Bluetooth')).toBeInTheDocument();
+    expect(screen.getByLabelText('Monitor Size')).toBeInTheDocument();
+    expect(screen.getByLabelText('Assembly Hours')).toHaveAttribute('type', 'number');
+  });
+
+  it("should set the build's values by field type", async () => {
+    const user = userEvent.setup();
+    render(<CustomFieldsForm />);
+
+    await user.selectOptions(screen.getByLabelText('Bluetooth'), 'yes');
+    await user.selectOptions(screen.getByLabelText('Monitor Size'), '27"');
+    await user.type(screen.getByLabelText('Assembly Hours'), '3');
+
+    expect(useConfigStore.getState().config.customFields).toEqual({
+      'field-bt': true,
+      'field-size': '27"',
+      'field-hours': 3,
+    });
+  });
+
+  it('should clear a value when it is emptied', async () => {
+    const user = userEvent.setup();
+    useConfigStore.getState().setCustomFieldValue('field-bt', false);
+    render(<CustomFieldsForm />);
+
+    await user.selectOptions(screen.getByLabelText('Bluetooth'), '');
+
+    expect(useConfigStore.getState().config.customFields).toEqual({});
+  });
+
+  it('should add, edit and remove field definitions', async () => {
+    const user = userEvent.setup();
+    useCustomFieldsStore.setState({ fields: [] });
+    render(<CustomFieldsForm />);
+
+    await user.click(screen.getByText('+ Add field'));
+    const [added] = useCustomFieldsStore.getState().fields;
+    expect(added).toMatchObject({ label: 'New field', type: 'text', placement: 'none' });
+
+    await user.selectOptions(screen.getByLabelText('New field type'), 'enum');
+    await user.type(screen.getByLabelText('New field choices'), 'Black, White');
+    await user.selectOptions(screen.getByLabelText('New field placement'), 'spec');
+    expect(useCustomFieldsStore.getState().fields[0]).toMatchObject({
+      type: 'enum',
+      options: ['Black', 'White'],
+      placement: 'spec',
+    });
+
+    await user.click(screen.getByLabelText('Remove New field'));
+    expect(useCustomFieldsStore.getState().fields).toEqual([]);
+  });
+});
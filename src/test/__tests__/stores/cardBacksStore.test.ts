@@ -0,0 +1,39 @@
+/**
+ * Tests for src/stores/cardBacksStore.ts
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useCardBacksStore } from '../../../stores/cardBacksStore';
+import { DEFAULT_CARD_BACKS, hasCardBack } from '../../../utils/cardBacks';
+
+describe('cardBacksStore', () => {
+  beforeEach(() => {
+    useCardBacksStore.setState(DEFAULT_CARD_BACKS);
+    localStorage.clear();
+  });
+
+  it('should default to no backs and long-edge flipping', () => {
+    expect(useCardBacksStore.getState()).toMatchObject({ sizes: [], flip: 'long-edge' });
+  });
+
+  it('should turn backs on and off per card size', () => {
+    const { setBackEnabled } = useCardBacksStore.getState();
+    setBackEnabled('price', true);
+    setBackEnabled('poster', true);
+    setBackEnabled('price', true);
+    setBackEnabled('poster', false);
+
+    const state = useCardBacksStore.getState();
+    expect(state.sizes).toEqual(['price']);
+    expect(hasCardBack(state, 'price')).toBe(true);
+    expect(hasCardBack(state, 'shelf')).toBe(false);
+  });
+
+  it('should update and persist the flip', () => {
+    useCardBacksStore.getState().setSettings({ flip: 'short-edge' });
+
+    expect(useCardBacksStore.getState().flip).toBe('short-edge');
+    const stored = JSON.parse(localStorage.getItem('prebuild-card-backs-store') ?? '{}');
+    expect(stored.state).toMatchObject({ flip: 'short-edge' });
+  });
+});
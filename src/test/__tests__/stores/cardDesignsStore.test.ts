@@ -0,0 +1,84 @@
+/**
+ * Tests for src/stores/cardDesignsStore.ts
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useCardDesignsStore } from '../../../stores/cardDesignsStore';
+import { createDesign } from '../../../utils/cardDesigns';
+
+describe('cardDesignsStore', () => {
+  beforeEach(() => {
+    useCardDesignsStore.setState({ designs: [], activeIds: {} });
+    localStorage.clear();
+  });
+
+  it('should add a design and replace it when saved again', () => {
+    const design = createDesign('Mine', 'price', 4, 6);
+    const { saveDesign } = useCardDesignsStore.getState();
+    saveDesign(design);
+    saveDesign({ ...design, name: 'Renamed' });
+
+    const { designs, getDesignById } = useCardDesignsStore.getState();
+    expect(designs).toHaveLength(1);
+    expect(getDesignById(design.id)?.name).toBe('Renamed');
+  });
+
+  it('should use at most one design per card size', () => {
+    const first = createDesign('First', 'price', 4, 6);
+    const second = createDesign('Second', 'price', 4, 6);
+    const shelf = createDesign('Shelf', 'shelf', 3, 2);
+    const { saveDesign, setActiveDesign } = useCardDesignsStore.getState();
+    [first, second, shelf].forEach(saveDesign);
+    setActiveDesign('price', first.id);
+    setActiveDesign('price', second.id);
+    setActiveDesign('shelf', shelf.id);
+
+    const active = useCardDesignsStore.getState().getActiveDesigns();
+    expect(active.map((design) => design.name)).toEqual(['Second', 'Shelf']);
+
+    useCardDesignsStore.getState().setActiveDesign('shelf', null);
+    expect(useCardDesignsStore.getState().activeIds).toEqual({ price: second.id });
+  });
+
+  it('should stop using a design when it is removed', () => {
+    const design = createDesign('Mine', 'price', 4, 6);
+    const { saveDesign, setActiveDesign, removeDesign } = useCardDesignsStore.getState();
+    saveDesign(design);
+    setActiveDesign('price', design.id);
+    removeDesign(design.id);
+
+    const state = useCardDesignsStore.getState();
+    expect(state.designs).toEqual([]);
+    expect(state.getActiveDesigns()).toEqual([]);
+    expect(state.activeIds).toEqual({});
+  });
+
+  it('should export a saved design and import it as a new one', () => {
+    const design = createDesign('Mine', 'price', 4, 6);
+    const { saveDesign, exportTemplate, importTemplate } = useCardDesignsStore.getState();
+    saveDesign(design);
+    const json = exportTemplate(design.id)!;
+    const result = importTemplate(json);
+
+    expect(exportTemplate('missing')).toBeNull();
+    expect(result.errors).toEqual([]);
+    const { designs } = useCardDesignsStore.getState();
+    expect(designs).toHaveLength(2);
+    expect(designs[1]).toMatchObject({ id: result.design!.id, name: 'Mine' });
+  });
+
+  it('should not save a template with errors', () => {
+    const result = useCardDesignsStore.getState().importTemplate('{"format":"other"}');
+
+    expect(result.design).toBeNull();
+    expect(result.errors[0].path).toBe('format');
+    expect(useCardDesignsStore.getState().designs).toEqual([]);
+  });
+
+  it('should persist designs', () => {
+    useCardDesignsStore.getState().saveDesign(createDesign('Mine', 'price', 4, 6));
+
+    const stored = JSON.parse(localStorage.getItem('prebuild-card-designs-store') ?? '{}');
+    expect(stored.state.designs[0].name).toBe('Mine');
+  });
+});
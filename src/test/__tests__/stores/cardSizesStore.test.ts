@@ -0,0 +1,74 @@
+/**
+ * Tests for src/stores/cardSizesStore.ts
+ * Tests the Zustand store for user-defined card sizes
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useCardSizesStore } from '../../../stores/cardSizesStore';
+
+const sizeInput = {
+  name: 'Business Card',
+  width: 3.5,
+  height: 2,
+  unit: 'in' as const,
+  orientation: 'landscape' as const,
+};
+
+describe('cardSizesStore', () => {
+  beforeEach(() => {
+    useCardSizesStore.setState({ sizes: [] });
+    localStorage.clear();
+  });
+
+  it('should start with no sizes', () => {
+    expect(useCardSizesStore.getState().sizes).toEqual([]);
+  });
+
+  describe('addSize', () => {
+    it('should add a size with a custom- prefixed id', () => {
+      const size = useCardSizesStore.getState().addSize(sizeInput);
+
+      expect(size.id).toMatch(/^custom-/);
+      expect(size.createdAt).toBeGreaterThan(0);
+      expect(size).toMatchObject(sizeInput);
+      expect(useCardSizesStore.getState().sizes).toEqual([size]);
+    });
+
+    it('should give each size a unique id', () => {
+      const { addSize } = useCardSizesStore.getState();
+      const a = addSize(sizeInput);
+      const b = addSize(sizeInput);
+
+      expect(a.id).not.toBe(b.id);
+    });
+  });
+
+  describe('updateSize', () => {
+    it('should update only the matching size', () => {
+      const { addSize, updateSize } = useCardSizesStore.getState();
+      const a = addSize(sizeInput);
+      const b = addSize(sizeInput);
+
+      updateSize(a.id, { name: 'Counter Card', width: 5, height: 7 });
+
+      expect(useCardSizesStore.getState().getSizeById(a.id)).toMatchObject({
+        name: 'Counter Card',
+        width: 5,
+        height: 7,
+      });
+      expect(useCardSizesStore.getState().getSizeById(b.id)?.name).toBe('Business Card');
+    });
+  });
+
+  describe('removeSize', () => {
+    it('should remove the size', () => {
+      const { addSize, removeSize } = useCardSizesStore.getState();
+      const size = addSize(sizeInput);
+
+      removeSize(size.id);
+
+      expect(useCardSizesStore.getState().sizes).toEqual([]);
+      expect(useCardSizesStore.getState().getSizeById(size.id)).toBeUndefined();
+    });
+  });
+});
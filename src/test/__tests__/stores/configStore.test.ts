@@ -5,6 +5,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { useConfigStore } from '../../../stores/configStore';
 import { defaultConfig } from '../../../data/componentOptions';
+import type { PrebuildConfig } from '../../../types';
 
 describe('configStore', () => {
   beforeEach(() => {
@@ -87,6 +88,23 @@ describe('configStore', () => {
       expect(useConfigStore.getState().config.components.cpu).toBe('Intel Core i9-14900K');
     });
 
+    it('should add, price and remove further component line items', () => {
+      const { addComponentItem, setComponentItem, setComponentPrice, removeComponentItem } =
+        useConfigStore.getState();
+      const id = addComponentItem('storage');
+      setComponentItem(id, '4TB HDD');
+      setComponentPrice(id, 80);
+
+      let { config } = useConfigStore.getState();
+      expect(config.extraComponents).toEqual([{ id, category: 'storage', value: '4TB HDD' }]);
+      expect(config.componentPrices[id]).toBe(80);
+
+      removeComponentItem(id);
+      ({ config } = useConfigStore.getState());
+      expect(config.extraComponents).toEqual([]);
+      expect(id in config.componentPrices).toBe(false);
+    });
+
     it('should toggle feature', () => {
       useConfigStore.getState().toggleFeature('VR Ready');
       expect(useConfigStore.getState().config.features).toContain('VR Ready');
@@ -172,5 +190,18 @@ describe('configStore', () => {
       expect(config.price).toBe(1999);
       expect(config.colorTheme).toBe('gaming');
     });
+
+    it('should add component categories missing from older presets', () => {
+      const presetConfig = {
+        ...defaultConfig,
+        components: { cpu: 'Ryzen 7' },
+      } as unknown as PrebuildConfig;
+
+      useConfigStore.getState().loadConfig(presetConfig);
+
+      const { config } = useConfigStore.getState();
+      expect(config.components.cpu).toBe('Ryzen 7');
+      expect(config.components.fans).toBe('');
+    });
   });
 });
@@ -0,0 +1,41 @@
+/**
+ * Tests for src/stores/customFieldsStore.ts
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useCustomFieldsStore } from '../../../stores/customFieldsStore';
+
+const bluetooth = {
+  label: 'Bluetooth',
+  type: 'boolean' as const,
+  options: [],
+  placement: 'spec' as const,
+  csvHeaders: ['BT'],
+};
+
+describe('customFieldsStore', () => {
+  beforeEach(() => {
+    useCustomFieldsStore.setState({ fields: [] });
+    localStorage.clear();
+  });
+
+  it('should add a field with a field id', () => {
+    const field = useCustomFieldsStore.getState().addField(bluetooth);
+
+    expect(field.id).toMatch(/^field-/);
+    expect(useCustomFieldsStore.getState().fields).toEqual([field]);
+    expect(useCustomFieldsStore.getState().getFieldById(field.id)).toEqual(field);
+  });
+
+  it('should update and remove a field', () => {
+    const { addField, updateField, removeField } = useCustomFieldsStore.getState();
+    const field = addField(bluetooth);
+    const other = addField({ ...bluetooth, label: 'Monitor' });
+
+    updateField(field.id, { placement: 'info' });
+    expect(useCustomFieldsStore.getState().getFieldById(field.id)?.placement).toBe('info');
+
+    removeField(field.id);
+    expect(useCustomFieldsStore.getState().fields).toEqual([other]);
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Tests for src/stores/eslLabelStore.ts
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useEslLabelStore } from '../../../stores/eslLabelStore';
+import { DEFAULT_ESL_SETTINGS } from '../../../utils/eslExport';
+
+describe('eslLabelStore', () => {
+  beforeEach(() => {
+    useEslLabelStore.setState(DEFAULT_ESL_SETTINGS);
+    localStorage.clear();
+  });
+
+  it('should default to the 2.9" three-colour label without dithering', () => {
+    expect(useEslLabelStore.getState()).toMatchObject({
+      modelId: 'epaper-2.9',
+      palette: 'bwr',
+      dither: 'none',
+    });
+  });
+
+  it('should update and persist the settings', () => {
+    useEslLabelStore.getState().setSettings({ modelId: 'epaper-4.2', dither: 'ordered' });
+
+    expect(useEslLabelStore.getState()).toMatchObject({
+      modelId: 'epaper-4.2',
+      palette: 'bwr',
+      dither: 'ordered',
+    });
+    const stored = JSON.parse(localStorage.getItem('prebuild-esl-label-store') ?? '{}');
+    expect(stored.state).toMatchObject({ modelId: 'epaper-4.2', dither: 'ordered' });
+  });
+});
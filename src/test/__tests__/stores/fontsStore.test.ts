@@ -0,0 +1,64 @@
+/**
+ * Tests for src/stores/fontsStore.ts
+ * Tests the Zustand store for uploaded custom fonts
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useFontsStore } from '../../../stores/fontsStore';
+
+const fontInput = {
+  name: 'Brand Sans',
+  fileName: 'BrandSans.ttf',
+  format: 'truetype' as const,
+  data: 'AAEAAAAL',
+};
+
+describe('fontsStore', () => {
+  beforeEach(() => {
+    useFontsStore.setState({ fonts: [] });
+    localStorage.clear();
+  });
+
+  it('should start with no fonts', () => {
+    expect(useFontsStore.getState().fonts).toEqual([]);
+  });
+
+  describe('addFont', () => {
+    it('should add a font with a generated id', () => {
+      const font = useFontsStore.getState().addFont(fontInput);
+
+      expect(font.id).toBeTruthy();
+      expect(font.createdAt).toBeGreaterThan(0);
+      expect(font).toMatchObject(fontInput);
+      expect(useFontsStore.getState().fonts).toEqual([font]);
+    });
+
+    it('should give each font a unique id', () => {
+      const { addFont } = useFontsStore.getState();
+      const a = addFont(fontInput);
+      const b = addFont(fontInput);
+
+      expect(a.id).not.toBe(b.id);
+      expect(useFontsStore.getState().fonts).toHaveLength(2);
+    });
+  });
+
+  describe('renameFont', () => {
+    it('should rename a font', () => {
+      const font = useFontsStore.getState().addFont(fontInput);
+      useFontsStore.getState().renameFont(font.id, 'Brand Display');
+
+      expect(useFontsStore.getState().getFontById(font.id)?.name).toBe('Brand Display');
+    });
+  });
+
+  describe('removeFont', () => {
+    it('should remove a font by id', () => {
+      const font = useFontsStore.getState().addFont(fontInput);
+      useFontsStore.getState().removeFont(font.id);
+
+      expect(useFontsStore.getState().fonts).toEqual([]);
+      expect(useFontsStore.getState().getFontById(font.id)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Tests for src/stores/labelPrinterStore.ts
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useLabelPrinterStore } from '../../../stores/labelPrinterStore';
+import { DEFAULT_ZPL_LABEL } from '../../../utils/zplGenerator';
+
+describe('labelPrinterStore', () => {
+  beforeEach(() => {
+    useLabelPrinterStore.setState({ ...DEFAULT_ZPL_LABEL, printerAddress: '' });
+    localStorage.clear();
+  });
+
+  it('should default to a 2" × 3" label at 203 dpi', () => {
+    expect(useLabelPrinterStore.getState()).toMatchObject({
+      dpi: 203,
+      widthDots: 406,
+      heightDots: 609,
+      printerAddress: '',
+    });
+  });
+
+  it('should update and persist the label and printer address', () => {
+    const { setLabel, setPrinterAddress } = useLabelPrinterStore.getState();
+    setLabel({ heightDots: 812 });
+    setPrinterAddress('10.0.0.5');
+
+    expect(useLabelPrinterStore.getState()).toMatchObject({ widthDots: 406, heightDots: 812 });
+    const stored = JSON.parse(localStorage.getItem('prebuild-label-printer-store') ?? '{}');
+    expect(stored.state).toMatchObject({ heightDots: 812, printerAddress: '10.0.0.5' });
+  });
+});
@@ -206,6 +206,22 @@ describe('presetsStore', () => {
       expect(usePresetsStore.getState().presets).toHaveLength(2);
     });
 
+    it('should add the current component categories to imported presets', () => {
+      const oldConfig = {
+        ...mockConfig,
+        components: { cpu: 'Ryzen 7', gpu: 'RTX 4070' },
+        componentPrices: { cpu: 299, gpu: 549 },
+      };
+      usePresetsStore
+        .getState()
+        .importPresets(JSON.stringify([{ id: '1', name: 'Old', config: oldConfig, createdAt: 0 }]));
+
+      const [preset] = usePresetsStore.getState().presets;
+      expect(preset.config.components.cpu).toBe('Ryzen 7');
+      expect(preset.config.components.monitor).toBe('');
+      expect(preset.config.componentPrices.fans).toBe(0);
+    });
+
     it('should return 0 for invalid JSON import', () => {
       const count = usePresetsStore.getState().importPresets('invalid json');
       expect(count).toBe(0);
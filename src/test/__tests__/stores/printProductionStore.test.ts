@@ -0,0 +1,32 @@
+/**
+ * Tests for src/stores/printProductionStore.ts
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { usePrintProductionStore } from '../../../stores/printProductionStore';
+import { DEFAULT_PRINT_PRODUCTION } from '../../../utils/printProduction';
+
+describe('printProductionStore', () => {
+  beforeEach(() => {
+    usePrintProductionStore.setState(DEFAULT_PRINT_PRODUCTION);
+    localStorage.clear();
+  });
+
+  it('should default to no bleed, no marks and a 1/8" safe margin', () => {
+    expect(usePrintProductionStore.getState()).toMatchObject({
+      bleed: 0,
+      cropMarks: false,
+      registrationMarks: false,
+      safeMargin: 0.125,
+      showSafeZone: false,
+    });
+  });
+
+  it('should update and persist the settings', () => {
+    usePrintProductionStore.getState().setSettings({ bleed: 0.125, cropMarks: true });
+
+    expect(usePrintProductionStore.getState()).toMatchObject({ bleed: 0.125, cropMarks: true });
+    const stored = JSON.parse(localStorage.getItem('prebuild-print-production-store') ?? '{}');
+    expect(stored.state).toMatchObject({ bleed: 0.125, cropMarks: true });
+  });
+});
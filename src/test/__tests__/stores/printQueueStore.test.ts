@@ -5,13 +5,44 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { usePrintQueueStore } from '../../../stores/printQueueStore';
 import { Preset, PrebuildConfig } from '../../../types';
+import { getSheetProfile } from '../../../utils/imposition';
+import * as pdfGenerator from '../../../utils/pdfGenerator';
+import * as zipArchive from '../../../utils/zipArchive';
+import * as imageExport from '../../../utils/imageExport';
 
 // Mock the PDF generator
 vi.mock('../../../utils/pdfGenerator', () => ({
-  generatePDF: vi.fn().mockResolvedValue({}),
   downloadPDF: vi.fn(),
+  // Cards are stood in for by "<model>:<size>" (":back" for backs); a model named "Broken" fails
+  prepareCard: vi.fn(
+    async (config: PrebuildConfig, cardSize: string, _options?: unknown, side?: string) => {
+      if (config.modelName === 'Broken') throw new Error('Image failed to load');
+      return `${config.modelName}:${cardSize}${side === 'back' ? ':back' : ''}`;
+    }
+  ),
+  generateCombinedPDF: vi.fn(async () => ({ output: () => new ArrayBuffer(4) })),
+  generateMixedSheets: vi.fn(async () => ({ output: () => new ArrayBuffer(4) })),
 }));
 
+// Build archives for real, but don't hand them to the browser
+vi.mock('../../../utils/zipArchive', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../utils/zipArchive')>();
+  return {
+    ...actual,
+    createZipArchive: vi.fn(actual.createZipArchive),
+    downloadBlob: vi.fn(),
+  };
+});
+
+// jsdom can't rasterize; stand in a 3-byte image
+vi.mock('../../../utils/imageExport', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../utils/imageExport')>();
+  return {
+    ...actual,
+    exportCardImage: vi.fn(async () => ({ arrayBuffer: async () => new ArrayBuffer(3) })),
+  };
+});
+
 // Create a mock preset for testing
 const createMockPreset = (id: string, name: string): Preset => ({
   id,
@@ -87,7 +118,25 @@ describe('PrintQueueStore', () => {
       const { queue } = usePrintQueueStore.getState();
       expect(queue).toHaveLength(1);
       expect(queue[0].id).toBe('1');
-      expect(queue[0].name).toBe('Gaming PC');
+      expect(queue[0].preset.name).toBe('Gaming PC');
+      expect(queue[0]).toMatchObject({
+        cardSizes: ['price'],
+        copies: 1,
+        multiUp: false,
+        status: 'pending',
+      });
+    });
+
+    it('should apply the given print settings', () => {
+      usePrintQueueStore
+        .getState()
+        .addToQueue(createMockPreset('1', 'Gaming PC'), { cardSizes: ['shelf'], copies: 4 });
+
+      expect(usePrintQueueStore.getState().queue[0]).toMatchObject({
+        cardSizes: ['shelf'],
+        copies: 4,
+        multiUp: false,
+      });
     });
 
     it('should not add duplicate presets', () => {
@@ -138,6 +187,26 @@ describe('PrintQueueStore', () => {
     });
   });
 
+  describe('updateItem', () => {
+    it('should change settings and reset the status to pending', () => {
+      usePrintQueueStore.getState().addToQueue(createMockPreset('1', 'Gaming PC'));
+      usePrintQueueStore.setState((state) => ({
+        queue: state.queue.map((item) => ({ ...item, status: 'failed', error: 'Oops' })),
+      }));
+
+      usePrintQueueStore
+        .getState()
+        .updateItem('1', { cardSizes: ['shelf', 'poster'], multiUp: true });
+
+      expect(usePrintQueueStore.getState().queue[0]).toMatchObject({
+        cardSizes: ['shelf', 'poster'],
+        multiUp: true,
+        status: 'pending',
+        error: undefined,
+      });
+    });
+  });
+
   describe('removeFromQueue', () => {
     it('should remove a preset from the queue', () => {
       const preset1 = createMockPreset('1', 'Gaming PC');
@@ -182,6 +251,53 @@ describe('PrintQueueStore', () => {
     });
   });
 
+  describe('clearCompleted', () => {
+    it('should remove only done items', () => {
+      usePrintQueueStore
+        .getState()
+        .addMultipleToQueue([
+          createMockPreset('1', 'Gaming PC'),
+          createMockPreset('2', 'Workstation'),
+        ]);
+      usePrintQueueStore.setState((state) => ({
+        queue: state.queue.map((item) => (item.id === '1' ? { ...item, status: 'done' } : item)),
+      }));
+
+      usePrintQueueStore.getState().clearCompleted();
+
+      expect(usePrintQueueStore.getState().queue.map((item) => item.id)).toEqual(['2']);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should persist the queue but not the processing state', () => {
+      usePrintQueueStore.getState().addToQueue(createMockPreset('1', 'Gaming PC'));
+      usePrintQueueStore.setState({ error: 'Test error' });
+
+      const stored = JSON.parse(localStorage.getItem('prebuild-print-queue-store') ?? '{}');
+      expect(stored.state.queue).toHaveLength(1);
+      expect(stored.state.queue[0].preset.name).toBe('Gaming PC');
+      expect(stored.state.error).toBeUndefined();
+      expect(stored.state.isProcessing).toBeUndefined();
+    });
+
+    it('should add the newer component categories to queued presets from version 1', async () => {
+      const preset = createMockPreset('1', 'Gaming PC');
+      const item = { id: '1', preset, status: 'pending', cardSizes: ['price'], copies: 1 };
+      localStorage.setItem(
+        'prebuild-print-queue-store',
+        JSON.stringify({ state: { queue: [item] }, version: 1 })
+      );
+
+      await usePrintQueueStore.persist.rehydrate();
+
+      const { config } = usePrintQueueStore.getState().queue[0].preset;
+      expect(config.components.cpu).toBe('Test CPU');
+      expect(config.components.fans).toBe('');
+      expect(config.componentPrices?.monitor).toBe(0);
+    });
+  });
+
   describe('reorderQueue', () => {
     it('should reorder presets in the queue', () => {
       const presets = [
@@ -240,8 +356,12 @@ describe('PrintQueueStore', () => {
   });
 
   describe('processQueue', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+    });
+
     it('should not process empty queue', async () => {
-      await usePrintQueueStore.getState().processQueue('price', []);
+      await usePrintQueueStore.getState().processQueue([]);
 
       const { isProcessing, progress } = usePrintQueueStore.getState();
       expect(isProcessing).toBe(false);
@@ -252,7 +372,7 @@ describe('PrintQueueStore', () => {
       const preset = createMockPreset('1', 'Gaming PC');
       usePrintQueueStore.getState().addToQueue(preset);
 
-      const processPromise = usePrintQueueStore.getState().processQueue('price', []);
+      const processPromise = usePrintQueueStore.getState().processQueue([]);
 
       // Check state during processing
       expect(usePrintQueueStore.getState().isProcessing).toBe(true);
@@ -260,25 +380,239 @@ describe('PrintQueueStore', () => {
       await processPromise;
     });
 
-    it('should clear queue after successful processing', async () => {
+    it('should mark items done after successful processing', async () => {
       const preset = createMockPreset('1', 'Gaming PC');
       usePrintQueueStore.getState().addToQueue(preset);
 
-      await usePrintQueueStore.getState().processQueue('price', []);
+      await usePrintQueueStore.getState().processQueue([]);
 
-      const { queue, isProcessing, progress } = usePrintQueueStore.getState();
-      expect(queue).toHaveLength(0);
+      const { queue, isProcessing, progress, error } = usePrintQueueStore.getState();
+      expect(queue).toHaveLength(1);
+      expect(queue[0].status).toBe('done');
       expect(isProcessing).toBe(false);
       expect(progress).toBeNull();
+      expect(error).toBeNull();
+    });
+
+    it('should print every size and copy of single items into one PDF', async () => {
+      const { addToQueue, processQueue } = usePrintQueueStore.getState();
+      addToQueue(createMockPreset('1', 'Gaming PC'), { cardSizes: ['shelf', 'price'], copies: 2 });
+      addToQueue(createMockPreset('2', 'Workstation'));
+
+      await processQueue([]);
+
+      expect(pdfGenerator.generateCombinedPDF).toHaveBeenCalledWith([
+        'Gaming PC:shelf',
+        'Gaming PC:shelf',
+        'Gaming PC:price',
+        'Gaming PC:price',
+        'Workstation:price',
+      ]);
+      expect(pdfGenerator.generateMixedSheets).not.toHaveBeenCalled();
+      expect(zipArchive.downloadBlob).toHaveBeenCalledTimes(1);
+      expect(zipArchive.downloadBlob).toHaveBeenCalledWith(expect.any(Blob), 'Print-Queue.pdf');
+    });
+
+    it('should append multi-up items as sheets, one run per card size', async () => {
+      const { addToQueue, processQueue } = usePrintQueueStore.getState();
+      addToQueue(createMockPreset('1', 'Gaming PC'));
+      addToQueue(createMockPreset('2', 'Workstation'), {
+        cardSizes: ['shelf'],
+        copies: 6,
+        multiUp: true,
+      });
+      addToQueue(createMockPreset('3', 'Budget Build'), {
+        cardSizes: ['shelf', 'price'],
+        copies: 2,
+        multiUp: true,
+      });
+      const sheetProfile = getSheetProfile('a4-fill');
+
+      await processQueue([], [], [], { sheetProfile, fillOrder: 'collated' });
+
+      const combined = await vi.mocked(pdfGenerator.generateCombinedPDF).mock.results[0].value;
+      expect(pdfGenerator.generateMixedSheets).toHaveBeenCalledTimes(2);
+      expect(pdfGenerator.generateMixedSheets).toHaveBeenNthCalledWith(
+        1,
+        ['Workstation:shelf', 'Budget Build:shelf'],
+        sheetProfile,
+        { copies: [6, 2], fillOrder: 'collated', doc: combined }
+      );
+      expect(pdfGenerator.generateMixedSheets).toHaveBeenNthCalledWith(
+        2,
+        ['Budget Build:price'],
+        sheetProfile,
+        expect.objectContaining({ copies: [2] })
+      );
+      expect(zipArchive.downloadBlob).toHaveBeenCalledTimes(1);
+    });
+
+    it('should print card backs behind the sizes that have them', async () => {
+      const { addToQueue, processQueue } = usePrintQueueStore.getState();
+      addToQueue(createMockPreset('1', 'Gaming PC'), { cardSizes: ['shelf', 'price'], copies: 2 });
+      addToQueue(createMockPreset('2', 'Workstation'), { multiUp: true });
+
+      await processQueue([], [], [], {
+        cardBacks: { sizes: ['price'], flip: 'short-edge' },
+      });
+
+      expect(pdfGenerator.generateCombinedPDF).toHaveBeenCalledWith([
+        'Gaming PC:shelf',
+        'Gaming PC:shelf',
+        'Gaming PC:price',
+        'Gaming PC:price:back',
+        'Gaming PC:price',
+        'Gaming PC:price:back',
+      ]);
+      expect(pdfGenerator.generateMixedSheets).toHaveBeenCalledWith(
+        ['Workstation:price'],
+        expect.anything(),
+        expect.objectContaining({ backs: ['Workstation:price:back'], flip: 'short-edge' })
+      );
+    });
+
+    it('should download a ZIP with a PDF per item and size plus a manifest', async () => {
+      const { addToQueue, processQueue } = usePrintQueueStore.getState();
+      addToQueue(createMockPreset('1', 'Gaming PC'), { cardSizes: ['shelf', 'price'] });
+      addToQueue(createMockPreset('2', 'Gaming PC!'));
+      addToQueue(createMockPreset('3', 'Workstation'), { copies: 10, multiUp: true });
+
+      await processQueue([], [], [], { output: 'zip' });
+
+      const files = vi.mocked(zipArchive.createZipArchive).mock.calls[0][0];
+      expect(files.map((f) => f.name)).toEqual([
+        'Gaming-PC-Shelf-Tag.pdf',
+        'Gaming-PC-Price-Card.pdf',
+        'Gaming-PC-Price-Card-2.pdf',
+        'Workstation-Price-Card.pdf',
+        'manifest.json',
+      ]);
+
+      const manifest = JSON.parse(files[4].data as string);
+      expect(manifest.files[2]).toEqual({
+        file: 'Gaming-PC-Price-Card-2.pdf',
+        preset: 'Gaming PC!',
+        modelName: 'Gaming PC!',
+        sku: 'TEST-001',
+        price: 1000,
+        cardSize: 'Price Card',
+        copies: 1,
+        multiUp: false,
+      });
+      expect(pdfGenerator.generateMixedSheets).toHaveBeenCalledWith(
+        ['Workstation:price'],
+        expect.anything(),
+        { copies: 10 }
+      );
+
+      expect(zipArchive.downloadBlob).toHaveBeenCalledWith(expect.any(Blob), 'Print-Queue.zip');
+    });
+
+    it('should download a ZIP with an image per item and size', async () => {
+      const { addToQueue, processQueue } = usePrintQueueStore.getState();
+      addToQueue(createMockPreset('1', 'Gaming PC'), { cardSizes: ['shelf', 'price'] });
+      addToQueue(createMockPreset('2', 'Workstation'), { copies: 10, multiUp: true });
+
+      await processQueue([], [], [], { output: 'images', image: { format: 'jpeg', dpi: 72 } });
+
+      const files = vi.mocked(zipArchive.createZipArchive).mock.calls[0][0];
+      expect(files.map((f) => f.name)).toEqual([
+        'Gaming-PC-Shelf-Tag.jpg',
+        'Gaming-PC-Price-Card.jpg',
+        'Workstation-Price-Card.jpg',
+        'manifest.json',
+      ]);
+      expect(imageExport.exportCardImage).toHaveBeenCalledTimes(3);
+      expect(imageExport.exportCardImage).toHaveBeenCalledWith(
+        undefined,
+        { format: 'jpeg', dpi: 72 },
+        undefined
+      );
+      expect(pdfGenerator.generateMixedSheets).not.toHaveBeenCalled();
+
+      // One image regardless of copies
+      const manifest = JSON.parse(files[3].data as string);
+      expect(manifest.files[2]).toMatchObject({ copies: 1, multiUp: false });
+
+      expect(zipArchive.downloadBlob).toHaveBeenCalledWith(
+        expect.any(Blob),
+        'Print-Queue-Images.zip'
+      );
+    });
+
+    it('should record failed items and still print the rest', async () => {
+      usePrintQueueStore
+        .getState()
+        .addMultipleToQueue([createMockPreset('1', 'Gaming PC'), createMockPreset('2', 'Broken')]);
+
+      await usePrintQueueStore.getState().processQueue([]);
+
+      const { queue, error } = usePrintQueueStore.getState();
+      expect(queue[0].status).toBe('done');
+      expect(queue[1]).toMatchObject({ status: 'failed', error: 'Image failed to load' });
+      expect(error).toBe('Failed to generate 1 of 2 items');
+      expect(pdfGenerator.generateCombinedPDF).toHaveBeenCalledWith(['Gaming PC:price']);
+    });
+
+    it('should only retry items that are not done', async () => {
+      usePrintQueueStore
+        .getState()
+        .addMultipleToQueue([createMockPreset('1', 'Gaming PC'), createMockPreset('2', 'Broken')]);
+      await usePrintQueueStore.getState().processQueue([]);
+      vi.clearAllMocks();
+
+      // Fix the broken preset and run again
+      usePrintQueueStore.setState((state) => ({
+        queue: state.queue.map((item) =>
+          item.id === '2'
+            ? {
+                ...item,
+                preset: { ...item.preset, config: { ...item.preset.config, modelName: 'Fixed' } },
+              }
+            : item
+        ),
+      }));
+      await usePrintQueueStore.getState().processQueue([]);
+
+      expect(pdfGenerator.prepareCard).toHaveBeenCalledTimes(1);
+      expect(pdfGenerator.generateCombinedPDF).toHaveBeenCalledWith(['Fixed:price']);
+      expect(usePrintQueueStore.getState().queue.map((item) => item.status)).toEqual([
+        'done',
+        'done',
+      ]);
+      expect(usePrintQueueStore.getState().error).toBeNull();
     });
   });
 
   describe('cancelProcessing', () => {
-    it('should set cancellation flag', () => {
-      usePrintQueueStore.getState().cancelProcessing();
-      // The cancellation is handled internally via a module-level flag
-      // We can't directly test it, but we verify the method exists
-      expect(typeof usePrintQueueStore.getState().cancelProcessing).toBe('function');
+    beforeEach(() => {
+      vi.clearAllMocks();
+    });
+
+    it('should be safe to call when nothing is running', () => {
+      expect(() => usePrintQueueStore.getState().cancelProcessing()).not.toThrow();
+    });
+
+    it('should stop the run without downloading or changing statuses', async () => {
+      usePrintQueueStore
+        .getState()
+        .addMultipleToQueue([
+          createMockPreset('1', 'Gaming PC'),
+          createMockPreset('2', 'Workstation'),
+        ]);
+      vi.mocked(pdfGenerator.prepareCard).mockImplementationOnce(async (config) => {
+        usePrintQueueStore.getState().cancelProcessing();
+        return `${config.modelName}:price` as never;
+      });
+
+      await usePrintQueueStore.getState().processQueue([]);
+
+      const { queue, isProcessing, error } = usePrintQueueStore.getState();
+      expect(pdfGenerator.prepareCard).toHaveBeenCalledTimes(1);
+      expect(zipArchive.downloadBlob).not.toHaveBeenCalled();
+      expect(queue.map((item) => item.status)).toEqual(['pending', 'pending']);
+      expect(isProcessing).toBe(false);
+      expect(error).toBeNull();
     });
   });
 });
@@ -0,0 +1,66 @@
+/**
+ * Tests for src/stores/sheetProfilesStore.ts
+ * Tests the Zustand store for user-defined sheet profiles
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useSheetProfilesStore, type SheetProfileInput } from '../../../stores/sheetProfilesStore';
+
+const profileInput: SheetProfileInput = {
+  name: 'Office Printer',
+  paper: 'letter',
+  orientation: 'portrait',
+  gutterX: 0.1,
+  gutterY: 0.1,
+  rotate: false,
+  cropMarks: true,
+  bleed: 0,
+  offsetX: 0,
+  offsetY: 0,
+};
+
+describe('sheetProfilesStore', () => {
+  beforeEach(() => {
+    useSheetProfilesStore.setState({ profiles: [] });
+    localStorage.clear();
+  });
+
+  it('should start with no profiles', () => {
+    expect(useSheetProfilesStore.getState().profiles).toEqual([]);
+  });
+
+  describe('addProfile', () => {
+    it('should add a profile with a sheet- prefixed id', () => {
+      const profile = useSheetProfilesStore.getState().addProfile(profileInput);
+
+      expect(profile.id).toMatch(/^sheet-/);
+      expect(profile).toMatchObject(profileInput);
+      expect(useSheetProfilesStore.getState().profiles).toEqual([profile]);
+    });
+  });
+
+  describe('updateProfile', () => {
+    it('should update only the matching profile', () => {
+      const { addProfile, updateProfile } = useSheetProfilesStore.getState();
+      const a = addProfile(profileInput);
+      const b = addProfile(profileInput);
+
+      updateProfile(a.id, { offsetX: 0.04, paper: 'a4' });
+
+      const [updatedA, updatedB] = useSheetProfilesStore.getState().profiles;
+      expect(updatedA).toMatchObject({ id: a.id, offsetX: 0.04, paper: 'a4' });
+      expect(updatedB).toEqual(b);
+    });
+  });
+
+  describe('removeProfile', () => {
+    it('should remove the profile', () => {
+      const { addProfile, removeProfile } = useSheetProfilesStore.getState();
+      const profile = addProfile(profileInput);
+
+      removeProfile(profile.id);
+
+      expect(useSheetProfilesStore.getState().profiles).toEqual([]);
+    });
+  });
+});
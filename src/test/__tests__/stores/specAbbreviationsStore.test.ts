@@ -0,0 +1,68 @@
+/**
+ * Tests for src/stores/specAbbreviationsStore.ts
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useSpecAbbreviationsStore } from '../../../stores/specAbbreviationsStore';
+import {
+  DEFAULT_CATEGORY_ABBREVIATIONS,
+  DEFAULT_SPEC_ABBREVIATIONS,
+} from '../../../utils/specAbbreviations';
+
+describe('specAbbreviationsStore', () => {
+  beforeEach(() => {
+    useSpecAbbreviationsStore.setState(DEFAULT_SPEC_ABBREVIATIONS);
+    localStorage.clear();
+  });
+
+  it('should start with the default rules', () => {
+    const { sizes, categories } = useSpecAbbreviationsStore.getState();
+    expect(sizes).toEqual(['shelf']);
+    expect(categories).toEqual(DEFAULT_CATEGORY_ABBREVIATIONS);
+  });
+
+  describe('setSizeEnabled', () => {
+    it('should turn sizes on and off', () => {
+      const { setSizeEnabled } = useSpecAbbreviationsStore.getState();
+      setSizeEnabled('price', true);
+      setSizeEnabled('price', true);
+      setSizeEnabled('shelf', false);
+
+      expect(useSpecAbbreviationsStore.getState().sizes).toEqual(['price']);
+    });
+  });
+
+  describe('rules', () => {
+    it('should add, update and remove rules of one category', () => {
+      const { addRule, updateRule, removeRule } = useSpecAbbreviationsStore.getState();
+      const count = DEFAULT_CATEGORY_ABBREVIATIONS.cpu.tokens.length;
+
+      addRule('cpu', 'tokens');
+      updateRule('cpu', 'tokens', count, { find: 'Ultra', replace: 'U' });
+      let { categories } = useSpecAbbreviationsStore.getState();
+      expect(categories.cpu.tokens[count]).toEqual({ find: 'Ultra', replace: 'U' });
+      expect(categories.gpu).toBe(DEFAULT_CATEGORY_ABBREVIATIONS.gpu);
+
+      removeRule('cpu', 'tokens', 0);
+      categories = useSpecAbbreviationsStore.getState().categories;
+      expect(categories.cpu.tokens).toHaveLength(count);
+      expect(categories.cpu.tokens.at(-1)).toEqual({ find: 'Ultra', replace: 'U' });
+    });
+
+    it('should turn vendor stripping off', () => {
+      useSpecAbbreviationsStore.getState().setStripVendor('ram', false);
+      expect(useSpecAbbreviationsStore.getState().categories.ram.stripVendor).toBe(false);
+    });
+
+    it('should reset a category to the defaults', () => {
+      const { removeRule, setStripVendor, resetCategory } = useSpecAbbreviationsStore.getState();
+      removeRule('gpu', 'tokens', 0);
+      setStripVendor('gpu', false);
+      resetCategory('gpu');
+
+      expect(useSpecAbbreviationsStore.getState().categories.gpu).toEqual(
+        DEFAULT_CATEGORY_ABBREVIATIONS.gpu
+      );
+    });
+  });
+});
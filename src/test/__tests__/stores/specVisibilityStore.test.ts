@@ -0,0 +1,29 @@
+/**
+ * Tests for src/stores/specVisibilityStore.ts
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useSpecVisibilityStore } from '../../../stores/specVisibilityStore';
+import { DEFAULT_SIZE_SPEC_VISIBILITY } from '../../../utils/specVisibility';
+
+describe('specVisibilityStore', () => {
+  beforeEach(() => {
+    useSpecVisibilityStore.setState({ defaults: {} });
+    localStorage.clear();
+  });
+
+  it('should start without lists of its own', () => {
+    expect(useSpecVisibilityStore.getState().defaults).toEqual({});
+  });
+
+  it('should set and reset the lists of a size', () => {
+    const { setSizeVisibility, resetSize } = useSpecVisibilityStore.getState();
+    setSizeVisibility('price', DEFAULT_SIZE_SPEC_VISIBILITY.shelf);
+    setSizeVisibility('poster', DEFAULT_SIZE_SPEC_VISIBILITY.shelf);
+    resetSize('price');
+
+    expect(useSpecVisibilityStore.getState().defaults).toEqual({
+      poster: DEFAULT_SIZE_SPEC_VISIBILITY.shelf,
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Tests for src/utils/assetCache.ts
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  getGeneratedAsset,
+  hashContent,
+  loadImage,
+  withAssetCache,
+} from '../../../utils/assetCache';
+import { decodeImage } from '../../../utils/canvas';
+
+vi.mock('../../../utils/canvas', () => ({
+  decodeImage: vi.fn(async (src: string) => {
+    if (src.includes('broken')) throw new Error('Decode failed');
+    return { source: new Uint8Array(), width: 10, height: 5 };
+  }),
+}));
+
+const LOGO = 'data:image/png;base64,bG9nbw==';
+const ICON = 'data:image/png;base64,aWNvbg==';
+
+describe('assetCache', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('hashContent', () => {
+    it('should be stable and differ for different content', () => {
+      expect(hashContent(LOGO)).toBe(hashContent(LOGO));
+      expect(hashContent(LOGO)).not.toBe(hashContent(ICON));
+    });
+  });
+
+  describe('loadImage', () => {
+    it('should decode every time outside a batch', async () => {
+      await loadImage(LOGO);
+      await loadImage(LOGO);
+
+      expect(decodeImage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should decode each image once per batch', async () => {
+      await withAssetCache(async () => {
+        const [first, second] = await Promise.all([loadImage(LOGO), loadImage(LOGO)]);
+        await loadImage(ICON);
+
+        expect(second).toBe(first);
+        expect(first.alias).toBe(`img-${hashContent(LOGO)}`);
+      });
+
+      expect(decodeImage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should share the cache with nested batches and drop it afterwards', async () => {
+      await withAssetCache(async () => {
+        await loadImage(LOGO);
+        await withAssetCache(() => loadImage(LOGO));
+        await loadImage(LOGO);
+      });
+      await withAssetCache(() => loadImage(LOGO));
+
+      expect(decodeImage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache failed decodes', async () => {
+      await withAssetCache(async () => {
+        await expect(loadImage('data:broken')).rejects.toThrow('Decode failed');
+        await expect(loadImage('data:broken')).rejects.toThrow('Decode failed');
+      });
+
+      expect(decodeImage).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getGeneratedAsset', () => {
+    it('should generate each key once per batch', async () => {
+      const generate = vi.fn(async () => 'data:image/png;base64,qr');
+
+      await withAssetCache(async () => {
+        expect(await getGeneratedAsset('qr:https://shop', generate)).toBe(
+          'data:image/png;base64,qr'
+        );
+        await getGeneratedAsset('qr:https://shop', generate);
+        await getGeneratedAsset('qr:https://other', generate);
+      });
+      await getGeneratedAsset('qr:https://shop', generate);
+
+      expect(generate).toHaveBeenCalledTimes(3);
+    });
+  });
+});
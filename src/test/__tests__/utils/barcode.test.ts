@@ -84,19 +84,19 @@ describe('generateBarcodeDataUrl', () => {
     mockToDataURL.mockReturnValue('data:image/png;base64,mockBarcodeData');
   });
 
-  it('should return empty string for empty text', () => {
-    const result = generateBarcodeDataUrl('');
+  it('should return empty string for empty text', async () => {
+    const result = await generateBarcodeDataUrl('');
     expect(result).toBe('');
   });
 
-  it('should generate data URL for valid text', () => {
-    const result = generateBarcodeDataUrl('ABC123');
+  it('should generate data URL for valid text', async () => {
+    const result = await generateBarcodeDataUrl('ABC123');
     expect(result).toBe('data:image/png;base64,mockBarcodeData');
     expect(mockToDataURL).toHaveBeenCalledWith('image/png');
   });
 
-  it('should accept custom options', () => {
-    const result = generateBarcodeDataUrl('ABC123', {
+  it('should accept custom options', async () => {
+    const result = await generateBarcodeDataUrl('ABC123', {
       format: 'CODE128',
       width: 3,
       height: 100,
@@ -107,7 +107,7 @@ describe('generateBarcodeDataUrl', () => {
 
   it('should use default format CODE128', async () => {
     const JsBarcode = vi.mocked(await import('jsbarcode')).default;
-    generateBarcodeDataUrl('TEST');
+    await generateBarcodeDataUrl('TEST');
     expect(JsBarcode).toHaveBeenCalledWith(
       expect.any(HTMLCanvasElement),
       'TEST',
@@ -121,7 +121,7 @@ describe('generateBarcodeDataUrl', () => {
       throw new Error('Invalid barcode');
     });
 
-    const result = generateBarcodeDataUrl('INVALID');
+    const result = await generateBarcodeDataUrl('INVALID');
     expect(result).toBe('');
   });
 });
@@ -0,0 +1,189 @@
+/**
+ * Tests for src/utils/boxLayout.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BoxLayoutOptions, layoutContainer } from '../../../utils/boxLayout';
+import type {
+  BadgeElement,
+  ContainerElement,
+  DividerElement,
+  LayoutElement,
+  QRCodeElement,
+  TextElement,
+} from '../../../utils/layoutSchema';
+
+/** Every character is 0.1" wide; text never wraps */
+const options: BoxLayoutOptions = {
+  metrics: {
+    width: (text) => text.length * 0.1,
+    wrap: (text) => [text],
+  },
+  hasQrCode: true,
+};
+
+function text(id: string, value: string): TextElement {
+  return {
+    id,
+    type: 'text',
+    visible: true,
+    text: value,
+    // 0.25" line height
+    style: { fontSize: 15, fontWeight: 'normal', color: '#000000', align: 'left' },
+  };
+}
+
+function qr(id: string, size: number): QRCodeElement {
+  return { id, type: 'qrcode', visible: true, url: 'https://example.com', size };
+}
+
+function container(
+  children: LayoutElement[],
+  overrides: Partial<ContainerElement> = {}
+): ContainerElement {
+  return {
+    id: 'box',
+    type: 'container',
+    visible: true,
+    children,
+    direction: 'row',
+    gap: 0.1,
+    align: 'start',
+    justify: 'start',
+    ...overrides,
+  };
+}
+
+describe('boxLayout', () => {
+  describe('layoutContainer', () => {
+    it('should place row children left to right with the gap', () => {
+      const node = layoutContainer(container([text('a', 'ab'), qr('b', 0.5)]), 3, options);
+
+      expect(node.width).toBe(3);
+      expect(node.height).toBe(0.5);
+      const [label, code] = node.children!;
+      expect(label).toMatchObject({ x: 0, width: 0.2 });
+      expect(code.x).toBeCloseTo(0.3);
+      expect(code.width).toBe(0.5);
+    });
+
+    it('should stack column children with the gap', () => {
+      const node = layoutContainer(
+        container([qr('a', 0.5), text('b', 'ab')], { direction: 'column' }),
+        3,
+        options
+      );
+
+      expect(node.children![1].y).toBeCloseTo(0.6);
+      expect(node.height).toBeCloseTo(0.85);
+    });
+
+    it('should spread children with space-between', () => {
+      const node = layoutContainer(
+        container([qr('a', 0.5), qr('b', 0.5), qr('c', 0.5)], { justify: 'space-between' }),
+        2.5,
+        options
+      );
+
+      expect(node.children!.map((child) => child.x)).toEqual([0, 1, 2]);
+    });
+
+    it('should center children on both axes', () => {
+      const node = layoutContainer(
+        container([qr('a', 1), text('b', 'ab')], { justify: 'center', align: 'center' }),
+        2,
+        options
+      );
+      const [code, label] = node.children!;
+
+      // 0.7" of free space splits either side of 1" + 0.1" + 0.2"
+      expect(code.x).toBeCloseTo(0.35);
+      expect(label.x).toBeCloseTo(1.45);
+      expect(label.y).toBeCloseTo(0.375);
+    });
+
+    it('should stretch children across the cross axis', () => {
+      const divider: DividerElement = {
+        id: 'rule',
+        type: 'divider',
+        visible: true,
+        style: { color: '#cccccc', thickness: 0.02 },
+      };
+      const node = layoutContainer(
+        container([qr('a', 1), divider, text('b', 'ab')], { align: 'stretch' }),
+        3,
+        options
+      );
+
+      expect(node.children!.map((child) => child.height)).toEqual([1, 1, 1]);
+      expect(node.children![1].width).toBe(0.02);
+    });
+
+    it('should inset children by the padding', () => {
+      const node = layoutContainer(
+        container([text('a', 'ab')], {
+          direction: 'column',
+          align: 'end',
+          style: { padding: { x: 0.2, y: 0.1 } },
+        }),
+        2,
+        options
+      );
+
+      expect(node.children![0]).toMatchObject({ x: 1.6, y: 0.1 });
+      expect(node.height).toBeCloseTo(0.45);
+    });
+
+    it('should give row children the width left over by earlier ones', () => {
+      const wrap = (value: string, maxWidth: number) =>
+        value.length * 0.1 > maxWidth ? [value.slice(0, 5), value.slice(5)] : [value];
+      const node = layoutContainer(
+        container([qr('a', 1), text('b', 'abcdefghij')], { gap: 0 }),
+        1.5,
+        { ...options, metrics: { ...options.metrics, wrap } }
+      );
+
+      expect(node.children![1].lines).toEqual(['abcde', 'fghij']);
+      expect(node.children![1].width).toBeCloseTo(0.5);
+    });
+
+    it('should lay out nested containers at the width they are given', () => {
+      const badge: BadgeElement = {
+        id: 'badge',
+        type: 'badge',
+        visible: true,
+        text: 'New',
+        style: {
+          backgroundColor: '#000000',
+          textColor: '#ffffff',
+          fontSize: 7.2,
+          paddingX: 0.05,
+          paddingY: 0.05,
+          borderRadius: 0.05,
+        },
+      };
+      const inner = container([badge], { id: 'inner', justify: 'end' });
+      const node = layoutContainer(
+        container([inner], { direction: 'column', style: { padding: 0.1 } }),
+        2,
+        options
+      );
+      const innerNode = node.children![0];
+
+      expect(innerNode.width).toBeCloseTo(1.8);
+      expect(innerNode.children![0].width).toBeCloseTo(0.4);
+      expect(innerNode.children![0].x).toBeCloseTo(1.4);
+      expect(node.height).toBeCloseTo(0.4);
+    });
+
+    it('should skip hidden elements and codes without an image', () => {
+      const hidden = { ...text('a', 'ab'), visible: false };
+      const node = layoutContainer(container([hidden, qr('b', 0.5), text('c', 'ab')]), 3, {
+        ...options,
+        hasQrCode: false,
+      });
+
+      expect(node.children!.map((child) => child.element.id)).toEqual(['c']);
+    });
+  });
+});
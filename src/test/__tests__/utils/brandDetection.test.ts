@@ -7,6 +7,7 @@ import {
   detectBrand,
   findBrandIcon,
   getAllBrandNames,
+  stripBrandPrefix,
   BRAND_PATTERNS,
 } from '../../../utils/brandDetection';
 import type { BrandIcon } from '../../../types';
@@ -197,6 +198,28 @@ describe('findBrandIcon', () => {
   });
 });
 
+describe('stripBrandPrefix', () => {
+  it('should remove the brand name from the start', () => {
+    expect(stripBrandPrefix('NVIDIA GeForce RTX 4070', 'NVIDIA')).toBe('GeForce RTX 4070');
+  });
+
+  it('should ignore case', () => {
+    expect(stripBrandPrefix('corsair Vengeance 32GB', 'Corsair')).toBe('Vengeance 32GB');
+  });
+
+  it('should leave the brand inside the text alone', () => {
+    expect(stripBrandPrefix('RTX 4070 by NVIDIA', 'NVIDIA')).toBe('RTX 4070 by NVIDIA');
+  });
+
+  it('should not cut a longer word that starts with the brand', () => {
+    expect(stripBrandPrefix('AMDX 9000', 'AMD')).toBe('AMDX 9000');
+  });
+
+  it('should strip brands without a known pattern by name', () => {
+    expect(stripBrandPrefix('Acme Cooler 240', 'Acme')).toBe('Cooler 240');
+  });
+});
+
 describe('getAllBrandNames', () => {
   it('should return all brand names', () => {
     const names = getAllBrandNames();
@@ -0,0 +1,143 @@
+/**
+ * Tests for src/utils/canvasDocument.ts
+ * Uses a recording 2D context, since jsdom has no canvas implementation
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { CanvasDocument, renderLayoutToCanvas } from '../../../utils/canvasDocument';
+import { buildEslLayout, ESL_LABEL_MODELS } from '../../../utils/eslExport';
+import { defaultConfig } from '../../../data/componentOptions';
+import type { PrebuildConfig } from '../../../types';
+
+/** 10px per character, like a monospace font */
+function createContext() {
+  return {
+    font: '',
+    fillStyle: '',
+    strokeStyle: '',
+    lineWidth: 1,
+    textAlign: 'left',
+    textBaseline: 'top',
+    measureText: vi.fn((text: string) => ({ width: text.length * 10 })),
+    fillText: vi.fn(),
+    beginPath: vi.fn(),
+    closePath: vi.fn(),
+    moveTo: vi.fn(),
+    lineTo: vi.fn(),
+    arcTo: vi.fn(),
+    arc: vi.fn(),
+    bezierCurveTo: vi.fn(),
+    rect: vi.fn(),
+    fill: vi.fn(),
+    stroke: vi.fn(),
+    drawImage: vi.fn(),
+  };
+}
+
+const asCanvas = (ctx: ReturnType<typeof createContext>) =>
+  ctx as unknown as CanvasRenderingContext2D;
+
+describe('CanvasDocument', () => {
+  it('should convert inches to pixels', () => {
+    const ctx = createContext();
+    const doc = new CanvasDocument(asCanvas(ctx), 100);
+
+    doc.setFillColor(255, 0, 0);
+    doc.rect(0.5, 1, 2, 0.25, 'F');
+
+    expect(ctx.rect).toHaveBeenCalledWith(50, 100, 200, 25);
+    expect(ctx.fillStyle).toBe('rgb(255, 0, 0)');
+    expect(ctx.fill).toHaveBeenCalled();
+    expect(ctx.stroke).not.toHaveBeenCalled();
+  });
+
+  it('should stroke with the draw color', () => {
+    const ctx = createContext();
+    const doc = new CanvasDocument(asCanvas(ctx), 100);
+
+    doc.setDrawColor(10, 20, 30);
+    doc.setLineWidth(0.02);
+    doc.line(0, 0, 1, 1);
+
+    expect(ctx.strokeStyle).toBe('rgb(10, 20, 30)');
+    expect(ctx.lineWidth).toBe(2);
+    expect(ctx.lineTo).toHaveBeenCalledWith(100, 100);
+  });
+
+  it('should map jsPDF fonts to CSS fonts in pixels', () => {
+    const ctx = createContext();
+    const doc = new CanvasDocument(asCanvas(ctx), 144);
+
+    doc.setFontSize(10);
+    doc.setFont('times', 'bolditalic');
+
+    expect(ctx.font).toBe('italic bold 20px "Times New Roman", Times, serif');
+  });
+
+  it('should draw text in the text color at the given alignment', () => {
+    const ctx = createContext();
+    const doc = new CanvasDocument(asCanvas(ctx), 100);
+
+    doc.setTextColor(0, 0, 255);
+    doc.text('Hello', 1, 0.5, { align: 'center' });
+
+    expect(ctx.fillText).toHaveBeenCalledWith('Hello', 100, 50);
+    expect(ctx.textAlign).toBe('center');
+    expect(ctx.fillStyle).toBe('rgb(0, 0, 255)');
+  });
+
+  it('should measure and wrap text in inches', () => {
+    const doc = new CanvasDocument(asCanvas(createContext()), 100);
+
+    expect(doc.getTextWidth('abcd')).toBe(0.4);
+    expect(doc.splitTextToSize('aa bb cc', 0.5)).toEqual(['aa bb', 'cc']);
+    expect(doc.splitTextToSize('abcdefgh', 0.3)).toEqual(['abc', 'def', 'gh']);
+  });
+
+  it('should follow relative line segments', () => {
+    const ctx = createContext();
+    const doc = new CanvasDocument(asCanvas(ctx), 10);
+
+    doc.lines(
+      [
+        [1, 0],
+        [0, 1],
+      ],
+      1,
+      1,
+      [1, 1],
+      'F',
+      true
+    );
+
+    expect(ctx.moveTo).toHaveBeenCalledWith(10, 10);
+    expect(ctx.lineTo).toHaveBeenNthCalledWith(1, 20, 10);
+    expect(ctx.lineTo).toHaveBeenNthCalledWith(2, 20, 20);
+    expect(ctx.closePath).toHaveBeenCalled();
+  });
+});
+
+describe('renderLayoutToCanvas', () => {
+  it('should draw a card layout through the PDF renderer', async () => {
+    const ctx = createContext();
+    const config: PrebuildConfig = {
+      ...(defaultConfig as PrebuildConfig),
+      storeName: 'Tech Store',
+      modelName: 'Gaming PC',
+      price: 1299,
+    };
+    const layout = buildEslLayout(config, ESL_LABEL_MODELS['epaper-2.9'], 'bw');
+
+    await renderLayoutToCanvas(layout, asCanvas(ctx), 100);
+
+    const texts = ctx.fillText.mock.calls.map(([text]) => text);
+    expect(texts).toContain('Tech Store');
+    expect(texts).toContain('Gaming PC');
+    expect(texts).toContain('$1,299.00');
+    // White background covers the whole card
+    const [x, y, width, height] = ctx.rect.mock.calls[0];
+    expect([x, y]).toEqual([0, 0]);
+    expect(width).toBeCloseTo(263);
+    expect(height).toBeCloseTo(114);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Tests for src/utils/cardDesigns.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  clampFrame,
+  createDesign,
+  createDesignElement,
+  getDesignForSize,
+  MIN_FRAME_SIZE,
+} from '../../../utils/cardDesigns';
+
+describe('cardDesigns', () => {
+  describe('clampFrame', () => {
+    it('should keep frames on the card', () => {
+      expect(clampFrame({ x: -1, y: 5.5, width: 2, height: 1 }, 4, 6)).toEqual({
+        x: 0,
+        y: 5,
+        width: 2,
+        height: 1,
+      });
+    });
+
+    it('should limit the size to the card and the minimum', () => {
+      expect(clampFrame({ x: 0, y: 0, width: 10, height: 0 }, 4, 6)).toEqual({
+        x: 0,
+        y: 0,
+        width: 4,
+        height: MIN_FRAME_SIZE,
+      });
+    });
+  });
+
+  describe('createDesignElement', () => {
+    it('should span the card inside the margins with a height scaled to the card', () => {
+      const element = createDesignElement('specs', 4, 3, 0.5);
+
+      expect(element.frame).toEqual({ x: 0.1, y: 0.5, width: 3.8, height: 0.75 });
+      expect(element).toMatchObject({ binding: 'specs', visible: true, style: {} });
+      expect(element.text).toBeUndefined();
+    });
+
+    it('should give custom text a placeholder', () => {
+      expect(createDesignElement('text', 4, 6).text).toBe('Your text');
+    });
+  });
+
+  describe('createDesign', () => {
+    it('should stack the main parts down the card with an edge-to-edge header', () => {
+      const design = createDesign('Mine', 'price', 4, 6);
+      const [header, ...rest] = design.elements;
+
+      expect(design).toMatchObject({ name: 'Mine', cardSize: 'price' });
+      expect(design.elements.map((el) => el.binding)).toEqual([
+        'header',
+        'model',
+        'badges',
+        'price',
+        'specs',
+        'sku',
+      ]);
+      expect(header.frame).toMatchObject({ x: 0, y: 0, width: 4 });
+      for (let i = 1; i < rest.length; i++) {
+        const previous = rest[i - 1].frame;
+        expect(rest[i].frame.y).toBeGreaterThan(previous.y + previous.height);
+      }
+      expect(new Set(design.elements.map((el) => el.id)).size).toBe(design.elements.length);
+    });
+  });
+
+  describe('getDesignForSize', () => {
+    it('should find the design for a card size', () => {
+      const price = createDesign('Price', 'price', 4, 6);
+      const shelf = createDesign('Shelf', 'shelf', 3, 2);
+
+      expect(getDesignForSize([price, shelf], 'shelf')).toBe(shelf);
+      expect(getDesignForSize([price], 'poster')).toBeUndefined();
+      expect(getDesignForSize(undefined, 'price')).toBeUndefined();
+    });
+  });
+});
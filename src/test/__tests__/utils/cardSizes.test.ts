@@ -0,0 +1,152 @@
+/**
+ * Tests for src/utils/cardSizes.ts
+ * Tests resolution of built-in and user-defined card sizes
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  toInches,
+  formatCardSizeDimensions,
+  isCustomCardSize,
+  getCustomSizeDimensions,
+  getClosestBuiltInSize,
+  resolveCardSize,
+  getCardSizeOptions,
+  getSizeLayoutConfig,
+} from '../../../utils/cardSizes';
+import { PRICE_CARD_LAYOUT, scaleLayoutConfig } from '../../../utils/pdfLayouts';
+import type { CustomCardSize } from '../../../types';
+
+vi.mock('../../../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+function customSize(overrides: Partial<CustomCardSize> = {}): CustomCardSize {
+  return {
+    id: 'custom-test',
+    name: 'Counter Card',
+    width: 5,
+    height: 7,
+    unit: 'in',
+    orientation: 'portrait',
+    createdAt: 1,
+    ...overrides,
+  };
+}
+
+describe('cardSizes', () => {
+  describe('toInches', () => {
+    it('should convert millimeters to inches', () => {
+      expect(toInches(25.4, 'mm')).toBe(1);
+      expect(toInches(3, 'in')).toBe(3);
+    });
+  });
+
+  describe('formatCardSizeDimensions', () => {
+    it('should format inches and millimeters', () => {
+      expect(formatCardSizeDimensions(2, 3, 'in')).toBe('2" × 3"');
+      expect(formatCardSizeDimensions(210, 297, 'mm')).toBe('210 × 297 mm');
+    });
+
+    it('should round to two decimals', () => {
+      expect(formatCardSizeDimensions(8.26771, 11.69291, 'in')).toBe('8.27" × 11.69"');
+    });
+  });
+
+  describe('isCustomCardSize', () => {
+    it('should distinguish custom ids from built-in sizes', () => {
+      expect(isCustomCardSize('custom-123')).toBe(true);
+      expect(isCustomCardSize('price')).toBe(false);
+    });
+  });
+
+  describe('getCustomSizeDimensions', () => {
+    it('should put the long edge vertically for portrait', () => {
+      expect(getCustomSizeDimensions(customSize({ width: 7, height: 5 }))).toEqual({
+        width: 5,
+        height: 7,
+      });
+    });
+
+    it('should put the long edge horizontally for landscape', () => {
+      expect(
+        getCustomSizeDimensions(customSize({ width: 2, height: 3.5, orientation: 'landscape' }))
+      ).toEqual({ width: 3.5, height: 2 });
+    });
+
+    it('should convert millimeter sizes', () => {
+      const { width, height } = getCustomSizeDimensions(
+        customSize({ width: 297, height: 420, unit: 'mm' })
+      );
+      expect(width).toBeCloseTo(11.69, 2);
+      expect(height).toBeCloseTo(16.54, 2);
+    });
+  });
+
+  describe('getClosestBuiltInSize', () => {
+    it('should match sizes by area', () => {
+      expect(getClosestBuiltInSize(3.5, 2)).toBe('shelf');
+      expect(getClosestBuiltInSize(5, 7)).toBe('price');
+      expect(getClosestBuiltInSize(8.27, 11.69)).toBe('poster');
+      expect(getClosestBuiltInSize(11.69, 16.54)).toBe('poster');
+    });
+  });
+
+  describe('resolveCardSize', () => {
+    it('should resolve built-in sizes unscaled', () => {
+      expect(resolveCardSize('shelf')).toMatchObject({
+        id: 'shelf',
+        name: 'Shelf Tag',
+        width: 2,
+        height: 3,
+        baseSize: 'shelf',
+        scale: 1,
+      });
+    });
+
+    it('should scale custom sizes by the tighter dimension', () => {
+      const size = resolveCardSize('custom-test', [customSize()]);
+      expect(size).toMatchObject({ id: 'custom-test', name: 'Counter Card', baseSize: 'price' });
+      expect(size.scale).toBeCloseTo(Math.min(5 / 4, 7 / 6), 5);
+    });
+
+    it('should fall back to the price card for unknown sizes', () => {
+      expect(resolveCardSize('custom-missing', [customSize()]).id).toBe('price');
+    });
+  });
+
+  describe('getCardSizeOptions', () => {
+    it('should list built-in sizes before custom sizes', () => {
+      const ids = getCardSizeOptions([customSize()]).map((s) => s.id);
+      expect(ids).toEqual(['shelf', 'price', 'poster', 'custom-test']);
+    });
+  });
+
+  describe('getSizeLayoutConfig', () => {
+    it('should return the built-in layout for unscaled sizes', () => {
+      expect(getSizeLayoutConfig(resolveCardSize('price'))).toBe(PRICE_CARD_LAYOUT);
+    });
+
+    it('should scale measurements and font sizes but not counts', () => {
+      const scaled = scaleLayoutConfig(PRICE_CARD_LAYOUT, 2);
+      expect(scaled.margin).toBe(PRICE_CARD_LAYOUT.margin * 2);
+      expect(scaled.fontSize.price).toBe(PRICE_CARD_LAYOUT.fontSize.price * 2);
+      expect(scaled.maxFeatures).toBe(PRICE_CARD_LAYOUT.maxFeatures);
+      expect(scaled.includeStockBadge).toBe(PRICE_CARD_LAYOUT.includeStockBadge);
+    });
+
+    it('should apply overrides field by field after scaling', () => {
+      const size = { ...resolveCardSize('price'), scale: 2 };
+      const layout = getSizeLayoutConfig(size, { margin: 0.1, fontSize: { price: 50 } });
+
+      expect(layout.margin).toBe(0.1);
+      expect(layout.fontSize.price).toBe(50);
+      expect(layout.fontSize.modelName).toBe(PRICE_CARD_LAYOUT.fontSize.modelName * 2);
+    });
+  });
+});
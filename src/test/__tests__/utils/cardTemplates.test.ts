@@ -0,0 +1,203 @@
+/**
+ * Tests for src/utils/cardTemplates.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CARD_TEMPLATE_FORMAT,
+  CARD_TEMPLATE_VERSION,
+  exportCardTemplate,
+  getTemplateFilename,
+  importCardTemplate,
+  migrateCardTemplate,
+  serializeCardTemplate,
+  validateCardTemplate,
+} from '../../../utils/cardTemplates';
+import { createDesign, CardDesign } from '../../../utils/cardDesigns';
+import type { CustomCardSize } from '../../../types';
+
+const businessCard: CustomCardSize = {
+  id: 'custom-business',
+  name: 'Business Card',
+  width: 2,
+  height: 3.5,
+  unit: 'in',
+  orientation: 'portrait',
+};
+
+function withImage(design: CardDesign): CardDesign {
+  return {
+    ...design,
+    elements: [
+      ...design.elements,
+      {
+        id: 'picture',
+        binding: 'image',
+        frame: { x: 0, y: 0, width: 1, height: 1 },
+        visible: true,
+        style: {},
+        assetId: 'used',
+      },
+    ],
+    assets: {
+      used: { name: 'used.png', data: 'data:image/png;base64,AAAA' },
+      unused: { name: 'unused.png', data: 'data:image/png;base64,BBBB' },
+    },
+  };
+}
+
+function validTemplate() {
+  return JSON.parse(serializeCardTemplate(createDesign('Mine', 'price', 4, 6)));
+}
+
+describe('cardTemplates', () => {
+  describe('exportCardTemplate', () => {
+    it('should describe the design, its size and the assets it uses', () => {
+      const design = withImage({
+        ...createDesign('Mine', 'price', 4, 6),
+        theme: { primary: '#112233' },
+        layout: { margin: 0.2 },
+      });
+      const template = exportCardTemplate(design);
+
+      expect(template).toMatchObject({
+        format: CARD_TEMPLATE_FORMAT,
+        version: CARD_TEMPLATE_VERSION,
+        name: 'Mine',
+        size: { id: 'price', name: 'Price Card', width: 4, height: 6 },
+        theme: { primary: '#112233' },
+        layout: { margin: 0.2 },
+      });
+      expect(template.elements).toBe(design.elements);
+      expect(Object.keys(template.assets!)).toEqual(['used']);
+    });
+
+    it('should name files with the template extension', () => {
+      expect(getTemplateFilename(' Gaming Price Card ')).toBe(
+        'Gaming-Price-Card.cardtemplate.json'
+      );
+      expect(getTemplateFilename('')).toBe('Card-Template.cardtemplate.json');
+    });
+  });
+
+  describe('validateCardTemplate', () => {
+    it('should accept exported templates', () => {
+      expect(validateCardTemplate(validTemplate())).toMatchObject({ valid: true });
+    });
+
+    it('should reject files that are not templates', () => {
+      expect(validateCardTemplate([])).toEqual({
+        valid: false,
+        errors: [{ path: '', message: 'Expected an object, found a list' }],
+      });
+      expect(validateCardTemplate({ name: 'x' })).toMatchObject({
+        valid: false,
+        errors: [{ path: 'format' }],
+      });
+    });
+
+    it('should report templates from a newer app', () => {
+      const result = validateCardTemplate({ ...validTemplate(), version: 99 });
+
+      expect(result.valid).toBe(false);
+      expect(!result.valid && result.errors[0].message).toContain('newer version');
+    });
+
+    it('should report each problem with its path', () => {
+      const template = validTemplate();
+      template.name = '';
+      template.elements[0].binding = 'hologram';
+      template.elements[1].frame.width = -1;
+      template.elements[2].frame.x = 3.5;
+      template.elements[3].style.color = 'red';
+      template.elements[4].id = template.elements[0].id;
+      template.theme = { primary: '#000000', glow: '#ffffff' };
+      template.layout = { margin: '1in', fontSize: { price: 40, sparkle: 2 } };
+      const result = validateCardTemplate(template);
+
+      expect(result.valid).toBe(false);
+      expect(!result.valid && result.errors.map((error) => error.path)).toEqual([
+        'name',
+        'elements[0].binding',
+        'elements[1].frame.width',
+        'elements[2].frame',
+        'elements[3].style.color',
+        'elements[4].id',
+        'layout.margin',
+        'layout.fontSize.sparkle',
+        'theme.glow',
+      ]);
+    });
+
+    it('should check image assets', () => {
+      const template = JSON.parse(
+        serializeCardTemplate(withImage(createDesign('M', 'price', 4, 6)))
+      );
+      template.assets.used.data = 'not an image';
+      template.elements.push({ ...template.elements.at(-1), id: 'other', assetId: 'missing' });
+      const result = validateCardTemplate(template);
+
+      expect(!result.valid && result.errors).toEqual([
+        { path: 'elements[7].assetId', message: 'No asset "missing" in the template' },
+        { path: 'assets.used.data', message: 'Invalid image data' },
+      ]);
+    });
+  });
+
+  describe('migrateCardTemplate', () => {
+    it('should upgrade a bare saved design', () => {
+      const design = createDesign('Old', 'custom-business', 2, 3.5);
+      const migrated = migrateCardTemplate(JSON.parse(JSON.stringify(design)), [businessCard]);
+
+      expect(migrated).toMatchObject({
+        format: CARD_TEMPLATE_FORMAT,
+        version: CARD_TEMPLATE_VERSION,
+        name: 'Old',
+        size: { id: 'custom-business', name: 'Business Card', width: 2, height: 3.5 },
+      });
+      expect(validateCardTemplate(migrated).valid).toBe(true);
+    });
+
+    it('should leave current templates alone', () => {
+      const template = validTemplate();
+      expect(migrateCardTemplate(template)).toBe(template);
+    });
+  });
+
+  describe('importCardTemplate', () => {
+    it('should round-trip a design as a new design', () => {
+      const design = withImage(createDesign('Mine', 'price', 4, 6));
+      const { design: imported, errors } = importCardTemplate(serializeCardTemplate(design));
+
+      expect(errors).toEqual([]);
+      expect(imported).toMatchObject({ name: 'Mine', cardSize: 'price' });
+      expect(imported!.id).not.toBe(design.id);
+      expect(imported!.elements).toEqual(design.elements);
+      expect(Object.keys(imported!.assets!)).toEqual(['used']);
+    });
+
+    it('should match a custom size by its dimensions', () => {
+      const design = createDesign('Mine', 'custom-elsewhere', 2, 3.5);
+      const json = JSON.stringify({
+        ...exportCardTemplate(design),
+        size: { id: 'custom-elsewhere', name: 'Theirs', width: 2, height: 3.5 },
+      });
+
+      expect(importCardTemplate(json, [businessCard]).design?.cardSize).toBe('custom-business');
+      expect(importCardTemplate(json).errors).toEqual([
+        {
+          path: 'size',
+          message:
+            'No card size here is 2" × 3.5"; add it under Custom Card Sizes and import again',
+        },
+      ]);
+    });
+
+    it('should report files that are not JSON', () => {
+      expect(importCardTemplate('{oops')).toEqual({
+        design: null,
+        errors: [{ path: '', message: 'The file is not valid JSON' }],
+      });
+    });
+  });
+});
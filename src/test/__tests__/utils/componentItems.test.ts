@@ -0,0 +1,103 @@
+/**
+ * Tests for src/utils/componentItems.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  COMPONENT_CATEGORIES,
+  getComponentLines,
+  getComponentPrice,
+  getComponentText,
+  getComponentValues,
+  migrateComponents,
+} from '../../../utils/componentItems';
+import { defaultConfig, defaultComponentPrices } from '../../../data/componentOptions';
+import type { PrebuildConfig } from '../../../types';
+
+const build = {
+  ...defaultConfig,
+  components: { ...defaultConfig.components, storage: '2TB NVMe SSD', fans: '3x 120mm Fans' },
+  extraComponents: [
+    { id: 'item-hdd', category: 'storage', value: '4TB HDD' },
+    { id: 'item-capture', category: 'expansion', value: 'Elgato 4K60 Pro' },
+    { id: 'item-empty', category: 'storage', value: '' },
+  ],
+  componentPrices: {
+    ...defaultComponentPrices,
+    storage: 150,
+    'item-hdd': 90,
+    'item-capture': 220,
+  },
+} as PrebuildConfig;
+
+describe('componentItems', () => {
+  it('should list the categories in form order', () => {
+    expect(COMPONENT_CATEGORIES.slice(0, 2)).toEqual(['cpu', 'gpu']);
+    expect(COMPONENT_CATEGORIES.slice(-4)).toEqual(['fans', 'expansion', 'peripherals', 'monitor']);
+  });
+
+  describe('getComponentLines', () => {
+    it('should list each main slot before the further items of its category', () => {
+      expect(getComponentLines(build).map((line) => [line.id, line.price])).toEqual([
+        ['storage', 150],
+        ['item-hdd', 90],
+        ['fans', 0],
+        ['item-capture', 220],
+      ]);
+    });
+
+    it('should list a further item when the main slot is empty', () => {
+      expect(getComponentLines(build, 'expansion')).toEqual([
+        { id: 'item-capture', category: 'expansion', value: 'Elgato 4K60 Pro', price: 220 },
+      ]);
+    });
+  });
+
+  describe('values', () => {
+    it("should join a category's values and add up its prices", () => {
+      expect(getComponentValues(build, 'storage')).toEqual(['2TB NVMe SSD', '4TB HDD']);
+      expect(getComponentText(build, 'storage')).toBe('2TB NVMe SSD + 4TB HDD');
+      expect(getComponentPrice(build, 'storage')).toBe(240);
+      expect(getComponentText(build, 'cpu')).toBe('');
+    });
+
+    it('should read configs saved before a category existed', () => {
+      const old = { ...build, components: { cpu: 'Ryzen 7' } } as unknown as PrebuildConfig;
+      expect(getComponentText(old, 'monitor')).toBe('');
+      expect(getComponentText(old, 'cpu')).toBe('Ryzen 7');
+    });
+  });
+
+  describe('migrateComponents', () => {
+    it('should add missing categories and keep saved values and prices', () => {
+      const old = {
+        components: { cpu: 'Ryzen 7', gpu: 'RTX 4070' },
+        componentPrices: { cpu: 299, gpu: 549 },
+      } as unknown as PrebuildConfig;
+
+      const migrated = migrateComponents(old);
+
+      expect(migrated.components).toEqual({
+        ...defaultConfig.components,
+        cpu: 'Ryzen 7',
+        gpu: 'RTX 4070',
+      });
+      expect(migrated.componentPrices).toEqual({ ...defaultComponentPrices, cpu: 299, gpu: 549 });
+      expect(migrated.extraComponents).toBeUndefined();
+    });
+
+    it('should drop items of unknown categories and prices nothing uses', () => {
+      const migrated = migrateComponents({
+        ...build,
+        extraComponents: [
+          ...build.extraComponents!,
+          { id: 'item-tv', category: 'television', value: '55" TV' },
+        ],
+        componentPrices: { ...build.componentPrices, 'item-tv': 400, 'item-gone': 10 },
+      } as unknown as PrebuildConfig);
+
+      expect(migrated.extraComponents).toEqual(build.extraComponents);
+      expect(migrated.componentPrices).toEqual(build.componentPrices);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Tests for src/utils/customFields.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatCustomFieldValue,
+  getCustomFieldHeaders,
+  getCustomFieldText,
+  isCustomFieldId,
+  parseCustomFieldValue,
+} from '../../../utils/customFields';
+import { defaultConfig } from '../../../data/componentOptions';
+import type { CustomFieldDefinition } from '../../../types';
+
+function createField(overrides: Partial<CustomFieldDefinition> = {}): CustomFieldDefinition {
+  return {
+    id: 'field-1',
+    label: 'Included Monitor',
+    type: 'text',
+    options: [],
+    placement: 'none',
+    csvHeaders: [],
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+describe('customFields', () => {
+  describe('isCustomFieldId', () => {
+    it('should tell field ids from built-in keys', () => {
+      expect(isCustomFieldId('field-1')).toBe(true);
+      expect(isCustomFieldId('gpu')).toBe(false);
+    });
+  });
+
+  describe('parseCustomFieldValue', () => {
+    it('should trim text and skip empty cells', () => {
+      const field = createField();
+      expect(parseCustomFieldValue(field, '  27" 1440p ')).toBe('27" 1440p');
+      expect(parseCustomFieldValue(field, '   ')).toBeUndefined();
+    });
+
+    it('should read numbers with thousands separators', () => {
+      const field = createField({ type: 'number' });
+      expect(parseCustomFieldValue(field, '1,250.5')).toBe(1250.5);
+      expect(parseCustomFieldValue(field, 'soon')).toBeUndefined();
+    });
+
+    it('should read yes/no values', () => {
+      const field = createField({ type: 'boolean' });
+      expect(parseCustomFieldValue(field, 'Yes')).toBe(true);
+      expect(parseCustomFieldValue(field, 'x')).toBe(true);
+      expect(parseCustomFieldValue(field, 'FALSE')).toBe(false);
+      expect(parseCustomFieldValue(field, 'maybe')).toBeUndefined();
+    });
+
+    it('should match choices case-insensitively', () => {
+      const field = createField({ type: 'enum', options: ['Small', 'Large'] });
+      expect(parseCustomFieldValue(field, 'large')).toBe('Large');
+      expect(parseCustomFieldValue(field, 'Medium')).toBeUndefined();
+    });
+  });
+
+  describe('formatCustomFieldValue', () => {
+    it('should format values by type', () => {
+      expect(formatCustomFieldValue(createField({ type: 'boolean' }), false)).toBe('No');
+      expect(formatCustomFieldValue(createField({ type: 'number' }), 3)).toBe('3');
+      expect(formatCustomFieldValue(createField(), undefined)).toBe('');
+    });
+
+    it("should read a build's value", () => {
+      const config = { ...defaultConfig, customFields: { 'field-1': 'Yes, 24"' } as const };
+      expect(getCustomFieldText(config, createField())).toBe('Yes, 24"');
+    });
+  });
+
+  describe('getCustomFieldHeaders', () => {
+    it('should include the label and extra headers, lowercased', () => {
+      const field = createField({ csvHeaders: [' Monitor ', ''] });
+      expect(getCustomFieldHeaders(field)).toEqual(['included monitor', 'monitor']);
+    });
+  });
+});
@@ -243,6 +243,18 @@ describe('emailService', () => {
 
       expect(body).toContain('attached PDF');
     });
+
+    it('should list each line item of a category and the added categories', () => {
+      const body = generateEmailBody('PC', '$1,500', {
+        storage: ['2TB NVMe', '4TB HDD'],
+        expansion: ['Elgato 4K60 Pro'],
+        monitor: '27" 1440p',
+      });
+
+      expect(body).toContain('Storage: 2TB NVMe\nStorage: 4TB HDD\n');
+      expect(body).toContain('Expansion Cards: Elgato 4K60 Pro');
+      expect(body).toContain('Monitor: 27" 1440p');
+    });
   });
 
   describe('openEmailClient', () => {
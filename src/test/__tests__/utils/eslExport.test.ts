@@ -0,0 +1,148 @@
+/**
+ * Tests for src/utils/eslExport.ts
+ * Tests palette quantization, dithering, bitplane packing and label layouts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ESL_LABEL_MODELS,
+  ESL_PALETTES,
+  PixelData,
+  buildEslLayout,
+  quantizeImage,
+  toBitplanes,
+} from '../../../utils/eslExport';
+import { defaultConfig } from '../../../data/componentOptions';
+import type { PrebuildConfig } from '../../../types';
+
+/** A width × height image filled with one colour */
+function solidImage(width: number, height: number, rgba: number[]): PixelData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let p = 0; p < width * height; p++) data.set(rgba, p * 4);
+  return { width, height, data };
+}
+
+const countOf = (indices: Uint8Array, index: number) =>
+  indices.filter((value) => value === index).length;
+
+const config: PrebuildConfig = {
+  ...(defaultConfig as PrebuildConfig),
+  storeName: 'Tech Store',
+  modelName: 'Gaming PC',
+  sku: '123456789012',
+  price: 1299,
+  components: {
+    ...(defaultConfig as PrebuildConfig).components,
+    cpu: 'Ryzen 7 7800X3D',
+    gpu: 'RTX 4070',
+    ram: '32GB DDR5',
+  },
+};
+
+describe('quantizeImage', () => {
+  const { bw, bwr } = ESL_PALETTES;
+
+  it('should map each pixel to the nearest palette colour without dithering', () => {
+    const image: PixelData = {
+      width: 3,
+      height: 1,
+      data: new Uint8ClampedArray([250, 250, 250, 255, 20, 20, 20, 255, 230, 30, 30, 255]),
+    };
+    expect(Array.from(quantizeImage(image, bwr.colors, 'none'))).toEqual([0, 1, 2]);
+    expect(Array.from(quantizeImage(image, bw.colors, 'none'))).toEqual([0, 1, 1]);
+  });
+
+  it('should treat transparent pixels as white', () => {
+    const indices = quantizeImage(solidImage(2, 2, [0, 0, 0, 0]), bw.colors, 'none');
+    expect(Array.from(indices)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('should render mid grey as a checker-like 50% pattern with ordered dithering', () => {
+    const indices = quantizeImage(solidImage(4, 4, [128, 128, 128, 255]), bw.colors, 'ordered');
+    expect(countOf(indices, 1)).toBe(8);
+    // Neighbouring Bayer cells alternate
+    expect(indices[0]).not.toBe(indices[1]);
+  });
+
+  it('should preserve average tone with Floyd–Steinberg dithering', () => {
+    const indices = quantizeImage(
+      solidImage(16, 16, [64, 64, 64, 255]),
+      bw.colors,
+      'floyd-steinberg'
+    );
+    // 75% ink for a 25% grey
+    expect(countOf(indices, 1) / indices.length).toBeCloseTo(0.75, 1);
+  });
+
+  it('should leave solid palette colours untouched by dithering', () => {
+    for (const dither of ['ordered', 'floyd-steinberg'] as const) {
+      const red = quantizeImage(solidImage(4, 4, [255, 0, 0, 255]), bwr.colors, dither);
+      expect(countOf(red, 2)).toBe(16);
+    }
+  });
+});
+
+describe('toBitplanes', () => {
+  it('should pack black pixels MSB first with 0 as ink', () => {
+    const indices = new Uint8Array([1, 0, 0, 0, 0, 0, 0, 1]);
+    expect(Array.from(toBitplanes(indices, 8, 1, 'bw'))).toEqual([0b01111110]);
+  });
+
+  it('should pad each row to a whole byte', () => {
+    // 10 × 2: rows are 2 bytes each
+    const indices = new Uint8Array(20);
+    indices[9] = 1;
+    indices[10] = 1;
+    expect(Array.from(toBitplanes(indices, 10, 2, 'bw'))).toEqual([0xff, 0xbf, 0x7f, 0xff]);
+  });
+
+  it('should append a red plane for three-colour panels', () => {
+    const indices = new Uint8Array([1, 2, 0, 0, 0, 0, 0, 0]);
+    expect(Array.from(toBitplanes(indices, 8, 1, 'bwr'))).toEqual([0b01111111, 0b10111111]);
+  });
+});
+
+describe('buildEslLayout', () => {
+  it('should size the layout to the label model', () => {
+    const model = ESL_LABEL_MODELS['epaper-4.2'];
+    const layout = buildEslLayout(config, model, 'bw');
+    expect(layout.dimensions).toEqual({ width: model.widthIn, height: model.heightIn });
+    expect(layout.background.color).toBe('#ffffff');
+  });
+
+  it('should use red for the header and price only on three-colour panels', () => {
+    const model = ESL_LABEL_MODELS['epaper-2.9'];
+    const priceColor = (palette: 'bw' | 'bwr') => {
+      const price = buildEslLayout(config, model, palette).elements.find(
+        (el) => el.type === 'price'
+      );
+      return price?.type === 'price' ? price.style.priceColor : undefined;
+    };
+    expect(priceColor('bw')).toBe('#000000');
+    expect(priceColor('bwr')).toBe('#ff0000');
+  });
+
+  it('should show the specs of each model preset', () => {
+    const small = buildEslLayout(config, ESL_LABEL_MODELS['epaper-2.9'], 'bw');
+    const bar = small.elements.find((el) => el.type === 'info-bar');
+    expect(bar?.type === 'info-bar' && bar.items.map((item) => item.label)).toEqual(['CPU', 'GPU']);
+
+    const large = buildEslLayout(config, ESL_LABEL_MODELS['epaper-4.2'], 'bw');
+    const specs = large.elements.find((el) => el.type === 'specs');
+    expect(specs?.type === 'specs' && specs.specs.map((spec) => spec.key)).toEqual([
+      'cpu',
+      'gpu',
+      'ram',
+    ]);
+  });
+
+  it('should only add a barcode where the model has room and one was generated', () => {
+    const hasBarcode = (modelId: 'epaper-2.9' | 'epaper-4.2', generated: boolean) =>
+      buildEslLayout(config, ESL_LABEL_MODELS[modelId], 'bw', [], generated).elements.some(
+        (el) => el.type === 'barcode'
+      );
+    expect(hasBarcode('epaper-4.2', true)).toBe(true);
+    expect(hasBarcode('epaper-4.2', false)).toBe(false);
+    expect(hasBarcode('epaper-2.9', true)).toBe(false);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Tests for src/utils/fontManager.ts
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { jsPDF } from 'jspdf';
+import {
+  buildFontFaceCss,
+  getCustomFontPdfName,
+  getFontNameFromFile,
+  installFontFaces,
+  readFontFile,
+  registerPdfFont,
+  resolveCardFont,
+} from '../../../utils/fontManager';
+import { validateFontFile } from '../../../utils/validation';
+import { defaultConfig } from '../../../data/componentOptions';
+import { FONT_FAMILIES } from '../../../types';
+import type { CustomFont, VisualSettings } from '../../../types';
+
+vi.mock('../../../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+const font: CustomFont = {
+  id: 'font-1',
+  name: 'Brand Sans',
+  fileName: 'BrandSans.ttf',
+  format: 'truetype',
+  data: 'AAEAAAAL',
+  createdAt: 1,
+};
+
+function settings(overrides: Partial<VisualSettings> = {}): VisualSettings {
+  return { ...defaultConfig.visualSettings, ...overrides };
+}
+
+function createMockDoc(registered: Record<string, string[]> = {}) {
+  return {
+    getFontList: vi.fn(() => registered),
+    addFileToVFS: vi.fn(),
+    addFont: vi.fn(),
+  };
+}
+
+describe('fontManager', () => {
+  describe('getFontNameFromFile', () => {
+    it('should strip the extension and separators', () => {
+      expect(getFontNameFromFile('Brand-Sans_Bold.ttf')).toBe('Brand Sans Bold');
+    });
+  });
+
+  describe('validateFontFile', () => {
+    it('should accept TTF and OTF files', () => {
+      expect(validateFontFile(new File(['x'], 'a.ttf')).valid).toBe(true);
+      expect(validateFontFile(new File(['x'], 'a.OTF')).valid).toBe(true);
+    });
+
+    it('should reject other file types', () => {
+      const result = validateFontFile(new File(['x'], 'a.woff2'));
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('Invalid font type');
+    });
+
+    it('should reject oversized fonts', () => {
+      const file = new File(['x'], 'big.ttf');
+      Object.defineProperty(file, 'size', { value: 3 * 1024 * 1024 });
+      expect(validateFontFile(file).valid).toBe(false);
+    });
+  });
+
+  describe('readFontFile', () => {
+    it('should read the file as base64 without the data URL prefix', async () => {
+      const result = await readFontFile(new File(['hello'], 'Brand-Sans.otf'));
+
+      expect(result).toEqual({
+        name: 'Brand Sans',
+        fileName: 'Brand-Sans.otf',
+        format: 'opentype',
+        data: btoa('hello'),
+      });
+    });
+
+    it('should prefer an explicit name', async () => {
+      const result = await readFontFile(new File(['hello'], 'a.ttf'), '  Display  ');
+      expect(result.name).toBe('Display');
+    });
+
+    it('should reject invalid files', async () => {
+      await expect(readFontFile(new File(['x'], 'a.png'))).rejects.toThrow('Invalid font type');
+    });
+  });
+
+  describe('resolveCardFont', () => {
+    it('should use the built-in family when no custom font is selected', () => {
+      const resolved = resolveCardFont(settings({ fontFamily: 'georgia' }), [font]);
+
+      expect(resolved.fontFamily).toBe(FONT_FAMILIES.georgia.value);
+      expect(resolved.pdfFontName).toBe('times');
+      expect(resolved.customFont).toBeUndefined();
+    });
+
+    it('should put the selected custom font first with the built-in as fallback', () => {
+      const resolved = resolveCardFont(settings({ customFontId: font.id }), [font]);
+
+      expect(resolved.fontFamily).toBe(`"Brand Sans", ${FONT_FAMILIES.helvetica.value}`);
+      expect(resolved.customFont).toBe(font);
+    });
+
+    it('should fall back when the selected font has been removed', () => {
+      const resolved = resolveCardFont(settings({ customFontId: 'missing' }), [font]);
+
+      expect(resolved.customFont).toBeUndefined();
+      expect(resolved.fontFamily).toBe(FONT_FAMILIES.helvetica.value);
+    });
+  });
+
+  describe('buildFontFaceCss', () => {
+    it('should embed the font as a data URL', () => {
+      const css = buildFontFaceCss(font);
+
+      expect(css).toContain('font-family: "Brand Sans"');
+      expect(css).toContain('url(data:font/ttf;base64,AAEAAAAL)');
+      expect(css).toContain('format("truetype")');
+    });
+  });
+
+  describe('installFontFaces', () => {
+    beforeEach(() => {
+      document.getElementById('custom-font-faces')?.remove();
+    });
+
+    it('should write @font-face rules into a single style element', () => {
+      installFontFaces([font]);
+      installFontFaces([font, { ...font, id: 'font-2', name: 'Other' }]);
+
+      const styles = document.querySelectorAll('#custom-font-faces');
+      expect(styles).toHaveLength(1);
+      expect(styles[0].textContent).toContain('"Other"');
+    });
+  });
+
+  describe('registerPdfFont', () => {
+    it('should add the font file and register every style', () => {
+      const doc = createMockDoc();
+      const name = registerPdfFont(doc as unknown as jsPDF, font);
+
+      expect(name).toBe(getCustomFontPdfName(font));
+      expect(doc.addFileToVFS).toHaveBeenCalledWith(`${name}.ttf`, font.data);
+      expect(doc.addFont).toHaveBeenCalledTimes(4);
+      expect(doc.addFont).toHaveBeenCalledWith(`${name}.ttf`, name, 'bold');
+    });
+
+    it('should not register the same font twice on one document', () => {
+      const doc = createMockDoc({ [getCustomFontPdfName(font)]: ['normal'] });
+      registerPdfFont(doc as unknown as jsPDF, font);
+
+      expect(doc.addFileToVFS).not.toHaveBeenCalled();
+    });
+
+    it('should return null when jsPDF rejects the font', () => {
+      const doc = createMockDoc();
+      doc.addFont.mockImplementation(() => {
+        throw new Error('Unsupported font');
+      });
+
+      expect(registerPdfFont(doc as unknown as jsPDF, font)).toBeNull();
+    });
+  });
+});
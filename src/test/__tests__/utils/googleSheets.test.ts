@@ -0,0 +1,182 @@
+/**
+ * Tests for src/utils/googleSheets.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { exportToCSV, parseSheetData } from '../../../utils/googleSheets';
+import { defaultConfig } from '../../../data/componentOptions';
+import type { CustomFieldDefinition, PrebuildConfig } from '../../../types';
+
+const fields: CustomFieldDefinition[] = [
+  {
+    id: 'field-bt',
+    label: 'Bluetooth',
+    type: 'boolean',
+    options: [],
+    placement: 'spec',
+    csvHeaders: ['BT'],
+    createdAt: 0,
+  },
+  {
+    id: 'field-hours',
+    label: 'Assembly Hours',
+    type: 'number',
+    options: [],
+    placement: 'none',
+    csvHeaders: [],
+    createdAt: 0,
+  },
+];
+
+describe('googleSheets', () => {
+  describe('parseSheetData', () => {
+    it('should map built-in headers', () => {
+      const builds = parseSheetData([
+        ['Model Name', 'Price', 'CPU'],
+        ['Gamer X', '$1,299', 'Ryzen 7'],
+      ]);
+
+      expect(builds[0].modelName).toBe('Gamer X');
+      expect(builds[0].price).toBe(1299);
+      expect(builds[0].components?.cpu).toBe('Ryzen 7');
+    });
+
+    it('should read custom fields by label or extra header', () => {
+      const builds = parseSheetData(
+        [
+          ['Model Name', 'bt', 'Assembly Hours', 'Unknown'],
+          ['Gamer X', 'yes', '4', 'ignored'],
+          ['Gamer Y', '', 'n/a', ''],
+        ],
+        fields
+      );
+
+      expect(builds[0].customFields).toEqual({ 'field-bt': true, 'field-hours': 4 });
+      expect(builds[1].customFields).toBeUndefined();
+    });
+
+    it('should prefer custom fields over built-in headers of the same name', () => {
+      const storeFields: CustomFieldDefinition[] = [
+        { ...fields[0], id: 'field-monitor', label: 'Monitor', csvHeaders: [] },
+        { ...fields[1], id: 'field-fans', label: 'Fan Count', csvHeaders: ['Fans'] },
+      ];
+      const [build] = parseSheetData(
+        [
+          ['Model Name', 'Monitor', 'Monitor Price', 'Fans'],
+          ['Gamer X', 'yes', '$199', '6'],
+        ],
+        storeFields
+      );
+
+      expect(build.customFields).toEqual({ 'field-monitor': true, 'field-fans': 6 });
+      expect(build.components?.monitor).toBe('');
+      expect(build.components?.fans).toBe('');
+      expect(build.componentPrices?.monitor).toBe(199);
+    });
+  });
+
+  describe('component columns', () => {
+    it('should read numbered columns as further line items with their prices', () => {
+      const [build] = parseSheetData([
+        ['Name', 'Storage', 'Storage Price', 'Storage 2', 'Storage 2 Price', 'Capture Card'],
+        ['Gamer X', '2TB NVMe', '$150', '4TB HDD', '$89.99', 'Elgato HD60 X'],
+      ]);
+
+      expect(build.components?.storage).toBe('2TB NVMe');
+      expect(build.components?.expansion).toBe('Elgato HD60 X');
+      expect(build.componentPrices?.storage).toBe(150);
+      expect(build.extraComponents).toEqual([
+        { id: expect.stringMatching(/^item-/), category: 'storage', value: '4TB HDD' },
+      ]);
+      expect(build.componentPrices?.[build.extraComponents![0].id]).toBe(89.99);
+    });
+
+    it('should skip priced columns without a value', () => {
+      const [build] = parseSheetData([
+        ['Name', 'Fans 2 Price'],
+        ['Gamer X', '$30'],
+      ]);
+
+      expect(build.extraComponents).toBeUndefined();
+      expect(Object.keys(build.componentPrices ?? {}).some((key) => key.startsWith('item-'))).toBe(
+        false
+      );
+    });
+
+    it('should export a column per line item, and prices when any build has them', () => {
+      const builds = [
+        {
+          ...defaultConfig,
+          modelName: 'A',
+          components: { ...defaultConfig.components, storage: '2TB NVMe' },
+          extraComponents: [{ id: 'item-1', category: 'storage', value: '4TB HDD' }],
+          componentPrices: { ...defaultConfig.componentPrices, 'item-1': 90 },
+        },
+        { ...defaultConfig, modelName: 'B' },
+      ] as PrebuildConfig[];
+      const [headers, first, second] = exportToCSV(builds).split('\n');
+
+      expect(headers).toContain(',Storage,Storage 2,Storage 2 Price,Motherboard,');
+      expect(headers).toContain(',Cooling,Fans,Expansion Cards,Peripherals,Monitor,');
+      expect(first).toContain(',2TB NVMe,4TB HDD,$90,');
+      expect(second.startsWith('B,,,')).toBe(true);
+    });
+
+    it('should read its own export back', () => {
+      const build = {
+        ...defaultConfig,
+        modelName: 'A',
+        components: { ...defaultConfig.components, fans: '3x 120mm' },
+        extraComponents: [{ id: 'item-1', category: 'fans', value: '2x 140mm' }],
+        componentPrices: { ...defaultConfig.componentPrices, fans: 45, 'item-1': 30 },
+      } as PrebuildConfig;
+      const rows = exportToCSV([build])
+        .split('\n')
+        .map((line) => line.split(','));
+
+      const [imported] = parseSheetData(rows);
+
+      expect(imported.components?.fans).toBe('3x 120mm');
+      expect(imported.extraComponents?.map((item) => item.value)).toEqual(['2x 140mm']);
+      expect(imported.componentPrices?.fans).toBe(45);
+    });
+  });
+
+  describe('exportToCSV', () => {
+    it('should add a column per custom field', () => {
+      const build = {
+        ...defaultConfig,
+        modelName: 'Gamer X',
+        customFields: { 'field-bt': false },
+      } as PrebuildConfig;
+      const [headers, row] = exportToCSV([build], fields).split('\n');
+
+      expect(headers.endsWith(',Bluetooth,Assembly Hours')).toBe(true);
+      expect(row.endsWith(',No,')).toBe(true);
+    });
+
+    it('should keep built-in columns apart from custom fields of the same name', () => {
+      const storeFields: CustomFieldDefinition[] = [
+        { ...fields[0], id: 'field-monitor', label: 'Monitor', csvHeaders: [] },
+        { ...fields[1], id: 'field-warranty', label: 'Warranty', csvHeaders: [] },
+      ];
+      const build = {
+        ...defaultConfig,
+        modelName: 'A',
+        warranty: '2 Years',
+        components: { ...defaultConfig.components, monitor: 'Dell S2721DGF' },
+        customFields: { 'field-monitor': true, 'field-warranty': 3 },
+      } as PrebuildConfig;
+      const rows = exportToCSV([build], storeFields)
+        .split('\n')
+        .map((line) => line.split(','));
+
+      const [imported] = parseSheetData(rows, storeFields);
+
+      expect(rows[0]).toContain('Monitor (Custom)');
+      expect(imported.components?.monitor).toBe('Dell S2721DGF');
+      expect(imported.warranty).toBe('2 Years');
+      expect(imported.customFields).toEqual({ 'field-monitor': true, 'field-warranty': 3 });
+    });
+  });
+});
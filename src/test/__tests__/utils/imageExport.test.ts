@@ -0,0 +1,91 @@
+/**
+ * Tests for src/utils/imageExport.ts
+ * Canvas drawing is mocked: jsdom has no canvas
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { exportCardImage, getImageFilename, getImagePixelSize } from '../../../utils/imageExport';
+import { createLayoutCanvas } from '../../../utils/canvasDocument';
+import { canvasToBlob } from '../../../utils/canvas';
+import type { CardLayout } from '../../../utils/layoutSchema';
+
+vi.mock('../../../utils/canvasDocument', () => ({
+  createLayoutCanvas: vi.fn(async () => ({})),
+}));
+
+vi.mock('../../../utils/canvas', () => ({
+  canvasToBlob: vi.fn(async (_canvas: unknown, type: string) => new Blob([], { type })),
+}));
+
+// A 4" × 6" price card
+const layout = { dimensions: { width: 4, height: 6 } } as CardLayout;
+
+describe('getImagePixelSize', () => {
+  it('should scale the card by the DPI', () => {
+    expect(getImagePixelSize(layout, { dpi: 300 })).toEqual({ width: 1200, height: 1800 });
+  });
+
+  it('should prefer an exact pixel width and keep the aspect ratio', () => {
+    expect(getImagePixelSize(layout, { dpi: 300, pixelWidth: 1080 })).toEqual({
+      width: 1080,
+      height: 1620,
+    });
+  });
+
+  it('should default to 150 dpi', () => {
+    expect(getImagePixelSize(layout, {})).toEqual({ width: 600, height: 900 });
+  });
+});
+
+describe('exportCardImage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should render at the requested size and encode in the requested format', async () => {
+    const blob = await exportCardImage(
+      layout,
+      { format: 'webp', dpi: 72, quality: 0.8 },
+      { qrCodeImage: 'data:qr' }
+    );
+
+    expect(createLayoutCanvas).toHaveBeenCalledWith(layout, 288, 432, {
+      qrCodeImage: 'data:qr',
+      transparentBackground: false,
+      fill: '#ffffff',
+    });
+    expect(canvasToBlob).toHaveBeenCalledWith(expect.anything(), 'image/webp', 0.8);
+    expect(blob.type).toBe('image/webp');
+  });
+
+  it('should leave the background transparent for PNG', async () => {
+    await exportCardImage(layout, { format: 'png', dpi: 72, transparentBackground: true });
+
+    expect(createLayoutCanvas).toHaveBeenCalledWith(layout, 288, 432, {
+      transparentBackground: true,
+      fill: undefined,
+    });
+  });
+
+  it('should keep JPEG backgrounds opaque', async () => {
+    await exportCardImage(layout, { format: 'jpeg', dpi: 72, transparentBackground: true });
+
+    expect(createLayoutCanvas).toHaveBeenCalledWith(layout, 288, 432, {
+      transparentBackground: false,
+      fill: '#ffffff',
+    });
+  });
+
+  it('should refuse images larger than a canvas can hold', async () => {
+    await expect(exportCardImage(layout, { format: 'png', dpi: 3000 })).rejects.toThrow(
+      'Image is too large (12000 × 18000 px)'
+    );
+    expect(createLayoutCanvas).not.toHaveBeenCalled();
+  });
+});
+
+describe('getImageFilename', () => {
+  it('should use the format extension', () => {
+    expect(getImageFilename('Gaming PC', 'Price Card', 'jpeg')).toBe('Gaming PC-Price-Card.jpg');
+  });
+});
@@ -0,0 +1,378 @@
+/**
+ * Tests for src/utils/imposition.ts
+ * Verifies sheet grids for paper sizes, gutters and label stock, and how
+ * imposeCards places cards, crop marks and pages.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  arrangeCopies,
+  computeSheetLayout,
+  getBackSlots,
+  getSheetProfile,
+  imposeCards,
+  BUILT_IN_SHEET_PROFILES,
+  PAPER_SIZES,
+  SheetProfile,
+} from '../../../utils/imposition';
+import type { jsPDF } from 'jspdf';
+import type { PreparedCard } from '../../../utils/pdfGenerator';
+import { buildCardLayout } from '../../../utils/layoutBuilders';
+import { defaultConfig } from '../../../data/componentOptions';
+import { getThemeColors } from '../../../types';
+import type { CardSize, PrebuildConfig } from '../../../types';
+
+vi.mock('../../../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+const { mockJsPDF } = vi.hoisted(() => ({
+  mockJsPDF: vi.fn().mockImplementation(function () {
+    return {
+      internal: {
+        scaleFactor: 72,
+        pageSize: { getWidth: () => 8.5, getHeight: () => 11 },
+      },
+      addPage: vi.fn(),
+      saveGraphicsState: vi.fn(),
+      restoreGraphicsState: vi.fn(),
+      setCurrentTransformationMatrix: vi.fn(),
+      Matrix: vi.fn((...values: number[]) => values),
+      setFontSize: vi.fn(),
+      setFont: vi.fn(),
+      setTextColor: vi.fn(),
+      setFillColor: vi.fn(),
+      setDrawColor: vi.fn(),
+      setLineWidth: vi.fn(),
+      rect: vi.fn(),
+      roundedRect: vi.fn(),
+      line: vi.fn(),
+      lines: vi.fn(),
+      circle: vi.fn(),
+      text: vi.fn(),
+      getTextWidth: vi.fn(() => 1),
+      splitTextToSize: vi.fn((text: string) => [text]),
+      addImage: vi.fn(),
+    };
+  }),
+}));
+
+vi.mock('jspdf', () => ({
+  jsPDF: mockJsPDF,
+}));
+
+type MockDoc = ReturnType<typeof mockJsPDF>;
+
+function profile(overrides: Partial<SheetProfile> = {}): SheetProfile {
+  return { ...getSheetProfile('letter-fill'), ...overrides };
+}
+
+function prepareCard(cardSize: CardSize = 'shelf'): PreparedCard {
+  const config = defaultConfig as PrebuildConfig;
+  return {
+    layout: buildCardLayout({
+      config,
+      cardSize,
+      colors: getThemeColors(config),
+      brandIcons: [],
+    }),
+    asyncData: {},
+  };
+}
+
+describe('imposition', () => {
+  describe('computeSheetLayout', () => {
+    it('should fit 12 shelf tags on letter, centred', () => {
+      const layout = computeSheetLayout(profile(), 2, 3);
+
+      expect(layout.cols).toBe(4);
+      expect(layout.rows).toBe(3);
+      expect(layout.slots).toHaveLength(12);
+      expect(layout.slots[0]).toEqual({ x: 0.25, y: 1 });
+    });
+
+    it('should fit 2 price cards on letter', () => {
+      const layout = computeSheetLayout(profile(), 4, 6);
+      expect(layout.slots).toHaveLength(2);
+    });
+
+    it('should use A4 paper dimensions', () => {
+      const layout = computeSheetLayout(getSheetProfile('a4-fill'), 2, 3);
+
+      expect(layout.pageWidth).toBeCloseTo(PAPER_SIZES.a4.width, 5);
+      expect(layout.pageHeight).toBeCloseTo(PAPER_SIZES.a4.height, 5);
+      expect(layout.cols).toBe(3);
+      expect(layout.rows).toBe(3);
+    });
+
+    it('should swap paper dimensions in landscape', () => {
+      const layout = computeSheetLayout(profile({ orientation: 'landscape' }), 2, 3);
+
+      expect(layout.pageWidth).toBe(11);
+      expect(layout.pageHeight).toBe(8.5);
+      expect(layout.cols).toBe(5);
+      expect(layout.rows).toBe(2);
+    });
+
+    it('should space slots by the gutters', () => {
+      const layout = computeSheetLayout(profile({ gutterX: 0.2, gutterY: 0.3 }), 2, 3);
+
+      expect(layout.cols).toBe(3);
+      expect(layout.slots[1].x - layout.slots[0].x).toBeCloseTo(2.2, 5);
+      expect(layout.slots[layout.cols].y - layout.slots[0].y).toBeCloseTo(3.3, 5);
+    });
+
+    it('should honour fixed rows, columns and margins', () => {
+      const layout = computeSheetLayout(
+        profile({ cols: 2, rows: 2, margins: { top: 1, right: 0, bottom: 0, left: 0.5 } }),
+        2,
+        3
+      );
+
+      expect(layout.slots).toHaveLength(4);
+      expect(layout.slots[0]).toEqual({ x: 0.5, y: 1 });
+    });
+
+    it('should centre cards in label stock slots', () => {
+      const layout = computeSheetLayout(getSheetProfile('avery-5371'), 3, 2);
+
+      expect(layout.slots).toHaveLength(10);
+      expect(layout.slots[0]).toEqual({ x: 1, y: 0.5 });
+      expect(layout.slots[1].x).toBeCloseTo(4.5, 5);
+    });
+
+    it('should swap the card footprint when rotating', () => {
+      const layout = computeSheetLayout(profile({ rotate: true }), 2, 3);
+
+      expect(layout.cardWidth).toBe(3);
+      expect(layout.cardHeight).toBe(2);
+      expect(layout.cols).toBe(2);
+      expect(layout.rows).toBe(5);
+    });
+
+    it('should reserve room for bleed around every card', () => {
+      const layout = computeSheetLayout(profile({ bleed: 0.125 }), 2, 3);
+
+      expect(layout.cols).toBe(3);
+      expect(layout.slots[1].x - layout.slots[0].x).toBeCloseTo(2.25, 5);
+    });
+
+    it('should shift every slot by the printer offset', () => {
+      const base = computeSheetLayout(profile(), 2, 3);
+      const shifted = computeSheetLayout(profile({ offsetX: 0.05, offsetY: -0.1 }), 2, 3);
+
+      expect(shifted.slots[5].x - base.slots[5].x).toBeCloseTo(0.05, 5);
+      expect(shifted.slots[5].y - base.slots[5].y).toBeCloseTo(-0.1, 5);
+    });
+  });
+
+  describe('getBackSlots', () => {
+    it('should mirror columns for long-edge flips of portrait sheets', () => {
+      const layout = computeSheetLayout(profile(), 2, 3);
+      const backs = getBackSlots(layout, profile(), 'long-edge');
+
+      // First card's back lands in the last column of the same row
+      expect(backs[0].x).toBeCloseTo(layout.slots[layout.cols - 1].x, 5);
+      expect(backs[0].y).toBeCloseTo(layout.slots[0].y, 5);
+    });
+
+    it('should mirror rows for short-edge flips of portrait sheets', () => {
+      const layout = computeSheetLayout(profile(), 2, 3);
+      const backs = getBackSlots(layout, profile(), 'short-edge');
+      const lastRow = (layout.rows - 1) * layout.cols;
+
+      expect(backs[0].x).toBeCloseTo(layout.slots[0].x, 5);
+      expect(backs[0].y).toBeCloseTo(layout.slots[lastRow].y, 5);
+    });
+
+    it('should mirror rows for long-edge flips of landscape sheets', () => {
+      const landscape = profile({ orientation: 'landscape' });
+      const layout = computeSheetLayout(landscape, 2, 3);
+      const backs = getBackSlots(layout, landscape, 'long-edge');
+
+      expect(backs[0].y).toBeCloseTo(layout.slots[layout.cols].y, 5);
+    });
+
+    it('should keep the printer offset instead of mirroring it', () => {
+      const shifted = profile({ offsetX: 0.1, cols: 1 });
+      const layout = computeSheetLayout(shifted, 2, 3);
+      const [back] = getBackSlots(layout, shifted, 'long-edge');
+
+      // A single centred column stays in place, offset included
+      expect(back.x).toBeCloseTo(layout.slots[0].x, 5);
+    });
+  });
+
+  describe('getSheetProfile', () => {
+    it('should prefer custom profiles and fall back to letter', () => {
+      const custom = profile({ id: 'mine', name: 'Mine' });
+
+      expect(getSheetProfile('mine', [custom])).toBe(custom);
+      expect(getSheetProfile('a4-fill').paper).toBe('a4');
+      expect(getSheetProfile('missing')).toBe(BUILT_IN_SHEET_PROFILES[0]);
+    });
+  });
+
+  describe('arrangeCopies', () => {
+    it('should keep copies of each item together when grouped', () => {
+      expect(arrangeCopies(['a', 'b'], 3, 'grouped')).toEqual(['a', 'a', 'a', 'b', 'b', 'b']);
+    });
+
+    it('should repeat the whole set when collated', () => {
+      expect(arrangeCopies(['a', 'b'], 3, 'collated')).toEqual(['a', 'b', 'a', 'b', 'a', 'b']);
+    });
+
+    it('should honour per-item copy counts', () => {
+      expect(arrangeCopies(['a', 'b'], [1, 3], 'grouped')).toEqual(['a', 'b', 'b', 'b']);
+      expect(arrangeCopies(['a', 'b'], [1, 3], 'collated')).toEqual(['a', 'b', 'b', 'b']);
+      expect(arrangeCopies(['a', 'b'], [2, 3], 'collated')).toEqual(['a', 'b', 'a', 'b', 'b']);
+    });
+
+    it('should always place at least one copy', () => {
+      expect(arrangeCopies(['a', 'b'], 0, 'grouped')).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('imposeCards', () => {
+    let originalImage: typeof Image;
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      originalImage = global.Image;
+    });
+
+    afterEach(() => {
+      global.Image = originalImage;
+    });
+
+    it('should create the document on the profile paper', async () => {
+      await imposeCards([prepareCard()], getSheetProfile('a4-fill'));
+
+      expect(mockJsPDF).toHaveBeenCalledWith({ orientation: 'portrait', unit: 'in', format: 'a4' });
+    });
+
+    it('should add a page when cards overflow the sheet', async () => {
+      const card = prepareCard();
+      const doc = (await imposeCards(Array(13).fill(card), profile())) as unknown as MockDoc;
+
+      expect(doc.addPage).toHaveBeenCalledTimes(1);
+      expect(doc.addPage).toHaveBeenCalledWith('letter', 'portrait');
+    });
+
+    it('should draw crop marks only when enabled', async () => {
+      const card = prepareCard();
+
+      const withMarks = (await imposeCards([card], profile())) as unknown as MockDoc;
+      expect(withMarks.setDrawColor).toHaveBeenCalledWith(180, 180, 180);
+
+      const withoutMarks = (await imposeCards(
+        [card],
+        profile({ cropMarks: false })
+      )) as unknown as MockDoc;
+      expect(withoutMarks.setDrawColor).not.toHaveBeenCalledWith(180, 180, 180);
+    });
+
+    it('should fill the bleed area around each card', async () => {
+      const card = prepareCard();
+      const doc = (await imposeCards([card], profile({ bleed: 0.125 }))) as unknown as MockDoc;
+
+      const { width, height } = card.layout.dimensions;
+      expect(doc.rect).toHaveBeenCalledWith(
+        expect.any(Number),
+        expect.any(Number),
+        width + 0.25,
+        height + 0.25,
+        'F'
+      );
+    });
+
+    it('should draw rotated cards under a transformation matrix', async () => {
+      const doc = (await imposeCards(
+        [prepareCard()],
+        profile({ rotate: true })
+      )) as unknown as MockDoc;
+
+      expect(doc.saveGraphicsState).toHaveBeenCalled();
+      expect(doc.Matrix).toHaveBeenCalledWith(0, -1, 1, 0, expect.any(Number), expect.any(Number));
+      expect(doc.restoreGraphicsState).toHaveBeenCalled();
+    });
+
+    it('should append sheets to an existing document', async () => {
+      const existing = new mockJsPDF();
+      const doc = await imposeCards([prepareCard()], profile(), {
+        doc: existing as unknown as jsPDF,
+      });
+
+      expect(doc).toBe(existing);
+      expect(mockJsPDF).toHaveBeenCalledTimes(1);
+      expect(existing.addPage).toHaveBeenCalledWith('letter', 'portrait');
+    });
+
+    it('should follow every front sheet with its back sheet', async () => {
+      const front = prepareCard();
+      const back = prepareCard();
+      const doc = (await imposeCards(Array(13).fill(front), profile(), {
+        backs: Array(13).fill(back),
+        caption: 'Shelf Tags',
+      })) as unknown as MockDoc;
+
+      // Front, back, front, back
+      expect(doc.addPage).toHaveBeenCalledTimes(3);
+      const captions = doc.text.mock.calls.filter((args: unknown[]) => args[0] === 'Shelf Tags');
+      expect(captions).toHaveLength(2);
+    });
+
+    it('should turn backs so they read upright behind their fronts', async () => {
+      /** Page position (inches) of a card point drawn under the recorded matrix */
+      const place = (matrix: number[], u: number, v: number) => {
+        const [a, b, c, d, e, f] = matrix;
+        const k = 72;
+        const pageHeight = 11 * k;
+        const px = u * k;
+        const py = pageHeight - v * k;
+        return [(a * px + c * py + e) / k, (pageHeight - (b * px + d * py + f)) / k];
+      };
+      const card = prepareCard();
+
+      // Short edge: the back is upside down in the mirrored row
+      const shortEdge = (await imposeCards([card], profile(), {
+        backs: [card],
+        flip: 'short-edge',
+      })) as unknown as MockDoc;
+      const upsideDown = shortEdge.Matrix.mock.results[0].value as number[];
+      const [slot] = getBackSlots(computeSheetLayout(profile(), 2, 3), profile(), 'short-edge');
+      expect(upsideDown.slice(0, 4)).toEqual([-1, 0, 0, -1]);
+      const [x, y] = place(upsideDown, 0, 0);
+      expect(x).toBeCloseTo(slot.x + 2, 5);
+      expect(y).toBeCloseTo(slot.y + 3, 5);
+
+      // Rotated fronts with a long-edge flip: backs turn the other way
+      const rotated = profile({ rotate: true });
+      const longEdge = (await imposeCards([card], rotated, {
+        backs: [card],
+      })) as unknown as MockDoc;
+      const [front, turned] = longEdge.Matrix.mock.results.map((r) => r.value as number[]);
+      expect(front.slice(0, 4)).toEqual([0, -1, 1, 0]);
+      expect(turned.slice(0, 4)).toEqual([0, 1, -1, 0]);
+      const [rotatedSlot] = getBackSlots(computeSheetLayout(rotated, 2, 3), rotated, 'long-edge');
+      const [tx, ty] = place(turned, 0, 0);
+      expect(tx).toBeCloseTo(rotatedSlot.x, 5);
+      expect(ty).toBeCloseTo(rotatedSlot.y + 2, 5);
+    });
+
+    it('should print the caption on every sheet', async () => {
+      const card = prepareCard();
+      const doc = (await imposeCards(Array(13).fill(card), profile(), {
+        caption: 'Shelf Tags',
+      })) as unknown as MockDoc;
+
+      const captions = doc.text.mock.calls.filter((args: unknown[]) => args[0] === 'Shelf Tags');
+      expect(captions).toHaveLength(2);
+    });
+  });
+});
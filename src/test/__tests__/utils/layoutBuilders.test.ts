@@ -9,22 +9,34 @@ import {
   buildPriceCardLayout,
   buildPosterLayout,
   buildCardLayout,
+  buildCardBackLayout,
+  buildDesignLayout,
 } from '../../../utils/layoutBuilders';
 import {
+  CardLayout,
   LayoutBuilderContext,
   resetElementIdCounter,
   lightenColor,
   darkenColor,
   hexToRgb,
 } from '../../../utils/layoutSchema';
+import type { CardDesign, DesignElement } from '../../../utils/cardDesigns';
+import { DEFAULT_SPEC_ABBREVIATIONS } from '../../../utils/specAbbreviations';
 import { defaultConfig } from '../../../data/componentOptions';
 import { getThemeColors, THEME_PRESETS } from '../../../types';
-import type { PrebuildConfig, BrandIcon } from '../../../types';
+import type {
+  PrebuildConfig,
+  BrandIcon,
+  CardTemplate,
+  CardSize,
+  CustomCardSize,
+  SizeSpecVisibility,
+} from '../../../types';
 
 // Helper to create a test context
 function createTestContext(
   overrides: Partial<PrebuildConfig> = {},
-  cardSize: 'shelf' | 'price' | 'poster' = 'price',
+  cardSize: CardSize = 'price',
   brandIcons: BrandIcon[] = []
 ): LayoutBuilderContext {
   const config: PrebuildConfig = {
@@ -458,6 +470,223 @@ describe('layoutBuilders', () => {
     });
   });
 
+  describe('buildCardBackLayout', () => {
+    const components = {
+      ...defaultConfig.components,
+      cpu: 'AMD Ryzen 7 7800X3D',
+      gpu: 'RTX 4070',
+      case: 'Lian Li 216',
+    };
+
+    it('should match the front size and list every component in one column', () => {
+      const ctx = createTestContext({ components }, 'price');
+      const layout = buildCardBackLayout(ctx);
+
+      expect(layout.dimensions).toEqual({ width: 4, height: 6 });
+      const specs = layout.elements.find((e) => e.type === 'specs');
+      expect(specs?.type === 'specs' && specs.layout).toBe('single-column');
+      expect(specs?.type === 'specs' && specs.specs.map((spec) => spec.key)).toEqual([
+        'cpu',
+        'gpu',
+        'case',
+      ]);
+    });
+
+    it('should add component prices only when they are shown', () => {
+      const componentPrices = { ...defaultConfig.componentPrices, cpu: 449, gpu: 599 };
+      const priced = buildCardBackLayout(
+        createTestContext({ components, componentPrices, showComponentPrices: true })
+      );
+      const hidden = buildCardBackLayout(
+        createTestContext({ components, componentPrices, showComponentPrices: false })
+      );
+
+      const pricedSpecs = priced.elements.find((e) => e.type === 'specs');
+      expect(pricedSpecs?.type === 'specs' && pricedSpecs.specs.map((spec) => spec.price)).toEqual([
+        449,
+        599,
+        undefined,
+      ]);
+      const hiddenSpecs = hidden.elements.find((e) => e.type === 'specs');
+      expect(hiddenSpecs?.type === 'specs' && hiddenSpecs.specs.some((spec) => spec.price)).toBe(
+        false
+      );
+    });
+
+    it('should spell out warranty and financing terms', () => {
+      const layout = buildCardBackLayout(
+        createTestContext({
+          price: 1200,
+          warranty: '2 Year Parts & Labor',
+          financingInfo: { enabled: true, months: 12, apr: 0 },
+        })
+      );
+      const texts = layout.elements.flatMap((e) => (e.type === 'text' ? [e.text] : []));
+
+      expect(texts).toContain('Warranty: 2 Year Parts & Labor');
+      expect(texts).toContain(
+        'Financing: 12 monthly payments of $100.00 at 0% APR, $1,200.00 in total. Subject to credit approval.'
+      );
+    });
+
+    it('should format the financing amounts like the front of the card', () => {
+      const layout = buildCardBackLayout(
+        createTestContext({ price: 24000, financingInfo: { enabled: true, months: 12, apr: 0 } })
+      );
+      const texts = layout.elements.flatMap((e) => (e.type === 'text' ? [e.text] : []));
+
+      expect(texts).toContainEqual(
+        expect.stringContaining('12 monthly payments of $2,000.00 at 0% APR, $24,000.00 in total')
+      );
+    });
+
+    it('should show a QR code larger than the front one', () => {
+      const ctx = createTestContext({
+        visualSettings: {
+          ...defaultConfig.visualSettings,
+          showQrCode: true,
+          qrCodeUrl: 'https://example.com',
+        },
+      });
+      ctx.asyncData = { qrCodeImage: 'data:image/png;base64,qr' };
+
+      const frontQr = buildCardLayout(ctx).elements.find((e) => e.type === 'qrcode');
+      const backQr = buildCardBackLayout(ctx).elements.find((e) => e.type === 'qrcode');
+      expect(backQr?.type === 'qrcode' && frontQr?.type === 'qrcode').toBe(true);
+      if (backQr?.type === 'qrcode' && frontQr?.type === 'qrcode') {
+        expect(backQr.size).toBeGreaterThan(frontQr.size * 2);
+      }
+    });
+
+    it('should use two spec columns on shelf tags', () => {
+      const layout = buildCardBackLayout(createTestContext({ components }, 'shelf'));
+      const specs = layout.elements.find((e) => e.type === 'specs');
+
+      expect(specs?.type === 'specs' && specs.layout).toBe('two-column');
+    });
+  });
+
+  describe('buildDesignLayout', () => {
+    function element(
+      binding: DesignElement['binding'],
+      overrides: Partial<DesignElement> = {}
+    ): DesignElement {
+      return {
+        id: `el-${binding}`,
+        binding,
+        frame: { x: 0.2, y: 0.5, width: 2, height: 0.5 },
+        visible: true,
+        style: {},
+        ...overrides,
+      };
+    }
+
+    function design(elements: DesignElement[], cardSize: CardSize = 'price'): CardDesign {
+      return { id: 'design-1', name: 'Mine', cardSize, elements, createdAt: 0, updatedAt: 0 };
+    }
+
+    it('should place bound elements in their frames in design order', () => {
+      const ctx = createTestContext({ modelName: 'Apex', price: 1500 });
+      const layout = buildDesignLayout(
+        ctx,
+        design([
+          element('price', { frame: { x: 0.5, y: 4, width: 3, height: 1 } }),
+          element('model'),
+        ])
+      );
+
+      expect(layout.dimensions).toEqual({ width: 4, height: 6 });
+      expect(layout.elements.map((e) => e.type)).toEqual(['price', 'text']);
+      expect(layout.elements[0].frame).toEqual({ x: 0.5, y: 4, width: 3, height: 1 });
+      const model = layout.elements[1];
+      expect(model.type === 'text' && model.text).toBe('Apex');
+    });
+
+    it('should apply style overrides and visibility', () => {
+      const layout = buildDesignLayout(
+        createTestContext({ price: 999 }),
+        design([
+          element('price', {
+            visible: false,
+            style: { fontSize: 40, color: '#123456', backgroundColor: '#abcdef' },
+          }),
+        ])
+      );
+      const price = layout.elements[0];
+
+      expect(price.visible).toBe(false);
+      expect(price.type === 'price' && price.style).toMatchObject({
+        mainFontSize: 40,
+        priceColor: '#123456',
+        boxColor: '#abcdef',
+      });
+    });
+
+    it('should leave out parts the config has no value for', () => {
+      const layout = buildDesignLayout(
+        createTestContext({ sku: '' }),
+        design([element('sku'), element('model')])
+      );
+
+      expect(layout.elements.some((e) => e.type === 'sku')).toBe(false);
+    });
+
+    it('should take parts from other sizes when this size has none', () => {
+      const ctx = createTestContext(
+        { financingInfo: { enabled: true, months: 12, apr: 0 }, price: 1200 },
+        'shelf'
+      );
+      const layout = buildDesignLayout(ctx, design([element('financing')], 'shelf'));
+
+      expect(layout.elements.map((e) => e.type)).toEqual(['financing']);
+    });
+
+    it('should build custom text and dividers', () => {
+      const layout = buildDesignLayout(
+        createTestContext(),
+        design([
+          element('text', { text: 'Hot deal', style: { color: '#ff0000' } }),
+          element('divider', { frame: { x: 0, y: 1, width: 4, height: 0.5 } }),
+        ])
+      );
+      const [text, divider] = layout.elements;
+
+      expect(text.type === 'text' && [text.text, text.style.color]).toEqual([
+        'Hot deal',
+        '#ff0000',
+      ]);
+      expect(divider.type === 'divider' && divider.style.thickness).toBe(0.1);
+    });
+
+    it('should use the design theme, layout overrides and image assets', () => {
+      const layout = buildDesignLayout(createTestContext({ modelName: 'Apex' }), {
+        ...design([element('model'), element('divider'), element('image', { assetId: 'logo' })]),
+        theme: { primary: '#00ff00' },
+        layout: { fontSize: { modelName: 30 } },
+        assets: { logo: { name: 'logo.png', data: 'data:image/png;base64,AAAA' } },
+      });
+      const [model, divider, image] = layout.elements;
+
+      expect(model.type === 'text' && model.style.fontSize).toBe(30);
+      expect(divider.type === 'divider' && divider.style.color).toBe('#00ff00');
+      expect(image.type === 'image' && image.src).toBe('data:image/png;base64,AAAA');
+    });
+
+    it('should leave out image elements without an asset', () => {
+      const layout = buildDesignLayout(createTestContext(), design([element('image')]));
+
+      expect(layout.elements).toEqual([]);
+    });
+
+    it('should replace the built-in layout for the design size only', () => {
+      const ctx = createTestContext({ modelName: 'Apex' });
+      ctx.designs = [design([element('model')])];
+
+      expect(buildCardLayout(ctx).elements).toHaveLength(1);
+      expect(buildCardLayout({ ...ctx, cardSize: 'shelf' }).elements.length).toBeGreaterThan(1);
+    });
+  });
+
   describe('Badge generation', () => {
     it('should include condition badge when set', () => {
       const ctx = createTestContext(
@@ -605,6 +834,178 @@ describe('layoutBuilders', () => {
     });
   });
 
+  describe('Spec abbreviations', () => {
+    const brandIcons: BrandIcon[] = [{ name: 'NVIDIA', image: 'data:image/png;base64,nvidia' }];
+    const components = { ...defaultConfig.components, gpu: 'NVIDIA GeForce RTX 4070 Ti Super' };
+
+    function gpuValue(cardSize: CardSize): string | undefined {
+      const ctx = createTestContext({ components }, cardSize, brandIcons);
+      ctx.abbreviations = DEFAULT_SPEC_ABBREVIATIONS;
+      const layout = buildCardLayout(ctx);
+      const specs = layout.elements.find((e) => e.type === 'specs');
+      return specs?.type === 'specs' ? specs.specs.find((s) => s.key === 'gpu')?.value : undefined;
+    }
+
+    it('should abbreviate spec values on the sizes they are turned on for', () => {
+      expect(gpuValue('shelf')).toBe('RTX 4070 Ti S');
+    });
+
+    it('should keep full spec values on other sizes', () => {
+      expect(gpuValue('price')).toBe('NVIDIA GeForce RTX 4070 Ti Super');
+    });
+  });
+
+  describe('Spec visibility', () => {
+    const reordered: SizeSpecVisibility = {
+      specs: [
+        { key: 'gpu', visible: true, label: 'Graphics' },
+        { key: 'cpu', visible: true },
+        { key: 'ram', visible: false },
+      ],
+      info: [
+        { key: 'wifi', visible: true, label: 'Wi-Fi' },
+        { key: 'os', visible: false },
+      ],
+    };
+    const filled = {
+      components: {
+        ...defaultConfig.components,
+        cpu: 'Intel Core i7',
+        gpu: 'RTX 4070',
+        ram: '32GB DDR5',
+        psu: '750W',
+      },
+      os: 'Windows 11',
+      warranty: '2 Years',
+      wifi: 'WiFi 6E',
+    };
+
+    function findSpecs(layout: CardLayout) {
+      const specs = layout.elements.find((e) => e.type === 'specs');
+      return specs?.type === 'specs' ? specs.specs : [];
+    }
+
+    function findInfo(layout: CardLayout) {
+      const info = layout.elements.find((e) => e.type === 'info-bar');
+      return info?.type === 'info-bar' ? info.items : [];
+    }
+
+    it('should show the main components on shelf tags by default', () => {
+      const layout = buildCardLayout(createTestContext(filled, 'shelf'));
+      expect(findSpecs(layout).map((s) => s.key)).toEqual(['cpu', 'gpu', 'ram']);
+    });
+
+    it('should follow the global default order, visibility and labels', () => {
+      const ctx = createTestContext(filled, 'price');
+      ctx.specVisibility = { price: reordered };
+      const layout = buildCardLayout(ctx);
+
+      expect(findSpecs(layout).map((s) => [s.key, s.label])).toEqual([
+        ['gpu', 'Graphics'],
+        ['cpu', 'CPU'],
+        ['psu', 'PSU'],
+      ]);
+      expect(findInfo(layout)).toEqual([
+        { label: 'WI-FI', value: 'WiFi 6E' },
+        { label: 'WARRANTY', value: '2 Years' },
+      ]);
+    });
+
+    it("should prefer the config's lists over the global default", () => {
+      const ctx = createTestContext({ ...filled, specVisibility: { poster: reordered } }, 'poster');
+      ctx.specVisibility = { poster: { specs: [{ key: 'ram', visible: true }], info: [] } };
+      const layout = buildCardLayout(ctx);
+
+      expect(findSpecs(layout)[0].label).toBe('Graphics');
+    });
+
+    it('should list hidden components on the back in the same order', () => {
+      const ctx = createTestContext(filled, 'price');
+      ctx.specVisibility = { price: reordered };
+      const layout = buildCardBackLayout(ctx);
+
+      expect(findSpecs(layout).map((s) => s.key)).toEqual(['gpu', 'cpu', 'ram', 'psu']);
+    });
+
+    it('should place custom fields as specs and info items', () => {
+      const ctx = createTestContext(
+        { ...filled, customFields: { 'field-bt': true, 'field-asm': '2 days' } },
+        'price'
+      );
+      ctx.customFields = [
+        {
+          id: 'field-bt',
+          label: 'Bluetooth',
+          type: 'boolean',
+          options: [],
+          placement: 'spec',
+          csvHeaders: [],
+          createdAt: 0,
+        },
+        {
+          id: 'field-asm',
+          label: 'Assembly',
+          type: 'text',
+          options: [],
+          placement: 'info',
+          csvHeaders: [],
+          createdAt: 0,
+        },
+      ];
+      const layout = buildCardLayout(ctx);
+
+      expect(findSpecs(layout).at(-1)).toEqual({
+        key: 'field-bt',
+        label: 'Bluetooth',
+        value: 'Yes',
+      });
+      expect(findInfo(layout).at(-1)).toEqual({ label: 'ASSEMBLY', value: '2 days' });
+    });
+  });
+
+  describe('Component line items', () => {
+    const build: Partial<PrebuildConfig> = {
+      components: {
+        ...defaultConfig.components,
+        storage: 'Samsung 990 Pro 2TB Solid State Drive',
+        monitor: '27" 1440p Monitor',
+      },
+      extraComponents: [{ id: 'item-hdd', category: 'storage', value: '4TB Hard Drive' }],
+      componentPrices: { ...defaultConfig.componentPrices, storage: 170, 'item-hdd': 80 },
+      showComponentPrices: true,
+    };
+
+    function findSpec(layout: CardLayout, key: string) {
+      const specs = layout.elements.find((e) => e.type === 'specs');
+      return specs?.type === 'specs' ? specs.specs.find((s) => s.key === key) : undefined;
+    }
+
+    it("should show a category's line items on one line", () => {
+      const layout = buildCardLayout(createTestContext(build, 'price'));
+
+      expect(findSpec(layout, 'storage')?.value).toBe(
+        'Samsung 990 Pro 2TB Solid State Drive + 4TB Hard Drive'
+      );
+      expect(findSpec(layout, 'monitor')).toMatchObject({ label: 'Monitor' });
+    });
+
+    it('should abbreviate each line item, taking the icon from the first', () => {
+      const brandIcons: BrandIcon[] = [{ name: 'Samsung', image: 'data:image/png;base64,s' }];
+      const ctx = createTestContext(build, 'shelf', brandIcons);
+      ctx.abbreviations = DEFAULT_SPEC_ABBREVIATIONS;
+
+      expect(findSpec(buildCardLayout(ctx), 'storage')).toMatchObject({
+        value: '990 Pro 2TB SSD + 4TB HDD',
+        brandIcon: { name: 'Samsung' },
+      });
+    });
+
+    it('should price a category at the total of its line items on the back', () => {
+      const layout = buildCardBackLayout(createTestContext(build, 'price'));
+      expect(findSpec(layout, 'storage')?.price).toBe(250);
+    });
+  });
+
   describe('Theme colors', () => {
     it('should use gaming theme colors', () => {
       const ctx = createTestContext({ colorTheme: 'gaming' }, 'price');
@@ -671,6 +1072,144 @@ describe('layoutBuilders', () => {
     });
   });
 
+  describe('Card templates', () => {
+    function templateContext(cardTemplate: CardTemplate, cardSize: CardSize = 'price') {
+      return createTestContext(
+        {
+          storeName: 'Tech Store',
+          modelName: 'Gaming PC',
+          visualSettings: { ...defaultConfig.visualSettings, cardTemplate },
+        },
+        cardSize
+      );
+    }
+
+    const templates: CardTemplate[] = ['default', 'minimal', 'tech', 'elegant'];
+    const sizes: CardSize[] = ['shelf', 'price', 'poster'];
+
+    it('should record the template on the layout', () => {
+      for (const template of templates) {
+        expect(buildCardLayout(templateContext(template)).template).toBe(template);
+      }
+    });
+
+    it('should produce a distinct layout for every template and size', () => {
+      for (const size of sizes) {
+        const serialized = templates.map((template) => {
+          resetElementIdCounter();
+          const { elements } = buildCardLayout(templateContext(template, size));
+          return JSON.stringify(elements);
+        });
+        expect(new Set(serialized).size).toBe(templates.length);
+      }
+    });
+
+    it('should use an outlined header for minimal', () => {
+      const layout = buildCardLayout(templateContext('minimal'));
+      const header = layout.elements.find((e) => e.type === 'header');
+      expect(header?.type === 'header' && header.style.backgroundColor).toBe('#ffffff');
+    });
+
+    it('should drop the price box and footer accent for minimal', () => {
+      const layout = buildCardLayout(templateContext('minimal'));
+      const price = layout.elements.find((e) => e.type === 'price');
+      expect(price?.type === 'price' && price.style.showBox).toBe(false);
+      expect(layout.elements.some((e) => e.type === 'footer-accent')).toBe(false);
+    });
+
+    it('should uppercase the header and model name for tech', () => {
+      const layout = buildCardLayout(templateContext('tech'));
+      const header = layout.elements.find((e) => e.type === 'header');
+      const model = layout.elements.find((e) => e.id.startsWith('model'));
+      expect(header?.type === 'header' && header.text).toBe('TECH STORE');
+      expect(model?.type === 'text' && model.text).toBe('GAMING PC');
+    });
+
+    it('should give tech shelf tags a boxed price and footer bar', () => {
+      const layout = buildCardLayout(templateContext('tech', 'shelf'));
+      const price = layout.elements.find((e) => e.type === 'price');
+      expect(price?.type === 'price' && price.style.showBox).toBe(true);
+      expect(layout.elements.some((e) => e.type === 'footer-accent')).toBe(true);
+    });
+
+    it('should use a softer price box for elegant than default', () => {
+      const elegant = buildCardLayout(templateContext('elegant')).elements.find(
+        (e) => e.type === 'price'
+      );
+      const standard = buildCardLayout(templateContext('default')).elements.find(
+        (e) => e.type === 'price'
+      );
+      if (elegant?.type === 'price' && standard?.type === 'price') {
+        expect(elegant.style.boxRadius).toBeGreaterThan(standard.style.boxRadius!);
+      }
+    });
+
+    it('should fall back to the default template when none is set', () => {
+      const ctx = createTestContext({
+        visualSettings: {
+          ...defaultConfig.visualSettings,
+          cardTemplate: undefined as unknown as CardTemplate,
+        },
+      });
+      resetElementIdCounter();
+      const fallback = buildCardLayout(ctx);
+      resetElementIdCounter();
+      const standard = buildCardLayout(createTestContext());
+      expect(fallback.elements).toEqual(standard.elements);
+    });
+  });
+
+  describe('Custom card sizes', () => {
+    const a4: CustomCardSize = {
+      id: 'custom-a4',
+      name: 'A4 Poster',
+      width: 210,
+      height: 297,
+      unit: 'mm',
+      orientation: 'portrait',
+      createdAt: 1,
+    };
+
+    function customContext(size: CustomCardSize) {
+      return { ...createTestContext({ modelName: 'Gaming PC' }, size.id), customSizes: [size] };
+    }
+
+    it('should use the custom dimensions in inches', () => {
+      const layout = buildCardLayout(customContext(a4));
+      expect(layout.cardSize).toBe('custom-a4');
+      expect(layout.dimensions.width).toBeCloseTo(8.27, 2);
+      expect(layout.dimensions.height).toBeCloseTo(11.69, 2);
+    });
+
+    it('should build from the closest built-in layout, scaled', () => {
+      const layout = buildCardLayout(customContext(a4));
+      const poster = buildPosterLayout(createTestContext({ modelName: 'Gaming PC' }, 'poster'));
+
+      expect(layout.baseSize).toBe('poster');
+      expect(layout.layoutScale).toBeCloseTo(8.27 / 8.5, 2);
+
+      const modelName = layout.elements.find((e) => e.type === 'text');
+      const posterModelName = poster.elements.find((e) => e.type === 'text');
+      expect(modelName?.type === 'text' && modelName.style.fontSize).toBeCloseTo(
+        (posterModelName?.type === 'text' ? posterModelName.style.fontSize : 0) *
+          layout.layoutScale,
+        5
+      );
+    });
+
+    it('should fall back to the price card when the size was removed', () => {
+      const layout = buildCardLayout(createTestContext({}, 'custom-missing'));
+      expect(layout.baseSize).toBe('price');
+      expect(layout.dimensions).toEqual({ width: 4, height: 6 });
+    });
+
+    it('should keep built-in layouts unscaled', () => {
+      const layout = buildCardLayout(createTestContext({}, 'shelf'));
+      expect(layout.baseSize).toBe('shelf');
+      expect(layout.layoutScale).toBe(1);
+    });
+  });
+
   describe('Edge cases', () => {
     it('should handle empty config gracefully', () => {
       const ctx = createTestContext({}, 'price');
@@ -8,6 +8,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import type { PrebuildConfig, BrandIcon, CardSize } from '../../../types';
 import { CARD_SIZES } from '../../../types';
+import { DEFAULT_PRINT_PRODUCTION } from '../../../utils/printProduction';
+import type { PDFGenerationWarnings } from '../../../utils/logger';
 
 // ============================================================================
 // MOCKS
@@ -20,7 +22,7 @@ vi.mock('../../../utils/qrcode', () => ({
 
 // Mock barcode utilities
 vi.mock('../../../utils/barcode', () => ({
-  generateBarcodeDataUrl: vi.fn(() => 'data:image/png;base64,mockBarcode'),
+  generateBarcodeDataUrl: vi.fn().mockResolvedValue('data:image/png;base64,mockBarcode'),
   isValidBarcode: vi.fn((text: string) => text.length > 0 && text.length <= 80),
 }));
 
@@ -52,6 +54,8 @@ const mockJsPDF = vi.fn().mockImplementation(function (
     }
   }
 
+  const pageContext: Record<string, unknown> = { trimBox: null, bleedBox: null };
+
   return {
     internal: {
       pageSize: {
@@ -59,7 +63,9 @@ const mockJsPDF = vi.fn().mockImplementation(function (
         getHeight: () => pageHeight,
       },
     },
+    getCurrentPageInfo: () => ({ objId: 1, pageNumber: 1, pageContext }),
     getNumberOfPages: () => 1,
+    addPage: vi.fn(),
     setFontSize: vi.fn(),
     setFont: vi.fn(),
     setTextColor: vi.fn(),
@@ -69,6 +75,8 @@ const mockJsPDF = vi.fn().mockImplementation(function (
     rect: vi.fn(),
     roundedRect: vi.fn(),
     line: vi.fn(),
+    lines: vi.fn(),
+    circle: vi.fn(),
     text: vi.fn(),
     getTextWidth: vi.fn(() => 1),
     splitTextToSize: vi.fn((text: string) => [text]),
@@ -239,6 +247,155 @@ describe('pdfGenerator', () => {
       expect(doc).toBeDefined();
       expect(doc.internal.pageSize.getWidth()).toBeCloseTo(CARD_SIZES.price.width, 1);
     });
+
+    it('should create a landscape PDF for a custom size', async () => {
+      const { generatePDF } = await getGenerators();
+      const config = createTestConfig();
+      const doc = await generatePDF(config, 'custom-biz', {
+        customSizes: [
+          {
+            id: 'custom-biz',
+            name: 'Business Card',
+            width: 2,
+            height: 3.5,
+            unit: 'in',
+            orientation: 'landscape',
+            createdAt: 1,
+          },
+        ],
+      });
+
+      expect(doc.internal.pageSize.getWidth()).toBeCloseTo(3.5, 2);
+      expect(doc.internal.pageSize.getHeight()).toBeCloseTo(2, 2);
+      expect(mockJsPDF).toHaveBeenCalledWith(expect.objectContaining({ orientation: 'landscape' }));
+    });
+  });
+
+  describe('print production', () => {
+    it('should widen the page for bleed and marks and set the print boxes', async () => {
+      const { generatePDF } = await getGenerators();
+      const doc = await generatePDF(createTestConfig(), 'price', {
+        production: { ...DEFAULT_PRINT_PRODUCTION, bleed: 0.125, cropMarks: true },
+      });
+      const { pageContext } = doc.getCurrentPageInfo();
+
+      // 0.125" bleed plus 0.3125" of marks on each side
+      expect(doc.internal.pageSize.getWidth()).toBeCloseTo(CARD_SIZES.price.width + 0.875, 5);
+      expect(doc.internal.pageSize.getHeight()).toBeCloseTo(CARD_SIZES.price.height + 0.875, 5);
+      expect(pageContext.trimBox).toMatchObject({ bottomLeftX: 31.5, topRightX: 319.5 });
+      expect(pageContext.bleedBox).toMatchObject({ bottomLeftX: 22.5, topRightX: 328.5 });
+      // Background filled out to the bleed edge
+      expect(doc.rect).toHaveBeenCalledWith(
+        0.3125,
+        0.3125,
+        CARD_SIZES.price.width + 0.25,
+        CARD_SIZES.price.height + 0.25,
+        'F'
+      );
+    });
+
+    it('should keep the plain card page when production options are off', async () => {
+      const { generatePDF } = await getGenerators();
+      const doc = await generatePDF(createTestConfig(), 'price', {
+        production: DEFAULT_PRINT_PRODUCTION,
+      });
+
+      expect(doc.internal.pageSize.getWidth()).toBeCloseTo(CARD_SIZES.price.width, 5);
+      expect(doc.getCurrentPageInfo().pageContext.trimBox).toBeNull();
+    });
+  });
+
+  describe('warnings', () => {
+    const createWarnings = (): PDFGenerationWarnings => ({
+      missingLogo: false,
+      missingProductImage: false,
+      qrCodeFailed: false,
+      barcodeFailed: false,
+      brandIconsFailed: [],
+      truncatedText: [],
+    });
+
+    it('should record a QR code that failed to generate', async () => {
+      const { generatePDF } = await getGenerators();
+      const { generateQRCodeDataUrl } = await import('../../../utils/qrcode');
+      vi.mocked(generateQRCodeDataUrl).mockResolvedValueOnce('');
+      const config = createTestConfig();
+      config.visualSettings = {
+        ...config.visualSettings,
+        showQrCode: true,
+        qrCodeUrl: 'https://shop.example/broken',
+      };
+      const warnings = createWarnings();
+
+      await generatePDF(config, 'price', { warnings });
+
+      expect(warnings.qrCodeFailed).toBe(true);
+    });
+
+    it('should record the text cut to fit the card', async () => {
+      const { generatePDF } = await getGenerators();
+      const warnings = createWarnings();
+
+      // Every text is 1" wide in the mock, more than this card has room for
+      await generatePDF(createTestConfig(), 'custom-tiny', {
+        customSizes: [
+          {
+            id: 'custom-tiny',
+            name: 'Tiny Tag',
+            width: 0.9,
+            height: 1.5,
+            unit: 'in',
+            orientation: 'portrait',
+            createdAt: 1,
+          },
+        ],
+        warnings,
+      });
+
+      expect(warnings.truncatedText).toContainEqual({
+        label: 'Store name',
+        cardSize: 'custom-tiny',
+      });
+    });
+  });
+
+  describe('card backs', () => {
+    it('should put the back on the page after the front', async () => {
+      const { generatePDF } = await getGenerators();
+      const doc = await generatePDF(createTestConfig(), 'price', { withBack: true });
+
+      expect(doc.addPage).toHaveBeenCalledTimes(1);
+      expect(doc.addPage).toHaveBeenCalledWith([4, 6], 'portrait');
+      expect(doc.text).toHaveBeenCalledWith(
+        'Warranty: 3 Years',
+        expect.any(Number),
+        expect.any(Number),
+        { align: 'center' }
+      );
+    });
+
+    it('should give the back the same production page as the front', async () => {
+      const { generatePDF } = await getGenerators();
+      const doc = await generatePDF(createTestConfig(), 'price', {
+        production: { ...DEFAULT_PRINT_PRODUCTION, bleed: 0.125 },
+        withBack: true,
+      });
+
+      expect(doc.addPage).toHaveBeenCalledWith([4.25, 6.25], 'portrait');
+    });
+
+    it('should add a back sheet to a duplex multi-up sheet', async () => {
+      const { generateSheet } = await getGenerators();
+      const { getSheetProfile } = await import('../../../utils/imposition');
+      const doc = await generateSheet(createTestConfig(), 'shelf', getSheetProfile('letter-fill'), {
+        duplex: 'long-edge',
+      });
+
+      expect(doc.addPage).toHaveBeenCalledTimes(1);
+      expect(doc.addPage).toHaveBeenCalledWith('letter', 'portrait');
+      const texts = doc.text.mock.calls.map((args: unknown[]) => args[0]);
+      expect(texts.filter((t: unknown) => t === 'Warranty: 3 Years')).toHaveLength(12);
+    });
   });
 
   // ==========================================================================
@@ -426,66 +583,90 @@ describe('pdfGenerator', () => {
   });
 
   // ==========================================================================
-  // generateShelfTagMultiUp - 12 tags per letter page
+  // generateSheet - Multi-up sheets from a sheet profile
   // ==========================================================================
 
-  describe('generateShelfTagMultiUp', () => {
-    it('should create letter-sized page', async () => {
-      const { generateShelfTagMultiUp } = await getGenerators();
+  describe('generateSheet', () => {
+    it('should fill a letter sheet with 12 shelf tags', async () => {
+      const { generateSheet } = await getGenerators();
+      const { getSheetProfile } = await import('../../../utils/imposition');
       const config = createTestConfig();
-      const doc = await generateShelfTagMultiUp(config);
+      const doc = await generateSheet(config, 'shelf', getSheetProfile('letter-fill'));
 
-      expect(doc).toBeDefined();
       expect(doc.internal.pageSize.getWidth()).toBeCloseTo(8.5, 1);
       expect(doc.internal.pageSize.getHeight()).toBeCloseTo(11, 1);
+      expect(doc.text).toHaveBeenCalledWith(
+        'Gaming PC Pro - Shelf Tag (12 per page)',
+        expect.any(Number),
+        expect.any(Number),
+        { align: 'center' }
+      );
     });
 
-    it('should work with crop marks enabled', async () => {
-      const { generateShelfTagMultiUp } = await getGenerators();
+    it('should fill a letter sheet with 2 price cards', async () => {
+      const { generateSheet } = await getGenerators();
+      const { getSheetProfile } = await import('../../../utils/imposition');
       const config = createTestConfig();
-      const doc = await generateShelfTagMultiUp(config, true);
+      const doc = await generateSheet(config, 'price', getSheetProfile('letter-fill'));
 
-      expect(doc).toBeDefined();
+      expect(doc.text).toHaveBeenCalledWith(
+        'Gaming PC Pro - Price Card (2 per page)',
+        expect.any(Number),
+        expect.any(Number),
+        { align: 'center' }
+      );
     });
 
-    it('should work with crop marks disabled', async () => {
-      const { generateShelfTagMultiUp } = await getGenerators();
+    it('should skip crop marks when the profile disables them', async () => {
+      const { generateSheet } = await getGenerators();
+      const { getSheetProfile } = await import('../../../utils/imposition');
       const config = createTestConfig();
-      const doc = await generateShelfTagMultiUp(config, false);
+      const doc = await generateSheet(config, 'shelf', {
+        ...getSheetProfile('letter-fill'),
+        cropMarks: false,
+      });
 
-      expect(doc).toBeDefined();
+      expect(doc.setDrawColor).not.toHaveBeenCalledWith(180, 180, 180);
     });
   });
 
-  // ==========================================================================
-  // generatePriceCardMultiUp - 2 cards per letter page
-  // ==========================================================================
+  describe('generateCombinedPDF', () => {
+    it('should put each card on its own page', async () => {
+      const { generateCombinedPDF, prepareCard } = await getGenerators();
+      const cards = await Promise.all([
+        prepareCard(createTestConfig({ modelName: 'Build A' }), 'price'),
+        prepareCard(createTestConfig({ modelName: 'Build B' }), 'price'),
+        prepareCard(createTestConfig({ modelName: 'Build C' }), 'price'),
+      ]);
 
-  describe('generatePriceCardMultiUp', () => {
-    it('should create letter-sized page', async () => {
-      const { generatePriceCardMultiUp } = await getGenerators();
-      const config = createTestConfig();
-      const doc = await generatePriceCardMultiUp(config);
+      const doc = await generateCombinedPDF(cards);
 
-      expect(doc).toBeDefined();
-      expect(doc.internal.pageSize.getWidth()).toBeCloseTo(8.5, 1);
-      expect(doc.internal.pageSize.getHeight()).toBeCloseTo(11, 1);
+      expect(doc.addPage).toHaveBeenCalledTimes(2);
+      expect(doc.addPage).toHaveBeenCalledWith([4, 6], 'portrait');
     });
 
-    it('should work with crop marks enabled', async () => {
-      const { generatePriceCardMultiUp } = await getGenerators();
-      const config = createTestConfig();
-      const doc = await generatePriceCardMultiUp(config, true);
-
-      expect(doc).toBeDefined();
+    it('should reject an empty list', async () => {
+      const { generateCombinedPDF } = await getGenerators();
+      await expect(generateCombinedPDF([])).rejects.toThrow('No cards to combine');
     });
+  });
 
-    it('should work with crop marks disabled', async () => {
-      const { generatePriceCardMultiUp } = await getGenerators();
-      const config = createTestConfig();
-      const doc = await generatePriceCardMultiUp(config, false);
-
-      expect(doc).toBeDefined();
+  describe('generateMixedSheets', () => {
+    it('should pack copies of different builds across pages', async () => {
+      const { generateMixedSheets, prepareCard } = await getGenerators();
+      const { getSheetProfile } = await import('../../../utils/imposition');
+      const cards = await Promise.all([
+        prepareCard(createTestConfig({ modelName: 'Build A' }), 'shelf'),
+        prepareCard(createTestConfig({ modelName: 'Build B' }), 'shelf'),
+      ]);
+
+      // 2 builds x 7 copies = 14 tags, 12 per letter sheet
+      const doc = await generateMixedSheets(cards, getSheetProfile('letter-fill'), { copies: 7 });
+
+      expect(doc.addPage).toHaveBeenCalledTimes(1);
+      const titles = doc.text.mock.calls.map((args: unknown[]) => args[0]);
+      expect(titles.filter((t: unknown) => t === 'Build A')).toHaveLength(7);
+      expect(titles.filter((t: unknown) => t === 'Build B')).toHaveLength(7);
     });
   });
 
@@ -0,0 +1,82 @@
+/**
+ * Tests for src/utils/pdfJobs.ts
+ * The print queue job is covered through the print queue store tests.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runPdfJob, PdfSizesJob } from '../../../utils/pdfJobs';
+import * as pdfGenerator from '../../../utils/pdfGenerator';
+import { defaultConfig } from '../../../data/componentOptions';
+import type { PrebuildConfig } from '../../../types';
+
+vi.mock('../../../utils/pdfGenerator', () => ({
+  generatePDF: vi.fn(async () => ({ output: () => new ArrayBuffer(4) })),
+}));
+
+const createJob = (overrides: Partial<PdfSizesJob> = {}): PdfSizesJob => ({
+  kind: 'sizes',
+  config: { ...(defaultConfig as PrebuildConfig), modelName: 'Gaming PC' },
+  cardSizes: ['shelf', 'price', 'poster'],
+  brandIcons: [],
+  customFonts: [],
+  customSizes: [],
+  ...overrides,
+});
+
+describe('runPdfJob', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should generate one PDF per card size', async () => {
+    const { files, failures } = await runPdfJob(createJob());
+
+    expect(pdfGenerator.generatePDF).toHaveBeenCalledTimes(3);
+    expect(files.map((file) => file.name)).toEqual([
+      'Gaming PC-Shelf-Tag.pdf',
+      'Gaming PC-Price-Card.pdf',
+      'Gaming PC-Poster.pdf',
+    ]);
+    expect(files[0].blob.type).toBe('application/pdf');
+    expect(failures).toEqual({});
+  });
+
+  it('should report progress before each size', async () => {
+    const onProgress = vi.fn();
+    await runPdfJob(createJob({ cardSizes: ['shelf', 'price'] }), { onProgress });
+
+    expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+      { current: 1, total: 2, label: 'Shelf Tag' },
+      { current: 2, total: 2, label: 'Price Card' },
+    ]);
+  });
+
+  it('should add back pages only to the sizes that have them', async () => {
+    await runPdfJob(createJob({ cardBacks: { sizes: ['price'], flip: 'long-edge' } }));
+
+    const withBack = vi
+      .mocked(pdfGenerator.generatePDF)
+      .mock.calls.map((args) => args[2]?.withBack);
+    expect(withBack).toEqual([false, true, false]);
+  });
+
+  it('should collect the warnings of every size', async () => {
+    const { warnings } = await runPdfJob(createJob());
+
+    const passed = vi.mocked(pdfGenerator.generatePDF).mock.calls.map((args) => args[2]?.warnings);
+    expect(passed).toEqual([warnings, warnings, warnings]);
+    expect(warnings.truncatedText).toEqual([]);
+  });
+
+  it('should stop with a Cancelled error once cancelled', async () => {
+    let cancelled = false;
+    const onProgress = vi.fn(() => {
+      cancelled = true;
+    });
+
+    await expect(
+      runPdfJob(createJob(), { onProgress, isCancelled: () => cancelled })
+    ).rejects.toThrow('Cancelled');
+    expect(pdfGenerator.generatePDF).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for src/utils/pdfWorkerClient.ts
+ * Uses a fake Worker to check how messages are routed to jobs.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { PdfJob, PdfWorkerRequest, PdfWorkerResponse } from '../../../utils/pdfJobs';
+
+vi.mock('../../../utils/pdfJobs', () => ({
+  runPdfJob: vi.fn(async () => ({ files: [], failures: { '1': 'Main thread' } })),
+}));
+
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: { data: PdfWorkerResponse }) => void) | null = null;
+  onerror: ((event: { message: string }) => void) | null = null;
+  posted: PdfWorkerRequest[] = [];
+  terminate = vi.fn();
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(request: PdfWorkerRequest) {
+    this.posted.push(request);
+  }
+
+  reply(data: PdfWorkerResponse) {
+    this.onmessage?.({ data });
+  }
+}
+
+const job = { kind: 'queue', items: [] } as unknown as PdfJob;
+
+describe('startPdfJob', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    FakeWorker.instances = [];
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should run on the main thread without worker support', async () => {
+    const { startPdfJob } = await import('../../../utils/pdfWorkerClient');
+
+    const result = await startPdfJob(job).promise;
+
+    expect(result.failures).toEqual({ '1': 'Main thread' });
+  });
+
+  describe('with a worker', () => {
+    beforeEach(() => {
+      vi.stubGlobal('Worker', FakeWorker);
+      vi.stubGlobal('OffscreenCanvas', class {});
+    });
+
+    it('should post the job and resolve with its result', async () => {
+      const { startPdfJob } = await import('../../../utils/pdfWorkerClient');
+      const onProgress = vi.fn();
+
+      const handle = startPdfJob(job, onProgress);
+      const [worker] = FakeWorker.instances;
+      expect(worker.posted).toEqual([{ type: 'start', jobId: 1, job }]);
+
+      const progress = { current: 1, total: 2, label: 'Gaming PC' };
+      worker.reply({ type: 'progress', jobId: 1, progress });
+      worker.reply({ type: 'done', jobId: 1, result: { files: [], failures: {} } });
+
+      await expect(handle.promise).resolves.toEqual({ files: [], failures: {} });
+      expect(onProgress).toHaveBeenCalledWith(progress);
+    });
+
+    it('should run image exports on the main thread', async () => {
+      const { startPdfJob } = await import('../../../utils/pdfWorkerClient');
+
+      const result = await startPdfJob({ ...job, output: 'images' } as PdfJob).promise;
+
+      expect(FakeWorker.instances).toHaveLength(0);
+      expect(result.failures).toEqual({ '1': 'Main thread' });
+    });
+
+    it('should share one worker and route replies by job id', async () => {
+      const { startPdfJob } = await import('../../../utils/pdfWorkerClient');
+
+      const first = startPdfJob(job);
+      const second = startPdfJob(job);
+      expect(FakeWorker.instances).toHaveLength(1);
+
+      const [worker] = FakeWorker.instances;
+      worker.reply({ type: 'error', jobId: 2, message: 'Out of memory' });
+      worker.reply({ type: 'done', jobId: 1, result: { files: [], failures: {} } });
+
+      await expect(first.promise).resolves.toBeDefined();
+      await expect(second.promise).rejects.toThrow('Out of memory');
+    });
+
+    it('should ask the worker to cancel and reject once it has', async () => {
+      const { startPdfJob } = await import('../../../utils/pdfWorkerClient');
+
+      const handle = startPdfJob(job);
+      handle.cancel();
+      const [worker] = FakeWorker.instances;
+      expect(worker.posted[1]).toEqual({ type: 'cancel', jobId: 1 });
+
+      worker.reply({ type: 'cancelled', jobId: 1 });
+      await expect(handle.promise).rejects.toThrow('Cancelled');
+    });
+
+    it('should fail pending jobs and replace the worker when it crashes', async () => {
+      const { startPdfJob } = await import('../../../utils/pdfWorkerClient');
+
+      const handle = startPdfJob(job);
+      const [worker] = FakeWorker.instances;
+      worker.onerror?.({ message: 'Script error' });
+
+      await expect(handle.promise).rejects.toThrow('Script error');
+      expect(worker.terminate).toHaveBeenCalled();
+
+      startPdfJob(job);
+      expect(FakeWorker.instances).toHaveLength(2);
+    });
+  });
+});
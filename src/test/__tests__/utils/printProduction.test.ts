@@ -0,0 +1,197 @@
+/**
+ * Tests for src/utils/printProduction.ts
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { jsPDF } from 'jspdf';
+import {
+  DEFAULT_PRINT_PRODUCTION,
+  PrintProductionSettings,
+  drawProductionMarks,
+  findSafeZoneIssues,
+  getProductionPage,
+  setPrintBoxes,
+  usesProductionPage,
+} from '../../../utils/printProduction';
+import { buildCardLayout } from '../../../utils/layoutBuilders';
+import { resetElementIdCounter } from '../../../utils/layoutSchema';
+import { defaultConfig } from '../../../data/componentOptions';
+import { getThemeColors } from '../../../types';
+import type { CardSize, PrebuildConfig } from '../../../types';
+
+// jsdom has no canvas, so text is measured with the fallback estimate
+vi.mock('../../../utils/canvas', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../utils/canvas')>()),
+  createCanvas: () => ({ getContext: () => null }),
+}));
+
+class MockImage {
+  onload: (() => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  private _src = '';
+  width = 200;
+  height = 50;
+
+  get src() {
+    return this._src;
+  }
+
+  set src(value: string) {
+    this._src = value;
+    queueMicrotask(() => {
+      if (this.onload) this.onload();
+    });
+  }
+}
+
+const BARCODE = 'data:image/png;base64,mockBarcode';
+
+function settings(overrides: Partial<PrintProductionSettings> = {}): PrintProductionSettings {
+  return { ...DEFAULT_PRINT_PRODUCTION, ...overrides };
+}
+
+function createMockDoc(pageHeight: number) {
+  const pageContext: Record<string, unknown> = { trimBox: null, bleedBox: null };
+  return {
+    pageContext,
+    internal: { pageSize: { getHeight: () => pageHeight } },
+    getCurrentPageInfo: () => ({ objId: 1, pageNumber: 1, pageContext }),
+    setDrawColor: vi.fn(),
+    setLineWidth: vi.fn(),
+    line: vi.fn(),
+    circle: vi.fn(),
+  };
+}
+
+function createLayout(cardSize: CardSize, overrides: Partial<PrebuildConfig> = {}) {
+  const config = { ...defaultConfig, ...overrides } as PrebuildConfig;
+  return buildCardLayout({
+    config,
+    cardSize,
+    colors: getThemeColors(config),
+    brandIcons: [],
+    asyncData: { barcodeImage: config.sku ? BARCODE : undefined },
+  });
+}
+
+describe('printProduction', () => {
+  describe('usesProductionPage', () => {
+    it('should be off by default', () => {
+      expect(usesProductionPage(DEFAULT_PRINT_PRODUCTION)).toBe(false);
+    });
+
+    it('should be on for bleed or any marks', () => {
+      expect(usesProductionPage(settings({ bleed: 0.125 }))).toBe(true);
+      expect(usesProductionPage(settings({ cropMarks: true }))).toBe(true);
+      expect(usesProductionPage(settings({ registrationMarks: true }))).toBe(true);
+    });
+  });
+
+  describe('getProductionPage', () => {
+    it('should add the bleed on every side', () => {
+      expect(getProductionPage(4, 6, settings({ bleed: 0.125 }))).toEqual({
+        pageWidth: 4.25,
+        pageHeight: 6.25,
+        trimX: 0.125,
+        trimY: 0.125,
+      });
+    });
+
+    it('should leave room for marks outside the bleed', () => {
+      const page = getProductionPage(4, 6, settings({ bleed: 0.125, cropMarks: true }));
+
+      expect(page.trimX).toBeCloseTo(0.4375);
+      expect(page.pageWidth).toBeCloseTo(4 + 0.875);
+      expect(page.pageHeight).toBeCloseTo(6 + 0.875);
+    });
+  });
+
+  describe('setPrintBoxes', () => {
+    it('should set the trim and bleed boxes in points from the bottom-left', () => {
+      const production = settings({ bleed: 0.125 });
+      const page = getProductionPage(4, 6, production);
+      const doc = createMockDoc(page.pageHeight);
+
+      setPrintBoxes(doc as unknown as jsPDF, page, 4, 6, production.bleed);
+
+      expect(doc.pageContext.trimBox).toEqual({
+        bottomLeftX: 9,
+        bottomLeftY: 9,
+        topRightX: 297,
+        topRightY: 441,
+      });
+      expect(doc.pageContext.bleedBox).toEqual({
+        bottomLeftX: 0,
+        bottomLeftY: 0,
+        topRightX: 306,
+        topRightY: 450,
+      });
+    });
+  });
+
+  describe('drawProductionMarks', () => {
+    it('should draw two crop marks per corner, clear of the bleed', () => {
+      const production = settings({ bleed: 0.125, cropMarks: true });
+      const page = getProductionPage(4, 6, production);
+      const doc = createMockDoc(page.pageHeight);
+
+      drawProductionMarks(doc as unknown as jsPDF, page, 4, 6, production);
+
+      expect(doc.line).toHaveBeenCalledTimes(8);
+      expect(doc.circle).not.toHaveBeenCalled();
+      // Top-left horizontal mark ends before the bleed starts
+      const [x1, y1, x2, y2] = doc.line.mock.calls[0];
+      expect(y1).toBe(page.trimY);
+      expect(y2).toBe(page.trimY);
+      expect(Math.max(x1, x2)).toBeLessThan(page.trimX - production.bleed);
+      expect(Math.min(x1, x2)).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should draw a registration target on each side', () => {
+      const production = settings({ registrationMarks: true });
+      const page = getProductionPage(4, 6, production);
+      const doc = createMockDoc(page.pageHeight);
+
+      drawProductionMarks(doc as unknown as jsPDF, page, 4, 6, production);
+
+      expect(doc.circle).toHaveBeenCalledTimes(4);
+      expect(doc.line).toHaveBeenCalledTimes(8);
+      expect(doc.circle).toHaveBeenCalledWith(page.trimX + 2, expect.any(Number), 0.07, 'S');
+    });
+  });
+
+  describe('findSafeZoneIssues', () => {
+    let originalImage: typeof Image;
+
+    beforeEach(() => {
+      resetElementIdCounter();
+      originalImage = global.Image;
+      global.Image = MockImage as unknown as typeof Image;
+    });
+
+    afterEach(() => {
+      global.Image = originalImage;
+    });
+
+    it('should pass a card whose content stays inside the safe margin', async () => {
+      const issues = await findSafeZoneIssues(createLayout('price'), 0.0625);
+      expect(issues).toEqual([]);
+    });
+
+    it('should flag text closer to the trim than the safe margin', async () => {
+      // Shelf tags keep only a 0.08" margin
+      const issues = await findSafeZoneIssues(createLayout('shelf'), 0.125);
+
+      expect(issues.length).toBeGreaterThan(0);
+      expect(issues.every((issue) => issue.distance < 0.125)).toBe(true);
+      expect(issues.some((issue) => issue.kind === 'text')).toBe(true);
+    });
+
+    it('should flag the barcode', async () => {
+      const layout = createLayout('shelf', { sku: '123456789012' });
+      const issues = await findSafeZoneIssues(layout, 0.25, { barcodeImage: BARCODE });
+
+      expect(issues).toContainEqual(expect.objectContaining({ kind: 'barcode', label: 'Barcode' }));
+    });
+  });
+});
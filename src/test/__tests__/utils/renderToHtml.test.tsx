@@ -0,0 +1,49 @@
+/**
+ * Tests for src/utils/renderToHtml.tsx
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { renderLayoutToHtml } from '../../../utils/renderToHtml';
+import { buildCardLayout } from '../../../utils/layoutBuilders';
+import { resetElementIdCounter, SpecsElement } from '../../../utils/layoutSchema';
+import { COMPONENT_CATEGORIES } from '../../../utils/componentItems';
+import { defaultConfig } from '../../../data/componentOptions';
+import { getThemeColors } from '../../../types';
+import type { PrebuildConfig } from '../../../types';
+
+describe('renderToHtml', () => {
+  beforeEach(() => {
+    resetElementIdCounter();
+  });
+
+  describe('renderLayoutToHtml', () => {
+    it('should fill the left column first when there are more than eight specs', () => {
+      const config = {
+        ...defaultConfig,
+        components: { ...defaultConfig.components, cpu: 'Ryzen 7' },
+      } as PrebuildConfig;
+      const layout = buildCardLayout({
+        config,
+        cardSize: 'price',
+        colors: getThemeColors(config),
+        brandIcons: [],
+      });
+      const specs = layout.elements.find((el): el is SpecsElement => el.type === 'specs')!;
+      expect(specs.layout).toBe('two-column');
+      specs.specs = COMPONENT_CATEGORIES.slice(0, 11).map((key, i) => ({
+        key,
+        label: key,
+        value: `Value ${i}`,
+      }));
+
+      render(<>{renderLayoutToHtml(layout)}</>);
+
+      const left = screen.getByText('Value 0').closest('.space-y-0\\.5')!;
+      const right = screen.getByText('Value 10').closest('.space-y-0\\.5')!;
+      expect(left).not.toBe(right);
+      expect(left.children).toHaveLength(6);
+      expect(right.children).toHaveLength(5);
+    });
+  });
+});
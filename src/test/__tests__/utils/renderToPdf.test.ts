@@ -0,0 +1,553 @@
+/**
+ * Tests for src/utils/renderToPdf.ts
+ * Verifies that a CardLayout is drawn onto a jsPDF document in the same
+ * order and positions the HTML preview uses.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { jsPDF } from 'jspdf';
+import { renderLayoutToPdf } from '../../../utils/renderToPdf';
+import { buildCardLayout } from '../../../utils/layoutBuilders';
+import {
+  resetElementIdCounter,
+  splitFooterElements,
+  getFinancingText,
+  FinancingElement,
+  ContainerElement,
+  SpecsElement,
+} from '../../../utils/layoutSchema';
+import { COMPONENT_CATEGORIES } from '../../../utils/componentItems';
+import { getSizeLayoutConfig } from '../../../utils/cardSizes';
+import { wrapText } from '../../../utils/canvasDocument';
+import { ELLIPSIS } from '../../../utils/textFitting';
+import type { PDFGenerationWarnings } from '../../../utils/logger';
+import { defaultConfig } from '../../../data/componentOptions';
+import { getThemeColors } from '../../../types';
+import type { PrebuildConfig, CardSize, VisualSettings } from '../../../types';
+
+vi.mock('../../../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+// Mock global Image to trigger onload on the next microtask
+class MockImage {
+  onload: (() => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  private _src = '';
+  width = 100;
+  height = 100;
+
+  get src() {
+    return this._src;
+  }
+
+  set src(value: string) {
+    this._src = value;
+    queueMicrotask(() => {
+      if (this.onload) this.onload();
+    });
+  }
+}
+
+function createMockDoc() {
+  return {
+    setFontSize: vi.fn(),
+    setFont: vi.fn(),
+    setTextColor: vi.fn(),
+    setFillColor: vi.fn(),
+    setDrawColor: vi.fn(),
+    setLineWidth: vi.fn(),
+    rect: vi.fn(),
+    roundedRect: vi.fn(),
+    line: vi.fn(),
+    lines: vi.fn(),
+    circle: vi.fn(),
+    text: vi.fn(),
+    getFontList: vi.fn(() => ({})),
+    addFileToVFS: vi.fn(),
+    addFont: vi.fn(),
+    getTextWidth: vi.fn((text: string) => text.length * 0.05),
+    splitTextToSize: vi.fn((text: string) => [text]),
+    addImage: vi.fn(),
+  };
+}
+
+type MockDoc = ReturnType<typeof createMockDoc>;
+
+function createLayout(
+  overrides: Partial<PrebuildConfig> = {},
+  cardSize: CardSize = 'price',
+  asyncData: { qrCodeImage?: string; barcodeImage?: string } = {}
+) {
+  const config = { ...defaultConfig, ...overrides } as PrebuildConfig;
+  return buildCardLayout({
+    config,
+    cardSize,
+    colors: getThemeColors(config),
+    brandIcons: [],
+    asyncData,
+  });
+}
+
+function withVisuals(visuals: Partial<VisualSettings>): Partial<PrebuildConfig> {
+  return { visualSettings: { ...defaultConfig.visualSettings, ...visuals } };
+}
+
+/** Find the y coordinate a given string was drawn at */
+function textY(doc: MockDoc, text: string): number | undefined {
+  const call = doc.text.mock.calls.find((args) => args[0] === text);
+  return call ? (call[2] as number) : undefined;
+}
+
+describe('renderToPdf', () => {
+  let originalImage: typeof Image;
+
+  beforeEach(() => {
+    resetElementIdCounter();
+    originalImage = global.Image;
+    global.Image = MockImage as unknown as typeof Image;
+  });
+
+  afterEach(() => {
+    global.Image = originalImage;
+  });
+
+  describe('renderLayoutToPdf', () => {
+    it('should fill the card background at the given offset', async () => {
+      const doc = createMockDoc();
+      const layout = createLayout();
+      await renderLayoutToPdf(layout, doc as unknown as jsPDF, { x: 1, y: 2 });
+
+      expect(doc.rect).toHaveBeenCalledWith(
+        1,
+        2,
+        layout.dimensions.width,
+        layout.dimensions.height,
+        'F'
+      );
+    });
+
+    it('should draw the header text', async () => {
+      const doc = createMockDoc();
+      const layout = createLayout({ storeName: 'Tech Store' });
+      await renderLayoutToPdf(layout, doc as unknown as jsPDF);
+
+      expect(textY(doc, 'Tech Store')).toBeDefined();
+    });
+
+    it('should draw elements top-down in layout order', async () => {
+      const doc = createMockDoc();
+      const layout = createLayout({ storeName: 'Tech Store', modelName: 'Gaming PC' });
+      await renderLayoutToPdf(layout, doc as unknown as jsPDF);
+
+      const headerY = textY(doc, 'Tech Store')!;
+      const modelY = textY(doc, 'Gaming PC')!;
+      expect(modelY).toBeGreaterThan(headerY);
+    });
+
+    it('should pin the SKU to the bottom of the card', async () => {
+      const doc = createMockDoc();
+      const layout = createLayout({ sku: 'SKU-123' }, 'price', {
+        barcodeImage: 'data:image/png;base64,mockBarcode',
+      });
+      await renderLayoutToPdf(layout, doc as unknown as jsPDF);
+
+      const skuY = textY(doc, 'SKU: SKU-123')!;
+      expect(skuY).toBeGreaterThan(layout.dimensions.height * 0.8);
+      expect(skuY).toBeLessThan(layout.dimensions.height);
+    });
+
+    it('should draw the barcode image when provided', async () => {
+      const doc = createMockDoc();
+      const layout = createLayout({ sku: 'SKU-123' }, 'price', {
+        barcodeImage: 'data:image/png;base64,mockBarcode',
+      });
+      await renderLayoutToPdf(layout, doc as unknown as jsPDF, undefined, {
+        barcodeImage: 'data:image/png;base64,mockBarcode',
+      });
+
+      expect(doc.addImage).toHaveBeenCalled();
+    });
+
+    it('should only stroke a border when requested', async () => {
+      const layout = createLayout();
+
+      const withoutBorder = createMockDoc();
+      await renderLayoutToPdf(layout, withoutBorder as unknown as jsPDF);
+      expect(withoutBorder.rect.mock.calls.some((args) => args[4] === 'S')).toBe(false);
+
+      const withBorder = createMockDoc();
+      await renderLayoutToPdf(layout, withBorder as unknown as jsPDF, undefined, {
+        border: true,
+      });
+      expect(withBorder.rect.mock.calls.some((args) => args[4] === 'S')).toBe(true);
+    });
+
+    it('should render the poster specifications band', async () => {
+      const doc = createMockDoc();
+      const layout = createLayout({}, 'poster');
+      await renderLayoutToPdf(layout, doc as unknown as jsPDF);
+
+      expect(textY(doc, 'SPECIFICATIONS')).toBeDefined();
+    });
+
+    it('should draw text in the PDF font mapped from the font family', async () => {
+      const doc = createMockDoc();
+      const layout = createLayout(withVisuals({ fontFamily: 'georgia' }));
+      await renderLayoutToPdf(layout, doc as unknown as jsPDF);
+
+      expect(doc.setFont).toHaveBeenCalled();
+      expect(doc.setFont.mock.calls.every((args) => args[0] === 'times')).toBe(true);
+    });
+
+    it('should use courier for the courier font family', async () => {
+      const doc = createMockDoc();
+      const layout = createLayout(withVisuals({ fontFamily: 'courier' }));
+      await renderLayoutToPdf(layout, doc as unknown as jsPDF);
+
+      expect(doc.setFont.mock.calls.every((args) => args[0] === 'courier')).toBe(true);
+    });
+
+    it('should embed and use a selected custom font', async () => {
+      const doc = createMockDoc();
+      const config = { ...defaultConfig, ...withVisuals({ customFontId: 'font-1' }) };
+      const layout = buildCardLayout({
+        config: config as PrebuildConfig,
+        cardSize: 'price',
+        colors: getThemeColors(config as PrebuildConfig),
+        brandIcons: [],
+        customFonts: [
+          {
+            id: 'font-1',
+            name: 'Brand Sans',
+            fileName: 'BrandSans.ttf',
+            format: 'truetype',
+            data: 'AAEAAAAL',
+            createdAt: 1,
+          },
+        ],
+      });
+      await renderLayoutToPdf(layout, doc as unknown as jsPDF);
+
+      expect(doc.addFileToVFS).toHaveBeenCalled();
+      expect(doc.setFont.mock.calls.every((args) => args[0] === 'custom-font-1')).toBe(true);
+    });
+
+    it('should not draw a pattern for a solid background', async () => {
+      const doc = createMockDoc();
+      await renderLayoutToPdf(
+        createLayout(withVisuals({ backgroundPattern: 'solid' })),
+        doc as unknown as jsPDF
+      );
+
+      expect(doc.lines).not.toHaveBeenCalled();
+      expect(doc.circle).not.toHaveBeenCalled();
+    });
+
+    it('should fill gradient and geometric patterns with polygons', async () => {
+      for (const backgroundPattern of ['gradient', 'geometric'] as const) {
+        const doc = createMockDoc();
+        await renderLayoutToPdf(
+          createLayout(withVisuals({ backgroundPattern })),
+          doc as unknown as jsPDF
+        );
+        expect(doc.lines).toHaveBeenCalled();
+      }
+    });
+
+    it('should draw the circuit pattern as a grid of lines', async () => {
+      const doc = createMockDoc();
+      const layout = createLayout(withVisuals({ backgroundPattern: 'circuit' }));
+      await renderLayoutToPdf(layout, doc as unknown as jsPDF);
+
+      const fullHeightLines = doc.line.mock.calls.filter(
+        (args) => args[1] === 0 && args[3] === layout.dimensions.height
+      );
+      expect(fullHeightLines.length).toBeGreaterThan(1);
+    });
+
+    it('should draw the dots pattern as circles', async () => {
+      const doc = createMockDoc();
+      await renderLayoutToPdf(
+        createLayout(withVisuals({ backgroundPattern: 'dots' })),
+        doc as unknown as jsPDF
+      );
+
+      expect(doc.circle).toHaveBeenCalled();
+    });
+
+    it('should keep pattern fills inside the card', async () => {
+      const doc = createMockDoc();
+      const layout = createLayout(withVisuals({ backgroundPattern: 'geometric' }));
+      await renderLayoutToPdf(layout, doc as unknown as jsPDF, { x: 1, y: 1 });
+
+      for (const [deltas, startX, startY] of doc.lines.mock.calls as [
+        [number, number][],
+        number,
+        number,
+      ][]) {
+        let x = startX;
+        let y = startY;
+        for (const [dx, dy] of [[0, 0], ...deltas]) {
+          x += dx;
+          y += dy;
+          expect(x).toBeGreaterThanOrEqual(1 - 1e-9);
+          expect(x).toBeLessThanOrEqual(1 + layout.dimensions.width + 1e-9);
+          expect(y).toBeGreaterThanOrEqual(1 - 1e-9);
+          expect(y).toBeLessThanOrEqual(1 + layout.dimensions.height + 1e-9);
+        }
+      }
+    });
+
+    it('should extend the background, header and footer accent into the bleed', async () => {
+      const doc = createMockDoc();
+      const layout = createLayout({ storeName: 'Tech Store' });
+      const { width, height } = layout.dimensions;
+      const bleed = 0.125;
+      await renderLayoutToPdf(layout, doc as unknown as jsPDF, { x: 1, y: 1 }, { bleed });
+
+      const rects = doc.rect.mock.calls as [number, number, number, number, string][];
+      const fullWidth = rects.filter(
+        ([x, , w]) => x === 1 - bleed && Math.abs(w - (width + bleed * 2)) < 1e-9
+      );
+      // Background
+      expect(fullWidth).toContainEqual([1 - bleed, 1 - bleed, width + 0.25, height + 0.25, 'F']);
+      // Header bar flush with the top edge
+      expect(fullWidth.some(([, y, , h]) => y === 1 - bleed && h < height && h > bleed)).toBe(true);
+      // Footer accent reaching the bottom of the bleed
+      expect(
+        fullWidth.some(([, y, , h]) => y > 1 && Math.abs(y + h - (1 + height + bleed)) < 1e-9)
+      ).toBe(true);
+    });
+
+    it('should run pattern fills on into the bleed', async () => {
+      const doc = createMockDoc();
+      const layout = createLayout(withVisuals({ backgroundPattern: 'geometric' }));
+      const { width, height } = layout.dimensions;
+      const bleed = 0.125;
+      await renderLayoutToPdf(layout, doc as unknown as jsPDF, { x: 1, y: 1 }, { bleed });
+
+      let reachesBleed = false;
+      for (const [deltas, startX, startY] of doc.lines.mock.calls as [
+        [number, number][],
+        number,
+        number,
+      ][]) {
+        let x = startX;
+        let y = startY;
+        for (const [dx, dy] of [[0, 0], ...deltas]) {
+          x += dx;
+          y += dy;
+          expect(x).toBeGreaterThanOrEqual(1 - bleed - 1e-9);
+          expect(x).toBeLessThanOrEqual(1 + width + bleed + 1e-9);
+          expect(y).toBeGreaterThanOrEqual(1 - bleed - 1e-9);
+          expect(y).toBeLessThanOrEqual(1 + height + bleed + 1e-9);
+          if (x < 1 || y < 1) reachesBleed = true;
+        }
+      }
+      expect(reachesBleed).toBe(true);
+    });
+
+    it('should right-align component prices on the spec value line', async () => {
+      const doc = createMockDoc();
+      const layout = createLayout({
+        components: { ...defaultConfig.components, cpu: 'Ryzen 7' },
+      });
+      const specs = layout.elements.find((e) => e.type === 'specs');
+      if (specs?.type === 'specs') specs.specs[0].price = 449;
+      await renderLayoutToPdf(layout, doc as unknown as jsPDF);
+
+      const priceCall = doc.text.mock.calls.find((args) => args[0] === '$449.00');
+      const valueCall = doc.text.mock.calls.find((args) => args[0] === 'Ryzen 7');
+      expect(priceCall?.[3]).toEqual({ align: 'right' });
+      expect(priceCall?.[2]).toBe(valueCall?.[2]);
+    });
+
+    it('should fill the left column first when there are more than eight specs', async () => {
+      const doc = createMockDoc();
+      const layout = createLayout({ components: { ...defaultConfig.components, cpu: 'Ryzen 7' } });
+      const specs = layout.elements.find((el): el is SpecsElement => el.type === 'specs')!;
+      expect(specs.layout).toBe('two-column');
+      specs.specs = COMPONENT_CATEGORIES.slice(0, 11).map((key, i) => ({
+        key,
+        label: key,
+        value: `Value ${i}`,
+      }));
+      await renderLayoutToPdf(layout, doc as unknown as jsPDF);
+
+      const xOf = (text: string) => doc.text.mock.calls.find((args) => args[0] === text)?.[1];
+      const leftX = xOf('Value 0');
+      const columnX = specs.specs.map((spec) => xOf(spec.value));
+      // Six on the left, five on the right, side by side row by row
+      expect(columnX.filter((x) => x === leftX)).toHaveLength(6);
+      expect(columnX.slice(6).every((x) => x! > leftX!)).toBe(true);
+      expect(textY(doc, 'Value 6')).toBe(textY(doc, 'Value 0'));
+      expect(textY(doc, 'Value 10')).toBe(textY(doc, 'Value 4'));
+    });
+
+    it('should cut spec values that do not fit and record them', async () => {
+      const gpu = 'ASUS ROG Strix GeForce RTX 4070 Ti Super OC 16GB';
+      const doc = {
+        ...createMockDoc(),
+        splitTextToSize: vi.fn((text: string, maxWidth: number) =>
+          wrapText(text, maxWidth, (line) => line.length * 0.05)
+        ),
+      };
+      const layout = createLayout({ components: { ...defaultConfig.components, gpu } }, 'shelf');
+      const warnings: PDFGenerationWarnings = {
+        missingLogo: false,
+        missingProductImage: false,
+        qrCodeFailed: false,
+        barcodeFailed: false,
+        brandIconsFailed: [],
+        truncatedText: [],
+      };
+      await renderLayoutToPdf(layout, doc as unknown as jsPDF, { x: 0, y: 0 }, { warnings });
+
+      const drawn = doc.text.mock.calls.map((args) => args[0] as string);
+      expect(drawn).not.toContain(gpu);
+      expect(drawn.find((text) => text.startsWith('ASUS'))?.endsWith(ELLIPSIS)).toBe(true);
+      expect(warnings.truncatedText).toEqual([{ label: 'GPU', cardSize: 'shelf' }]);
+    });
+
+    it('should draw framed elements in their frames', async () => {
+      const doc = createMockDoc();
+      const layout = createLayout();
+      layout.elements = [
+        {
+          id: 'text-1',
+          type: 'text',
+          visible: true,
+          text: 'Flowing',
+          style: { fontSize: 10, fontWeight: 'normal', color: '#000000', align: 'left' },
+        },
+        {
+          id: 'text-2',
+          type: 'text',
+          visible: true,
+          text: 'Framed',
+          frame: { x: 1, y: 3, width: 2, height: 0.5 },
+          style: { fontSize: 10, fontWeight: 'normal', color: '#000000', align: 'center' },
+        },
+      ];
+      await renderLayoutToPdf(layout, doc as unknown as jsPDF);
+
+      const flowing = doc.text.mock.calls.find((args) => args[0] === 'Flowing')!;
+      const framed = doc.text.mock.calls.find((args) => args[0] === 'Framed')!;
+      expect(framed[1]).toBeCloseTo(2);
+      expect(framed[2]).toBeGreaterThan(3);
+      expect(framed[2]).toBeLessThan(3.5);
+      // Framed elements take no space in the flow
+      expect(flowing[2]).toBeLessThan(1);
+    });
+
+    it('should place container children side by side in a row', async () => {
+      const doc = createMockDoc();
+      const layout = createLayout();
+      const container: ContainerElement = {
+        id: 'row',
+        type: 'container',
+        visible: true,
+        direction: 'row',
+        gap: 0.1,
+        align: 'center',
+        justify: 'space-between',
+        style: { backgroundColor: '#eeeeee', padding: 0.05 },
+        children: [
+          {
+            id: 'left',
+            type: 'text',
+            visible: true,
+            text: 'Left',
+            style: { fontSize: 10, fontWeight: 'normal', color: '#000000', align: 'left' },
+          },
+          {
+            id: 'right',
+            type: 'text',
+            visible: true,
+            text: 'Right',
+            style: { fontSize: 10, fontWeight: 'normal', color: '#000000', align: 'left' },
+          },
+        ],
+      };
+      layout.elements = [container];
+      await renderLayoutToPdf(layout, doc as unknown as jsPDF);
+
+      const left = doc.text.mock.calls.find((args) => args[0] === 'Left')!;
+      const right = doc.text.mock.calls.find((args) => args[0] === 'Right')!;
+      const { margin } = getSizeLayoutConfig({
+        baseSize: layout.baseSize,
+        scale: layout.layoutScale,
+      });
+      expect(left[1]).toBeCloseTo(margin + 0.05);
+      // Right-hand text ends at the inner right edge ('Right' is 0.25" wide)
+      expect(right[1]).toBeCloseTo(layout.dimensions.width - margin - 0.05 - 0.25);
+      expect(right[2]).toBe(left[2]);
+      expect(doc.roundedRect).toHaveBeenCalledWith(
+        margin,
+        expect.any(Number),
+        layout.dimensions.width - margin * 2,
+        expect.any(Number),
+        0,
+        0,
+        'F'
+      );
+    });
+
+    it('should render every card size without throwing', async () => {
+      for (const size of ['shelf', 'price', 'poster'] as CardSize[]) {
+        const doc = createMockDoc();
+        await expect(
+          renderLayoutToPdf(createLayout({}, size), doc as unknown as jsPDF)
+        ).resolves.toBeUndefined();
+      }
+    });
+  });
+
+  describe('splitFooterElements', () => {
+    it('should split the trailing barcode and SKU into the footer', () => {
+      const layout = createLayout({ sku: 'SKU-123' }, 'price', {
+        barcodeImage: 'data:image/png;base64,mockBarcode',
+      });
+      const { body, footer } = splitFooterElements(layout.elements);
+
+      expect(footer.map((el) => el.type)).toEqual(expect.arrayContaining(['barcode', 'sku']));
+      expect(body.some((el) => el.type === 'sku')).toBe(false);
+      expect(body.length + footer.length).toBe(layout.elements.length);
+    });
+
+    it('should return an empty footer when there are no footer elements', () => {
+      const { body, footer } = splitFooterElements([]);
+      expect(body).toEqual([]);
+      expect(footer).toEqual([]);
+    });
+  });
+
+  describe('getFinancingText', () => {
+    const base: FinancingElement = {
+      id: 'financing-1',
+      type: 'financing',
+      visible: true,
+      monthlyAmount: '125.00',
+      months: 12,
+      apr: 0,
+      showApr: true,
+      style: { fontSize: 8, fontWeight: 'normal', color: '#000000', align: 'center' },
+    };
+
+    it('should omit APR when it is zero', () => {
+      expect(getFinancingText(base)).toBe('As low as $125.00/mo for 12 months');
+    });
+
+    it('should include APR when set', () => {
+      expect(getFinancingText({ ...base, apr: 9.99 })).toBe(
+        'As low as $125.00/mo for 12 months @ 9.99% APR'
+      );
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Tests for src/utils/renderToSvg.ts
+ * jsdom has no canvas, so text is measured with the fallback estimate
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SvgDocument, escapeXml, renderLayoutToSvg } from '../../../utils/renderToSvg';
+import { buildCardLayout } from '../../../utils/layoutBuilders';
+import { resetElementIdCounter } from '../../../utils/layoutSchema';
+import { defaultConfig } from '../../../data/componentOptions';
+import { getThemeColors } from '../../../types';
+import type { PrebuildConfig, CustomFont } from '../../../types';
+
+vi.mock('../../../utils/canvas', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../utils/canvas')>()),
+  createCanvas: () => ({ getContext: () => null }),
+}));
+
+class MockImage {
+  onload: (() => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  private _src = '';
+  width = 100;
+  height = 100;
+
+  get src() {
+    return this._src;
+  }
+
+  set src(value: string) {
+    this._src = value;
+    queueMicrotask(() => {
+      if (this.onload) this.onload();
+    });
+  }
+}
+
+const font: CustomFont = {
+  id: 'font-1',
+  name: 'Brand Sans',
+  fileName: 'BrandSans.ttf',
+  format: 'truetype',
+  data: 'AAEAAAAL',
+  createdAt: 1,
+};
+
+function createLayout(
+  overrides: Partial<PrebuildConfig> = {},
+  asyncData: { barcodeImage?: string } = {},
+  customFonts: CustomFont[] = []
+) {
+  const config = { ...defaultConfig, ...overrides } as PrebuildConfig;
+  return buildCardLayout({
+    config,
+    cardSize: 'price',
+    colors: getThemeColors(config),
+    brandIcons: [],
+    customFonts,
+    asyncData,
+  });
+}
+
+describe('renderToSvg', () => {
+  let originalImage: typeof Image;
+
+  beforeEach(() => {
+    resetElementIdCounter();
+    originalImage = global.Image;
+    global.Image = MockImage as unknown as typeof Image;
+  });
+
+  afterEach(() => {
+    global.Image = originalImage;
+  });
+
+  describe('escapeXml', () => {
+    it('should escape markup characters', () => {
+      expect(escapeXml(`Tom & "Jerry" <3 'x'`)).toBe(
+        'Tom &amp; &quot;Jerry&quot; &lt;3 &apos;x&apos;'
+      );
+    });
+  });
+
+  describe('SvgDocument', () => {
+    it('should convert inches to points', () => {
+      const doc = new SvgDocument('Arial');
+      doc.setFillColor(255, 0, 0);
+      doc.rect(0.5, 1, 2, 0.25, 'F');
+
+      expect(doc.content).toBe('<rect x="36" y="72" width="144" height="18" fill="rgb(255,0,0)"/>');
+    });
+
+    it('should write aligned, styled text', () => {
+      const doc = new SvgDocument('Arial');
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(12);
+      doc.setTextColor(10, 20, 30);
+      doc.text('A & B', 1, 1, { align: 'center' });
+
+      expect(doc.content).toBe(
+        '<text x="72" y="72" font-size="12" font-weight="bold" fill="rgb(10,20,30)" text-anchor="middle">A &amp; B</text>'
+      );
+    });
+
+    it('should map relative segments onto a path', () => {
+      const doc = new SvgDocument('Arial');
+      doc.lines(
+        [
+          [1, 0],
+          [0, 0.5, 0, 1, 0, 1],
+        ],
+        0,
+        0,
+        [1, 1],
+        'F',
+        true
+      );
+
+      expect(doc.content).toBe('<path d="M0 0 l72 0 c0 36 0 72 0 72 Z" fill="rgb(0,0,0)"/>');
+    });
+
+    it('should embed image bytes as a data URL', () => {
+      const doc = new SvgDocument('Arial');
+      doc.addImage(new Uint8Array([1, 2, 3]), 'PNG', 0, 0, 1, 1);
+
+      expect(doc.content).toContain('href="data:image/png;base64,AQID"');
+    });
+
+    it('should report only the registered fonts', () => {
+      const doc = new SvgDocument('Arial', ['custom-font-1']);
+      expect(Object.keys(doc.getFontList())).toEqual(['custom-font-1']);
+    });
+  });
+
+  describe('renderLayoutToSvg', () => {
+    it('should size the document in inches with a viewBox in points', async () => {
+      const layout = createLayout();
+      const svg = await renderLayoutToSvg(layout);
+      const { width, height } = layout.dimensions;
+
+      expect(svg.startsWith('<?xml')).toBe(true);
+      expect(svg).toContain(
+        `width="${width}in" height="${height}in" viewBox="0 0 ${width * 72} ${height * 72}"`
+      );
+      expect(svg.trimEnd().endsWith('</svg>')).toBe(true);
+    });
+
+    it('should write card text as text elements', async () => {
+      const svg = await renderLayoutToSvg(createLayout({ modelName: 'Red & Black <RGB>' }));
+
+      expect(svg).toMatch(/<text[^>]*>Red &amp; Black &lt;RGB&gt;<\/text>/);
+    });
+
+    it('should embed the barcode image', async () => {
+      const layout = createLayout(
+        { sku: 'SKU-123' },
+        { barcodeImage: 'data:image/png;base64,mockBarcode' }
+      );
+      const svg = await renderLayoutToSvg(layout, {
+        barcodeImage: 'data:image/png;base64,mockBarcode',
+      });
+
+      expect(svg).toContain('href="data:image/png;base64,mockBarcode"');
+    });
+
+    it('should embed a custom font', async () => {
+      const layout = createLayout(
+        { visualSettings: { ...defaultConfig.visualSettings, customFontId: font.id } },
+        {},
+        [font]
+      );
+      const svg = await renderLayoutToSvg(layout);
+
+      expect(svg).toContain('<defs><style>@font-face { font-family: "Brand Sans"');
+      expect(svg).toContain('font-family="&quot;Brand Sans&quot;');
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for src/utils/specAbbreviations.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  abbreviateSpec,
+  abbreviateSpecValues,
+  CategoryAbbreviations,
+  DEFAULT_CATEGORY_ABBREVIATIONS,
+  DEFAULT_SPEC_ABBREVIATIONS,
+  usesAbbreviations,
+} from '../../../utils/specAbbreviations';
+
+const { gpu, ram, storage } = DEFAULT_CATEGORY_ABBREVIATIONS;
+
+describe('specAbbreviations', () => {
+  describe('abbreviateSpec', () => {
+    it('should drop the vendor and shorten words with the GPU rules', () => {
+      expect(abbreviateSpec('NVIDIA GeForce RTX 4070 Ti Super', gpu, 'NVIDIA')).toBe(
+        'RTX 4070 Ti S'
+      );
+    });
+
+    it('should keep the vendor when no brand icon is shown', () => {
+      expect(abbreviateSpec('NVIDIA GeForce RTX 4070 Ti Super', gpu)).toBe('NVIDIA RTX 4070 Ti S');
+    });
+
+    it('should keep the vendor when the category does not strip it', () => {
+      const rules = { ...gpu, stripVendor: false };
+      expect(abbreviateSpec('NVIDIA GeForce RTX 4070', rules, 'NVIDIA')).toBe('NVIDIA RTX 4070');
+    });
+
+    it('should shorten a RAM kit name', () => {
+      expect(
+        abbreviateSpec('Corsair Vengeance RGB 32GB (2x16GB) DDR5-6000 CL30', ram, 'Corsair')
+      ).toBe('32GB DDR5-6000');
+    });
+
+    it('should only replace whole words', () => {
+      const rules: CategoryAbbreviations = {
+        stripVendor: false,
+        tokens: [{ find: 'Core', replace: '' }],
+        suffixes: [],
+      };
+      expect(abbreviateSpec('Intel Core i7 8 Cores', rules)).toBe('Intel i7 8 Cores');
+    });
+
+    it('should only replace suffixes at the end', () => {
+      const rules: CategoryAbbreviations = {
+        stripVendor: false,
+        tokens: [],
+        suffixes: [{ find: 'Air Cooler', replace: 'Air' }],
+      };
+      expect(abbreviateSpec('Air Cooler Pro Air Cooler', rules)).toBe('Air Cooler Pro Air');
+    });
+
+    it('should ignore rules with nothing to find', () => {
+      const rules: CategoryAbbreviations = {
+        stripVendor: false,
+        tokens: [{ find: ' ', replace: 'x' }],
+        suffixes: [{ find: '', replace: 'y' }],
+      };
+      expect(abbreviateSpec('RTX 4070', rules)).toBe('RTX 4070');
+    });
+
+    it('should keep the value when the rules would remove all of it', () => {
+      const rules: CategoryAbbreviations = {
+        stripVendor: false,
+        tokens: [{ find: 'Stock', replace: '' }],
+        suffixes: [],
+      };
+      expect(abbreviateSpec('Stock', rules)).toBe('Stock');
+    });
+  });
+
+  describe('abbreviateSpecValues', () => {
+    it('should shorten each line item and drop the vendor of the first only', () => {
+      expect(
+        abbreviateSpecValues(
+          ['Samsung 990 Pro 2TB Solid State Drive', 'Samsung 870 EVO 4TB Solid State Drive'],
+          storage,
+          'Samsung'
+        )
+      ).toBe('990 Pro 2TB SSD + Samsung 870 EVO 4TB SSD');
+    });
+  });
+
+  describe('usesAbbreviations', () => {
+    it('should abbreviate shelf tags by default', () => {
+      expect(usesAbbreviations(DEFAULT_SPEC_ABBREVIATIONS, 'shelf')).toBe(true);
+      expect(usesAbbreviations(DEFAULT_SPEC_ABBREVIATIONS, 'price')).toBe(false);
+    });
+
+    it('should not abbreviate without settings', () => {
+      expect(usesAbbreviations(undefined, 'shelf')).toBe(false);
+    });
+  });
+});
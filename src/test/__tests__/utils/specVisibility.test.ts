@@ -0,0 +1,180 @@
+/**
+ * Tests for src/utils/specVisibility.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SIZE_SPEC_VISIBILITY,
+  getShownInfoItems,
+  getShownSpecs,
+  getItemText,
+  getSizeSpecVisibility,
+  moveItem,
+} from '../../../utils/specVisibility';
+import type { CustomFieldDefinition, SizeSpecVisibility, SpecVisibility } from '../../../types';
+import { defaultConfig } from '../../../data/componentOptions';
+
+const gpuFirst: SizeSpecVisibility = {
+  specs: [
+    { key: 'gpu', visible: true, label: 'Graphics' },
+    { key: 'cpu', visible: true },
+  ],
+  info: [{ key: 'wifi', visible: false }],
+};
+
+const field = (
+  id: CustomFieldDefinition['id'],
+  placement: CustomFieldDefinition['placement']
+): CustomFieldDefinition => ({
+  id,
+  label: id === 'field-bt' ? 'Bluetooth' : 'Assembly',
+  type: id === 'field-bt' ? 'boolean' : 'text',
+  options: [],
+  placement,
+  csvHeaders: [],
+  createdAt: 0,
+});
+
+const fields = [field('field-bt', 'spec'), field('field-asm', 'info'), field('field-x', 'none')];
+
+describe('specVisibility', () => {
+  describe('getSizeSpecVisibility', () => {
+    it('should show the main components on shelf tags by default', () => {
+      const visibility = getSizeSpecVisibility('shelf', 'shelf');
+      expect(getShownSpecs(visibility).map((item) => item.key)).toEqual([
+        'cpu',
+        'gpu',
+        'ram',
+        'storage',
+      ]);
+    });
+
+    it('should show everything on price cards by default', () => {
+      const visibility = getSizeSpecVisibility('price', 'price');
+      expect(getShownSpecs(visibility)).toHaveLength(12);
+      expect(getShownInfoItems(visibility)).toEqual([
+        { key: 'os', label: 'OS' },
+        { key: 'warranty', label: 'Warranty' },
+        { key: 'wifi', label: 'Connectivity' },
+      ]);
+    });
+
+    it('should use the base size defaults for custom sizes', () => {
+      expect(getSizeSpecVisibility('custom-1', 'shelf')).toBe(DEFAULT_SIZE_SPEC_VISIBILITY.shelf);
+    });
+
+    it('should take the first source with lists for the size', () => {
+      const preset: SpecVisibility = { poster: gpuFirst };
+      const global: SpecVisibility = {
+        price: gpuFirst,
+        poster: DEFAULT_SIZE_SPEC_VISIBILITY.shelf,
+      };
+
+      const price = getSizeSpecVisibility('price', 'price', [preset, global]);
+      const poster = getSizeSpecVisibility('poster', 'poster', [preset, global]);
+
+      expect(price.specs[0].key).toBe('gpu');
+      expect(poster.specs[0]).toEqual({ key: 'gpu', visible: true, label: 'Graphics' });
+    });
+
+    it('should add missing items after the saved ones and drop unknown ones', () => {
+      const saved = {
+        specs: [...gpuFirst.specs, { key: 'speakers', visible: true }],
+        info: gpuFirst.info,
+      } as SizeSpecVisibility;
+      const visibility = getSizeSpecVisibility('shelf', 'shelf', [{ shelf: saved }]);
+
+      expect(visibility.specs.map((item) => item.key)).toEqual([
+        'gpu',
+        'cpu',
+        'ram',
+        'storage',
+        'motherboard',
+        'psu',
+        'case',
+        'cooling',
+        'fans',
+        'expansion',
+        'peripherals',
+        'monitor',
+      ]);
+      // Missing items take the base size's default visibility
+      expect(visibility.specs.find((item) => item.key === 'psu')?.visible).toBe(false);
+      expect(visibility.info.map((item) => item.key)).toEqual(['wifi', 'os', 'warranty']);
+    });
+  });
+
+  describe('custom fields', () => {
+    it('should add placed fields after the built-in items', () => {
+      const price = getSizeSpecVisibility('price', 'price', [], fields);
+
+      expect(price.specs.at(-1)).toEqual({ key: 'field-bt', visible: true });
+      expect(price.info.at(-1)).toEqual({ key: 'field-asm', visible: true });
+      expect(price.specs.some((item) => item.key === 'field-x')).toBe(false);
+      expect(getShownInfoItems(price, fields).at(-1)).toEqual({
+        key: 'field-asm',
+        label: 'Assembly',
+      });
+    });
+
+    it('should hide spec fields on shelf tags by default', () => {
+      const shelf = getSizeSpecVisibility('shelf', 'shelf', [], fields);
+      expect(shelf.specs.find((item) => item.key === 'field-bt')?.visible).toBe(false);
+    });
+
+    it('should drop removed fields from saved lists', () => {
+      const saved: SizeSpecVisibility = {
+        specs: [{ key: 'field-gone', visible: true }, ...gpuFirst.specs],
+        info: [],
+      };
+      const visibility = getSizeSpecVisibility('price', 'price', [{ price: saved }], fields);
+      expect(visibility.specs.map((item) => item.key)).not.toContain('field-gone');
+      expect(visibility.specs.map((item) => item.key)).toContain('field-bt');
+    });
+
+    it('should read field values as text', () => {
+      const config = { ...defaultConfig, customFields: { 'field-bt': true } as const };
+      expect(getItemText(config, 'field-bt', fields)).toBe('Yes');
+      expect(getItemText(config, 'field-asm', fields)).toBe('');
+      expect(getItemText(config, 'os', fields)).toBe(defaultConfig.os);
+    });
+  });
+
+  describe('getShownSpecs', () => {
+    it('should use custom labels, falling back for blank ones', () => {
+      const visibility: SizeSpecVisibility = {
+        specs: [
+          { key: 'gpu', visible: true, label: ' Graphics ' },
+          { key: 'cpu', visible: true, label: '  ' },
+          { key: 'ram', visible: false },
+        ],
+        info: [],
+      };
+
+      expect(getShownSpecs(visibility)).toEqual([
+        { key: 'gpu', label: 'Graphics' },
+        { key: 'cpu', label: 'CPU' },
+      ]);
+      expect(getShownSpecs(visibility, [], true)).toHaveLength(3);
+    });
+  });
+
+  describe('getShownInfoItems', () => {
+    it('should leave out hidden items', () => {
+      expect(getShownInfoItems(gpuFirst)).toEqual([]);
+    });
+  });
+
+  describe('moveItem', () => {
+    it('should move an item to a new index', () => {
+      expect(moveItem(['a', 'b', 'c'], 0, 2)).toEqual(['b', 'c', 'a']);
+      expect(moveItem(['a', 'b', 'c'], 2, 1)).toEqual(['a', 'c', 'b']);
+    });
+
+    it('should leave the list alone when the index is out of range', () => {
+      const items = ['a', 'b'];
+      expect(moveItem(items, 0, -1)).toBe(items);
+      expect(moveItem(items, 1, 2)).toBe(items);
+    });
+  });
+});
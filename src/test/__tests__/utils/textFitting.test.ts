@@ -0,0 +1,243 @@
+/**
+ * Tests for src/utils/textFitting.ts
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  ELLIPSIS,
+  ellipsize,
+  fitLayoutText,
+  fitText,
+  recordTextOverflows,
+} from '../../../utils/textFitting';
+import { buildCardLayout } from '../../../utils/layoutBuilders';
+import {
+  FinancingElement,
+  HeaderElement,
+  getFinancingText,
+  resetElementIdCounter,
+  SpecsElement,
+  TextElement,
+} from '../../../utils/layoutSchema';
+import { wrapText } from '../../../utils/canvasDocument';
+import { getSizeLayoutConfig } from '../../../utils/cardSizes';
+import type { BoxTextMetrics, FontSpec } from '../../../utils/boxLayout';
+import { createEmptyWarnings, formatWarnings } from '../../../utils/logger';
+import { defaultConfig } from '../../../data/componentOptions';
+import { getThemeColors } from '../../../types';
+import type { CardSize, PrebuildConfig } from '../../../types';
+
+/** Every character is a hundredth of the font size wide, in inches */
+const charWidth = (font: FontSpec) => font.fontSize * 0.01;
+const metrics: BoxTextMetrics = {
+  width: (text, font) => text.length * charWidth(font),
+  wrap: (text, maxWidth, font) => wrapText(text, maxWidth, (line) => line.length * charWidth(font)),
+};
+
+const font: FontSpec = { fontSize: 10, fontWeight: 'normal' };
+
+const LONG_GPU = 'ASUS ROG Strix GeForce RTX 4070 Ti Super OC 16GB';
+
+function createLayout(overrides: Partial<PrebuildConfig> = {}, cardSize: CardSize = 'shelf') {
+  const config = { ...defaultConfig, ...overrides } as PrebuildConfig;
+  return buildCardLayout({
+    config,
+    cardSize,
+    colors: getThemeColors(config),
+    brandIcons: [],
+  });
+}
+
+describe('textFitting', () => {
+  beforeEach(() => {
+    resetElementIdCounter();
+  });
+
+  describe('ellipsize', () => {
+    it('should leave text that fits alone', () => {
+      expect(ellipsize('RTX 4070', 1, font, metrics)).toBe('RTX 4070');
+    });
+
+    it('should cut text to the longest start that fits with an ellipsis', () => {
+      // 0.1" per character, so 6 characters fit in 0.65"
+      expect(ellipsize('GeForce RTX', 0.65, font, metrics)).toBe(`GeFor${ELLIPSIS}`);
+    });
+
+    it('should not leave a space before the ellipsis', () => {
+      expect(ellipsize('RTX 4070 Ti', 0.5, font, metrics)).toBe(`RTX${ELLIPSIS}`);
+    });
+  });
+
+  describe('fitText', () => {
+    it('should keep the font size when the text fits', () => {
+      expect(fitText('RTX 4070', 1, 1, font, { minFontSize: 6 }, metrics)).toEqual({
+        lines: ['RTX 4070'],
+        fontSize: 10,
+        truncated: false,
+      });
+    });
+
+    it('should shrink the font until the text fits', () => {
+      // 10 characters need 8pt to fit in 0.8"
+      const fitted = fitText('GeForce RT', 0.8, 1, font, { minFontSize: 6 }, metrics);
+      expect(fitted).toEqual({ lines: ['GeForce RT'], fontSize: 8, truncated: false });
+    });
+
+    it('should start from the fit maximum when given', () => {
+      const fitted = fitText('RTX', 1, 1, font, { minFontSize: 6, maxFontSize: 12 }, metrics);
+      expect(fitted.fontSize).toBe(12);
+    });
+
+    it('should cut the text at the smallest size when shrinking is not enough', () => {
+      const fitted = fitText(LONG_GPU, 1, 1, font, { minFontSize: 8 }, metrics);
+
+      expect(fitted.truncated).toBe(true);
+      expect(fitted.fontSize).toBe(8);
+      expect(fitted.lines).toHaveLength(1);
+      expect(fitted.lines[0].endsWith(ELLIPSIS)).toBe(true);
+      expect(metrics.width(fitted.lines[0], { ...font, fontSize: 8 })).toBeLessThanOrEqual(1);
+    });
+
+    it('should cut without shrinking when there is no fit', () => {
+      const fitted = fitText(LONG_GPU, 1, 1, font, undefined, metrics);
+      expect(fitted).toMatchObject({ fontSize: 10, truncated: true });
+    });
+
+    it('should keep whole lines and cut only the last', () => {
+      const fitted = fitText('one two three four five six', 0.9, 2, font, undefined, metrics);
+
+      expect(fitted.lines).toEqual(['one two', `three fo${ELLIPSIS}`]);
+      expect(fitted.truncated).toBe(true);
+    });
+  });
+
+  describe('fitLayoutText', () => {
+    it('should shrink and cut a long spec value on a shelf tag', () => {
+      const layout = createLayout({
+        components: { ...defaultConfig.components, gpu: LONG_GPU },
+      });
+      const { layout: fitted, overflows } = fitLayoutText(layout, metrics);
+
+      const specs = layout.elements.find((el): el is SpecsElement => el.type === 'specs')!;
+      const fittedSpecs = fitted.elements.find((el): el is SpecsElement => el.type === 'specs')!;
+      const gpu = fittedSpecs.specs.find((spec) => spec.key === 'gpu')!;
+      expect(gpu.value.endsWith(ELLIPSIS)).toBe(true);
+      expect(gpu.valueFontSize).toBeCloseTo(specs.fit!.minFontSize);
+      expect(overflows).toEqual([{ elementId: specs.id, label: 'GPU', text: LONG_GPU }]);
+      // The layout it was given is left as it was
+      expect(specs.specs.find((spec) => spec.key === 'gpu')!.value).toBe(LONG_GPU);
+    });
+
+    it('should keep elements that fit as they are', () => {
+      const layout = createLayout({ modelName: 'Gamer' }, 'poster');
+      const { layout: fitted, overflows } = fitLayoutText(layout, metrics);
+
+      expect(overflows).toEqual([]);
+      fitted.elements.forEach((el, i) => expect(el).toBe(layout.elements[i]));
+    });
+
+    it('should name cut text elements by their role', () => {
+      const layout = createLayout({ modelName: 'Ultimate '.repeat(20) });
+      const { layout: fitted, overflows } = fitLayoutText(layout, metrics);
+
+      const model = fitted.elements.find((el): el is TextElement => el.id.startsWith('model'))!;
+      expect(overflows.map((overflow) => overflow.label)).toEqual(['Model name']);
+      expect(model.text.endsWith(ELLIPSIS)).toBe(true);
+      const { margin } = getSizeLayoutConfig({ baseSize: 'shelf', scale: 1 });
+      const width = layout.dimensions.width - margin * 2;
+      expect(metrics.wrap(model.text, width, model.style)).toHaveLength(2);
+    });
+
+    it('should cut a long store name in the header', () => {
+      const storeName = 'The Extremely Long Named Computer Store';
+      const layout = createLayout({ storeName });
+      const { layout: fitted, overflows } = fitLayoutText(layout, metrics);
+
+      const header = fitted.elements.find((el): el is HeaderElement => el.type === 'header')!;
+      expect(header.text.endsWith(ELLIPSIS)).toBe(true);
+      expect(overflows).toEqual([{ elementId: header.id, label: 'Store name', text: storeName }]);
+    });
+
+    it('should cut a financing line that does not fit', () => {
+      const layout = createLayout(
+        { price: 1299, financingInfo: { enabled: true, months: 120, apr: 19.99 } },
+        'price'
+      );
+      const found = layout.elements.find((el): el is FinancingElement => el.type === 'financing')!;
+      // Too large for the card's width
+      const financing = { ...found, style: { ...found.style, fontSize: 20 } };
+      layout.elements = [financing];
+      const { layout: fitted, overflows } = fitLayoutText(layout, metrics);
+
+      expect(getFinancingText(fitted.elements[0] as FinancingElement).endsWith(ELLIPSIS)).toBe(
+        true
+      );
+      expect(overflows).toEqual([
+        { elementId: financing.id, label: 'Financing', text: getFinancingText(financing) },
+      ]);
+    });
+
+    it('should keep framed text inside its frame', () => {
+      const layout = createLayout();
+      const framed: TextElement = {
+        id: 'text-1',
+        type: 'text',
+        visible: true,
+        text: 'one two three four five six',
+        frame: { x: 0, y: 0, width: 0.9, height: 0.2 },
+        // One 12pt line fits in 0.2"
+        style: { fontSize: 12, fontWeight: 'normal', color: '#000000', align: 'left' },
+      };
+      layout.elements = [framed];
+      const { layout: fitted, overflows } = fitLayoutText(layout, metrics);
+
+      expect((fitted.elements[0] as TextElement).text).toBe(`one tw${ELLIPSIS}`);
+      expect(overflows).toHaveLength(1);
+    });
+
+    it('should skip hidden elements', () => {
+      const layout = createLayout({
+        components: { ...defaultConfig.components, gpu: LONG_GPU },
+      });
+      layout.elements = layout.elements.map((el) => ({ ...el, visible: false }));
+
+      expect(fitLayoutText(layout, metrics).overflows).toEqual([]);
+    });
+  });
+
+  describe('recordTextOverflows', () => {
+    it('should warn once per label and card size', () => {
+      const warnings = createEmptyWarnings();
+      const overflow = { elementId: 'specs-1', label: 'CPU', text: 'x' };
+      recordTextOverflows(warnings, [overflow, overflow], 'shelf');
+      recordTextOverflows(warnings, [overflow], 'poster');
+
+      expect(formatWarnings(warnings)).toEqual([
+        'CPU text truncated on shelf tag',
+        'CPU text truncated on poster',
+      ]);
+    });
+
+    it('should name custom card sizes', () => {
+      const warnings = createEmptyWarnings();
+      recordTextOverflows(
+        warnings,
+        [{ elementId: 'model-1', label: 'Model name', text: 'x' }],
+        'custom-1'
+      );
+
+      expect(
+        formatWarnings(warnings, [
+          {
+            id: 'custom-1',
+            name: 'Business Card',
+            width: 2,
+            height: 3.5,
+            unit: 'in',
+            orientation: 'portrait',
+          },
+        ])
+      ).toEqual(['Model name text truncated on business card']);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Tests for src/utils/zipArchive.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { unzipSync, strFromU8 } from 'fflate';
+import { createZipArchive, uniqueFilename } from '../../../utils/zipArchive';
+
+// jsdom's Blob has no arrayBuffer()
+function readBlob(blob: Blob): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+describe('zipArchive', () => {
+  describe('uniqueFilename', () => {
+    it('should keep names that are not taken', () => {
+      const used = new Set<string>();
+      expect(uniqueFilename('Build.pdf', used)).toBe('Build.pdf');
+      expect(used.has('Build.pdf')).toBe(true);
+    });
+
+    it('should number repeated names before the extension', () => {
+      const used = new Set<string>();
+      uniqueFilename('Build.pdf', used);
+
+      expect(uniqueFilename('Build.pdf', used)).toBe('Build-2.pdf');
+      expect(uniqueFilename('Build.pdf', used)).toBe('Build-3.pdf');
+    });
+
+    it('should handle names without an extension', () => {
+      const used = new Set(['README']);
+      expect(uniqueFilename('README', used)).toBe('README-2');
+    });
+  });
+
+  describe('createZipArchive', () => {
+    it('should bundle binary and text files', async () => {
+      const blob = createZipArchive([
+        { name: 'card.pdf', data: new Uint8Array([37, 80, 68, 70]) },
+        { name: 'manifest.json', data: '{"files":[]}' },
+      ]);
+
+      expect(blob.type).toBe('application/zip');
+
+      const entries = unzipSync(await readBlob(blob));
+      expect(Array.from(entries['card.pdf'])).toEqual([37, 80, 68, 70]);
+      expect(strFromU8(entries['manifest.json'])).toBe('{"files":[]}');
+    });
+  });
+});
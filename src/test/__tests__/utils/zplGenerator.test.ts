@@ -0,0 +1,206 @@
+/**
+ * Tests for src/utils/zplGenerator.ts
+ * Checks the label frame, text fields, barcodes and QR codes in the ZPL
+ * built from the shelf-tag layout, and sending to a network printer.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  DEFAULT_ZPL_LABEL,
+  escapeZplText,
+  generateShelfTagZpl,
+  getPrinterUrl,
+  inchesToDots,
+  sendZplToPrinter,
+} from '../../../utils/zplGenerator';
+import { defaultConfig, defaultVisualSettings } from '../../../data/componentOptions';
+import { DEFAULT_SPEC_ABBREVIATIONS } from '../../../utils/specAbbreviations';
+import { createEmptyWarnings } from '../../../utils/logger';
+import type { PrebuildConfig } from '../../../types';
+
+const createConfig = (overrides: Partial<PrebuildConfig> = {}): PrebuildConfig => ({
+  ...(defaultConfig as PrebuildConfig),
+  modelName: 'Gaming PC',
+  storeName: 'PC Shop',
+  price: 1299.99,
+  components: { ...defaultConfig.components, cpu: 'Ryzen 7 7800X3D', gpu: 'RTX 4070' },
+  ...overrides,
+});
+
+describe('zplGenerator', () => {
+  describe('inchesToDots', () => {
+    it('should convert at 203 and 300 dpi', () => {
+      expect(inchesToDots(2, 203)).toBe(406);
+      expect(inchesToDots(3, 300)).toBe(900);
+    });
+  });
+
+  describe('escapeZplText', () => {
+    it('should hex-escape characters that start ZPL commands', () => {
+      expect(escapeZplText('A_B^C~D')).toBe('A_5FB_5EC_7ED');
+    });
+  });
+
+  describe('generateShelfTagZpl', () => {
+    it('should frame the label with its size in dots', () => {
+      const zpl = generateShelfTagZpl(createConfig(), {
+        dpi: 300,
+        widthDots: 600,
+        heightDots: 900,
+      });
+      const lines = zpl.split('\n');
+
+      expect(lines[0]).toBe('^XA');
+      expect(zpl).toContain('^CI28');
+      expect(zpl).toContain('^PW600');
+      expect(zpl).toContain('^LL900');
+      expect(lines[lines.length - 1]).toBe('^XZ');
+    });
+
+    it('should write the layout text with the scalable font', () => {
+      const zpl = generateShelfTagZpl(createConfig());
+
+      expect(zpl).toMatch(/\^A0N,\d+,\d+\^FB\d+,\d+,0,C,0\^FR\^FH\^FDPC Shop\^FS/);
+      expect(zpl).toContain('^FDGaming PC^FS');
+      expect(zpl).toContain('^FD$1,299.99^FS');
+      expect(zpl).toContain('Ryzen 7 7800X3D');
+    });
+
+    it('should scale fonts with the label resolution', () => {
+      const fontHeight = (zpl: string) =>
+        Number(/\^A0N,(\d+),\d+\^FB\d+,\d+,0,C,0\^FH\^FD\$1,299.99/.exec(zpl)?.[1]);
+
+      const at203 = fontHeight(generateShelfTagZpl(createConfig()));
+      const at300 = fontHeight(
+        generateShelfTagZpl(createConfig(), { dpi: 300, widthDots: 600, heightDots: 900 })
+      );
+
+      expect(at300 / at203).toBeCloseTo(600 / 406, 1);
+    });
+
+    it('should add a Code 128 barcode for the SKU', () => {
+      const zpl = generateShelfTagZpl(createConfig({ sku: 'GPC-001' }));
+
+      expect(zpl).toMatch(/\^BY\d\^BCN,71,N,N,N\^FH\^FDGPC-001\^FS/);
+    });
+
+    it('should leave out a barcode too wide for the space beside the QR code and warn', () => {
+      const warnings = createEmptyWarnings();
+      const config = createConfig({
+        sku: 'GPC-RYZEN7-7800X3D-RTX4070-32GB',
+        visualSettings: {
+          ...defaultVisualSettings,
+          showQrCode: true,
+          qrCodeUrl: 'https://shop.example/gaming-pc',
+        },
+      });
+
+      const zpl = generateShelfTagZpl(config, undefined, { warnings });
+
+      expect(zpl).not.toContain('^BC');
+      expect(zpl).toContain('^BQ');
+      expect(warnings.barcodeFailed).toBe(true);
+    });
+
+    it('should use EAN-13 for 13-digit SKUs', () => {
+      const zpl = generateShelfTagZpl(createConfig({ sku: '4006381333931' }));
+
+      expect(zpl).toContain('^BEN,71,N,N^FD400638133393^FS');
+      expect(zpl).not.toContain('^BC');
+    });
+
+    it('should add a QR code when enabled', () => {
+      const config = createConfig({
+        visualSettings: {
+          ...defaultVisualSettings,
+          showQrCode: true,
+          qrCodeUrl: 'https://shop.example/gaming_pc',
+        },
+      });
+
+      expect(generateShelfTagZpl(config)).toContain(
+        '^BQN,2,2^FH^FDQA,https://shop.example/gaming_5Fpc^FS'
+      );
+      expect(generateShelfTagZpl(createConfig())).not.toContain('^BQ');
+    });
+
+    it('should size the QR code for the symbol a long URL needs', () => {
+      const url =
+        'https://shop.example.com/products/gaming-pc-ryzen-7-7800x3d-rtx-4070?ref=shelf-tag';
+      const config = createConfig({
+        visualSettings: { ...defaultVisualSettings, showQrCode: true, qrCodeUrl: url },
+      });
+
+      const [, x, magnification] = generateShelfTagZpl(config).match(/\^FO(\d+),\d+\^BQN,2,(\d+)/)!;
+
+      // 82 bytes at level Q need a version 7 symbol, 45 modules wide
+      expect(Number(magnification)).toBe(1);
+      expect(Number(x) + 45).toBeLessThanOrEqual(DEFAULT_ZPL_LABEL.widthDots);
+    });
+
+    it('should leave out a QR code too big for the label and warn', () => {
+      const warnings = createEmptyWarnings();
+      const config = createConfig({
+        visualSettings: {
+          ...defaultVisualSettings,
+          showQrCode: true,
+          qrCodeUrl: `https://shop.example.com/?q=${'x'.repeat(400)}`,
+        },
+      });
+
+      expect(generateShelfTagZpl(config, undefined, { warnings })).not.toContain('^BQ');
+      expect(warnings.qrCodeFailed).toBe(true);
+    });
+
+    it('should shorten specs with the abbreviations for shelf tags', () => {
+      const config = createConfig({
+        components: { ...defaultConfig.components, gpu: 'NVIDIA GeForce RTX 4070 Ti Super' },
+      });
+
+      expect(generateShelfTagZpl(config)).toContain('NVIDIA GeForce RTX 4070 Ti Super');
+      expect(
+        generateShelfTagZpl(config, undefined, { abbreviations: DEFAULT_SPEC_ABBREVIATIONS })
+      ).not.toContain('GeForce');
+    });
+
+    it('should print the requested number of copies', () => {
+      const zpl = generateShelfTagZpl(createConfig(), undefined, { copies: 5 });
+      expect(zpl).toContain('^PQ5');
+    });
+  });
+
+  describe('getPrinterUrl', () => {
+    it('should post to the raw print endpoint', () => {
+      expect(getPrinterUrl('192.168.1.50')).toBe('http://192.168.1.50/pstprnt');
+      expect(getPrinterUrl('printer.local:8080')).toBe('http://printer.local:8080/pstprnt');
+      expect(getPrinterUrl('https://printer.local/custom')).toBe('https://printer.local/custom');
+    });
+  });
+
+  describe('sendZplToPrinter', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should post the label to the printer', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({});
+      vi.stubGlobal('fetch', fetchMock);
+
+      await sendZplToPrinter('^XA^XZ', '10.0.0.5');
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://10.0.0.5/pstprnt',
+        expect.objectContaining({ method: 'POST', body: '^XA^XZ' })
+      );
+    });
+
+    it('should reject a missing or unreachable printer', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+
+      await expect(sendZplToPrinter('^XA^XZ', ' ')).rejects.toThrow('Enter the printer address');
+      await expect(sendZplToPrinter('^XA^XZ', '10.0.0.5')).rejects.toThrow(
+        'Could not reach the printer at 10.0.0.5'
+      );
+    });
+  });
+});
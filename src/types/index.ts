@@ -7,19 +7,29 @@ export interface ComponentSpec {
   psu: string;
   case: string;
   cooling: string;
+  fans: string;
+  expansion: string;
+  peripherals: string;
+  monitor: string;
 }
 
-export interface ComponentPrices {
-  cpu: number;
-  gpu: number;
-  ram: number;
-  storage: number;
-  motherboard: number;
-  psu: number;
-  case: number;
-  cooling: number;
+/** Id of a component line item beyond a category's main slot */
+export type ComponentItemId = `item-${string}`;
+
+/**
+ * A further component of a category, e.g. a second drive or a fan kit.
+ * Its price is kept in componentPrices under its id.
+ */
+export interface ComponentItem {
+  id: ComponentItemId;
+  category: keyof ComponentSpec;
+  value: string;
 }
 
+/** Prices of each category's main slot, and of each further line item by id */
+export type ComponentPrices = Record<keyof ComponentSpec, number> &
+  Partial<Record<ComponentItemId, number>>;
+
 export type StockStatus = 'in_stock' | 'low_stock' | 'out_of_stock' | 'on_order';
 
 // Condition type for preowned/new status
@@ -139,6 +149,8 @@ export interface VisualSettings {
   backgroundPattern: BackgroundPattern;
   cardTemplate: CardTemplate;
   fontFamily: FontFamily;
+  /** Uploaded font to use instead of fontFamily (falls back to fontFamily if missing) */
+  customFontId?: string | null;
   showQrCode: boolean;
   qrCodeUrl: string;
   productImage: string | null;
@@ -180,10 +192,25 @@ export interface BrandIcon {
   image: string; // base64 data URL
 }
 
+export type CustomFontFormat = 'truetype' | 'opentype';
+
+/** A user-uploaded TTF/OTF font */
+export interface CustomFont {
+  id: string;
+  /** Display name, also used as the CSS font-family */
+  name: string;
+  fileName: string;
+  format: CustomFontFormat;
+  data: string; // base64 font file (no data: URL prefix)
+  createdAt: number;
+}
+
 export interface PrebuildConfig {
   modelName: string;
   price: number;
   components: ComponentSpec;
+  /** Line items beyond each category's main slot, in the order they were added */
+  extraComponents?: ComponentItem[];
   storeName: string;
   storeLogo: string | null;
   // New fields
@@ -211,6 +238,10 @@ export interface PrebuildConfig {
   visualSettings: VisualSettings;
   // Condition (new/preowned)
   condition: ConditionType | null;
+  // Specs shown on each card size, overriding the global default
+  specVisibility?: SpecVisibility;
+  // Values of the store's custom fields, by field id
+  customFields?: Partial<Record<CustomFieldId, CustomFieldValue>>;
 }
 
 // Brand icons are stored separately from presets (shared across all)
@@ -239,7 +270,28 @@ export const DEFAULT_FOLDERS: PresetFolder[] = [
   { id: 'custom', name: 'Custom', color: '#8b5cf6' },
 ];
 
-export type CardSize = 'shelf' | 'price' | 'poster';
+/** Card sizes with a hand-tuned layout */
+export type BuiltInCardSize = 'shelf' | 'price' | 'poster';
+
+/** Id of a user-defined card size (see CustomCardSize) */
+export type CustomCardSizeId = `custom-${string}`;
+
+export type CardSize = BuiltInCardSize | CustomCardSizeId;
+
+export type CardSizeUnit = 'in' | 'mm';
+
+export type CardOrientation = 'portrait' | 'landscape';
+
+/** A user-defined card size, laid out by scaling the closest built-in size */
+export interface CustomCardSize {
+  id: CustomCardSizeId;
+  name: string;
+  width: number;
+  height: number;
+  unit: CardSizeUnit;
+  orientation: CardOrientation;
+  createdAt: number;
+}
 
 export interface CardSizeConfig {
   name: string;
@@ -249,7 +301,7 @@ export interface CardSizeConfig {
   description: string;
 }
 
-export const CARD_SIZES: Record<CardSize, CardSizeConfig> = {
+export const CARD_SIZES: Record<BuiltInCardSize, CardSizeConfig> = {
   shelf: {
     name: 'Shelf Tag',
     width: 2,
@@ -284,8 +336,67 @@ export const COMPONENT_LABELS: Record<ComponentCategory, string> = {
   psu: 'PSU',
   case: 'Case',
   cooling: 'Cooling',
+  fans: 'Fans',
+  expansion: 'Expansion Cards',
+  peripherals: 'Peripherals',
+  monitor: 'Monitor',
 };
 
+/** Config fields that can be shown in a card's info bar */
+export type InfoItemKey = 'os' | 'warranty' | 'wifi';
+
+export const INFO_ITEM_LABELS: Record<InfoItemKey, string> = {
+  os: 'OS',
+  warranty: 'Warranty',
+  wifi: 'Connectivity',
+};
+
+/** Id of a store-defined custom field */
+export type CustomFieldId = `field-${string}`;
+
+export type CustomFieldType = 'text' | 'number' | 'boolean' | 'enum';
+
+export type CustomFieldValue = string | number | boolean;
+
+/** Where a custom field's value can be shown on cards */
+export type CustomFieldPlacement = 'none' | 'spec' | 'info';
+
+/** A field the store adds to every build, e.g. "Included Monitor" */
+export interface CustomFieldDefinition {
+  id: CustomFieldId;
+  label: string;
+  type: CustomFieldType;
+  /** Choices of an enum field */
+  options: string[];
+  placement: CustomFieldPlacement;
+  /** CSV column headers it's imported from besides its label */
+  csvHeaders: string[];
+  createdAt: number;
+}
+
+/** Items a card's spec list can show: components and custom fields */
+export type SpecListKey = ComponentCategory | CustomFieldId;
+
+/** Items a card's info bar can show: config fields and custom fields */
+export type InfoListKey = InfoItemKey | CustomFieldId;
+
+/** Whether and how a spec or info bar item is shown on a card */
+export interface DisplayedItem<K extends string> {
+  key: K;
+  visible: boolean;
+  /** Shown instead of the default label */
+  label?: string;
+}
+
+/** Which specs and info bar items a card size shows, in order */
+export interface SizeSpecVisibility {
+  specs: DisplayedItem<SpecListKey>[];
+  info: DisplayedItem<InfoListKey>[];
+}
+
+/** Spec visibility by card size; sizes without an entry use the default */
+export type SpecVisibility = Partial<Record<CardSize, SizeSpecVisibility>>;
+
 export function getThemeColors(config: PrebuildConfig): ThemeColors {
   if (config.colorTheme === 'custom') {
     return config.customColors;
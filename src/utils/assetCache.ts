@@ -0,0 +1,91 @@
+/**
+ * Asset cache for PDF batches
+ *
+ * A batch draws the same store logo, brand icons and codes on many cards.
+ * While a batch is open (see withAssetCache) decoded images and generated
+ * QR/barcode data URLs are kept by content hash, so each is produced once.
+ * The cache is dropped when the outermost batch finishes.
+ */
+
+import { decodeImage, DecodedImage } from './canvas';
+
+/** A decoded image plus the key jsPDF uses to embed it once per document */
+export interface CachedImage extends DecodedImage {
+  alias: string;
+}
+
+interface AssetCache {
+  images: Map<string, Promise<CachedImage>>;
+  /** Generated data URLs such as QR codes and barcodes */
+  generated: Map<string, Promise<string | undefined>>;
+}
+
+let activeCache: AssetCache | null = null;
+let openBatches = 0;
+
+/**
+ * FNV-1a hash of a string plus its length; cheap enough for large data URLs
+ */
+export function hashContent(content: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(36)}-${content.length.toString(36)}`;
+}
+
+/**
+ * Run a batch with the asset cache enabled. Nested batches share the cache
+ * of the outermost one.
+ */
+export async function withAssetCache<T>(run: () => Promise<T>): Promise<T> {
+  if (openBatches === 0) {
+    activeCache = { images: new Map(), generated: new Map() };
+  }
+  openBatches++;
+  try {
+    return await run();
+  } finally {
+    openBatches--;
+    if (openBatches === 0) {
+      activeCache = null;
+    }
+  }
+}
+
+/**
+ * Decode an image, reusing an earlier decode of the same content in this batch.
+ * Failed decodes are not cached.
+ */
+export function loadImage(src: string): Promise<CachedImage> {
+  const alias = `img-${hashContent(src)}`;
+  const cache = activeCache;
+  const cached = cache?.images.get(alias);
+  if (cached) return cached;
+
+  const loading = decodeImage(src).then((image) => ({ ...image, alias }));
+  if (cache) {
+    cache.images.set(alias, loading);
+    loading.catch(() => cache.images.delete(alias));
+  }
+  return loading;
+}
+
+/**
+ * Generate an asset such as a QR code once per batch for the given key
+ */
+export function getGeneratedAsset(
+  key: string,
+  generate: () => Promise<string | undefined>
+): Promise<string | undefined> {
+  const cache = activeCache;
+  if (!cache) return generate();
+
+  let pending = cache.generated.get(key);
+  if (!pending) {
+    pending = generate();
+    cache.generated.set(key, pending);
+  }
+  return pending;
+}
@@ -1,10 +1,11 @@
 import JsBarcode from 'jsbarcode';
 import { logger } from './logger';
+import { createCanvas, canvasToDataUrl } from './canvas';
 
 /**
- * Generate barcode as data URL
+ * Generate barcode as data URL (works in workers via OffscreenCanvas)
  */
-export function generateBarcodeDataUrl(
+export async function generateBarcodeDataUrl(
   text: string,
   options?: {
     format?: string;
@@ -12,14 +13,14 @@ export function generateBarcodeDataUrl(
     height?: number;
     displayValue?: boolean;
   }
-): string {
+): Promise<string> {
   if (!text) {
     logger.debug('Barcode', 'Skipping barcode generation - no text provided');
     return '';
   }
 
   try {
-    const canvas = document.createElement('canvas');
+    const canvas = createCanvas();
     JsBarcode(canvas, text, {
       format: options?.format || 'CODE128',
       width: options?.width || 2,
@@ -32,7 +33,7 @@ export function generateBarcodeDataUrl(
       text,
       format: options?.format || 'CODE128',
     });
-    return canvas.toDataURL('image/png');
+    return await canvasToDataUrl(canvas);
   } catch (err) {
     logger.error('Barcode', 'Failed to generate barcode', err);
     return '';
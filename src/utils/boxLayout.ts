@@ -0,0 +1,307 @@
+/**
+ * Box Layout - Resolves container elements into positioned boxes
+ *
+ * A container lays its children out along a row or column, like a flex box
+ * without wrapping: children are measured, then placed with the container's
+ * gap, justify (main axis) and align (cross axis). Both renderers draw the
+ * resulting tree, so nested layouts land in the same place in the preview
+ * and the PDF.
+ *
+ * Containers take the full width they are given and the height of their
+ * content. In a row, children are measured in order and each gets the width
+ * left over by the ones before it. Dividers span the container's cross axis.
+ *
+ * All measurements are in inches.
+ */
+
+import type {
+  BadgeElement,
+  BarcodeElement,
+  BoxStyle,
+  ContainerElement,
+  DividerElement,
+  FontStyle,
+  FontWeight,
+  ImageElement,
+  LayoutElement,
+  QRCodeElement,
+  SKUElement,
+  TextElement,
+} from './layoutSchema';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/** Points per inch */
+const PT_PER_INCH = 72;
+
+/** Default line height multiplier (matches the PDF renderer) */
+const LINE_HEIGHT = 1.2;
+
+/** Elements that can be placed inside a container */
+export type BoxElement =
+  | TextElement
+  | SKUElement
+  | BadgeElement
+  | DividerElement
+  | ImageElement
+  | QRCodeElement
+  | BarcodeElement
+  | ContainerElement;
+
+export interface FontSpec {
+  fontSize: number;
+  fontWeight: FontWeight;
+  fontStyle?: FontStyle;
+}
+
+/** Text measurement supplied by the renderer, in inches */
+export interface BoxTextMetrics {
+  width(text: string, font: FontSpec): number;
+  /** Word-wrap text to lines no wider than maxWidth */
+  wrap(text: string, maxWidth: number, font: FontSpec): string[];
+}
+
+export interface BoxLayoutOptions {
+  metrics: BoxTextMetrics;
+  /** QR codes and barcodes only take up space when their image exists */
+  hasQrCode?: boolean;
+  hasBarcode?: boolean;
+}
+
+/** A placed element, relative to its parent box's top-left corner */
+export interface BoxNode {
+  element: BoxElement;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Wrapped lines, for text and SKU elements */
+  lines?: string[];
+  /** Placed children, for containers */
+  children?: BoxNode[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function lineHeightOf(style: { fontSize: number; lineHeight?: number }): number {
+  return (style.fontSize / PT_PER_INCH) * (style.lineHeight ?? LINE_HEIGHT);
+}
+
+export function getBoxPadding(style?: BoxStyle): { x: number; y: number } {
+  const padding = style?.padding ?? 0;
+  return typeof padding === 'number' ? { x: padding, y: padding } : padding;
+}
+
+/** Text shown for a SKU element */
+export function getSkuText(el: SKUElement): string {
+  return `SKU: ${el.value}`;
+}
+
+function isBoxElement(el: LayoutElement, options: BoxLayoutOptions): el is BoxElement {
+  if (!el.visible) return false;
+  switch (el.type) {
+    case 'text':
+    case 'sku':
+    case 'badge':
+    case 'divider':
+    case 'image':
+    case 'container':
+      return true;
+    case 'qrcode':
+      return !!options.hasQrCode;
+    case 'barcode':
+      return !!options.hasBarcode;
+    default:
+      return false;
+  }
+}
+
+/** Offset of the first child and the spacing between children along the main axis */
+function distribute(
+  justify: ContainerElement['justify'],
+  free: number,
+  count: number,
+  gap: number
+): { start: number; spacing: number } {
+  const space = Math.max(free, 0);
+  switch (justify) {
+    case 'center':
+      return { start: space / 2, spacing: gap };
+    case 'end':
+      return { start: space, spacing: gap };
+    case 'space-between':
+      return count > 1
+        ? { start: 0, spacing: gap + space / (count - 1) }
+        : { start: 0, spacing: gap };
+    case 'space-around':
+      return { start: space / count / 2, spacing: gap + space / count };
+    default:
+      return { start: 0, spacing: gap };
+  }
+}
+
+/** Offset of a child within the cross axis */
+function alignOffset(align: ContainerElement['align'], free: number): number {
+  switch (align) {
+    case 'center':
+      return free / 2;
+    case 'end':
+      return free;
+    default:
+      return 0;
+  }
+}
+
+// ============================================================================
+// MEASUREMENT
+// ============================================================================
+
+function measureText(
+  el: TextElement | SKUElement,
+  maxWidth: number,
+  options: BoxLayoutOptions
+): BoxNode {
+  const { metrics } = options;
+  const text = el.type === 'sku' ? getSkuText(el) : el.text;
+  let lines = metrics.wrap(text, maxWidth, el.style);
+  if (el.type === 'text' && el.maxLines && lines.length > el.maxLines) {
+    lines = lines.slice(0, el.maxLines);
+  }
+  const width = Math.min(
+    Math.max(0, ...lines.map((line) => metrics.width(line, el.style))),
+    maxWidth
+  );
+  return { element: el, x: 0, y: 0, width, height: lines.length * lineHeightOf(el.style), lines };
+}
+
+/**
+ * Size an element given the width available to it. Dividers fill the width
+ * in a column; in a row their height is set once the row is measured.
+ */
+function measure(
+  el: BoxElement,
+  maxWidth: number,
+  direction: ContainerElement['direction'],
+  options: BoxLayoutOptions
+): BoxNode {
+  switch (el.type) {
+    case 'text':
+    case 'sku':
+      return measureText(el, maxWidth, options);
+    case 'badge': {
+      const font: FontSpec = { fontSize: el.style.fontSize, fontWeight: 'bold' };
+      return {
+        element: el,
+        x: 0,
+        y: 0,
+        width: options.metrics.width(el.text, font) + el.style.paddingX * 2,
+        height: el.style.fontSize / PT_PER_INCH + el.style.paddingY * 2,
+      };
+    }
+    case 'divider':
+      return direction === 'row'
+        ? { element: el, x: 0, y: 0, width: el.style.thickness, height: 0 }
+        : { element: el, x: 0, y: 0, width: maxWidth, height: el.style.thickness };
+    case 'image':
+    case 'barcode':
+      return {
+        element: el,
+        x: 0,
+        y: 0,
+        width: Math.min(el.size.width, maxWidth),
+        height: el.size.height,
+      };
+    case 'qrcode':
+      return { element: el, x: 0, y: 0, width: el.size, height: el.size };
+    case 'container':
+      return layoutContainer(el, maxWidth, options);
+  }
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+/**
+ * Lay out a container at the given width. Children are positioned relative
+ * to the container; `height` fixes the container's height (used when a row
+ * stretches it), otherwise it wraps its content.
+ */
+export function layoutContainer(
+  el: ContainerElement,
+  width: number,
+  options: BoxLayoutOptions,
+  height?: number
+): BoxNode {
+  const padding = getBoxPadding(el.style);
+  const innerWidth = Math.max(width - padding.x * 2, 0);
+  const items = el.children.filter((child) => isBoxElement(child, options));
+  const totalGap = el.gap * Math.max(items.length - 1, 0);
+  let children: BoxNode[];
+  let contentHeight: number;
+
+  if (el.direction === 'row') {
+    children = [];
+    let used = 0;
+    for (const item of items) {
+      const node = measure(item, Math.max(innerWidth - used, 0), 'row', options);
+      children.push(node);
+      used += node.width + el.gap;
+    }
+    const crossSize =
+      height !== undefined
+        ? Math.max(height - padding.y * 2, 0)
+        : Math.max(0, ...children.map((node) => node.height));
+
+    children = children.map((node) => {
+      if (node.element.type === 'divider') return { ...node, height: crossSize };
+      if (el.align !== 'stretch') return node;
+      return node.element.type === 'container'
+        ? layoutContainer(node.element, node.width, options, crossSize)
+        : { ...node, height: crossSize };
+    });
+
+    const free = innerWidth - children.reduce((sum, node) => sum + node.width, 0) - totalGap;
+    const { start, spacing } = distribute(el.justify, free, children.length, el.gap);
+    let x = padding.x + start;
+    for (const node of children) {
+      node.x = x;
+      node.y = padding.y + alignOffset(el.align, crossSize - node.height);
+      x += node.width + spacing;
+    }
+    contentHeight = crossSize;
+  } else {
+    children = items.map((item) => {
+      const node = measure(item, innerWidth, 'column', options);
+      return el.align === 'stretch' ? { ...node, width: innerWidth } : node;
+    });
+    contentHeight = children.reduce((sum, node) => sum + node.height, 0) + totalGap;
+
+    const innerHeight = height !== undefined ? Math.max(height - padding.y * 2, 0) : contentHeight;
+    const { start, spacing } = distribute(
+      el.justify,
+      innerHeight - contentHeight,
+      children.length,
+      el.gap
+    );
+    let y = padding.y + start;
+    for (const node of children) {
+      node.x = padding.x + alignOffset(el.align, innerWidth - node.width);
+      node.y = y;
+      y += node.height + spacing;
+    }
+  }
+
+  return {
+    element: el,
+    x: 0,
+    y: 0,
+    width,
+    height: height ?? contentHeight + padding.y * 2,
+    children,
+  };
+}
@@ -69,6 +69,20 @@ export function findBrandIcon(value: string, brandIcons: BrandIcon[]): BrandIcon
   return brandIcons.find((icon) => icon.name.toLowerCase() === brand.toLowerCase()) || null;
 }
 
+/**
+ * Remove a brand's name from the start of component text, e.g. "NVIDIA RTX
+ * 4090" without NVIDIA is "RTX 4090". Text that doesn't start with the name
+ * is returned as is.
+ */
+export function stripBrandPrefix(text: string, brand: string): string {
+  const known = BRAND_PATTERNS.find((b) => b.brand.toLowerCase() === brand.toLowerCase());
+  // The first pattern of each brand is its name
+  const name = known
+    ? known.patterns[0].source
+    : brand.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s*');
+  return text.replace(new RegExp(`^\\s*(?:${name})(?!\\w)[\\s!,:-]*`, 'i'), '');
+}
+
 /**
  * Get list of all known brand names for the UI
  */
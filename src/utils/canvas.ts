@@ -0,0 +1,100 @@
+/**
+ * Canvas & image helpers that work on the main thread and in Web Workers
+ *
+ * The main thread uses DOM canvases and <img> elements. Workers have no DOM,
+ * so they fall back to OffscreenCanvas and ImageBitmap.
+ */
+
+export type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+/** A decoded image ready for jsPDF's addImage */
+export interface DecodedImage {
+  /** An <img> on the main thread; PNG bytes in a worker */
+  source: HTMLImageElement | Uint8Array;
+  width: number;
+  height: number;
+}
+
+/** True when running without a DOM (i.e. inside a worker) */
+export function isWorkerScope(): boolean {
+  return typeof document === 'undefined';
+}
+
+export function createCanvas(width: number = 300, height: number = 150): AnyCanvas {
+  if (!isWorkerScope()) {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  }
+  return new OffscreenCanvas(width, height);
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/** Encode a canvas; quality (0–1) applies to lossy formats */
+export function canvasToBlob(
+  canvas: AnyCanvas,
+  type: string = 'image/png',
+  quality?: number
+): Promise<Blob> {
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type, quality });
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error(`Could not encode ${type}`))),
+      type,
+      quality
+    );
+  });
+}
+
+export async function canvasToDataUrl(canvas: AnyCanvas): Promise<string> {
+  if ('toDataURL' in canvas) {
+    return canvas.toDataURL('image/png');
+  }
+  return blobToDataUrl(await canvas.convertToBlob({ type: 'image/png' }));
+}
+
+function decodeWithImageElement(src: string): Promise<DecodedImage> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ source: img, width: img.width, height: img.height });
+    img.onerror = (event) => reject(event);
+    img.src = src;
+  });
+}
+
+/** Decode any browser-supported format and re-encode it as PNG, which jsPDF can embed */
+async function decodeWithImageBitmap(src: string): Promise<DecodedImage> {
+  const response = await fetch(src);
+  const bitmap = await createImageBitmap(await response.blob());
+  try {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+    const png = await canvas.convertToBlob({ type: 'image/png' });
+    return {
+      source: new Uint8Array(await png.arrayBuffer()),
+      width: bitmap.width,
+      height: bitmap.height,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Load an image from a URL (usually a data URL).
+ * Rejects if the image cannot be decoded.
+ */
+export function decodeImage(src: string): Promise<DecodedImage> {
+  return isWorkerScope() ? decodeWithImageBitmap(src) : decodeWithImageElement(src);
+}
@@ -0,0 +1,381 @@
+/**
+ * Canvas Document - Draws CardLayouts onto a 2D canvas
+ *
+ * CanvasDocument implements PdfSurface, the part of the jsPDF API that
+ * renderToPdf uses, in inches, on top of a CanvasRenderingContext2D. Raster exports render
+ * through the same code path as PDFs, so both come out the same.
+ */
+
+import type { CardLayout } from './layoutSchema';
+import { renderLayoutToPdf, PdfSurface, RenderToPdfOptions } from './renderToPdf';
+import { createCanvas, AnyCanvas } from './canvas';
+import { getCustomFontCssFamily, getCustomFontPdfName } from './fontManager';
+
+type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/** jsPDF draw styles: fill, stroke, or both */
+type DrawStyle = 'F' | 'S' | 'FD' | 'DF' | null | undefined;
+
+const PT_PER_INCH = 72;
+
+/** CSS stacks for jsPDF's core fonts */
+const CORE_FONT_FAMILIES: Record<string, string> = {
+  helvetica: 'Helvetica, Arial, sans-serif',
+  times: '"Times New Roman", Times, serif',
+  courier: '"Courier New", Courier, monospace',
+};
+
+/** Average glyph width of the core fonts, as a fraction of font size */
+const FALLBACK_GLYPH_WIDTH = 0.52;
+
+const rgb = (r: number, g: number = r, b: number = r) => `rgb(${r}, ${g}, ${b})`;
+
+/**
+ * Word-wrap like jsPDF's splitTextToSize: explicit newlines are kept and
+ * words longer than a line are broken
+ */
+export function wrapText(
+  text: string,
+  maxWidth: number,
+  measure: (text: string) => number
+): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measure(candidate) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (line.length > 1 && measure(line) > maxWidth) {
+        let cut = line.length - 1;
+        while (cut > 1 && measure(line.slice(0, cut)) > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/** Width of text in CSS pixels for a CSS font shorthand */
+export type TextMeasurer = (text: string, font: string, fontSize: number) => number;
+
+/** Measure with a canvas where there is one, otherwise estimate */
+export function createTextMeasurer(): TextMeasurer {
+  let ctx: Canvas2D | null;
+  try {
+    ctx = createCanvas(1, 1).getContext('2d') as Canvas2D | null;
+  } catch {
+    ctx = null;
+  }
+  const context = ctx;
+
+  return (text, font, fontSize) => {
+    if (!context) return text.length * fontSize * FALLBACK_GLYPH_WIDTH;
+    context.font = font;
+    return context.measureText(text).width;
+  };
+}
+
+export class CanvasDocument implements PdfSurface {
+  private fillColor = rgb(0);
+  private strokeColor = rgb(0);
+  private textColor = rgb(0);
+  private fontSize = 16;
+  private fontName = 'helvetica';
+  private fontStyle = 'normal';
+  /** CSS font-family per jsPDF font name */
+  private readonly families: Record<string, string> = { ...CORE_FONT_FAMILIES };
+
+  constructor(
+    private readonly ctx: Canvas2D,
+    /** Canvas pixels per inch */
+    private readonly scale: number
+  ) {
+    ctx.textBaseline = 'alphabetic';
+    ctx.lineWidth = 0.01 * scale;
+  }
+
+  // --------------------------------------------------------------------------
+  // State
+  // --------------------------------------------------------------------------
+
+  setFillColor(r: number, g?: number, b?: number): this {
+    this.fillColor = rgb(r, g, b);
+    return this;
+  }
+
+  setDrawColor(r: number, g?: number, b?: number): this {
+    this.strokeColor = rgb(r, g, b);
+    return this;
+  }
+
+  setTextColor(r: number, g?: number, b?: number): this {
+    this.textColor = rgb(r, g, b);
+    return this;
+  }
+
+  setLineWidth(width: number): this {
+    this.ctx.lineWidth = width * this.scale;
+    return this;
+  }
+
+  setFontSize(size: number): this {
+    this.fontSize = size;
+    this.applyFont();
+    return this;
+  }
+
+  setFont(name: string, style: string = 'normal'): this {
+    this.fontName = name;
+    this.fontStyle = style;
+    this.applyFont();
+    return this;
+  }
+
+  /**
+   * Map a jsPDF font name to a CSS font-family. Custom fonts are drawn from
+   * their @font-face rules, so registering them here makes registerPdfFont
+   * skip the VFS.
+   */
+  registerFontFamily(fontName: string, cssFamily: string): void {
+    this.families[fontName] = cssFamily;
+  }
+
+  getFontList(): Record<string, string[]> {
+    return Object.fromEntries(Object.keys(this.families).map((name) => [name, ['normal']]));
+  }
+
+  addFileToVFS(): this {
+    return this;
+  }
+
+  addFont(): string {
+    return this.fontName;
+  }
+
+  private applyFont(): void {
+    const family = this.families[this.fontName] ?? `"${this.fontName}"`;
+    const italic = this.fontStyle.includes('italic') ? 'italic ' : '';
+    const bold = this.fontStyle.includes('bold') ? 'bold ' : '';
+    const px = (this.fontSize / PT_PER_INCH) * this.scale;
+    this.ctx.font = `${italic}${bold}${px}px ${family}`;
+  }
+
+  // --------------------------------------------------------------------------
+  // Text
+  // --------------------------------------------------------------------------
+
+  getTextWidth(text: string): number {
+    return this.ctx.measureText(text).width / this.scale;
+  }
+
+  splitTextToSize(text: string, maxWidth: number): string[] {
+    return wrapText(text, maxWidth, (line) => this.getTextWidth(line));
+  }
+
+  text(
+    text: string | string[],
+    x: number,
+    y: number,
+    options: { align?: 'left' | 'center' | 'right' } = {}
+  ): this {
+    const lines = Array.isArray(text) ? text : [text];
+    const lineHeight = ((this.fontSize * 1.15) / PT_PER_INCH) * this.scale;
+    this.ctx.fillStyle = this.textColor;
+    this.ctx.textAlign = options.align ?? 'left';
+    lines.forEach((line, i) => {
+      this.ctx.fillText(line, x * this.scale, y * this.scale + i * lineHeight);
+    });
+    return this;
+  }
+
+  // --------------------------------------------------------------------------
+  // Shapes
+  // --------------------------------------------------------------------------
+
+  private paint(style: DrawStyle): void {
+    if (style !== 'S') {
+      this.ctx.fillStyle = this.fillColor;
+      this.ctx.fill();
+    }
+    if (style === 'S' || style === 'FD' || style === 'DF' || !style) {
+      this.ctx.strokeStyle = this.strokeColor;
+      this.ctx.stroke();
+    }
+  }
+
+  rect(x: number, y: number, w: number, h: number, style?: DrawStyle): this {
+    const s = this.scale;
+    this.ctx.beginPath();
+    this.ctx.rect(x * s, y * s, w * s, h * s);
+    this.paint(style);
+    return this;
+  }
+
+  roundedRect(
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+    rx: number,
+    ry: number,
+    style?: DrawStyle
+  ): this {
+    const s = this.scale;
+    const r = Math.min(rx, ry, w / 2, h / 2) * s;
+    const [left, top, right, bottom] = [x * s, y * s, (x + w) * s, (y + h) * s];
+    this.ctx.beginPath();
+    this.ctx.moveTo(left + r, top);
+    this.ctx.arcTo(right, top, right, bottom, r);
+    this.ctx.arcTo(right, bottom, left, bottom, r);
+    this.ctx.arcTo(left, bottom, left, top, r);
+    this.ctx.arcTo(left, top, right, top, r);
+    this.ctx.closePath();
+    this.paint(style);
+    return this;
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number): this {
+    const s = this.scale;
+    this.ctx.beginPath();
+    this.ctx.moveTo(x1 * s, y1 * s);
+    this.ctx.lineTo(x2 * s, y2 * s);
+    this.paint('S');
+    return this;
+  }
+
+  /** Relative segments from (x, y): [dx, dy] lines or [c1x, c1y, c2x, c2y, dx, dy] curves */
+  lines(
+    segments: number[][],
+    x: number,
+    y: number,
+    scale: [number, number] = [1, 1],
+    style?: DrawStyle,
+    closed: boolean = false
+  ): this {
+    const s = this.scale;
+    let cx = x;
+    let cy = y;
+    this.ctx.beginPath();
+    this.ctx.moveTo(cx * s, cy * s);
+    for (const segment of segments) {
+      const d = segment.map((v, i) => v * scale[i % 2]);
+      if (d.length === 6) {
+        this.ctx.bezierCurveTo(
+          (cx + d[0]) * s,
+          (cy + d[1]) * s,
+          (cx + d[2]) * s,
+          (cy + d[3]) * s,
+          (cx + d[4]) * s,
+          (cy + d[5]) * s
+        );
+        cx += d[4];
+        cy += d[5];
+      } else {
+        cx += d[0];
+        cy += d[1];
+        this.ctx.lineTo(cx * s, cy * s);
+      }
+    }
+    if (closed) this.ctx.closePath();
+    this.paint(style);
+    return this;
+  }
+
+  circle(x: number, y: number, r: number, style?: DrawStyle): this {
+    const s = this.scale;
+    this.ctx.beginPath();
+    this.ctx.arc(x * s, y * s, r * s, 0, Math.PI * 2);
+    this.paint(style);
+    return this;
+  }
+
+  // --------------------------------------------------------------------------
+  // Images
+  // --------------------------------------------------------------------------
+
+  addImage(
+    source: CanvasImageSource | Uint8Array,
+    _format: string,
+    x: number,
+    y: number,
+    w: number,
+    h: number
+  ): this {
+    // Encoded bytes (from a worker decode) can't be drawn synchronously
+    if (source instanceof Uint8Array) return this;
+    const s = this.scale;
+    this.ctx.drawImage(source, x * s, y * s, w * s, h * s);
+    return this;
+  }
+}
+
+/**
+ * Render a layout onto a 2D context at the given pixels per inch
+ */
+export async function renderLayoutToCanvas(
+  layout: CardLayout,
+  ctx: Canvas2D,
+  pixelsPerInch: number,
+  options: RenderToPdfOptions = {}
+): Promise<void> {
+  const doc = new CanvasDocument(ctx, pixelsPerInch);
+  if (layout.customFont) {
+    doc.registerFontFamily(
+      getCustomFontPdfName(layout.customFont),
+      getCustomFontCssFamily(
+        layout.customFont,
+        CORE_FONT_FAMILIES[layout.pdfFontName] ?? CORE_FONT_FAMILIES.helvetica
+      )
+    );
+  }
+  await renderLayoutToPdf(layout, doc, { x: 0, y: 0 }, options);
+}
+
+/**
+ * Draw a layout onto a new width × height canvas, scaled to fit and centred.
+ * The canvas stays transparent unless a fill colour is given.
+ */
+export async function createLayoutCanvas(
+  layout: CardLayout,
+  width: number,
+  height: number,
+  options: RenderToPdfOptions & { fill?: string } = {}
+): Promise<AnyCanvas> {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d') as Canvas2D | null;
+  if (!ctx) {
+    throw new Error('Canvas 2D is not supported');
+  }
+
+  if (options.fill) {
+    ctx.fillStyle = options.fill;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  const { width: cardWidth, height: cardHeight } = layout.dimensions;
+  const pixelsPerInch = Math.min(width / cardWidth, height / cardHeight);
+  ctx.translate((width - cardWidth * pixelsPerInch) / 2, (height - cardHeight * pixelsPerInch) / 2);
+  await renderLayoutToCanvas(layout, ctx, pixelsPerInch, options);
+  return canvas;
+}
+
+/**
+ * Rasterize a layout to exactly width × height pixels on white
+ */
+export async function rasterizeLayout(
+  layout: CardLayout,
+  width: number,
+  height: number,
+  options: RenderToPdfOptions = {}
+): Promise<ImageData> {
+  const canvas = await createLayoutCanvas(layout, width, height, { ...options, fill: '#ffffff' });
+  const ctx = canvas.getContext('2d') as Canvas2D;
+  return ctx.getImageData(0, 0, width, height);
+}
@@ -0,0 +1,32 @@
+/**
+ * Card Backs - Which card sizes print with a back side, and how duplex
+ * sheets are turned over
+ *
+ * The back itself is built by buildCardBackLayout; single cards get it as
+ * the page after the front, multi-up sheets as a mirrored back sheet.
+ */
+
+import type { CardSize } from '../types';
+import type { DuplexFlip } from './imposition';
+
+export interface CardBackSettings {
+  /** Card sizes that print with a back side */
+  sizes: CardSize[];
+  /** How the printer turns multi-up sheets over */
+  flip: DuplexFlip;
+}
+
+export const DEFAULT_CARD_BACKS: CardBackSettings = {
+  sizes: [],
+  flip: 'long-edge',
+};
+
+export const DUPLEX_FLIP_OPTIONS: Array<{ value: DuplexFlip; label: string }> = [
+  { value: 'long-edge', label: 'Long edge' },
+  { value: 'short-edge', label: 'Short edge' },
+];
+
+/** True when cards of this size print with a back side */
+export function hasCardBack(settings: CardBackSettings | undefined, cardSize: CardSize): boolean {
+  return !!settings?.sizes.includes(cardSize);
+}
@@ -0,0 +1,220 @@
+/**
+ * Card Designs - User-made layouts for a card size
+ *
+ * A design places elements in fixed frames on the card instead of the
+ * built-in top-down flow. Most elements are bound to a part of the card
+ * (price, specs, SKU, ...) and show the config's values with the built-in
+ * styling, restyled by the design; custom text and dividers belong to the
+ * design itself. buildDesignLayout turns a design into a CardLayout that both
+ * renderers draw.
+ *
+ * All measurements are in inches.
+ */
+
+import type { CardSize, ThemeColors } from '../types';
+import type { Frame, HexColor, TextAlign } from './layoutSchema';
+import type { LayoutConfigOverrides } from './pdfLayouts';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * What a design element shows. Bound elements use the role of the built-in
+ * element they come from (see getElementRole).
+ */
+export type DesignBinding =
+  | 'header'
+  | 'logo'
+  | 'model'
+  | 'badges'
+  | 'price'
+  | 'financing'
+  | 'features'
+  | 'specs'
+  | 'infobar'
+  | 'description'
+  | 'product-image'
+  | 'qrcode'
+  | 'barcode'
+  | 'sku'
+  | 'text'
+  | 'image'
+  | 'divider';
+
+/** Style overrides; each applies where the element has a matching property */
+export interface DesignElementStyle {
+  fontSize?: number;
+  color?: HexColor;
+  backgroundColor?: HexColor;
+  align?: TextAlign;
+}
+
+export interface DesignElement {
+  id: string;
+  binding: DesignBinding;
+  frame: Frame;
+  visible: boolean;
+  style: DesignElementStyle;
+  /** Text of a custom text element */
+  text?: string;
+  /** Asset shown by a custom image element */
+  assetId?: string;
+}
+
+/** An image kept with the design, so it travels with it */
+export interface DesignAsset {
+  name: string;
+  /** Image as a data URL */
+  data: string;
+}
+
+export interface CardDesign {
+  id: string;
+  name: string;
+  cardSize: CardSize;
+  /** Drawn in order, so later elements sit on top */
+  elements: DesignElement[];
+  /** Layout config values to replace, after the size's scaling */
+  layout?: LayoutConfigOverrides;
+  /** Theme colors to use instead of the config's */
+  theme?: Partial<ThemeColors>;
+  /** Images used by custom image elements, by asset id */
+  assets?: Record<string, DesignAsset>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// ============================================================================
+// BINDINGS
+// ============================================================================
+
+/** Name and starting height of each binding; heights are for a 6" tall card */
+export const DESIGN_BINDINGS: Record<DesignBinding, { label: string; height: number }> = {
+  header: { label: 'Store name', height: 0.4 },
+  logo: { label: 'Store logo', height: 0.4 },
+  model: { label: 'Model name', height: 0.4 },
+  badges: { label: 'Badges', height: 0.2 },
+  price: { label: 'Price', height: 0.6 },
+  financing: { label: 'Financing', height: 0.2 },
+  features: { label: 'Feature badges', height: 0.3 },
+  specs: { label: 'Specs', height: 1.5 },
+  infobar: { label: 'Info bar', height: 0.35 },
+  description: { label: 'Description', height: 0.5 },
+  'product-image': { label: 'Product image', height: 1 },
+  qrcode: { label: 'QR code', height: 0.6 },
+  barcode: { label: 'Barcode', height: 0.35 },
+  sku: { label: 'SKU', height: 0.15 },
+  text: { label: 'Custom text', height: 0.25 },
+  image: { label: 'Custom image', height: 1 },
+  divider: { label: 'Divider', height: 0.02 },
+};
+
+/** Card height the binding heights are given for */
+const REFERENCE_HEIGHT = 6;
+
+/** Smallest frame edge, so elements can still be grabbed */
+export const MIN_FRAME_SIZE = 0.05;
+
+/** Default text for a new custom text element */
+const DEFAULT_TEXT = 'Your text';
+
+/** Inset of new elements from the card edge */
+const NEW_ELEMENT_MARGIN = 0.1;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const generateId = (prefix: string): string =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+/** A new, unique design id */
+export function createDesignId(): string {
+  return generateId('design');
+}
+
+/** The design in use for a card size, if any */
+export function getDesignForSize(
+  designs: CardDesign[] | undefined,
+  cardSize: CardSize
+): CardDesign | undefined {
+  return designs?.find((design) => design.cardSize === cardSize);
+}
+
+/**
+ * Keep a frame on the card and at least MIN_FRAME_SIZE in each direction
+ */
+export function clampFrame(frame: Frame, cardWidth: number, cardHeight: number): Frame {
+  const width = Math.min(Math.max(frame.width, MIN_FRAME_SIZE), cardWidth);
+  const height = Math.min(Math.max(frame.height, MIN_FRAME_SIZE), cardHeight);
+  return {
+    x: Math.min(Math.max(frame.x, 0), cardWidth - width),
+    y: Math.min(Math.max(frame.y, 0), cardHeight - height),
+    width,
+    height,
+  };
+}
+
+/**
+ * A new element spanning the card's width, placed at `y`, with a starting
+ * height scaled to the card
+ */
+export function createDesignElement(
+  binding: DesignBinding,
+  cardWidth: number,
+  cardHeight: number,
+  y: number = NEW_ELEMENT_MARGIN
+): DesignElement {
+  return {
+    id: generateId('element'),
+    binding,
+    frame: clampFrame(
+      {
+        x: NEW_ELEMENT_MARGIN,
+        y,
+        width: cardWidth - NEW_ELEMENT_MARGIN * 2,
+        height: (DESIGN_BINDINGS[binding].height * cardHeight) / REFERENCE_HEIGHT,
+      },
+      cardWidth,
+      cardHeight
+    ),
+    visible: true,
+    style: {},
+    ...(binding === 'text' && { text: DEFAULT_TEXT }),
+  };
+}
+
+/**
+ * A new design with the main parts of a card stacked top to bottom
+ */
+export function createDesign(
+  name: string,
+  cardSize: CardSize,
+  cardWidth: number,
+  cardHeight: number
+): CardDesign {
+  const bindings: DesignBinding[] = ['header', 'model', 'badges', 'price', 'specs', 'sku'];
+  const elements: DesignElement[] = [];
+  let y = 0;
+  for (const binding of bindings) {
+    const element = createDesignElement(binding, cardWidth, cardHeight, y);
+    // The header runs edge to edge
+    if (binding === 'header') {
+      element.frame = { ...element.frame, x: 0, width: cardWidth };
+    }
+    elements.push(element);
+    y =
+      element.frame.y + element.frame.height + (NEW_ELEMENT_MARGIN * cardHeight) / REFERENCE_HEIGHT;
+  }
+
+  const now = Date.now();
+  return {
+    id: createDesignId(),
+    name,
+    cardSize,
+    elements,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * Card Size Registry - Built-in and user-defined card sizes
+ *
+ * Built-in sizes (shelf, price, poster) have hand-tuned layouts. A custom
+ * size borrows the layout of the built-in size closest in area and scales
+ * it so the content still fits, e.g. an A4 poster uses the poster layout.
+ */
+
+import type {
+  BuiltInCardSize,
+  CardSize,
+  CardSizeUnit,
+  CustomCardSize,
+  CustomCardSizeId,
+} from '../types';
+import { CARD_SIZES } from '../types';
+import {
+  applyLayoutOverrides,
+  getLayoutConfig,
+  scaleLayoutConfig,
+  LayoutConfig,
+  LayoutConfigOverrides,
+} from './pdfLayouts';
+import { logger } from './logger';
+
+const MM_PER_INCH = 25.4;
+
+const BUILT_IN_SIZES = Object.keys(CARD_SIZES) as BuiltInCardSize[];
+
+/** A card size resolved to inches, with the layout it is drawn from */
+export interface ResolvedCardSize {
+  id: CardSize;
+  name: string;
+  description: string;
+  /** Width in inches, after orientation */
+  width: number;
+  /** Height in inches, after orientation */
+  height: number;
+  /** Built-in size whose layout is used */
+  baseSize: BuiltInCardSize;
+  /** Factor applied to the base layout's measurements and font sizes */
+  scale: number;
+}
+
+// ============================================================================
+// UNITS
+// ============================================================================
+
+export function toInches(value: number, unit: CardSizeUnit): number {
+  return unit === 'mm' ? value / MM_PER_INCH : value;
+}
+
+/** Human-readable dimensions in the size's own unit, e.g. `3.5" × 2"` or `210 × 297 mm` */
+export function formatCardSizeDimensions(
+  width: number,
+  height: number,
+  unit: CardSizeUnit
+): string {
+  const round = (n: number) => Math.round(n * 100) / 100;
+  return unit === 'mm'
+    ? `${round(width)} × ${round(height)} mm`
+    : `${round(width)}" × ${round(height)}"`;
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+export function isCustomCardSize(cardSize: CardSize): cardSize is CustomCardSizeId {
+  return cardSize.startsWith('custom-');
+}
+
+/** Width and height of a custom size in inches, swapped to match its orientation */
+export function getCustomSizeDimensions(size: CustomCardSize): { width: number; height: number } {
+  const a = toInches(size.width, size.unit);
+  const b = toInches(size.height, size.unit);
+  const short = Math.min(a, b);
+  const long = Math.max(a, b);
+  return size.orientation === 'landscape'
+    ? { width: long, height: short }
+    : { width: short, height: long };
+}
+
+/** Built-in size whose area is closest (by ratio) to the given dimensions */
+export function getClosestBuiltInSize(width: number, height: number): BuiltInCardSize {
+  const area = width * height;
+  let closest: BuiltInCardSize = 'price';
+  let bestDistance = Infinity;
+  for (const size of BUILT_IN_SIZES) {
+    const distance = Math.abs(Math.log(area / (CARD_SIZES[size].width * CARD_SIZES[size].height)));
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      closest = size;
+    }
+  }
+  return closest;
+}
+
+function resolveBuiltInSize(cardSize: BuiltInCardSize): ResolvedCardSize {
+  const { name, description, width, height } = CARD_SIZES[cardSize];
+  return { id: cardSize, name, description, width, height, baseSize: cardSize, scale: 1 };
+}
+
+function resolveCustomSize(size: CustomCardSize): ResolvedCardSize {
+  const { width, height } = getCustomSizeDimensions(size);
+  const baseSize = getClosestBuiltInSize(width, height);
+  const base = CARD_SIZES[baseSize];
+  return {
+    id: size.id,
+    name: size.name,
+    description: `Custom size, based on the ${base.name.toLowerCase()} layout`,
+    width,
+    height,
+    baseSize,
+    // Scale by the tighter dimension so the base layout's content still fits
+    scale: Math.min(width / base.width, height / base.height),
+  };
+}
+
+/**
+ * Resolve any card size id. Custom sizes that no longer exist fall back to
+ * the price card.
+ */
+export function resolveCardSize(
+  cardSize: CardSize,
+  customSizes: CustomCardSize[] = []
+): ResolvedCardSize {
+  if (!isCustomCardSize(cardSize)) {
+    return resolveBuiltInSize(cardSize in CARD_SIZES ? cardSize : 'price');
+  }
+
+  const custom = customSizes.find((s) => s.id === cardSize);
+  if (!custom) {
+    logger.debug('CardSizes', 'Custom card size not found, using price card', { cardSize });
+    return resolveBuiltInSize('price');
+  }
+  return resolveCustomSize(custom);
+}
+
+/** Every size a user can pick: built-ins first, then custom sizes */
+export function getCardSizeOptions(customSizes: CustomCardSize[] = []): ResolvedCardSize[] {
+  return [...BUILT_IN_SIZES.map(resolveBuiltInSize), ...customSizes.map(resolveCustomSize)];
+}
+
+/**
+ * Layout configuration for a resolved size (the base layout, scaled), with
+ * any overrides applied to the scaled values
+ */
+export function getSizeLayoutConfig(
+  size: Pick<ResolvedCardSize, 'baseSize' | 'scale'>,
+  overrides?: LayoutConfigOverrides
+): LayoutConfig {
+  return applyLayoutOverrides(
+    scaleLayoutConfig(getLayoutConfig(size.baseSize), size.scale),
+    overrides
+  );
+}
@@ -0,0 +1,485 @@
+/**
+ * Card Templates - Portable .cardtemplate.json files for card designs
+ *
+ * A template file holds everything needed to use a design in another copy
+ * of the app: its elements and their bindings, the card size it was made
+ * for, layout config overrides, theme colors and the images it uses. Files
+ * carry a version; older versions are migrated on import, and the validator
+ * reports each problem with the path of the value at fault, e.g.
+ * `elements[2].frame.width`.
+ *
+ * All measurements are in inches.
+ */
+
+import type { CardSize, CustomCardSize, ThemeColors } from '../types';
+import { CARD_SIZES } from '../types';
+import {
+  CardDesign,
+  DesignAsset,
+  DesignElement,
+  DESIGN_BINDINGS,
+  createDesignId,
+} from './cardDesigns';
+import { formatCardSizeDimensions, getCardSizeOptions, resolveCardSize } from './cardSizes';
+import { getLayoutConfig, LayoutConfigOverrides } from './pdfLayouts';
+import { validateImageDataUrl } from './validation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/** Value of a template file's `format` field */
+export const CARD_TEMPLATE_FORMAT = 'prebuild-card-template';
+
+/** Version written by this copy of the app */
+export const CARD_TEMPLATE_VERSION = 1;
+
+export const CARD_TEMPLATE_EXTENSION = '.cardtemplate.json';
+
+/** The card size a template was made for */
+export interface CardTemplateSize {
+  /** Size id where the template was made; custom ids only mean something there */
+  id: CardSize;
+  name: string;
+  width: number;
+  height: number;
+}
+
+export interface CardTemplateFile {
+  format: typeof CARD_TEMPLATE_FORMAT;
+  version: number;
+  name: string;
+  size: CardTemplateSize;
+  elements: DesignElement[];
+  layout?: LayoutConfigOverrides;
+  theme?: Partial<ThemeColors>;
+  /** Images used by custom image elements, by asset id */
+  assets?: Record<string, DesignAsset>;
+}
+
+export interface TemplateIssue {
+  /** Where the problem is, e.g. `elements[0].frame.x`; empty for the whole file */
+  path: string;
+  message: string;
+}
+
+export type CardTemplateValidation =
+  | { valid: true; template: CardTemplateFile }
+  | { valid: false; errors: TemplateIssue[] };
+
+export interface CardTemplateImportResult {
+  /** The imported design, or null when the file has errors */
+  design: CardDesign | null;
+  errors: TemplateIssue[];
+}
+
+/** How far a size may differ from the template's and still match */
+const SIZE_TOLERANCE = 0.01;
+
+const THEME_KEYS: (keyof ThemeColors)[] = ['primary', 'accent', 'priceColor'];
+
+const ALIGNMENTS = ['left', 'center', 'right'];
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Describe a design as a template file. Only the assets its elements use
+ * are included.
+ */
+export function exportCardTemplate(
+  design: CardDesign,
+  customSizes: CustomCardSize[] = []
+): CardTemplateFile {
+  const size = resolveCardSize(design.cardSize, customSizes);
+  const used = new Set(design.elements.map((el) => el.assetId));
+  const assets = Object.entries(design.assets ?? {}).filter(([id]) => used.has(id));
+
+  return {
+    format: CARD_TEMPLATE_FORMAT,
+    version: CARD_TEMPLATE_VERSION,
+    name: design.name,
+    size: { id: design.cardSize, name: size.name, width: size.width, height: size.height },
+    elements: design.elements,
+    ...(design.layout && { layout: design.layout }),
+    ...(design.theme && { theme: design.theme }),
+    ...(assets.length > 0 && { assets: Object.fromEntries(assets) }),
+  };
+}
+
+export function serializeCardTemplate(
+  design: CardDesign,
+  customSizes: CustomCardSize[] = []
+): string {
+  return JSON.stringify(exportCardTemplate(design, customSizes), null, 2);
+}
+
+/** File name for a template, e.g. "Gaming-Price-Card.cardtemplate.json" */
+export function getTemplateFilename(name: string): string {
+  return `${name.trim().replace(/\s+/g, '-') || 'Card-Template'}${CARD_TEMPLATE_EXTENSION}`;
+}
+
+// ============================================================================
+// MIGRATION
+// ============================================================================
+
+type TemplateData = Record<string, unknown>;
+
+function isRecord(value: unknown): value is TemplateData {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Upgrades from each older version to the next one. Version 0 is a bare
+ * saved design, as copied out of browser storage before template files
+ * existed; its size is looked up by id.
+ */
+const MIGRATIONS: Record<
+  number,
+  (data: TemplateData, customSizes: CustomCardSize[]) => TemplateData
+> = {
+  0: (data, customSizes) => {
+    const id = String(data.cardSize);
+    const known =
+      id in CARD_SIZES || customSizes.some((size) => size.id === id)
+        ? resolveCardSize(id as CardSize, customSizes)
+        : null;
+    return {
+      format: CARD_TEMPLATE_FORMAT,
+      version: 1,
+      name: data.name,
+      size: known
+        ? { id, name: known.name, width: known.width, height: known.height }
+        : { id, name: id },
+      elements: data.elements,
+      ...(data.layout !== undefined && { layout: data.layout }),
+      ...(data.theme !== undefined && { theme: data.theme }),
+      ...(data.assets !== undefined && { assets: data.assets }),
+    };
+  },
+};
+
+/** Version of parsed template data; bare designs count as version 0 */
+function getTemplateVersion(data: TemplateData): number | null {
+  if (data.format === undefined && 'cardSize' in data && 'elements' in data) return 0;
+  return typeof data.version === 'number' ? data.version : null;
+}
+
+/**
+ * Bring parsed template data up to the current version. Data that isn't a
+ * template, or is newer than this app, is returned as is for the validator
+ * to report.
+ */
+export function migrateCardTemplate(data: unknown, customSizes: CustomCardSize[] = []): unknown {
+  if (!isRecord(data)) return data;
+  let migrated = data;
+  let version = getTemplateVersion(migrated);
+  while (version !== null && version < CARD_TEMPLATE_VERSION && MIGRATIONS[version]) {
+    migrated = MIGRATIONS[version](migrated, customSizes);
+    version = getTemplateVersion(migrated);
+  }
+  return migrated;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function describeValue(value: unknown): string {
+  if (value === undefined) return 'nothing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'a list';
+  return typeof value === 'object' ? 'an object' : `${typeof value} ${JSON.stringify(value)}`;
+}
+
+class TemplateChecker {
+  readonly errors: TemplateIssue[] = [];
+
+  fail(path: string, message: string): void {
+    this.errors.push({ path, message });
+  }
+
+  record(value: unknown, path: string): value is TemplateData {
+    if (isRecord(value)) return true;
+    this.fail(path, `Expected an object, found ${describeValue(value)}`);
+    return false;
+  }
+
+  string(value: unknown, path: string, { required = false } = {}): value is string {
+    if (typeof value === 'string' && (!required || value.trim())) return true;
+    this.fail(
+      path,
+      typeof value === 'string'
+        ? 'Must not be empty'
+        : `Expected text, found ${describeValue(value)}`
+    );
+    return false;
+  }
+
+  number(value: unknown, path: string, { min = -Infinity, positive = false } = {}): boolean {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(path, `Expected a number, found ${describeValue(value)}`);
+      return false;
+    }
+    if (positive ? value <= 0 : value < min) {
+      this.fail(path, positive ? 'Must be greater than 0' : `Must be at least ${min}`);
+      return false;
+    }
+    return true;
+  }
+
+  color(value: unknown, path: string): void {
+    if (typeof value !== 'string' || !/^#[0-9a-f]{6}$/i.test(value)) {
+      this.fail(path, `Expected a color like #1a2b3c, found ${describeValue(value)}`);
+    }
+  }
+}
+
+function checkSize(check: TemplateChecker, size: unknown): size is CardTemplateSize {
+  if (!check.record(size, 'size')) return false;
+  const before = check.errors.length;
+  if (check.string(size.id, 'size.id', { required: true })) {
+    if (!(size.id in CARD_SIZES) && !size.id.startsWith('custom-')) {
+      check.fail('size.id', `Unknown card size "${size.id}"`);
+    }
+  }
+  check.string(size.name, 'size.name');
+  check.number(size.width, 'size.width', { positive: true });
+  check.number(size.height, 'size.height', { positive: true });
+  return check.errors.length === before;
+}
+
+function checkElement(
+  check: TemplateChecker,
+  el: unknown,
+  path: string,
+  size: CardTemplateSize | null,
+  assets: unknown
+): void {
+  if (!check.record(el, path)) return;
+  check.string(el.id, `${path}.id`, { required: true });
+  if (check.string(el.binding, `${path}.binding`, { required: true })) {
+    if (!(el.binding in DESIGN_BINDINGS)) {
+      check.fail(`${path}.binding`, `Unknown binding "${el.binding}"`);
+    }
+  }
+  if (typeof el.visible !== 'boolean') {
+    check.fail(`${path}.visible`, `Expected true or false, found ${describeValue(el.visible)}`);
+  }
+
+  if (check.record(el.frame, `${path}.frame`)) {
+    const { frame } = el;
+    const x = check.number(frame.x, `${path}.frame.x`, { min: 0 });
+    const y = check.number(frame.y, `${path}.frame.y`, { min: 0 });
+    const width = check.number(frame.width, `${path}.frame.width`, { positive: true });
+    const height = check.number(frame.height, `${path}.frame.height`, { positive: true });
+    if (
+      size &&
+      x &&
+      width &&
+      (frame.x as number) + (frame.width as number) > size.width + SIZE_TOLERANCE
+    ) {
+      check.fail(`${path}.frame`, "Runs past the card's right edge");
+    }
+    if (
+      size &&
+      y &&
+      height &&
+      (frame.y as number) + (frame.height as number) > size.height + SIZE_TOLERANCE
+    ) {
+      check.fail(`${path}.frame`, "Runs past the card's bottom edge");
+    }
+  }
+
+  if (check.record(el.style, `${path}.style`)) {
+    const { style } = el;
+    if (style.fontSize !== undefined) {
+      check.number(style.fontSize, `${path}.style.fontSize`, { positive: true });
+    }
+    if (style.color !== undefined) check.color(style.color, `${path}.style.color`);
+    if (style.backgroundColor !== undefined) {
+      check.color(style.backgroundColor, `${path}.style.backgroundColor`);
+    }
+    if (style.align !== undefined && !ALIGNMENTS.includes(style.align as string)) {
+      check.fail(`${path}.style.align`, `Expected ${ALIGNMENTS.join(', ')} or nothing`);
+    }
+  }
+
+  if (el.text !== undefined) check.string(el.text, `${path}.text`);
+  if (el.binding === 'image' || el.assetId !== undefined) {
+    if (check.string(el.assetId, `${path}.assetId`, { required: true })) {
+      if (!isRecord(assets) || !(el.assetId in assets)) {
+        check.fail(`${path}.assetId`, `No asset "${el.assetId}" in the template`);
+      }
+    }
+  }
+}
+
+/** Check layout overrides against the shape of a layout config */
+function checkLayout(check: TemplateChecker, layout: unknown): void {
+  if (!check.record(layout, 'layout')) return;
+  const reference = getLayoutConfig('price') as unknown as TemplateData;
+  for (const [key, value] of Object.entries(layout)) {
+    const path = `layout.${key}`;
+    const expected = reference[key];
+    if (expected === undefined) {
+      check.fail(path, 'Not a layout setting');
+    } else if (isRecord(expected)) {
+      if (!check.record(value, path)) continue;
+      for (const [field, fieldValue] of Object.entries(value)) {
+        if (!(field in expected)) {
+          check.fail(`${path}.${field}`, 'Not a layout setting');
+        } else if (typeof fieldValue !== typeof expected[field]) {
+          check.fail(
+            `${path}.${field}`,
+            `Expected a ${typeof expected[field]}, found ${describeValue(fieldValue)}`
+          );
+        }
+      }
+    } else if (typeof value !== typeof expected) {
+      check.fail(path, `Expected a ${typeof expected}, found ${describeValue(value)}`);
+    }
+  }
+}
+
+function checkTheme(check: TemplateChecker, theme: unknown): void {
+  if (!check.record(theme, 'theme')) return;
+  for (const [key, value] of Object.entries(theme)) {
+    if (THEME_KEYS.includes(key as keyof ThemeColors)) {
+      check.color(value, `theme.${key}`);
+    } else {
+      check.fail(`theme.${key}`, `Expected one of ${THEME_KEYS.join(', ')}`);
+    }
+  }
+}
+
+function checkAssets(check: TemplateChecker, assets: unknown): void {
+  if (!check.record(assets, 'assets')) return;
+  for (const [id, asset] of Object.entries(assets)) {
+    const path = `assets.${id}`;
+    if (!check.record(asset, path)) continue;
+    check.string(asset.name, `${path}.name`);
+    if (check.string(asset.data, `${path}.data`, { required: true })) {
+      const result = validateImageDataUrl(asset.data);
+      if (!result.valid) check.fail(`${path}.data`, result.error ?? 'Invalid image data');
+    }
+  }
+}
+
+/**
+ * Check that parsed data is a current-version template file. Run
+ * migrateCardTemplate first to accept older versions.
+ */
+export function validateCardTemplate(data: unknown): CardTemplateValidation {
+  const check = new TemplateChecker();
+  if (!check.record(data, '')) return { valid: false, errors: check.errors };
+
+  if (data.format !== CARD_TEMPLATE_FORMAT) {
+    check.fail('format', `Not a card template (expected "${CARD_TEMPLATE_FORMAT}")`);
+    return { valid: false, errors: check.errors };
+  }
+  const version = getTemplateVersion(data);
+  if (version === null || !Number.isInteger(version) || version < 0) {
+    check.fail('version', `Expected a version number, found ${describeValue(data.version)}`);
+    return { valid: false, errors: check.errors };
+  }
+  if (version > CARD_TEMPLATE_VERSION) {
+    check.fail(
+      'version',
+      `Made by a newer version of the app (template version ${version}); update the app to import it`
+    );
+    return { valid: false, errors: check.errors };
+  }
+
+  check.string(data.name, 'name', { required: true });
+  const size = checkSize(check, data.size) ? data.size : null;
+  if (Array.isArray(data.elements)) {
+    const ids = new Set<unknown>();
+    data.elements.forEach((el, index) => {
+      const path = `elements[${index}]`;
+      checkElement(check, el, path, size, data.assets);
+      if (isRecord(el) && typeof el.id === 'string') {
+        if (ids.has(el.id)) check.fail(`${path}.id`, `Duplicate element id "${el.id}"`);
+        ids.add(el.id);
+      }
+    });
+  } else {
+    check.fail('elements', `Expected a list, found ${describeValue(data.elements)}`);
+  }
+  if (data.layout !== undefined) checkLayout(check, data.layout);
+  if (data.theme !== undefined) checkTheme(check, data.theme);
+  if (data.assets !== undefined) checkAssets(check, data.assets);
+
+  return check.errors.length === 0
+    ? { valid: true, template: data as unknown as CardTemplateFile }
+    : { valid: false, errors: check.errors };
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * The local size matching a template's size: the same id with the same
+ * dimensions, otherwise any size with the same dimensions
+ */
+function findCardSize(size: CardTemplateSize, customSizes: CustomCardSize[]): CardSize | null {
+  const options = getCardSizeOptions(customSizes).filter(
+    (option) =>
+      Math.abs(option.width - size.width) <= SIZE_TOLERANCE &&
+      Math.abs(option.height - size.height) <= SIZE_TOLERANCE
+  );
+  return (options.find((option) => option.id === size.id) ?? options[0])?.id ?? null;
+}
+
+/**
+ * Read a template file into a new design. The design is placed on the
+ * local size with the template's dimensions; when there is none, the
+ * import fails so the size can be added first.
+ */
+export function importCardTemplate(
+  json: string,
+  customSizes: CustomCardSize[] = []
+): CardTemplateImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { design: null, errors: [{ path: '', message: 'The file is not valid JSON' }] };
+  }
+
+  const result = validateCardTemplate(migrateCardTemplate(data, customSizes));
+  if (!result.valid) return { design: null, errors: result.errors };
+  const { template } = result;
+
+  const cardSize = findCardSize(template.size, customSizes);
+  if (!cardSize) {
+    const dimensions = formatCardSizeDimensions(template.size.width, template.size.height, 'in');
+    return {
+      design: null,
+      errors: [
+        {
+          path: 'size',
+          message: `No card size here is ${dimensions}; add it under Custom Card Sizes and import again`,
+        },
+      ],
+    };
+  }
+
+  const now = Date.now();
+  return {
+    design: {
+      id: createDesignId(),
+      name: template.name.trim(),
+      cardSize,
+      elements: template.elements,
+      ...(template.layout && { layout: template.layout }),
+      ...(template.theme && { theme: template.theme }),
+      ...(template.assets && { assets: template.assets }),
+      createdAt: now,
+      updatedAt: now,
+    },
+    errors: [],
+  };
+}
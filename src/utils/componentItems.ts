@@ -0,0 +1,130 @@
+/**
+ * Component Items - A build's components as priced line items
+ *
+ * Each category has a main slot in config.components. Builds with two drives,
+ * a fan kit or a capture card add further line items of any category in
+ * config.extraComponents. Every line item has its own price in
+ * config.componentPrices: main slots under their category, further items
+ * under their id.
+ */
+
+import { COMPONENT_LABELS } from '../types';
+import type {
+  ComponentCategory,
+  ComponentItem,
+  ComponentItemId,
+  ComponentPrices,
+  ComponentSpec,
+  PrebuildConfig,
+} from '../types';
+import { defaultComponentPrices, defaultComponents } from '../data/componentOptions';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/** One component of a build, from a main slot or a further line item */
+export interface ComponentLine {
+  /** The category for a main slot, the item id otherwise */
+  id: ComponentCategory | ComponentItemId;
+  category: ComponentCategory;
+  value: string;
+  price: number;
+}
+
+type ComponentSource = Pick<PrebuildConfig, 'components' | 'componentPrices' | 'extraComponents'>;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** All categories, in the order forms, cards and exports list them */
+export const COMPONENT_CATEGORIES = Object.keys(COMPONENT_LABELS) as ComponentCategory[];
+
+/** Joins a category's line items where they share one line, e.g. on cards */
+export const COMPONENT_VALUE_SEPARATOR = ' + ';
+
+// ============================================================================
+// LINE ITEMS
+// ============================================================================
+
+export function createComponentItemId(): ComponentItemId {
+  return `item-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export function isComponentCategory(key: string): key is ComponentCategory {
+  return key in COMPONENT_LABELS;
+}
+
+/**
+ * A build's components with a value, category by category: each main slot
+ * followed by the further items of its category. Pass a category to get only
+ * its items.
+ */
+export function getComponentLines(
+  config: ComponentSource,
+  category?: ComponentCategory
+): ComponentLine[] {
+  const prices: Partial<ComponentPrices> = config.componentPrices ?? {};
+  const categories = category ? [category] : COMPONENT_CATEGORIES;
+
+  return categories.flatMap((cat) => {
+    const main: ComponentLine = {
+      id: cat,
+      category: cat,
+      value: config.components?.[cat] ?? '',
+      price: prices[cat] ?? 0,
+    };
+    const extras = (config.extraComponents ?? [])
+      .filter((item) => item.category === cat)
+      .map((item) => ({ ...item, price: prices[item.id] ?? 0 }));
+    return [main, ...extras].filter((line) => line.value);
+  });
+}
+
+/** The values of a category's line items */
+export function getComponentValues(config: ComponentSource, category: ComponentCategory): string[] {
+  return getComponentLines(config, category).map((line) => line.value);
+}
+
+/** A category's line items on one line; empty when it has none */
+export function getComponentText(config: ComponentSource, category: ComponentCategory): string {
+  return getComponentValues(config, category).join(COMPONENT_VALUE_SEPARATOR);
+}
+
+/** What a category's line items cost together */
+export function getComponentPrice(config: ComponentSource, category: ComponentCategory): number {
+  return getComponentLines(config, category).reduce((total, line) => total + line.price, 0);
+}
+
+// ============================================================================
+// MIGRATION
+// ============================================================================
+
+/**
+ * Bring a config saved before the current categories up to date: missing
+ * categories get empty slots and zero prices, and further items of unknown
+ * categories are dropped along with their prices.
+ */
+export function migrateComponents<T extends Partial<PrebuildConfig>>(config: T): T {
+  if (!config.components) return config;
+
+  const components: ComponentSpec = { ...defaultComponents, ...config.components };
+  const extraComponents: ComponentItem[] = (config.extraComponents ?? []).filter((item) =>
+    isComponentCategory(item.category)
+  );
+  const componentPrices: ComponentPrices = { ...defaultComponentPrices };
+  for (const [key, price] of Object.entries(config.componentPrices ?? {})) {
+    const known = isComponentCategory(key) || extraComponents.some((item) => item.id === key);
+    if (known && price !== undefined) {
+      (componentPrices as Record<string, number>)[key] = price;
+    }
+  }
+
+  return {
+    ...config,
+    components,
+    componentPrices,
+    ...(config.extraComponents && { extraComponents }),
+  };
+}
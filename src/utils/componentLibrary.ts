@@ -28,6 +28,10 @@ export const CATEGORY_BRANDS: Record<ComponentCategory, string[]> = {
   psu: ['Corsair', 'Seasonic', 'EVGA', 'be quiet!', 'Thermaltake', 'Cooler Master'],
   case: ['Lian Li', 'NZXT', 'Corsair', 'Fractal Design', 'Phanteks', 'be quiet!', 'Cooler Master'],
   cooling: ['Noctua', 'Corsair', 'NZXT', 'be quiet!', 'Arctic', 'Cooler Master', 'EK'],
+  fans: ['Noctua', 'Lian Li', 'Corsair', 'Arctic', 'be quiet!', 'Phanteks'],
+  expansion: ['Elgato', 'Intel', 'TP-Link', 'ASUS', 'Creative'],
+  peripherals: ['Logitech', 'Razer', 'Corsair', 'SteelSeries', 'HyperX'],
+  monitor: ['ASUS', 'LG', 'Samsung', 'Dell', 'MSI', 'Gigabyte', 'AOC'],
 };
 
 // Model lines by brand for smart suggestions
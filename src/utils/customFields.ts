@@ -0,0 +1,89 @@
+/**
+ * Custom Fields - Store-defined fields on top of PrebuildConfig
+ *
+ * A store defines typed fields ("Included Monitor", "Assembly Time",
+ * "Bluetooth") once; every build then carries its own value for each in
+ * config.customFields. Values are parsed from form inputs and CSV cells by
+ * the field's type, and formatted the same way for cards and CSV exports.
+ */
+
+import type {
+  CustomFieldDefinition,
+  CustomFieldId,
+  CustomFieldValue,
+  PrebuildConfig,
+} from '../types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldDefinition['type'], string> = {
+  text: 'Text',
+  number: 'Number',
+  boolean: 'Yes / No',
+  enum: 'Choice',
+};
+
+const TRUE_VALUES = ['yes', 'y', 'true', '1', 'x'];
+const FALSE_VALUES = ['no', 'n', 'false', '0'];
+
+// ============================================================================
+// VALUES
+// ============================================================================
+
+/** True for list keys that name a custom field rather than a built-in item */
+export function isCustomFieldId(key: string): key is CustomFieldId {
+  return key.startsWith('field-');
+}
+
+/**
+ * Read a field's value from text, e.g. a CSV cell. Returns undefined when the
+ * text is empty or isn't a value of the field's type.
+ */
+export function parseCustomFieldValue(
+  field: CustomFieldDefinition,
+  text: string
+): CustomFieldValue | undefined {
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+
+  switch (field.type) {
+    case 'number': {
+      const value = Number(trimmed.replace(/,/g, ''));
+      return Number.isFinite(value) ? value : undefined;
+    }
+    case 'boolean': {
+      const lower = trimmed.toLowerCase();
+      if (TRUE_VALUES.includes(lower)) return true;
+      if (FALSE_VALUES.includes(lower)) return false;
+      return undefined;
+    }
+    case 'enum':
+      return field.options.find((option) => option.toLowerCase() === trimmed.toLowerCase());
+    default:
+      return trimmed;
+  }
+}
+
+/** A field's value as text, for cards and CSV cells; empty when unset */
+export function formatCustomFieldValue(
+  field: CustomFieldDefinition,
+  value: CustomFieldValue | undefined
+): string {
+  if (value === undefined || value === '') return '';
+  if (field.type === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
+
+/** A build's value of a field, as text */
+export function getCustomFieldText(config: PrebuildConfig, field: CustomFieldDefinition): string {
+  return formatCustomFieldValue(field, config.customFields?.[field.id]);
+}
+
+/** CSV headers a field is imported from, lowercased */
+export function getCustomFieldHeaders(field: CustomFieldDefinition): string[] {
+  return [field.label, ...field.csvHeaders]
+    .map((header) => header.toLowerCase().trim())
+    .filter(Boolean);
+}
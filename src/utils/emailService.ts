@@ -1,4 +1,6 @@
 import { jsPDF } from 'jspdf';
+import { COMPONENT_LABELS } from '../types';
+import { COMPONENT_CATEGORIES } from './componentItems';
 
 // Email service configuration
 // Users can set up their own EmailJS account at https://www.emailjs.com/
@@ -145,11 +147,12 @@ export function openEmailClient(to: string, subject: string, body: string): void
   window.location.href = mailtoUrl;
 }
 
-// Generate email body for a prebuild spec
+// Generate email body for a prebuild spec. Specs are keyed by component
+// category; a category with several line items lists each on its own line.
 export function generateEmailBody(
   modelName: string,
   price: string,
-  specs: Record<string, string>,
+  specs: Record<string, string | string[]>,
   storeName?: string
 ): string {
   let body = '';
@@ -163,12 +166,13 @@ export function generateEmailBody(
   body += `SPECIFICATIONS:\n`;
   body += `─────────────────────────\n`;
 
-  const specOrder = ['CPU', 'GPU', 'RAM', 'Storage', 'Motherboard', 'PSU', 'Case', 'Cooling'];
-  specOrder.forEach((key) => {
-    const value = specs[key.toLowerCase()];
-    if (value) {
-      body += `${key}: ${value}\n`;
-    }
+  COMPONENT_CATEGORIES.forEach((category) => {
+    const values = ([] as string[]).concat(specs[category] ?? []);
+    values.forEach((value) => {
+      if (value) {
+        body += `${COMPONENT_LABELS[category]}: ${value}\n`;
+      }
+    });
   });
 
   body += `\n─────────────────────────\n`;
@@ -0,0 +1,459 @@
+/**
+ * ESL Export - Bitmaps for electronic shelf labels (e-paper)
+ *
+ * E-paper labels show fixed-resolution images in two (black/white) or three
+ * (black/white/red) colours. Each label model has its own compact CardLayout,
+ * which is rasterized at the panel's exact pixel size through the canvas
+ * renderer and then quantized to the panel palette, optionally dithered.
+ */
+
+import type { PrebuildConfig, ComponentCategory, CustomFont } from '../types';
+import { COMPONENT_LABELS, getThemeColors } from '../types';
+import { CardLayout, LayoutElement, RGB, generateElementId } from './layoutSchema';
+import { resolveCardFont } from './fontManager';
+import { generateBarcodeDataUrl, isValidBarcode } from './barcode';
+import { rasterizeLayout } from './canvasDocument';
+import { createCanvas, canvasToBlob } from './canvas';
+import { getComponentText } from './componentItems';
+
+// ============================================================================
+// PALETTES & DITHERING
+// ============================================================================
+
+export type EslPaletteId = 'bw' | 'bwr';
+
+/** Palette index 0 is always white (no ink) */
+export const ESL_PALETTES: Record<EslPaletteId, { name: string; colors: RGB[] }> = {
+  bw: {
+    name: 'Black / White',
+    colors: [
+      [255, 255, 255],
+      [0, 0, 0],
+    ],
+  },
+  bwr: {
+    name: 'Black / White / Red',
+    colors: [
+      [255, 255, 255],
+      [0, 0, 0],
+      [255, 0, 0],
+    ],
+  },
+};
+
+const WHITE = 0;
+const BLACK = 1;
+const RED = 2;
+
+export type DitherMode = 'none' | 'ordered' | 'floyd-steinberg';
+
+export const DITHER_MODES: Record<DitherMode, { name: string; description: string }> = {
+  none: { name: 'None', description: 'Nearest colour, crisp text' },
+  ordered: { name: 'Ordered', description: 'Regular pattern, best for flat fills' },
+  'floyd-steinberg': { name: 'Floyd–Steinberg', description: 'Error diffusion, best for photos' },
+};
+
+/** RGBA pixels, e.g. an ImageData */
+export interface PixelData {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray | Uint8Array;
+}
+
+/** 4×4 Bayer threshold matrix */
+const BAYER_4X4 = [
+  [0, 8, 2, 10],
+  [12, 4, 14, 6],
+  [3, 11, 1, 9],
+  [15, 7, 13, 5],
+];
+
+/** How far (per channel) ordered dithering may push a pixel */
+const ORDERED_SPREAD = 128;
+
+function nearestColor(palette: RGB[], r: number, g: number, b: number): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let i = 0; i < palette.length; i++) {
+    const [pr, pg, pb] = palette[i];
+    const distance = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = i;
+    }
+  }
+  return best;
+}
+
+/** RGB of every pixel, composited onto white */
+function toRgb(image: PixelData): Float32Array {
+  const { width, height, data } = image;
+  const rgb = new Float32Array(width * height * 3);
+  for (let p = 0; p < width * height; p++) {
+    const alpha = data[p * 4 + 3] / 255;
+    for (let c = 0; c < 3; c++) {
+      rgb[p * 3 + c] = data[p * 4 + c] * alpha + 255 * (1 - alpha);
+    }
+  }
+  return rgb;
+}
+
+/**
+ * Reduce an image to palette indices, one per pixel in row order
+ */
+export function quantizeImage(image: PixelData, palette: RGB[], dither: DitherMode): Uint8Array {
+  const { width, height } = image;
+  const rgb = toRgb(image);
+  const indices = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      let r = rgb[p * 3];
+      let g = rgb[p * 3 + 1];
+      let b = rgb[p * 3 + 2];
+
+      if (dither === 'ordered') {
+        const offset = ((BAYER_4X4[y % 4][x % 4] + 0.5) / 16 - 0.5) * ORDERED_SPREAD;
+        r += offset;
+        g += offset;
+        b += offset;
+      }
+
+      const index = nearestColor(palette, r, g, b);
+      indices[p] = index;
+
+      if (dither === 'floyd-steinberg') {
+        const [pr, pg, pb] = palette[index];
+        const error = [r - pr, g - pg, b - pb];
+        const spread = (dx: number, dy: number, weight: number) => {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || nx >= width || ny >= height) return;
+          const n = (ny * width + nx) * 3;
+          rgb[n] += error[0] * weight;
+          rgb[n + 1] += error[1] * weight;
+          rgb[n + 2] += error[2] * weight;
+        };
+        spread(1, 0, 7 / 16);
+        spread(-1, 1, 3 / 16);
+        spread(0, 1, 5 / 16);
+        spread(1, 1, 1 / 16);
+      }
+    }
+  }
+
+  return indices;
+}
+
+/**
+ * Pack palette indices into 1-bit planes, MSB first, each row padded to a
+ * whole byte. A cleared bit means ink, as most e-paper drivers expect: the
+ * black plane comes first, followed by the red plane on three-colour panels.
+ */
+export function toBitplanes(
+  indices: Uint8Array,
+  width: number,
+  height: number,
+  palette: EslPaletteId
+): Uint8Array<ArrayBuffer> {
+  const rowBytes = Math.ceil(width / 8);
+  const planeSize = rowBytes * height;
+  const inks = palette === 'bwr' ? [BLACK, RED] : [BLACK];
+  const planes = new Uint8Array(planeSize * inks.length).fill(0xff);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const plane = inks.indexOf(indices[y * width + x]);
+      if (plane === -1) continue;
+      const byte = plane * planeSize + y * rowBytes + (x >> 3);
+      planes[byte] &= ~(0x80 >> (x & 7));
+    }
+  }
+
+  return planes;
+}
+
+// ============================================================================
+// LABEL MODELS
+// ============================================================================
+
+/** How a label model lays out the card; sizes are in inches and points */
+interface EslLayoutPreset {
+  headerHeight: number;
+  headerFontSize: number;
+  modelFontSize: number;
+  modelMaxLines: number;
+  priceFontSize: number;
+  specKeys: ComponentCategory[];
+  /** A one-row bar for short labels, or a label/value list */
+  specsDisplay: 'info-bar' | 'list';
+  specLabelFontSize: number;
+  specValueFontSize: number;
+  showBarcode: boolean;
+  /** Scale of the shelf-tag margins and spacing */
+  spacingScale: number;
+}
+
+export type EslLabelModelId = 'epaper-2.9' | 'epaper-4.2';
+
+export interface EslLabelModel {
+  id: EslLabelModelId;
+  name: string;
+  /** Panel resolution in pixels */
+  width: number;
+  height: number;
+  /** Active area in inches */
+  widthIn: number;
+  heightIn: number;
+  layout: EslLayoutPreset;
+}
+
+export const ESL_LABEL_MODELS: Record<EslLabelModelId, EslLabelModel> = {
+  'epaper-2.9': {
+    id: 'epaper-2.9',
+    name: '2.9" (296 × 128)',
+    width: 296,
+    height: 128,
+    widthIn: 2.63,
+    heightIn: 1.14,
+    layout: {
+      headerHeight: 0.18,
+      headerFontSize: 7,
+      modelFontSize: 10,
+      modelMaxLines: 1,
+      priceFontSize: 18,
+      specKeys: ['cpu', 'gpu'],
+      specsDisplay: 'info-bar',
+      specLabelFontSize: 5.5,
+      specValueFontSize: 7,
+      showBarcode: false,
+      spacingScale: 0.5,
+    },
+  },
+  'epaper-4.2': {
+    id: 'epaper-4.2',
+    name: '4.2" (400 × 300)',
+    width: 400,
+    height: 300,
+    widthIn: 3.34,
+    heightIn: 2.5,
+    layout: {
+      headerHeight: 0.3,
+      headerFontSize: 10,
+      modelFontSize: 12,
+      modelMaxLines: 1,
+      priceFontSize: 26,
+      specKeys: ['cpu', 'gpu', 'ram'],
+      specsDisplay: 'list',
+      specLabelFontSize: 5.5,
+      specValueFontSize: 7.5,
+      showBarcode: true,
+      spacingScale: 1,
+    },
+  },
+};
+
+export function getEslLabelModel(id: EslLabelModelId): EslLabelModel {
+  return ESL_LABEL_MODELS[id] ?? ESL_LABEL_MODELS['epaper-2.9'];
+}
+
+export interface EslExportSettings {
+  modelId: EslLabelModelId;
+  palette: EslPaletteId;
+  dither: DitherMode;
+}
+
+export const DEFAULT_ESL_SETTINGS: EslExportSettings = {
+  modelId: 'epaper-2.9',
+  palette: 'bwr',
+  dither: 'none',
+};
+
+/**
+ * Build the layout for a label model. Everything is black on white; on
+ * three-colour panels the header and price are red.
+ */
+export function buildEslLayout(
+  config: PrebuildConfig,
+  model: EslLabelModel,
+  palette: EslPaletteId,
+  customFonts: CustomFont[] = [],
+  hasBarcode: boolean = false
+): CardLayout {
+  const preset = model.layout;
+  const accent = palette === 'bwr' ? '#ff0000' : '#000000';
+  const elements: LayoutElement[] = [];
+
+  if (config.storeName) {
+    elements.push({
+      id: generateElementId('header'),
+      type: 'header',
+      visible: true,
+      text: config.storeName,
+      style: {
+        height: preset.headerHeight,
+        backgroundColor: accent,
+        textColor: '#ffffff',
+        fontSize: preset.headerFontSize,
+      },
+    });
+  }
+
+  elements.push({
+    id: generateElementId('model'),
+    type: 'text',
+    visible: true,
+    text: config.modelName,
+    maxLines: preset.modelMaxLines,
+    style: {
+      fontSize: preset.modelFontSize,
+      fontWeight: 'bold',
+      color: '#000000',
+      align: 'center',
+    },
+  });
+
+  elements.push({
+    id: generateElementId('price'),
+    type: 'price',
+    visible: true,
+    currentPrice: config.price,
+    showStrikethrough: false,
+    style: {
+      mainFontSize: preset.priceFontSize,
+      strikeFontSize: preset.modelFontSize,
+      priceColor: accent,
+      strikeColor: '#000000',
+      showBox: false,
+    },
+  });
+
+  const specs = preset.specKeys
+    .map((key) => ({ key, label: COMPONENT_LABELS[key], value: getComponentText(config, key) }))
+    .filter((spec) => spec.value);
+  if (specs.length > 0 && preset.specsDisplay === 'info-bar') {
+    elements.push({
+      id: generateElementId('specs'),
+      type: 'info-bar',
+      visible: true,
+      items: specs.map(({ label, value }) => ({ label, value })),
+      style: {
+        height: 0,
+        backgroundColor: '#ffffff',
+        labelFontSize: preset.specLabelFontSize,
+        valueFontSize: preset.specValueFontSize,
+        labelColor: '#000000',
+        valueColor: '#000000',
+        borderRadius: 0,
+      },
+    });
+  } else if (specs.length > 0) {
+    elements.push({
+      id: generateElementId('specs'),
+      type: 'specs',
+      visible: true,
+      specs,
+      layout: 'single-column',
+      style: {
+        labelFontSize: preset.specLabelFontSize,
+        valueFontSize: preset.specValueFontSize,
+        labelColor: '#000000',
+        valueColor: '#000000',
+        iconSize: 0,
+        lineHeight: 0,
+      },
+    });
+  }
+
+  if (preset.showBarcode && hasBarcode) {
+    elements.push({
+      id: generateElementId('barcode'),
+      type: 'barcode',
+      visible: true,
+      value: config.sku,
+      size: { width: model.widthIn * 0.5, height: 0.3 },
+    });
+  }
+
+  return {
+    cardSize: 'shelf',
+    baseSize: 'shelf',
+    layoutScale: preset.spacingScale,
+    template: 'default',
+    dimensions: { width: model.widthIn, height: model.heightIn },
+    colors: getThemeColors(config),
+    background: { color: '#ffffff', patternId: 'solid' },
+    ...resolveCardFont(config.visualSettings, customFonts),
+    elements,
+  };
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/** A quantized label image */
+export interface EslImage {
+  width: number;
+  height: number;
+  palette: EslPaletteId;
+  /** Palette index per pixel, in row order */
+  indices: Uint8Array;
+}
+
+/**
+ * Render a config for a label model and reduce it to the panel palette
+ */
+export async function renderEslImage(
+  config: PrebuildConfig,
+  settings: EslExportSettings,
+  customFonts: CustomFont[] = []
+): Promise<EslImage> {
+  const model = getEslLabelModel(settings.modelId);
+  const barcodeImage =
+    model.layout.showBarcode && config.sku && isValidBarcode(config.sku)
+      ? await generateBarcodeDataUrl(config.sku, { height: 50, displayValue: false })
+      : '';
+
+  const layout = buildEslLayout(config, model, settings.palette, customFonts, !!barcodeImage);
+  const pixels = await rasterizeLayout(layout, model.width, model.height, {
+    barcodeImage: barcodeImage || undefined,
+  });
+
+  return {
+    width: model.width,
+    height: model.height,
+    palette: settings.palette,
+    indices: quantizeImage(pixels, ESL_PALETTES[settings.palette].colors, settings.dither),
+  };
+}
+
+/** Encode a label image as a PNG in its palette colours */
+export function eslImageToPng(image: EslImage): Promise<Blob> {
+  const { width, height, indices } = image;
+  const colors = ESL_PALETTES[image.palette].colors;
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  indices.forEach((index, p) => {
+    rgba.set(colors[index] ?? colors[WHITE], p * 4);
+    rgba[p * 4 + 3] = 255;
+  });
+
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d') as
+    | CanvasRenderingContext2D
+    | OffscreenCanvasRenderingContext2D
+    | null;
+  if (!ctx) {
+    return Promise.reject(new Error('Canvas 2D is not supported'));
+  }
+  ctx.putImageData(new ImageData(rgba, width, height), 0, 0);
+  return canvasToBlob(canvas, 'image/png');
+}
+
+/** Raw bitplanes (see toBitplanes) for uploading to the label */
+export function eslImageToBitplanes(image: EslImage): Blob {
+  return new Blob([toBitplanes(image.indices, image.width, image.height, image.palette)], {
+    type: 'application/octet-stream',
+  });
+}
@@ -0,0 +1,178 @@
+/**
+ * Font Manager - Custom font loading for preview and PDF
+ *
+ * Uploaded TTF/OTF files are stored as base64 (see fontsStore). This module
+ * turns them into @font-face rules for the HTML preview and registers them
+ * with jsPDF's virtual file system for printing.
+ */
+
+import type { CustomFont, CustomFontFormat, VisualSettings } from '../types';
+import { FONT_FAMILIES } from '../types';
+import { validateFontFile } from './validation';
+import { logger } from './logger';
+
+/** jsPDF font styles a custom font is registered under */
+const PDF_FONT_STYLES = ['normal', 'bold', 'italic', 'bolditalic'] as const;
+
+/** Id of the <style> element holding the preview's @font-face rules */
+const FONT_FACE_STYLE_ID = 'custom-font-faces';
+
+/** Font data read from an uploaded file, ready to be stored */
+export type CustomFontInput = Pick<CustomFont, 'name' | 'fileName' | 'format' | 'data'>;
+
+/** Fonts resolved for a card, in the forms each renderer needs */
+export interface ResolvedCardFont {
+  /** CSS font-family value */
+  fontFamily: string;
+  /** Core PDF font used when no custom font is embedded */
+  pdfFontName: string;
+  /** Custom font to embed, if one is selected and available */
+  customFont?: CustomFont;
+}
+
+// ============================================================================
+// FILE LOADING
+// ============================================================================
+
+function getFontFormat(fileName: string): CustomFontFormat {
+  return fileName.toLowerCase().endsWith('.otf') ? 'opentype' : 'truetype';
+}
+
+/** Derive a display name from a file name ("Brand-Sans_Bold.ttf" -> "Brand Sans Bold") */
+export function getFontNameFromFile(fileName: string): string {
+  return fileName
+    .replace(/\.[^.]+$/, '')
+    .replace(/[-_]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Read an uploaded TTF/OTF file into storable font data
+ */
+export function readFontFile(file: File, name?: string): Promise<CustomFontInput> {
+  const validation = validateFontFile(file);
+  if (!validation.valid) {
+    return Promise.reject(new Error(validation.error));
+  }
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve({
+        name: name?.trim() || getFontNameFromFile(file.name),
+        fileName: file.name,
+        format: getFontFormat(file.name),
+        data: dataUrl.slice(dataUrl.indexOf(',') + 1),
+      });
+    };
+    reader.onerror = () => reject(new Error(`Failed to read font file: ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
+
+// ============================================================================
+// FONT RESOLUTION
+// ============================================================================
+
+/** CSS font-family for a custom font, with the built-in family as fallback */
+export function getCustomFontCssFamily(font: CustomFont, fallback: string): string {
+  return `"${font.name.replace(/"/g, '')}", ${fallback}`;
+}
+
+/** Name a custom font is registered under in jsPDF */
+export function getCustomFontPdfName(font: CustomFont): string {
+  return `custom-${font.id}`;
+}
+
+/**
+ * Resolve the font a card should use. A selected custom font wins; if it
+ * has been deleted, the built-in fontFamily is used instead.
+ */
+export function resolveCardFont(
+  visualSettings: VisualSettings,
+  customFonts: CustomFont[] = []
+): ResolvedCardFont {
+  const builtIn = FONT_FAMILIES[visualSettings.fontFamily] ?? FONT_FAMILIES.helvetica;
+  const customFont = visualSettings.customFontId
+    ? customFonts.find((f) => f.id === visualSettings.customFontId)
+    : undefined;
+
+  if (visualSettings.customFontId && !customFont) {
+    logger.debug('FontManager', 'Selected custom font not found, using built-in font', {
+      customFontId: visualSettings.customFontId,
+    });
+  }
+
+  return {
+    fontFamily: customFont ? getCustomFontCssFamily(customFont, builtIn.value) : builtIn.value,
+    pdfFontName: builtIn.pdfName,
+    customFont,
+  };
+}
+
+// ============================================================================
+// PREVIEW (@font-face)
+// ============================================================================
+
+/** Build the @font-face rule for a custom font */
+export function buildFontFaceCss(font: CustomFont): string {
+  const mime = font.format === 'opentype' ? 'font/otf' : 'font/ttf';
+  const family = font.name.replace(/"/g, '');
+  return `@font-face { font-family: "${family}"; src: url(data:${mime};base64,${font.data}) format("${font.format}"); font-display: block; }`;
+}
+
+/**
+ * Install @font-face rules for the given fonts, replacing any previous set
+ */
+export function installFontFaces(fonts: CustomFont[]): void {
+  if (typeof document === 'undefined') return;
+
+  let style = document.getElementById(FONT_FACE_STYLE_ID) as HTMLStyleElement | null;
+  if (!style) {
+    style = document.createElement('style');
+    style.id = FONT_FACE_STYLE_ID;
+    document.head.appendChild(style);
+  }
+  style.textContent = fonts.map(buildFontFaceCss).join('\n');
+}
+
+// ============================================================================
+// PDF REGISTRATION
+// ============================================================================
+
+/** The jsPDF methods that register a font */
+export interface PdfFontRegistry {
+  getFontList(): Record<string, string[]>;
+  addFileToVFS(filename: string, content: string): unknown;
+  addFont(postScriptName: string, id: string, fontStyle: string): string;
+}
+
+/**
+ * Register a custom font with a jsPDF document. The same file is used for
+ * every style, so bold/italic text falls back to the regular glyphs.
+ *
+ * @returns The jsPDF font name, or null if the font could not be registered
+ */
+export function registerPdfFont(doc: PdfFontRegistry, font: CustomFont): string | null {
+  const fontName = getCustomFontPdfName(font);
+  if (doc.getFontList()[fontName]) {
+    return fontName;
+  }
+
+  try {
+    const vfsName = `${fontName}.${font.format === 'opentype' ? 'otf' : 'ttf'}`;
+    doc.addFileToVFS(vfsName, font.data);
+    for (const style of PDF_FONT_STYLES) {
+      doc.addFont(vfsName, fontName, style);
+    }
+    return fontName;
+  } catch (error) {
+    // jsPDF only parses TrueType outlines; CFF-based OTF files end up here
+    logger.error('FontManager', 'Failed to register custom font with PDF', {
+      font: font.name,
+      error,
+    });
+    return null;
+  }
+}
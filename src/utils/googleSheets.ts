@@ -1,5 +1,20 @@
-import { PrebuildConfig, ComponentCategory, formatPrice, parsePrice } from '../types';
+import {
+  PrebuildConfig,
+  ComponentCategory,
+  ComponentItem,
+  ComponentPrices,
+  CustomFieldDefinition,
+  COMPONENT_LABELS,
+  formatPrice,
+  parsePrice,
+} from '../types';
 import { defaultConfig, defaultComponentPrices } from '../data/componentOptions';
+import { COMPONENT_CATEGORIES, createComponentItemId, isComponentCategory } from './componentItems';
+import {
+  formatCustomFieldValue,
+  getCustomFieldHeaders,
+  parseCustomFieldValue,
+} from './customFields';
 
 // Extract Google Sheet ID from various URL formats
 export function extractSheetId(url: string): string | null {
@@ -101,6 +116,18 @@ const HEADER_MAP: Record<string, string> = {
   cooling: 'cooling',
   cooler: 'cooling',
   'cpu cooler': 'cooling',
+  fans: 'fans',
+  fan: 'fans',
+  'case fans': 'fans',
+  expansion: 'expansion',
+  'expansion cards': 'expansion',
+  'expansion card': 'expansion',
+  'capture card': 'expansion',
+  peripherals: 'peripherals',
+  peripheral: 'peripherals',
+  accessories: 'peripherals',
+  monitor: 'monitor',
+  display: 'monitor',
   os: 'os',
   'operating system': 'os',
   warranty: 'warranty',
@@ -120,38 +147,112 @@ const HEADER_MAP: Record<string, string> = {
   qty: 'stockQuantity',
 };
 
-// Component fields
-const COMPONENT_FIELDS = ['cpu', 'gpu', 'ram', 'storage', 'motherboard', 'psu', 'case', 'cooling'];
+/**
+ * A component column: "Storage" is the category's main slot, "Storage 2" its
+ * second line item, and "Storage Price" / "Storage 2 Price" their prices
+ */
+interface ComponentColumn {
+  category: ComponentCategory;
+  /** 1 for the main slot */
+  slot: number;
+  isPrice: boolean;
+}
+
+/** Read a lowercased header as a component column; null for other columns */
+function parseComponentHeader(header: string): ComponentColumn | null {
+  const isPrice = /\s+price$/.test(header);
+  const name = isPrice ? header.replace(/\s+price$/, '') : header;
+  const numbered = name.match(/^(.+?)\s*#?(\d+)$/);
+  const mapped = HEADER_MAP[numbered ? numbered[1] : name];
+  if (!mapped || !isComponentCategory(mapped)) return null;
+
+  const slot = numbered ? parseInt(numbered[2], 10) : 1;
+  return slot >= 1 ? { category: mapped, slot, isPrice } : null;
+}
 
-// Parse rows into PrebuildConfig objects
-export function parseSheetData(rows: string[][]): Partial<PrebuildConfig>[] {
+/**
+ * The column a custom field is exported under: its label, or "<label>
+ * (Custom)" where the label is also a built-in column such as "Monitor"
+ */
+export function getCustomFieldColumn(field: CustomFieldDefinition): string {
+  const header = field.label.toLowerCase().trim();
+  const isBuiltIn = header in HEADER_MAP || parseComponentHeader(header) !== null;
+  return isBuiltIn ? `${field.label} (Custom)` : field.label;
+}
+
+// Parse rows into PrebuildConfig objects. Columns named by a custom field's
+// label or CSV headers go to that field, even where HEADER_MAP knows the name,
+// unless the sheet has the field's own export column.
+export function parseSheetData(
+  rows: string[][],
+  customFields: CustomFieldDefinition[] = []
+): Partial<PrebuildConfig>[] {
   if (rows.length < 2) return [];
 
   const headers = rows[0].map((h) => h.toLowerCase().trim());
   const builds: Partial<PrebuildConfig>[] = [];
+  const exportColumns = customFields.map((field) =>
+    getCustomFieldColumn(field).toLowerCase().trim()
+  );
+  // Fields exported here keep to their own column, leaving the built-in one alone
+  const fieldHeaders = customFields.flatMap((field, idx) =>
+    headers.includes(exportColumns[idx])
+      ? [[exportColumns[idx], field] as const]
+      : getCustomFieldHeaders(field).map((header) => [header, field] as const)
+  );
+
+  const columnFields = headers.map(
+    (header) => fieldHeaders.find(([fieldHeader]) => fieldHeader === header)?.[1]
+  );
+  const componentColumns = headers.map((header, idx) =>
+    columnFields[idx] ? null : parseComponentHeader(header)
+  );
 
   for (let i = 1; i < rows.length; i++) {
     const row = rows[i];
     if (!row.some((cell) => cell)) continue;
 
-    const build: Partial<PrebuildConfig> = {
-      components: { ...defaultConfig.components },
-      componentPrices: { ...defaultComponentPrices },
-      features: [],
-    };
+    const components = { ...defaultConfig.components };
+    const componentPrices: ComponentPrices = { ...defaultComponentPrices };
+    const build: Partial<PrebuildConfig> = { components, componentPrices, features: [] };
+    // Further line items by "category slot", until the row is read
+    const extras = new Map<string, { slot: number; item: ComponentItem }>();
 
     headers.forEach((header, idx) => {
       const value = row[idx] || '';
       if (!value) return;
 
+      const field = columnFields[idx];
+      if (field) {
+        const fieldValue = parseCustomFieldValue(field, value);
+        if (fieldValue !== undefined) {
+          build.customFields = { ...build.customFields, [field.id]: fieldValue };
+        }
+        return;
+      }
+
+      const column = componentColumns[idx];
+      if (column) {
+        const { category, slot, isPrice } = column;
+        if (slot === 1) {
+          if (isPrice) componentPrices[category] = parsePrice(value);
+          else components[category] = value;
+          return;
+        }
+        const key = `${category} ${slot}`;
+        if (!extras.has(key)) {
+          extras.set(key, { slot, item: { id: createComponentItemId(), category, value: '' } });
+        }
+        const { item } = extras.get(key)!;
+        if (isPrice) componentPrices[item.id] = parsePrice(value);
+        else item.value = value;
+        return;
+      }
+
       const mappedField = HEADER_MAP[header];
       if (!mappedField) return;
 
-      if (COMPONENT_FIELDS.includes(mappedField)) {
-        if (build.components) {
-          build.components[mappedField as ComponentCategory] = value;
-        }
-      } else if (mappedField === 'condition') {
+      if (mappedField === 'condition') {
         // Map condition values
         const condMap: Record<string, string> = {
           new: 'new',
@@ -194,7 +295,14 @@ export function parseSheetData(rows: string[][]): Partial<PrebuildConfig>[] {
       }
     });
 
-    if (build.modelName || build.price || Object.values(build.components || {}).some((v) => v)) {
+    // Priced columns without a value don't make a line item
+    const items = [...extras.values()].sort((a, b) => a.slot - b.slot).map(({ item }) => item);
+    items.filter((item) => !item.value).forEach((item) => delete componentPrices[item.id]);
+    if (items.some((item) => item.value)) {
+      build.extraComponents = items.filter((item) => item.value);
+    }
+
+    if (build.modelName || build.price || Object.values(components).some((v) => v)) {
       builds.push(build);
     }
   }
@@ -203,7 +311,10 @@ export function parseSheetData(rows: string[][]): Partial<PrebuildConfig>[] {
 }
 
 // Fetch and parse a public Google Sheet
-export async function importFromGoogleSheet(urlOrId: string): Promise<{
+export async function importFromGoogleSheet(
+  urlOrId: string,
+  customFields: CustomFieldDefinition[] = []
+): Promise<{
   success: boolean;
   builds?: Partial<PrebuildConfig>[];
   error?: string;
@@ -244,7 +355,7 @@ export async function importFromGoogleSheet(urlOrId: string): Promise<{
       return { success: false, error: 'Sheet appears to be empty or has no data rows' };
     }
 
-    const builds = parseSheetData(rows);
+    const builds = parseSheetData(rows, customFields);
     if (builds.length === 0) {
       return {
         success: false,
@@ -262,20 +373,54 @@ export async function importFromGoogleSheet(urlOrId: string): Promise<{
   }
 }
 
-// Export builds to CSV format for Google Sheets
-export function exportToCSV(builds: PrebuildConfig[]): string {
+/** A category's line items in a build, main slot first */
+function getLineItems(build: PrebuildConfig, category: ComponentCategory) {
+  return [
+    { value: build.components[category] || '', price: build.componentPrices?.[category] ?? 0 },
+    ...(build.extraComponents ?? [])
+      .filter((item) => item.category === category)
+      .map((item) => ({ value: item.value, price: build.componentPrices?.[item.id] ?? 0 })),
+  ];
+}
+
+/**
+ * Component columns for a set of builds: as many per category as any build
+ * has line items, each followed by a price column when any build prices it
+ */
+function getComponentColumns(builds: PrebuildConfig[]) {
+  return COMPONENT_CATEGORIES.flatMap((category) => {
+    const lineItems = builds.map((build) => getLineItems(build, category));
+    const slots = Math.max(1, ...lineItems.map((items) => items.length));
+
+    return Array.from({ length: slots }, (_, i) => {
+      const header =
+        i === 0 ? COMPONENT_LABELS[category] : `${COMPONENT_LABELS[category]} ${i + 1}`;
+      const values = lineItems.map((items) => items[i]?.value ?? '');
+      const prices = lineItems.map((items) => items[i]?.price ?? 0);
+      const columns = [{ header, cells: values }];
+      if (prices.some((price) => price > 0)) {
+        columns.push({
+          header: `${header} Price`,
+          cells: prices.map((price) => (price > 0 ? formatPrice(price, false) : '')),
+        });
+      }
+      return columns;
+    }).flat();
+  });
+}
+
+// Export builds to CSV format for Google Sheets, with a column per component
+// line item and per custom field
+export function exportToCSV(
+  builds: PrebuildConfig[],
+  customFields: CustomFieldDefinition[] = []
+): string {
+  const componentColumns = getComponentColumns(builds);
   const headers = [
     'Model Name',
     'Price',
     'SKU',
-    'CPU',
-    'GPU',
-    'RAM',
-    'Storage',
-    'Motherboard',
-    'PSU',
-    'Case',
-    'Cooling',
+    ...componentColumns.map((column) => column.header),
     'OS',
     'Warranty',
     'WiFi',
@@ -284,6 +429,7 @@ export function exportToCSV(builds: PrebuildConfig[]): string {
     'Stock Status',
     'Quantity',
     'Description',
+    ...customFields.map(getCustomFieldColumn),
   ];
 
   const escapeCell = (value: string) => {
@@ -293,19 +439,12 @@ export function exportToCSV(builds: PrebuildConfig[]): string {
     return value;
   };
 
-  const rows = builds.map((build) =>
+  const rows = builds.map((build, buildIndex) =>
     [
       build.modelName || '',
       build.price > 0 ? formatPrice(build.price, false) : '',
       build.sku || '',
-      build.components.cpu || '',
-      build.components.gpu || '',
-      build.components.ram || '',
-      build.components.storage || '',
-      build.components.motherboard || '',
-      build.components.psu || '',
-      build.components.case || '',
-      build.components.cooling || '',
+      ...componentColumns.map((column) => column.cells[buildIndex]),
       build.os || '',
       build.warranty || '',
       build.wifi || '',
@@ -314,6 +453,7 @@ export function exportToCSV(builds: PrebuildConfig[]): string {
       build.stockStatus ?? '',
       build.stockQuantity || '',
       build.description || '',
+      ...customFields.map((field) => formatCustomFieldValue(field, build.customFields?.[field.id])),
     ]
       .map(escapeCell)
       .join(',')
@@ -323,8 +463,12 @@ export function exportToCSV(builds: PrebuildConfig[]): string {
 }
 
 // Download CSV file
-export function downloadCSV(builds: PrebuildConfig[], filename: string = 'prebuilds.csv'): void {
-  const csv = exportToCSV(builds);
+export function downloadCSV(
+  builds: PrebuildConfig[],
+  filename: string = 'prebuilds.csv',
+  customFields: CustomFieldDefinition[] = []
+): void {
+  const csv = exportToCSV(builds, customFields);
   const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
@@ -0,0 +1,110 @@
+/**
+ * Image Export - PNG, JPEG and WebP card images
+ *
+ * Rasterizes a CardLayout through the canvas renderer (see canvasDocument),
+ * so images match the PDF exactly, for websites, social posts and screens.
+ * Images are drawn from decoded <img> elements and need the main thread.
+ */
+
+import type { PrebuildConfig, CardSize } from '../types';
+import type { CardLayout, CardRenderOptions } from './layoutSchema';
+import type { RenderToPdfOptions } from './renderToPdf';
+import { createLayoutCanvas } from './canvasDocument';
+import { canvasToBlob } from './canvas';
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+
+export const IMAGE_FORMATS: Record<
+  ImageFormat,
+  { name: string; mimeType: string; extension: string; supportsTransparency: boolean }
+> = {
+  png: { name: 'PNG', mimeType: 'image/png', extension: 'png', supportsTransparency: true },
+  jpeg: { name: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', supportsTransparency: false },
+  webp: { name: 'WebP', mimeType: 'image/webp', extension: 'webp', supportsTransparency: true },
+};
+
+/** Screen, standard and print resolutions */
+export const IMAGE_DPI_OPTIONS = [72, 150, 300];
+
+export interface ImageExportOptions {
+  format: ImageFormat;
+  /** Pixels per inch of the card; ignored when pixelWidth is set */
+  dpi?: number;
+  /** Exact image width in pixels; the height follows the card's aspect ratio */
+  pixelWidth?: number;
+  /** Leave the card background transparent (PNG and WebP only) */
+  transparentBackground?: boolean;
+  /** JPEG/WebP quality from 0 to 1 (default 0.92) */
+  quality?: number;
+}
+
+export const DEFAULT_IMAGE_EXPORT: ImageExportOptions = {
+  format: 'png',
+  dpi: 150,
+};
+
+/** Longest side most browsers can allocate for a canvas */
+const MAX_IMAGE_SIDE = 16384;
+
+/**
+ * Pixel size of a layout's image
+ */
+export function getImagePixelSize(
+  layout: CardLayout,
+  options: Pick<ImageExportOptions, 'dpi' | 'pixelWidth'>
+): { width: number; height: number } {
+  const { width, height } = layout.dimensions;
+  const pixelsPerInch = options.pixelWidth
+    ? options.pixelWidth / width
+    : (options.dpi ?? DEFAULT_IMAGE_EXPORT.dpi!);
+  return {
+    width: Math.max(1, Math.round(width * pixelsPerInch)),
+    height: Math.max(1, Math.round(height * pixelsPerInch)),
+  };
+}
+
+/**
+ * Render a card layout as an image
+ *
+ * @param assets - Pre-generated QR code and barcode images
+ */
+export async function exportCardImage(
+  layout: CardLayout,
+  options: ImageExportOptions,
+  assets: Pick<RenderToPdfOptions, 'qrCodeImage' | 'barcodeImage'> = {}
+): Promise<Blob> {
+  const format = IMAGE_FORMATS[options.format];
+  const { width, height } = getImagePixelSize(layout, options);
+  if (width > MAX_IMAGE_SIDE || height > MAX_IMAGE_SIDE) {
+    throw new Error(`Image is too large (${width} × ${height} px)`);
+  }
+
+  const transparent = !!options.transparentBackground && format.supportsTransparency;
+  const canvas = await createLayoutCanvas(layout, width, height, {
+    ...assets,
+    transparentBackground: transparent,
+    // JPEG has no alpha channel; give it white instead of black
+    fill: transparent ? undefined : '#ffffff',
+  });
+  return canvasToBlob(canvas, format.mimeType, options.quality ?? 0.92);
+}
+
+/**
+ * Build a config's layout for a card size and render it as an image
+ */
+export async function generateCardImage(
+  config: PrebuildConfig,
+  cardSize: CardSize,
+  options: ImageExportOptions,
+  renderOptions: CardRenderOptions = {}
+): Promise<Blob> {
+  // Loaded on demand to keep jsPDF out of the main bundle
+  const { prepareCard } = await import('./pdfGenerator');
+  const { layout, asyncData } = await prepareCard(config, cardSize, renderOptions);
+  return exportCardImage(layout, options, asyncData);
+}
+
+/** File name for an image export, e.g. "Gaming-PC-Price-Card.png" */
+export function getImageFilename(name: string, sizeName: string, format: ImageFormat): string {
+  return `${name}-${sizeName.replace(/\s+/g, '-')}.${IMAGE_FORMATS[format].extension}`;
+}
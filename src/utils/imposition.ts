@@ -0,0 +1,506 @@
+/**
+ * Imposition - Arrange prepared cards on printer sheets
+ *
+ * A sheet profile describes the paper (size, orientation, margins), the
+ * grid (rows, columns, gutters or fixed label-stock slots) and print
+ * options (rotation, crop marks, bleed, printer offset). imposeCards fills
+ * the grid slot by slot, adding pages as needed, and can follow each sheet
+ * with a mirrored sheet of card backs for duplex printing.
+ *
+ * All measurements are in inches.
+ */
+
+import { jsPDF } from 'jspdf';
+import type { CardOrientation } from '../types';
+import type { PreparedCard } from './pdfGenerator';
+import { renderLayoutToPdf } from './renderToPdf';
+import { withAssetCache } from './assetCache';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type PaperSizeId = 'letter' | 'legal' | 'tabloid' | 'a4' | 'a3';
+
+export interface PaperSize {
+  name: string;
+  /** Portrait width */
+  width: number;
+  /** Portrait height */
+  height: number;
+}
+
+export interface SheetMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/** A named printer sheet setup */
+export interface SheetProfile {
+  id: string;
+  name: string;
+  paper: PaperSizeId;
+  orientation: CardOrientation;
+  /** Distance from the paper edge to the grid; omit to centre the grid */
+  margins?: SheetMargins;
+  /** Horizontal space between slots */
+  gutterX: number;
+  /** Vertical space between slots */
+  gutterY: number;
+  /** Columns per sheet; omit to fit as many as the paper allows */
+  cols?: number;
+  /** Rows per sheet; omit to fit as many as the paper allows */
+  rows?: number;
+  /** Fixed slot size of pre-cut label stock; cards are centred in each slot */
+  slot?: { width: number; height: number };
+  /** Turn every card 90° clockwise */
+  rotate: boolean;
+  /** Draw crop marks at the card corners */
+  cropMarks: boolean;
+  /** Background extended past the trim edge on every side */
+  bleed: number;
+  /** Printer calibration: shifts everything on the sheet right/down */
+  offsetX: number;
+  offsetY: number;
+}
+
+/** Where one card lands on the sheet */
+export interface SheetSlot {
+  /** Left edge of the card's footprint (after rotation) */
+  x: number;
+  /** Top edge of the card's footprint (after rotation) */
+  y: number;
+}
+
+/** Computed grid for a profile and card size */
+export interface SheetLayout {
+  pageWidth: number;
+  pageHeight: number;
+  cols: number;
+  rows: number;
+  /** Card footprint on the sheet (width and height swapped when rotated) */
+  cardWidth: number;
+  cardHeight: number;
+  slots: SheetSlot[];
+}
+
+/**
+ * How copies of several cards are ordered on the sheet:
+ * grouped keeps a card's copies together (AAA BBB), collated prints one of
+ * each before repeating (AB AB AB)
+ */
+export type SheetFillOrder = 'grouped' | 'collated';
+
+/**
+ * Which edge a duplex printer turns the sheet over on. Long-edge turns a
+ * portrait sheet like a book page, short-edge like a notepad.
+ */
+export type DuplexFlip = 'long-edge' | 'short-edge';
+
+export interface ImposeOptions {
+  /** Caption printed at the bottom of every sheet */
+  caption?: string;
+  /** Append the sheets to this document instead of starting a new one */
+  doc?: jsPDF;
+  /**
+   * Back side of each card, in the same order. Every front sheet is followed
+   * by a back sheet with each back behind its front.
+   */
+  backs?: PreparedCard[];
+  /** How the printer turns sheets with backs over (default long-edge) */
+  flip?: DuplexFlip;
+}
+
+/** Clockwise turn of a card on the sheet */
+type CardTurn = 0 | 90 | 180 | 270;
+
+// ============================================================================
+// PAPER & PROFILES
+// ============================================================================
+
+export const PAPER_SIZES: Record<PaperSizeId, PaperSize> = {
+  letter: { name: 'US Letter', width: 8.5, height: 11 },
+  legal: { name: 'US Legal', width: 8.5, height: 14 },
+  tabloid: { name: 'Tabloid', width: 11, height: 17 },
+  a4: { name: 'A4', width: 210 / 25.4, height: 297 / 25.4 },
+  a3: { name: 'A3', width: 297 / 25.4, height: 420 / 25.4 },
+};
+
+/** Margin kept free when a profile centres its grid */
+const MIN_AUTO_MARGIN = 0.25;
+
+const CROP_MARK_LENGTH = 0.125;
+const CROP_MARK_GAP = 0.03;
+const CROP_MARK_WIDTH = 0.005;
+
+const CAPTION_FONT_SIZE = 6;
+const CAPTION_OFFSET_FROM_BOTTOM = 0.15;
+
+const DEFAULT_PROFILE_OPTIONS = {
+  orientation: 'portrait',
+  gutterX: 0,
+  gutterY: 0,
+  rotate: false,
+  cropMarks: true,
+  bleed: 0,
+  offsetX: 0,
+  offsetY: 0,
+} as const;
+
+export const BUILT_IN_SHEET_PROFILES: SheetProfile[] = [
+  {
+    ...DEFAULT_PROFILE_OPTIONS,
+    id: 'letter-fill',
+    name: 'US Letter – fill page',
+    paper: 'letter',
+  },
+  {
+    ...DEFAULT_PROFILE_OPTIONS,
+    id: 'a4-fill',
+    name: 'A4 – fill page',
+    paper: 'a4',
+  },
+  {
+    ...DEFAULT_PROFILE_OPTIONS,
+    id: 'a4-gutter',
+    name: 'A4 – 5 mm gutters',
+    paper: 'a4',
+    gutterX: 5 / 25.4,
+    gutterY: 5 / 25.4,
+  },
+  {
+    ...DEFAULT_PROFILE_OPTIONS,
+    id: 'avery-5371',
+    name: 'Avery 5371 business cards (10 per sheet)',
+    paper: 'letter',
+    margins: { top: 0.5, right: 0.75, bottom: 0.5, left: 0.75 },
+    cols: 2,
+    rows: 5,
+    slot: { width: 3.5, height: 2 },
+    cropMarks: false,
+  },
+  {
+    ...DEFAULT_PROFILE_OPTIONS,
+    id: 'avery-c32011',
+    name: 'Avery C32011 business cards, A4 (10 per sheet)',
+    paper: 'a4',
+    margins: { top: 13.5 / 25.4, right: 15 / 25.4, bottom: 13.5 / 25.4, left: 15 / 25.4 },
+    cols: 2,
+    rows: 5,
+    slot: { width: 85 / 25.4, height: 54 / 25.4 },
+    cropMarks: false,
+  },
+];
+
+/** Find a profile by id among built-in and user-defined profiles (letter fill if missing) */
+export function getSheetProfile(id: string, customProfiles: SheetProfile[] = []): SheetProfile {
+  return (
+    customProfiles.find((p) => p.id === id) ??
+    BUILT_IN_SHEET_PROFILES.find((p) => p.id === id) ??
+    BUILT_IN_SHEET_PROFILES[0]
+  );
+}
+
+/**
+ * Repeat each item `copies` times (or `copies[i]` times for item i) in the
+ * given fill order
+ */
+export function arrangeCopies<T>(
+  items: T[],
+  copies: number | number[],
+  fillOrder: SheetFillOrder
+): T[] {
+  const counts = items.map((_, i) =>
+    Math.max(1, Math.floor(Array.isArray(copies) ? (copies[i] ?? 1) : copies))
+  );
+  if (fillOrder === 'collated') {
+    const rounds = Math.max(0, ...counts);
+    return Array.from({ length: rounds }, (_, round) =>
+      items.filter((_, i) => counts[i] > round)
+    ).flat();
+  }
+  return items.flatMap((item, i) => Array<T>(counts[i]).fill(item));
+}
+
+// ============================================================================
+// GRID LAYOUT
+// ============================================================================
+
+function getPageSize(profile: SheetProfile): { width: number; height: number } {
+  const paper = PAPER_SIZES[profile.paper];
+  return profile.orientation === 'landscape'
+    ? { width: paper.height, height: paper.width }
+    : { width: paper.width, height: paper.height };
+}
+
+/** How many cells of `cell` size fit in `space` with `gutter` between them */
+function fitCount(space: number, cell: number, gutter: number): number {
+  return Math.max(1, Math.floor((space + gutter + 1e-9) / (cell + gutter)));
+}
+
+/**
+ * Compute where cards of the given size land on one sheet
+ */
+export function computeSheetLayout(
+  profile: SheetProfile,
+  cardWidth: number,
+  cardHeight: number
+): SheetLayout {
+  const { width: pageWidth, height: pageHeight } = getPageSize(profile);
+  const footprintWidth = profile.rotate ? cardHeight : cardWidth;
+  const footprintHeight = profile.rotate ? cardWidth : cardHeight;
+
+  // Bleed needs room on both sides of every card
+  const cellWidth = profile.slot?.width ?? footprintWidth + profile.bleed * 2;
+  const cellHeight = profile.slot?.height ?? footprintHeight + profile.bleed * 2;
+  const { gutterX, gutterY } = profile;
+
+  const margins = profile.margins;
+  const usableWidth = pageWidth - (margins ? margins.left + margins.right : MIN_AUTO_MARGIN * 2);
+  const usableHeight = pageHeight - (margins ? margins.top + margins.bottom : MIN_AUTO_MARGIN * 2);
+
+  const cols = profile.cols || fitCount(usableWidth, cellWidth, gutterX);
+  const rows = profile.rows || fitCount(usableHeight, cellHeight, gutterY);
+
+  const gridWidth = cols * cellWidth + (cols - 1) * gutterX;
+  const gridHeight = rows * cellHeight + (rows - 1) * gutterY;
+  const originX = (margins ? margins.left : (pageWidth - gridWidth) / 2) + profile.offsetX;
+  const originY = (margins ? margins.top : (pageHeight - gridHeight) / 2) + profile.offsetY;
+
+  const slots: SheetSlot[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      slots.push({
+        x: originX + col * (cellWidth + gutterX) + (cellWidth - footprintWidth) / 2,
+        y: originY + row * (cellHeight + gutterY) + (cellHeight - footprintHeight) / 2,
+      });
+    }
+  }
+
+  return {
+    pageWidth,
+    pageHeight,
+    cols,
+    rows,
+    cardWidth: footprintWidth,
+    cardHeight: footprintHeight,
+    slots,
+  };
+}
+
+/** True when turning the sheet over swaps left and right rather than top and bottom */
+function flipsSideways(profile: SheetProfile, flip: DuplexFlip): boolean {
+  return (flip === 'long-edge') === (profile.orientation !== 'landscape');
+}
+
+/**
+ * Where each slot's back lands on the back sheet: the grid mirrored the way
+ * the sheet turns over, so every back sits behind its front. The printer
+ * offset is a calibration of the printer, so it is not mirrored.
+ */
+export function getBackSlots(
+  layout: SheetLayout,
+  profile: SheetProfile,
+  flip: DuplexFlip
+): SheetSlot[] {
+  const sideways = flipsSideways(profile, flip);
+  return layout.slots.map((slot) =>
+    sideways
+      ? { x: layout.pageWidth - slot.x - layout.cardWidth + profile.offsetX * 2, y: slot.y }
+      : { x: slot.x, y: layout.pageHeight - slot.y - layout.cardHeight + profile.offsetY * 2 }
+  );
+}
+
+/**
+ * How far backs are turned so they read the same way up as their fronts when
+ * the card is turned around its vertical axis (walking around a card stand)
+ */
+function getBackTurn(profile: SheetProfile, flip: DuplexFlip): CardTurn {
+  const sideways = flipsSideways(profile, flip);
+  if (profile.rotate) return sideways ? 270 : 90;
+  return sideways ? 0 : 180;
+}
+
+// ============================================================================
+// DRAWING
+// ============================================================================
+
+/**
+ * Draw a prepared card with its top-left corner at (x, y), extending its
+ * background, header and footer `bleed` past the trim edge
+ */
+export async function drawPreparedCard(
+  doc: jsPDF,
+  card: PreparedCard,
+  x: number,
+  y: number,
+  bleed: number = 0
+): Promise<void> {
+  await renderLayoutToPdf(
+    card.layout,
+    doc,
+    { x, y },
+    {
+      ...card.asyncData,
+      // Posters print full-bleed on letter; smaller cards get a cut border
+      // unless they have a bleed to cut through
+      border: card.layout.baseSize !== 'poster' && bleed === 0,
+      bleed,
+      warnings: card.warnings,
+    }
+  );
+}
+
+/**
+ * Draw a card turned clockwise into a footprint whose top-left is (x, y).
+ * The renderer has no rotation support, so the card is drawn at the origin
+ * under a PDF transformation matrix (which works in points, y up).
+ */
+async function drawTurnedCard(
+  doc: jsPDF,
+  card: PreparedCard,
+  x: number,
+  y: number,
+  bleed: number,
+  turn: CardTurn
+): Promise<void> {
+  if (turn === 0) {
+    await drawPreparedCard(doc, card, x, y, bleed);
+    return;
+  }
+
+  const k = doc.internal.scaleFactor;
+  const pageHeight = doc.internal.pageSize.getHeight() * k;
+  const { width, height } = card.layout.dimensions;
+  const matrix =
+    turn === 90
+      ? doc.Matrix(0, -1, 1, 0, (x + height) * k - pageHeight, pageHeight - y * k)
+      : turn === 180
+        ? doc.Matrix(-1, 0, 0, -1, (x + width) * k, pageHeight * 2 - (y + height) * k)
+        : doc.Matrix(0, 1, -1, 0, x * k + pageHeight, pageHeight - (y + width) * k);
+
+  doc.saveGraphicsState();
+  doc.setCurrentTransformationMatrix(matrix);
+  await drawPreparedCard(doc, card, 0, 0, bleed);
+  doc.restoreGraphicsState();
+}
+
+/** Unique values, so shared grid edges get a single set of marks */
+function uniqueEdges(values: number[]): number[] {
+  const rounded = values.map((v) => Math.round(v * 10000) / 10000);
+  return [...new Set(rounded)].sort((a, b) => a - b);
+}
+
+function drawCropMarks(doc: jsPDF, layout: SheetLayout, slots: SheetSlot[], bleed: number): void {
+  const xs = uniqueEdges(slots.flatMap((s) => [s.x, s.x + layout.cardWidth]));
+  const ys = uniqueEdges(slots.flatMap((s) => [s.y, s.y + layout.cardHeight]));
+  const gap = CROP_MARK_GAP + bleed;
+  const length = CROP_MARK_LENGTH + bleed;
+
+  doc.setDrawColor(180, 180, 180);
+  doc.setLineWidth(CROP_MARK_WIDTH);
+  for (const y of ys) {
+    for (const x of xs) {
+      doc.line(x - length, y, x - gap, y);
+      doc.line(x + gap, y, x + length, y);
+      doc.line(x, y - length, x, y - gap);
+      doc.line(x, y + gap, x, y + length);
+    }
+  }
+}
+
+/** Centre a card's footprint within a grid slot */
+function centreInSlot(
+  layout: SheetLayout,
+  card: PreparedCard,
+  slot: SheetSlot,
+  rotated: boolean
+): SheetSlot {
+  const { width, height } = card.layout.dimensions;
+  const footprintWidth = rotated ? height : width;
+  const footprintHeight = rotated ? width : height;
+  return {
+    x: slot.x + (layout.cardWidth - footprintWidth) / 2,
+    y: slot.y + (layout.cardHeight - footprintHeight) / 2,
+  };
+}
+
+/**
+ * Place cards on sheets of the given profile, in order, one per slot.
+ * The grid is sized for the largest card; smaller cards are centred.
+ * With backs, each front sheet is followed by its back sheet (no crop marks
+ * or caption) so the document prints duplex as it is.
+ */
+export async function imposeCards(
+  cards: PreparedCard[],
+  profile: SheetProfile,
+  options: ImposeOptions = {}
+): Promise<jsPDF> {
+  const { backs } = options;
+  const sized = backs ? [...cards, ...backs] : cards;
+  const cardWidth = Math.max(...sized.map((c) => c.layout.dimensions.width));
+  const cardHeight = Math.max(...sized.map((c) => c.layout.dimensions.height));
+  const layout = computeSheetLayout(profile, cardWidth, cardHeight);
+  const perSheet = layout.slots.length;
+
+  const flip = options.flip ?? 'long-edge';
+  const backSlots = backs ? getBackSlots(layout, profile, flip) : [];
+  const backTurn = getBackTurn(profile, flip);
+  // 90° and 270° turns swap the footprint just like rotating the front
+  const backRotated = backTurn === 90 || backTurn === 270;
+
+  const doc =
+    options.doc ??
+    new jsPDF({ orientation: profile.orientation, unit: 'in', format: profile.paper });
+
+  // Every copy on the sheet shares the same logo, icons and codes
+  await withAssetCache(async () => {
+    for (let start = 0; start < cards.length; start += perSheet) {
+      if (start > 0 || options.doc) {
+        doc.addPage(profile.paper, profile.orientation);
+      }
+      const sheetCards = cards.slice(start, start + perSheet);
+      const slots = layout.slots.slice(0, sheetCards.length);
+
+      if (profile.cropMarks) {
+        drawCropMarks(doc, layout, slots, profile.bleed);
+      }
+
+      for (let i = 0; i < sheetCards.length; i++) {
+        const slot = centreInSlot(layout, sheetCards[i], slots[i], profile.rotate);
+        await drawTurnedCard(
+          doc,
+          sheetCards[i],
+          slot.x,
+          slot.y,
+          profile.bleed,
+          profile.rotate ? 90 : 0
+        );
+      }
+
+      if (options.caption) {
+        doc.setFontSize(CAPTION_FONT_SIZE);
+        doc.setTextColor(150, 150, 150);
+        doc.text(
+          options.caption,
+          layout.pageWidth / 2 + profile.offsetX,
+          layout.pageHeight - CAPTION_OFFSET_FROM_BOTTOM + profile.offsetY,
+          { align: 'center' }
+        );
+      }
+
+      if (backs) {
+        doc.addPage(profile.paper, profile.orientation);
+        const sheetBacks = backs.slice(start, start + sheetCards.length);
+        for (let i = 0; i < sheetBacks.length; i++) {
+          const slot = centreInSlot(layout, sheetBacks[i], backSlots[i], backRotated);
+          await drawTurnedCard(doc, sheetBacks[i], slot.x, slot.y, profile.bleed, backTurn);
+        }
+      }
+    }
+  });
+
+  return doc;
+}
@@ -12,23 +12,51 @@ import {
   BadgeRowElement,
   SpecItem,
   InfoBarElement,
+  HeaderElement,
+  TextElement,
+  TextStyle,
+  TextFit,
+  PriceElement,
+  SpecsElement,
+  FooterAccentElement,
+  HexColor,
   generateElementId,
+  getElementRole,
   lightenColor,
   darkenColor,
 } from './layoutSchema';
 import {
-  CARD_SIZES,
-  COMPONENT_LABELS,
-  ComponentCategory,
+  BuiltInCardSize,
+  InfoListKey,
+  SizeSpecVisibility,
+  SpecListKey,
   STOCK_STATUS_CONFIG,
   CONDITION_CONFIG,
   calculateMonthlyPayment,
   calculateDiscountPercent,
+  formatPrice,
   BACKGROUND_PATTERNS,
-  FONT_FAMILIES,
 } from '../types';
 import { findBrandIcon } from './brandDetection';
-import { getLayoutConfig } from './pdfLayouts';
+import { resolveCardFont } from './fontManager';
+import { resolveCardSize, getSizeLayoutConfig, ResolvedCardSize } from './cardSizes';
+import {
+  getCardTemplateStyle,
+  LayoutConfig,
+  CardTemplateStyle,
+  POSTER_SPEC_HEADER,
+} from './pdfLayouts';
+import { CardDesign, DesignElement, getDesignForSize } from './cardDesigns';
+import { abbreviateSpecValues, usesAbbreviations } from './specAbbreviations';
+import {
+  ShownItem,
+  getItemText,
+  getShownInfoItems,
+  getShownSpecs,
+  getSizeSpecVisibility,
+} from './specVisibility';
+import { isCustomFieldId } from './customFields';
+import { getComponentPrice, getComponentValues } from './componentItems';
 
 // ============================================================================
 // BADGE BUILDERS
@@ -83,63 +111,258 @@ function buildBadges(
   return badges;
 }
 
-/** Build spec items from config */
-function buildSpecItems(ctx: LayoutBuilderContext, specKeys: ComponentCategory[]): SpecItem[] {
-  const { config, brandIcons } = ctx;
+/** What a card size shows: the config's lists for it, or the default */
+function resolveSpecVisibility(
+  ctx: LayoutBuilderContext,
+  size: ResolvedCardSize
+): SizeSpecVisibility {
+  return getSizeSpecVisibility(
+    size.id,
+    size.baseSize,
+    [ctx.config.specVisibility, ctx.specVisibility],
+    ctx.customFields
+  );
+}
+
+/**
+ * Build spec items from config in the given order and with the given labels,
+ * with component prices if asked for and set. Component values are shortened
+ * where the size uses spec abbreviations; custom field values are shown as is.
+ */
+function buildSpecItems(
+  ctx: LayoutBuilderContext,
+  shown: ShownItem<SpecListKey>[],
+  withPrices: boolean = false
+): SpecItem[] {
+  const { config, brandIcons, abbreviations, customFields } = ctx;
+  const rules = usesAbbreviations(abbreviations, ctx.cardSize) ? abbreviations?.categories : null;
   const items: SpecItem[] = [];
 
-  for (const key of specKeys) {
-    const value = config.components[key];
+  for (const { key, label } of shown) {
+    const value = getItemText(config, key, customFields);
     if (!value) continue;
 
-    const brandIcon = findBrandIcon(value, brandIcons);
+    if (isCustomFieldId(key)) {
+      items.push({ key, label, value });
+      continue;
+    }
+
+    // Icon and vendor come from the category's first line item
+    const values = getComponentValues(config, key);
+    const brandIcon = findBrandIcon(values[0], brandIcons);
+    const price = getComponentPrice(config, key);
     items.push({
       key,
-      label: COMPONENT_LABELS[key],
-      value,
+      label,
+      value: rules?.[key] ? abbreviateSpecValues(values, rules[key], brandIcon?.name) : value,
       brandIcon: brandIcon ? { src: brandIcon.image, name: brandIcon.name } : undefined,
+      ...(withPrices && price > 0 && { price }),
     });
   }
 
   return items;
 }
 
-/** Build info bar items from config */
-function buildInfoItems(ctx: LayoutBuilderContext): InfoBarElement['items'] {
-  const { config } = ctx;
+/** Build info bar items from config in the given order, labeled in capitals */
+function buildInfoItems(
+  ctx: LayoutBuilderContext,
+  shown: ShownItem<InfoListKey>[]
+): InfoBarElement['items'] {
   const items: InfoBarElement['items'] = [];
 
-  if (config.os) items.push({ label: 'OS', value: config.os });
-  if (config.warranty) items.push({ label: 'WARRANTY', value: config.warranty });
-  if (config.wifi) items.push({ label: 'CONNECTIVITY', value: config.wifi });
+  for (const { key, label } of shown) {
+    const value = getItemText(ctx.config, key, ctx.customFields);
+    if (value) items.push({ label: label.toUpperCase(), value });
+  }
 
   return items;
 }
 
+// ============================================================================
+// TEMPLATED ELEMENT BUILDERS
+// Elements whose look depends on the selected card template.
+// ============================================================================
+
+/** Share of its font size long text may shrink to before it's cut */
+const MIN_FONT_SCALE = 0.75;
+
+/** Let text starting at `fontSize` shrink to fit */
+function shrinkToFit(fontSize: number): TextFit {
+  return { minFontSize: fontSize * MIN_FONT_SCALE };
+}
+
+/** Resolve the template style for a builder context */
+function resolveTemplate(ctx: LayoutBuilderContext): CardTemplateStyle {
+  return getCardTemplateStyle(ctx.config.visualSettings?.cardTemplate);
+}
+
+/** Build the store name header bar */
+function buildHeader(
+  ctx: LayoutBuilderContext,
+  layout: LayoutConfig,
+  template: CardTemplateStyle
+): HeaderElement {
+  const { config, colors } = ctx;
+  const stripeHeight = template.header.stripeHeight ?? layout.header.accentHeight;
+
+  return {
+    id: generateElementId('header'),
+    type: 'header',
+    visible: true,
+    text: template.header.uppercase ? config.storeName.toUpperCase() : config.storeName,
+    style: {
+      height: layout.header.height,
+      backgroundColor: template.header.filled ? colors.accent : '#ffffff',
+      textColor: template.header.filled ? '#ffffff' : colors.accent,
+      fontSize: layout.header.fontSize,
+      ...(stripeHeight > 0 && { accentHeight: stripeHeight, accentColor: colors.primary }),
+    },
+  };
+}
+
+/** Build the model name heading */
+function buildModelName(
+  ctx: LayoutBuilderContext,
+  layout: LayoutConfig,
+  template: CardTemplateStyle,
+  color: HexColor
+): TextElement {
+  const text = ctx.config.modelName || 'PC Build';
+  return {
+    id: generateElementId('model'),
+    type: 'text',
+    visible: true,
+    text: template.modelName.uppercase ? text.toUpperCase() : text,
+    style: {
+      fontSize: layout.fontSize.modelName,
+      fontWeight: 'bold',
+      color,
+      align: 'center',
+    },
+    maxLines: 2,
+    fit: shrinkToFit(layout.fontSize.modelName),
+  };
+}
+
+/** Build the price section, boxed or bare depending on size and template */
+function buildPrice(
+  ctx: LayoutBuilderContext,
+  layout: LayoutConfig,
+  template: CardTemplateStyle
+): PriceElement {
+  const { config, colors } = ctx;
+  const showBox = template.price.showBox ?? layout.price.showBox;
+
+  return {
+    id: generateElementId('price'),
+    type: 'price',
+    visible: true,
+    currentPrice: config.price,
+    originalPrice: config.saleInfo?.enabled ? config.saleInfo.originalPrice : undefined,
+    showStrikethrough: config.saleInfo?.enabled && config.saleInfo.originalPrice > 0,
+    style: {
+      mainFontSize: layout.price.mainFontSize,
+      strikeFontSize: layout.price.strikeFontSize,
+      priceColor: colors.priceColor,
+      strikeColor: '#9ca3af',
+      showBox,
+      ...(showBox && {
+        boxColor: lightenColor(colors.priceColor, template.price.tint),
+        boxRadius: layout.price.boxRadius * template.price.radiusScale,
+        boxHeight: layout.price.boxHeight || undefined,
+      }),
+    },
+  };
+}
+
+/** Size-specific defaults for the spec list styling */
+interface SpecsDefaults {
+  valueColor: HexColor;
+  panelColor?: HexColor;
+  borderRadius: number;
+}
+
+/** Build the spec list styling */
+function buildSpecsStyle(
+  ctx: LayoutBuilderContext,
+  layout: LayoutConfig,
+  template: CardTemplateStyle,
+  defaults: SpecsDefaults
+): SpecsElement['style'] {
+  const { colors } = ctx;
+  const panel = template.specs.panel ?? defaults.panelColor !== undefined;
+  const accentWidth = template.specs.accentWidth ?? layout.specs.accentWidth;
+
+  return {
+    labelFontSize: layout.fontSize.specLabel,
+    valueFontSize: layout.fontSize.specValue,
+    labelColor: template.specs.labelColor === 'accent' ? colors.accent : colors.primary,
+    valueColor: defaults.valueColor,
+    iconSize: layout.specs.iconSize,
+    lineHeight: layout.specs.lineHeight,
+    ...(panel && {
+      backgroundColor: template.specs.panelColor ?? defaults.panelColor ?? '#fafafa',
+      borderRadius: defaults.borderRadius,
+      padding: layout.specs.padding || layout.badge.paddingX,
+    }),
+    ...(accentWidth > 0 && { accentWidth, accentColor: colors.primary }),
+  };
+}
+
+/**
+ * Build the footer accent bar. `stripe` is the size's default for drawing a
+ * primary stripe over an accent-colored bar.
+ */
+function buildFooterAccent(
+  ctx: LayoutBuilderContext,
+  layout: LayoutConfig,
+  template: CardTemplateStyle,
+  stripe: boolean
+): FooterAccentElement | null {
+  const { colors } = ctx;
+  if (!template.footer.show) return null;
+
+  const height = Math.max(
+    layout.footer.accentHeight * template.footer.heightScale,
+    template.footer.minHeight
+  );
+  if (height <= 0) return null;
+
+  const withStripe = template.footer.stripe ?? stripe;
+  return {
+    id: generateElementId('footer-accent'),
+    type: 'footer-accent',
+    visible: true,
+    style: withStripe
+      ? {
+          height,
+          primaryColor: colors.accent,
+          accentColor: colors.primary,
+          accentHeight: Math.min(layout.footer.primaryStripeHeight || height / 3, height / 2),
+        }
+      : {
+          height,
+          primaryColor: colors.primary,
+        },
+  };
+}
+
 // ============================================================================
 // SHELF TAG LAYOUT (2" × 3")
 // ============================================================================
 
-export function buildShelfTagLayout(ctx: LayoutBuilderContext): CardLayout {
+export function buildShelfTagLayout(
+  ctx: LayoutBuilderContext,
+  template: CardTemplateStyle = resolveTemplate(ctx),
+  size: ResolvedCardSize = resolveCardSize('shelf')
+): CardLayout {
   const { config, colors, asyncData } = ctx;
-  const layout = getLayoutConfig('shelf');
-  const size = CARD_SIZES.shelf;
+  const layout = getSizeLayoutConfig(size, ctx.layoutOverrides);
   const elements: LayoutElement[] = [];
 
   // Header bar
   if (config.storeName) {
-    elements.push({
-      id: generateElementId('header'),
-      type: 'header',
-      visible: true,
-      text: config.storeName,
-      style: {
-        height: layout.header.height,
-        backgroundColor: colors.accent,
-        textColor: '#ffffff',
-        fontSize: layout.header.fontSize,
-      },
-    });
+    elements.push(buildHeader(ctx, layout, template));
   }
 
   // Store logo
@@ -156,19 +379,7 @@ export function buildShelfTagLayout(ctx: LayoutBuilderContext): CardLayout {
   }
 
   // Model name
-  elements.push({
-    id: generateElementId('model'),
-    type: 'text',
-    visible: true,
-    text: config.modelName || 'PC Build',
-    style: {
-      fontSize: layout.fontSize.modelName,
-      fontWeight: 'bold',
-      color: '#000000',
-      align: 'center',
-    },
-    maxLines: 2,
-  });
+  elements.push(buildModelName(ctx, layout, template, '#000000'));
 
   // Badges
   const badges = buildBadges(ctx, layout.includeStockBadge);
@@ -190,25 +401,13 @@ export function buildShelfTagLayout(ctx: LayoutBuilderContext): CardLayout {
   }
 
   // Price section
-  elements.push({
-    id: generateElementId('price'),
-    type: 'price',
-    visible: true,
-    currentPrice: config.price,
-    originalPrice: config.saleInfo?.enabled ? config.saleInfo.originalPrice : undefined,
-    showStrikethrough: config.saleInfo?.enabled && config.saleInfo.originalPrice > 0,
-    style: {
-      mainFontSize: layout.price.mainFontSize,
-      strikeFontSize: layout.price.strikeFontSize,
-      priceColor: colors.priceColor,
-      strikeColor: '#9ca3af',
-      showBox: layout.price.showBox,
-    },
-  });
+  elements.push(buildPrice(ctx, layout, template));
 
   // Key specs
-  const specKeys: ComponentCategory[] = ['cpu', 'gpu', 'ram', 'storage'];
-  const specs = buildSpecItems(ctx, specKeys);
+  const specs = buildSpecItems(
+    ctx,
+    getShownSpecs(resolveSpecVisibility(ctx, size), ctx.customFields)
+  );
   if (specs.length > 0) {
     elements.push({
       id: generateElementId('specs'),
@@ -216,14 +415,11 @@ export function buildShelfTagLayout(ctx: LayoutBuilderContext): CardLayout {
       visible: true,
       specs,
       layout: 'single-column',
-      style: {
-        labelFontSize: layout.fontSize.specLabel,
-        valueFontSize: layout.fontSize.specValue,
-        labelColor: colors.primary,
+      fit: shrinkToFit(layout.fontSize.specValue),
+      style: buildSpecsStyle(ctx, layout, template, {
         valueColor: '#3c3c3c',
-        iconSize: layout.specs.iconSize,
-        lineHeight: layout.specs.lineHeight,
-      },
+        borderRadius: 0.04 * size.scale,
+      }),
     });
   }
 
@@ -254,15 +450,25 @@ export function buildShelfTagLayout(ctx: LayoutBuilderContext): CardLayout {
     });
   }
 
+  // Footer accent (only templates that ask for one on shelf tags)
+  const footerAccent = buildFooterAccent(ctx, layout, template, false);
+  if (footerAccent) {
+    elements.push(footerAccent);
+  }
+
   return {
-    cardSize: 'shelf',
+    cardSize: size.id,
+    baseSize: size.baseSize,
+    layoutScale: size.scale,
+    template: config.visualSettings.cardTemplate ?? 'default',
     dimensions: { width: size.width, height: size.height },
     colors,
     background: {
       color: '#ffffff',
       pattern: BACKGROUND_PATTERNS[config.visualSettings.backgroundPattern].value,
+      patternId: config.visualSettings.backgroundPattern,
     },
-    fontFamily: FONT_FAMILIES[config.visualSettings.fontFamily].value,
+    ...resolveCardFont(config.visualSettings, ctx.customFonts),
     elements,
   };
 }
@@ -271,28 +477,18 @@ export function buildShelfTagLayout(ctx: LayoutBuilderContext): CardLayout {
 // PRICE CARD LAYOUT (4" × 6")
 // ============================================================================
 
-export function buildPriceCardLayout(ctx: LayoutBuilderContext): CardLayout {
+export function buildPriceCardLayout(
+  ctx: LayoutBuilderContext,
+  template: CardTemplateStyle = resolveTemplate(ctx),
+  size: ResolvedCardSize = resolveCardSize('price')
+): CardLayout {
   const { config, colors, asyncData } = ctx;
-  const layout = getLayoutConfig('price');
-  const size = CARD_SIZES.price;
+  const layout = getSizeLayoutConfig(size, ctx.layoutOverrides);
   const elements: LayoutElement[] = [];
 
   // Header bar with accent
   if (config.storeName) {
-    elements.push({
-      id: generateElementId('header'),
-      type: 'header',
-      visible: true,
-      text: config.storeName,
-      style: {
-        height: layout.header.height,
-        backgroundColor: colors.accent,
-        textColor: '#ffffff',
-        fontSize: layout.header.fontSize,
-        accentHeight: layout.header.accentHeight,
-        accentColor: colors.primary,
-      },
-    });
+    elements.push(buildHeader(ctx, layout, template));
   }
 
   // Store logo
@@ -309,19 +505,7 @@ export function buildPriceCardLayout(ctx: LayoutBuilderContext): CardLayout {
   }
 
   // Model name
-  elements.push({
-    id: generateElementId('model'),
-    type: 'text',
-    visible: true,
-    text: config.modelName || 'PC Build',
-    style: {
-      fontSize: layout.fontSize.modelName,
-      fontWeight: 'bold',
-      color: darkenColor(colors.accent, 0.2),
-      align: 'center',
-    },
-    maxLines: 2,
-  });
+  elements.push(buildModelName(ctx, layout, template, darkenColor(colors.accent, 0.2)));
 
   // Badges (include stock)
   const badges = buildBadges(ctx, layout.includeStockBadge);
@@ -343,24 +527,7 @@ export function buildPriceCardLayout(ctx: LayoutBuilderContext): CardLayout {
   }
 
   // Price section with box
-  elements.push({
-    id: generateElementId('price'),
-    type: 'price',
-    visible: true,
-    currentPrice: config.price,
-    originalPrice: config.saleInfo?.enabled ? config.saleInfo.originalPrice : undefined,
-    showStrikethrough: config.saleInfo?.enabled && config.saleInfo.originalPrice > 0,
-    style: {
-      mainFontSize: layout.price.mainFontSize,
-      strikeFontSize: layout.price.strikeFontSize,
-      priceColor: colors.priceColor,
-      strikeColor: '#9ca3af',
-      showBox: layout.price.showBox,
-      boxColor: lightenColor(colors.priceColor, 0.92),
-      boxRadius: layout.price.boxRadius,
-      boxHeight: layout.price.boxHeight,
-    },
-  });
+  elements.push(buildPrice(ctx, layout, template));
 
   // Financing info
   if (config.financingInfo?.enabled && config.price > 0) {
@@ -412,17 +579,8 @@ export function buildPriceCardLayout(ctx: LayoutBuilderContext): CardLayout {
   }
 
   // Specs section (two columns)
-  const allSpecs: ComponentCategory[] = [
-    'cpu',
-    'gpu',
-    'ram',
-    'storage',
-    'motherboard',
-    'psu',
-    'case',
-    'cooling',
-  ];
-  const specs = buildSpecItems(ctx, allSpecs);
+  const visibility = resolveSpecVisibility(ctx, size);
+  const specs = buildSpecItems(ctx, getShownSpecs(visibility, ctx.customFields));
   if (specs.length > 0) {
     elements.push({
       id: generateElementId('specs'),
@@ -430,30 +588,24 @@ export function buildPriceCardLayout(ctx: LayoutBuilderContext): CardLayout {
       visible: true,
       specs,
       layout: 'two-column',
-      style: {
-        labelFontSize: layout.fontSize.specLabel,
-        valueFontSize: layout.fontSize.specValue,
-        labelColor: colors.primary,
+      fit: shrinkToFit(layout.fontSize.specValue),
+      style: buildSpecsStyle(ctx, layout, template, {
         valueColor: '#323232',
-        iconSize: layout.specs.iconSize,
-        lineHeight: layout.specs.lineHeight,
-        backgroundColor: '#fafafa',
-        accentWidth: layout.specs.accentWidth,
-        accentColor: colors.primary,
-        borderRadius: 0.08,
-        padding: layout.specs.padding,
-      },
+        panelColor: '#fafafa',
+        borderRadius: 0.08 * size.scale,
+      }),
     });
   }
 
   // Info bar
-  const infoItems = buildInfoItems(ctx);
+  const infoItems = buildInfoItems(ctx, getShownInfoItems(visibility, ctx.customFields));
   if (infoItems.length > 0) {
     elements.push({
       id: generateElementId('infobar'),
       type: 'info-bar',
       visible: true,
       items: infoItems,
+      fit: shrinkToFit(layout.infoBar.valueFontSize),
       style: {
         height: layout.infoBar.height,
         backgroundColor: lightenColor(colors.primary, 0.9),
@@ -518,25 +670,24 @@ export function buildPriceCardLayout(ctx: LayoutBuilderContext): CardLayout {
   }
 
   // Footer accent
-  elements.push({
-    id: generateElementId('footer-accent'),
-    type: 'footer-accent',
-    visible: true,
-    style: {
-      height: layout.footer.accentHeight,
-      primaryColor: colors.primary,
-    },
-  });
+  const footerAccent = buildFooterAccent(ctx, layout, template, false);
+  if (footerAccent) {
+    elements.push(footerAccent);
+  }
 
   return {
-    cardSize: 'price',
+    cardSize: size.id,
+    baseSize: size.baseSize,
+    layoutScale: size.scale,
+    template: config.visualSettings.cardTemplate ?? 'default',
     dimensions: { width: size.width, height: size.height },
     colors,
     background: {
       color: '#ffffff',
       pattern: BACKGROUND_PATTERNS[config.visualSettings.backgroundPattern].value,
+      patternId: config.visualSettings.backgroundPattern,
     },
-    fontFamily: FONT_FAMILIES[config.visualSettings.fontFamily].value,
+    ...resolveCardFont(config.visualSettings, ctx.customFonts),
     elements,
   };
 }
@@ -545,28 +696,18 @@ export function buildPriceCardLayout(ctx: LayoutBuilderContext): CardLayout {
 // POSTER LAYOUT (8.5" × 11")
 // ============================================================================
 
-export function buildPosterLayout(ctx: LayoutBuilderContext): CardLayout {
+export function buildPosterLayout(
+  ctx: LayoutBuilderContext,
+  template: CardTemplateStyle = resolveTemplate(ctx),
+  size: ResolvedCardSize = resolveCardSize('poster')
+): CardLayout {
   const { config, colors, asyncData } = ctx;
-  const layout = getLayoutConfig('poster');
-  const size = CARD_SIZES.poster;
+  const layout = getSizeLayoutConfig(size, ctx.layoutOverrides);
   const elements: LayoutElement[] = [];
 
   // Header bar with accent
   if (config.storeName) {
-    elements.push({
-      id: generateElementId('header'),
-      type: 'header',
-      visible: true,
-      text: config.storeName,
-      style: {
-        height: layout.header.height,
-        backgroundColor: colors.accent,
-        textColor: '#ffffff',
-        fontSize: layout.header.fontSize,
-        accentHeight: layout.header.accentHeight,
-        accentColor: colors.primary,
-      },
-    });
+    elements.push(buildHeader(ctx, layout, template));
   }
 
   // Store logo
@@ -602,39 +743,10 @@ export function buildPosterLayout(ctx: LayoutBuilderContext): CardLayout {
   }
 
   // Model name
-  elements.push({
-    id: generateElementId('model'),
-    type: 'text',
-    visible: true,
-    text: config.modelName || 'PC Build',
-    style: {
-      fontSize: layout.fontSize.modelName,
-      fontWeight: 'bold',
-      color: darkenColor(colors.accent, 0.1),
-      align: 'center',
-    },
-    maxLines: 2,
-  });
+  elements.push(buildModelName(ctx, layout, template, darkenColor(colors.accent, 0.1)));
 
   // Price section with decorated box
-  elements.push({
-    id: generateElementId('price'),
-    type: 'price',
-    visible: true,
-    currentPrice: config.price,
-    originalPrice: config.saleInfo?.enabled ? config.saleInfo.originalPrice : undefined,
-    showStrikethrough: config.saleInfo?.enabled && config.saleInfo.originalPrice > 0,
-    style: {
-      mainFontSize: layout.price.mainFontSize,
-      strikeFontSize: layout.price.strikeFontSize,
-      priceColor: colors.priceColor,
-      strikeColor: '#9ca3af',
-      showBox: layout.price.showBox,
-      boxColor: lightenColor(colors.priceColor, 0.92),
-      boxRadius: layout.price.boxRadius,
-      boxHeight: layout.price.boxHeight,
-    },
-  });
+  elements.push(buildPrice(ctx, layout, template));
 
   // Financing info (with APR)
   if (config.financingInfo?.enabled && config.price > 0) {
@@ -669,25 +781,22 @@ export function buildPosterLayout(ctx: LayoutBuilderContext): CardLayout {
     visible: true,
     text: 'SPECIFICATIONS',
     style: {
-      fontSize: 18,
+      fontSize: POSTER_SPEC_HEADER.fontSize,
       fontWeight: 'bold',
       color: '#ffffff',
       align: 'center',
     },
+    band: {
+      height: POSTER_SPEC_HEADER.height,
+      backgroundColor: colors.accent,
+      accentHeight: POSTER_SPEC_HEADER.accentHeight,
+      accentColor: colors.primary,
+    },
   });
 
   // Specs section (two columns, card style)
-  const allSpecs: ComponentCategory[] = [
-    'cpu',
-    'gpu',
-    'ram',
-    'storage',
-    'motherboard',
-    'psu',
-    'case',
-    'cooling',
-  ];
-  const specs = buildSpecItems(ctx, allSpecs);
+  const visibility = resolveSpecVisibility(ctx, size);
+  const specs = buildSpecItems(ctx, getShownSpecs(visibility, ctx.customFields));
   if (specs.length > 0) {
     elements.push({
       id: generateElementId('specs'),
@@ -695,30 +804,24 @@ export function buildPosterLayout(ctx: LayoutBuilderContext): CardLayout {
       visible: true,
       specs,
       layout: 'two-column',
-      style: {
-        labelFontSize: layout.fontSize.specLabel,
-        valueFontSize: layout.fontSize.specValue,
-        labelColor: colors.primary,
+      fit: shrinkToFit(layout.fontSize.specValue),
+      style: buildSpecsStyle(ctx, layout, template, {
         valueColor: '#282828',
-        iconSize: layout.specs.iconSize,
-        lineHeight: layout.specs.lineHeight,
-        backgroundColor: '#f8f9fa',
-        accentWidth: layout.specs.accentWidth,
-        accentColor: colors.primary,
-        borderRadius: 0.06,
-        padding: layout.specs.padding,
-      },
+        panelColor: '#f8f9fa',
+        borderRadius: 0.06 * size.scale,
+      }),
     });
   }
 
   // Info bar
-  const infoItems = buildInfoItems(ctx);
+  const infoItems = buildInfoItems(ctx, getShownInfoItems(visibility, ctx.customFields));
   if (infoItems.length > 0) {
     elements.push({
       id: generateElementId('infobar'),
       type: 'info-bar',
       visible: true,
       items: infoItems,
+      fit: shrinkToFit(layout.infoBar.valueFontSize),
       style: {
         height: layout.infoBar.height,
         backgroundColor: lightenColor(colors.primary, 0.9),
@@ -811,27 +914,144 @@ export function buildPosterLayout(ctx: LayoutBuilderContext): CardLayout {
   }
 
   // Footer accent
-  elements.push({
-    id: generateElementId('footer-accent'),
-    type: 'footer-accent',
-    visible: true,
-    style: {
-      height: layout.footer.accentHeight,
-      primaryColor: colors.accent,
-      accentColor: colors.primary,
-      accentHeight: layout.footer.primaryStripeHeight,
+  const footerAccent = buildFooterAccent(ctx, layout, template, true);
+  if (footerAccent) {
+    elements.push(footerAccent);
+  }
+
+  return {
+    cardSize: size.id,
+    baseSize: size.baseSize,
+    layoutScale: size.scale,
+    template: config.visualSettings.cardTemplate ?? 'default',
+    dimensions: { width: size.width, height: size.height },
+    colors,
+    background: {
+      color: '#ffffff',
+      pattern: BACKGROUND_PATTERNS[config.visualSettings.backgroundPattern].value,
+      patternId: config.visualSettings.backgroundPattern,
     },
-  });
+    ...resolveCardFont(config.visualSettings, ctx.customFonts),
+    elements,
+  };
+}
+
+// ============================================================================
+// CARD BACK LAYOUT
+// ============================================================================
+
+/** Largest QR code on a card back, as a multiple of the front's QR size */
+const BACK_QR_SCALE = 2.5;
+
+/**
+ * Build the back side of a card: every component (with its price when
+ * component prices are shown), warranty terms, financing fine print and a
+ * large QR code. The back shares the front's size, template and font.
+ */
+export function buildCardBackLayout(ctx: LayoutBuilderContext): CardLayout {
+  const { config, colors, asyncData } = ctx;
+  const size = resolveCardSize(ctx.cardSize, ctx.customSizes);
+  const template = resolveTemplate(ctx);
+  const layout = getSizeLayoutConfig(size);
+  const elements: LayoutElement[] = [];
+
+  // Header bar
+  if (config.storeName) {
+    elements.push(buildHeader(ctx, layout, template));
+  }
+
+  // Model name
+  elements.push(buildModelName(ctx, layout, template, darkenColor(colors.accent, 0.2)));
+
+  // Full component list, hidden ones included, in the size's order and with its
+  // labels; shelf tags need two columns to leave room for the QR code
+  const specs = buildSpecItems(
+    ctx,
+    getShownSpecs(resolveSpecVisibility(ctx, size), ctx.customFields, true),
+    config.showComponentPrices
+  );
+  if (specs.length > 0) {
+    elements.push({
+      id: generateElementId('specs'),
+      type: 'specs',
+      visible: true,
+      specs,
+      layout: size.baseSize === 'shelf' ? 'two-column' : 'single-column',
+      fit: shrinkToFit(layout.fontSize.specValue),
+      style: buildSpecsStyle(ctx, layout, template, {
+        valueColor: '#323232',
+        borderRadius: 0.06 * size.scale,
+      }),
+    });
+  }
+
+  const finePrintStyle: TextStyle = {
+    fontSize: layout.fontSize.description,
+    fontWeight: 'normal',
+    color: '#505050',
+    align: 'center',
+  };
+
+  // Warranty terms
+  if (config.warranty) {
+    elements.push({
+      id: generateElementId('warranty'),
+      type: 'text',
+      visible: true,
+      text: `Warranty: ${config.warranty}`,
+      style: finePrintStyle,
+      maxLines: 2,
+    });
+  }
+
+  // Financing fine print, with the APR and total cost spelled out
+  if (config.financingInfo?.enabled && config.price > 0) {
+    const { months, apr } = config.financingInfo;
+    const monthly = calculateMonthlyPayment(config.price, months, apr);
+    if (monthly) {
+      const payment = formatPrice(Number(monthly));
+      const total = formatPrice(Number(monthly) * months);
+      elements.push({
+        id: generateElementId('financing-terms'),
+        type: 'text',
+        visible: true,
+        text: `Financing: ${months} monthly payments of ${payment} at ${apr}% APR, ${total} in total. Subject to credit approval.`,
+        style: { ...finePrintStyle, fontStyle: 'italic', color: '#6b7280' },
+        maxLines: 3,
+      });
+    }
+  }
+
+  // Large QR code
+  if (asyncData?.qrCodeImage && config.visualSettings.showQrCode) {
+    elements.push({
+      id: generateElementId('qrcode'),
+      type: 'qrcode',
+      visible: true,
+      url: config.visualSettings.qrCodeUrl,
+      size: Math.min(layout.media.qrSize * BACK_QR_SCALE, (size.width - layout.margin * 2) / 2),
+    });
+  }
+
+  // Footer accent
+  const footerAccent = buildFooterAccent(ctx, layout, template, size.baseSize === 'poster');
+  if (footerAccent) {
+    elements.push(footerAccent);
+  }
 
   return {
-    cardSize: 'poster',
+    cardSize: size.id,
+    baseSize: size.baseSize,
+    layoutScale: size.scale,
+    template: config.visualSettings.cardTemplate ?? 'default',
     dimensions: { width: size.width, height: size.height },
     colors,
     background: {
       color: '#ffffff',
       pattern: BACKGROUND_PATTERNS[config.visualSettings.backgroundPattern].value,
+      patternId: config.visualSettings.backgroundPattern,
     },
-    fontFamily: FONT_FAMILIES[config.visualSettings.fontFamily].value,
+    ...resolveCardFont(config.visualSettings, ctx.customFonts),
     elements,
   };
 }
@@ -840,16 +1060,206 @@ export function buildPosterLayout(ctx: LayoutBuilderContext): CardLayout {
 // MAIN BUILDER FUNCTION
 // ============================================================================
 
-/** Build layout for any card size */
+/** Builds a layout for one card size in the given template style */
+export type LayoutBuilder = (
+  ctx: LayoutBuilderContext,
+  template: CardTemplateStyle,
+  size: ResolvedCardSize
+) => CardLayout;
+
+/** Registered builders, one per built-in card size */
+const LAYOUT_BUILDERS: Record<BuiltInCardSize, LayoutBuilder> = {
+  shelf: buildShelfTagLayout,
+  price: buildPriceCardLayout,
+  poster: buildPosterLayout,
+};
+
+/**
+ * Build layout for any card size, styled by the config's card template.
+ * Custom sizes use the builder of their closest built-in size, and a design
+ * made for the size replaces the built-in layout.
+ */
 export function buildCardLayout(ctx: LayoutBuilderContext): CardLayout {
-  switch (ctx.cardSize) {
-    case 'shelf':
-      return buildShelfTagLayout(ctx);
+  const design = getDesignForSize(ctx.designs, ctx.cardSize);
+  if (design) return buildDesignLayout(ctx, design);
+
+  const size = resolveCardSize(ctx.cardSize, ctx.customSizes);
+  return LAYOUT_BUILDERS[size.baseSize](ctx, resolveTemplate(ctx), size);
+}
+
+// ============================================================================
+// DESIGNED LAYOUT
+// ============================================================================
+
+/** Thickest divider a design draws, however tall its frame */
+const MAX_DIVIDER_THICKNESS = 0.1;
+
+/** Fit a bound element to its frame and apply the design's style overrides */
+function applyDesign(el: LayoutElement, design: DesignElement): LayoutElement {
+  const { frame, style } = design;
+  const placed = { ...el, id: generateElementId(design.binding), visible: design.visible, frame };
+
+  switch (placed.type) {
+    case 'header':
+      return {
+        ...placed,
+        style: {
+          ...placed.style,
+          height: frame.height,
+          ...(style.fontSize && { fontSize: style.fontSize }),
+          ...(style.color && { textColor: style.color }),
+          ...(style.backgroundColor && { backgroundColor: style.backgroundColor }),
+        },
+      };
+    case 'text':
+    case 'financing':
+    case 'sku':
+      return {
+        ...placed,
+        style: {
+          ...placed.style,
+          ...(style.fontSize && { fontSize: style.fontSize }),
+          ...(style.color && { color: style.color }),
+          ...(style.align && { align: style.align }),
+        },
+      };
+    case 'badge-row':
+      return {
+        ...placed,
+        ...(style.align && { align: style.align }),
+        style: { ...placed.style, ...(style.fontSize && { fontSize: style.fontSize }) },
+      };
     case 'price':
-      return buildPriceCardLayout(ctx);
-    case 'poster':
-      return buildPosterLayout(ctx);
+      return {
+        ...placed,
+        style: {
+          ...placed.style,
+          ...(style.fontSize && { mainFontSize: style.fontSize }),
+          ...(style.color && { priceColor: style.color }),
+          ...(style.backgroundColor && { boxColor: style.backgroundColor }),
+        },
+      };
+    case 'specs':
+      return {
+        ...placed,
+        style: {
+          ...placed.style,
+          ...(style.fontSize && { valueFontSize: style.fontSize }),
+          ...(style.color && { valueColor: style.color }),
+          ...(style.backgroundColor && { backgroundColor: style.backgroundColor }),
+        },
+      };
+    case 'info-bar':
+      return {
+        ...placed,
+        style: {
+          ...placed.style,
+          height: frame.height,
+          ...(style.fontSize && { valueFontSize: style.fontSize }),
+          ...(style.color && { valueColor: style.color }),
+          ...(style.backgroundColor && { backgroundColor: style.backgroundColor }),
+        },
+      };
+    case 'image':
+    case 'barcode':
+      return { ...placed, size: { width: frame.width, height: frame.height } };
+    case 'qrcode':
+      return { ...placed, size: Math.min(frame.width, frame.height) };
     default:
-      return buildPriceCardLayout(ctx);
+      return placed;
   }
 }
+
+/** Build an element that belongs to the design rather than the config */
+function buildDesignOwnElement(
+  design: DesignElement,
+  layout: LayoutConfig,
+  colors: LayoutBuilderContext['colors'],
+  assets: CardDesign['assets'] = {}
+): LayoutElement | null {
+  switch (design.binding) {
+    case 'text':
+      return applyDesign(
+        {
+          id: '',
+          type: 'text',
+          visible: true,
+          text: design.text ?? '',
+          style: {
+            fontSize: layout.fontSize.description,
+            fontWeight: 'normal',
+            color: '#000000',
+            align: 'center',
+          },
+        },
+        design
+      );
+    case 'image': {
+      const asset = design.assetId ? assets[design.assetId] : undefined;
+      if (!asset) return null;
+      return applyDesign(
+        {
+          id: '',
+          type: 'image',
+          visible: true,
+          src: asset.data,
+          alt: asset.name,
+          size: design.frame,
+          objectFit: 'contain',
+        },
+        design
+      );
+    }
+    case 'divider':
+      return {
+        id: generateElementId('divider'),
+        type: 'divider',
+        visible: design.visible,
+        frame: design.frame,
+        style: {
+          color: design.style.color ?? colors.primary,
+          thickness: Math.min(design.frame.height, MAX_DIVIDER_THICKNESS),
+        },
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Build a layout from a design. Bound elements are taken from the built-in
+ * layouts for the design's size (the size's own layout first, so they keep
+ * its styling) and placed in their frames; parts the config leaves empty,
+ * like an unset SKU, are left out. The design's theme colors and layout
+ * config overrides apply to every element it takes.
+ */
+export function buildDesignLayout(baseCtx: LayoutBuilderContext, design: CardDesign): CardLayout {
+  const ctx: LayoutBuilderContext = {
+    ...baseCtx,
+    colors: { ...baseCtx.colors, ...design.theme },
+    layoutOverrides: design.layout,
+  };
+  const size = resolveCardSize(design.cardSize, ctx.customSizes);
+  const template = resolveTemplate(ctx);
+  const layout = getSizeLayoutConfig(size, design.layout);
+  const builders = [
+    LAYOUT_BUILDERS[size.baseSize],
+    ...Object.values(LAYOUT_BUILDERS).filter((build) => build !== LAYOUT_BUILDERS[size.baseSize]),
+  ];
+  const base = builders[0](ctx, template, size);
+  const sources = [
+    ...base.elements,
+    ...builders.slice(1).flatMap((build) => build(ctx, template, size).elements),
+  ];
+
+  const elements: LayoutElement[] = [];
+  for (const item of design.elements) {
+    const source = sources.find((el) => getElementRole(el) === item.binding);
+    const el = source
+      ? applyDesign(source, item)
+      : buildDesignOwnElement(item, layout, ctx.colors, design.assets);
+    if (el) elements.push(el);
+  }
+
+  return { ...base, elements };
+}
@@ -6,7 +6,23 @@
  * structure only need to happen in one place.
  */
 
-import type { PrebuildConfig, CardSize, BrandIcon, ThemeColors, ComponentCategory } from '../types';
+import type {
+  PrebuildConfig,
+  CardSize,
+  BuiltInCardSize,
+  CustomCardSize,
+  CardTemplate,
+  BackgroundPattern,
+  BrandIcon,
+  CustomFont,
+  ThemeColors,
+  CustomFieldDefinition,
+  SpecListKey,
+  SpecVisibility,
+} from '../types';
+import type { CardDesign } from './cardDesigns';
+import type { LayoutConfigOverrides } from './pdfLayouts';
+import type { SpecAbbreviations } from './specAbbreviations';
 
 // ============================================================================
 // PRIMITIVE TYPES
@@ -30,6 +46,9 @@ export interface Size {
   height: number;
 }
 
+/** A box on the card, in inches from its top-left corner */
+export interface Frame extends Position, Size {}
+
 /** Text alignment */
 export type TextAlign = 'left' | 'center' | 'right';
 
@@ -53,6 +72,16 @@ export interface TextStyle {
   lineHeight?: number;
 }
 
+/**
+ * How far text may shrink to fit its space before it is cut with an
+ * ellipsis. Font sizes are in points.
+ */
+export interface TextFit {
+  minFontSize: number;
+  /** Size to start from, if not the style's font size */
+  maxFontSize?: number;
+}
+
 /** Box/container styling */
 export interface BoxStyle {
   backgroundColor?: HexColor;
@@ -80,6 +109,8 @@ export interface BadgeStyle {
 interface BaseElement {
   id: string;
   visible: boolean;
+  /** Fixed box on the card; framed elements are drawn in it instead of flowing */
+  frame?: Frame;
 }
 
 /** Header bar element */
@@ -102,7 +133,16 @@ export interface TextElement extends BaseElement {
   text: string;
   style: TextStyle;
   maxLines?: number;
+  /** Shrink to fit maxLines (or the frame) before cutting */
+  fit?: TextFit;
   strikethrough?: boolean;
+  /** Optional full-width band drawn behind the text (section titles) */
+  band?: {
+    height: number;
+    backgroundColor: HexColor;
+    accentHeight?: number;
+    accentColor?: HexColor;
+  };
 }
 
 /** Badge element */
@@ -165,17 +205,23 @@ export interface FinancingElement extends BaseElement {
   apr: number;
   showApr: boolean;
   style: TextStyle;
+  /** The line after fitting, when it had to be cut */
+  text?: string;
 }
 
 /** Single spec item */
 export interface SpecItem {
-  key: ComponentCategory;
+  key: SpecListKey;
   label: string;
   value: string;
   brandIcon?: {
     src: string;
     name: string;
   };
+  /** Component price, shown right-aligned on the value line */
+  price?: number;
+  /** Value font size after fitting, when it had to shrink */
+  valueFontSize?: number;
 }
 
 /** Specs section element */
@@ -183,6 +229,8 @@ export interface SpecsElement extends BaseElement {
   type: 'specs';
   specs: SpecItem[];
   layout: 'single-column' | 'two-column';
+  /** Shrink values to fit their line before cutting */
+  fit?: TextFit;
   style: {
     labelFontSize: number;
     valueFontSize: number;
@@ -202,12 +250,16 @@ export interface SpecsElement extends BaseElement {
 export interface InfoItem {
   label: string;
   value: string;
+  /** Value font size after fitting, when it had to shrink */
+  valueFontSize?: number;
 }
 
 /** Info bar element (OS, Warranty, etc.) */
 export interface InfoBarElement extends BaseElement {
   type: 'info-bar';
   items: InfoItem[];
+  /** Shrink values to fit their column before cutting */
+  fit?: TextFit;
   style: {
     height: number;
     backgroundColor: HexColor;
@@ -297,6 +349,12 @@ export type LayoutElement =
 export interface CardLayout {
   /** Card size identifier */
   cardSize: CardSize;
+  /** Built-in size whose layout configuration was used */
+  baseSize: BuiltInCardSize;
+  /** Factor the base layout configuration was scaled by (1 for built-in sizes) */
+  layoutScale: number;
+  /** Card template the layout was styled with */
+  template: CardTemplate;
   /** Card dimensions in inches */
   dimensions: Size;
   /** Theme colors used */
@@ -304,10 +362,17 @@ export interface CardLayout {
   /** Background style */
   background: {
     color: HexColor;
+    /** CSS background value (HTML preview) */
     pattern?: string;
+    /** Pattern key, for renderers that draw the pattern themselves (PDF) */
+    patternId: BackgroundPattern;
   };
-  /** Font family */
+  /** Font family (CSS value) */
   fontFamily: string;
+  /** Core PDF font matching fontFamily (helvetica, times or courier) */
+  pdfFontName: string;
+  /** Uploaded font to embed in the PDF instead of pdfFontName */
+  customFont?: CustomFont;
   /** Ordered list of elements */
   elements: LayoutElement[];
 }
@@ -322,6 +387,20 @@ export interface LayoutBuilderContext {
   cardSize: CardSize;
   colors: ThemeColors;
   brandIcons: BrandIcon[];
+  /** Uploaded fonts available to visualSettings.customFontId */
+  customFonts?: CustomFont[];
+  /** User-defined sizes that cardSize may refer to */
+  customSizes?: CustomCardSize[];
+  /** Designs in use; the one made for cardSize replaces its built-in layout */
+  designs?: CardDesign[];
+  /** Rules for shortening spec values, on the card sizes they're turned on for */
+  abbreviations?: SpecAbbreviations;
+  /** Default specs shown on each size, for sizes the config doesn't set */
+  specVisibility?: SpecVisibility;
+  /** The store's custom fields, shown where they're placed as specs or info items */
+  customFields?: CustomFieldDefinition[];
+  /** Layout config values to replace, set while building a design */
+  layoutOverrides?: LayoutConfigOverrides;
   /** Async data like QR codes and barcodes */
   asyncData?: {
     qrCodeImage?: string;
@@ -329,6 +408,23 @@ export interface LayoutBuilderContext {
   };
 }
 
+/**
+ * What shapes a card besides its config and size, for exports that build the
+ * layout themselves
+ */
+export type CardRenderOptions = Partial<
+  Pick<
+    LayoutBuilderContext,
+    | 'brandIcons'
+    | 'customFonts'
+    | 'customSizes'
+    | 'designs'
+    | 'abbreviations'
+    | 'specVisibility'
+    | 'customFields'
+  >
+>;
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -339,6 +435,11 @@ export function generateElementId(prefix: string): string {
   return `${prefix}-${++elementIdCounter}`;
 }
 
+/** What an element shows: the prefix its ID was generated with ('price', 'sku', ...) */
+export function getElementRole(el: LayoutElement): string {
+  return el.id.replace(/-\d+$/, '');
+}
+
 /** Reset ID counter (useful for testing) */
 export function resetElementIdCounter(): void {
   elementIdCounter = 0;
@@ -369,3 +470,45 @@ export function darkenColor(hex: string, percent: number): HexColor {
   const newB = Math.round(b * (1 - percent));
   return `#${newR.toString(16).padStart(2, '0')}${newG.toString(16).padStart(2, '0')}${newB.toString(16).padStart(2, '0')}`;
 }
+
+/** Element types pinned to the bottom edge of the card instead of flowing from the top */
+const FOOTER_ELEMENT_TYPES: ReadonlySet<LayoutElement['type']> = new Set([
+  'barcode',
+  'sku',
+  'footer-accent',
+]);
+
+/**
+ * Split a layout's elements into the top-down body and the trailing footer
+ * group. Both renderers use this so the barcode/SKU land in the same place.
+ */
+export function splitFooterElements(elements: LayoutElement[]): {
+  body: LayoutElement[];
+  footer: LayoutElement[];
+} {
+  let splitAt = elements.length;
+  while (splitAt > 0 && FOOTER_ELEMENT_TYPES.has(elements[splitAt - 1].type)) {
+    splitAt--;
+  }
+  return { body: elements.slice(0, splitAt), footer: elements.slice(splitAt) };
+}
+
+/**
+ * A specs element's columns. A two-column list fills the left column first,
+ * with the extra spec there when the count is odd. Both renderers use this.
+ */
+export function getSpecColumns(el: SpecsElement): SpecItem[][] {
+  if (el.layout !== 'two-column') return [el.specs];
+  const half = Math.ceil(el.specs.length / 2);
+  return [el.specs.slice(0, half), el.specs.slice(half)];
+}
+
+/** Build the display text for a financing element */
+export function getFinancingText(el: FinancingElement): string {
+  if (el.text !== undefined) return el.text;
+  let text = `As low as $${el.monthlyAmount}/mo for ${el.months} months`;
+  if (el.showApr && el.apr > 0) {
+    text += ` @ ${el.apr}% APR`;
+  }
+  return text;
+}
@@ -4,6 +4,7 @@
  */
 
 import { env } from '../config/env';
+import { CARD_SIZES, BuiltInCardSize, CardSize, CustomCardSize } from '../types';
 
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
@@ -105,6 +106,13 @@ export interface OperationResult<T> {
   error?: string;
 }
 
+/** Text that was cut to fit a card */
+export interface TruncatedText {
+  /** What the text is, e.g. "CPU" or "Model name" */
+  label: string;
+  cardSize: CardSize;
+}
+
 /**
  * PDF generation result tracking
  */
@@ -114,6 +122,7 @@ export interface PDFGenerationWarnings {
   qrCodeFailed: boolean;
   barcodeFailed: boolean;
   brandIconsFailed: string[];
+  truncatedText: TruncatedText[];
 }
 
 export function createEmptyWarnings(): PDFGenerationWarnings {
@@ -123,6 +132,7 @@ export function createEmptyWarnings(): PDFGenerationWarnings {
     qrCodeFailed: false,
     barcodeFailed: false,
     brandIconsFailed: [],
+    truncatedText: [],
   };
 }
 
@@ -132,11 +142,25 @@ export function hasWarnings(warnings: PDFGenerationWarnings): boolean {
     warnings.missingProductImage ||
     warnings.qrCodeFailed ||
     warnings.barcodeFailed ||
-    warnings.brandIconsFailed.length > 0
+    warnings.brandIconsFailed.length > 0 ||
+    warnings.truncatedText.length > 0
   );
 }
 
-export function formatWarnings(warnings: PDFGenerationWarnings): string[] {
+function cardSizeName(cardSize: CardSize, customSizes: CustomCardSize[]): string {
+  const custom = customSizes.find((size) => size.id === cardSize);
+  if (custom) return custom.name;
+  return cardSize in CARD_SIZES ? CARD_SIZES[cardSize as BuiltInCardSize].name : 'card';
+}
+
+/**
+ * Warnings as messages for staff. `customSizes` names the custom card sizes
+ * that text was cut on.
+ */
+export function formatWarnings(
+  warnings: PDFGenerationWarnings,
+  customSizes: CustomCardSize[] = []
+): string[] {
   const messages: string[] = [];
   if (warnings.missingLogo) messages.push('Store logo failed to load');
   if (warnings.missingProductImage) messages.push('Product image failed to load');
@@ -145,6 +169,11 @@ export function formatWarnings(warnings: PDFGenerationWarnings): string[] {
   if (warnings.brandIconsFailed.length > 0) {
     messages.push(`Brand icons failed: ${warnings.brandIconsFailed.join(', ')}`);
   }
+  for (const { label, cardSize } of warnings.truncatedText) {
+    messages.push(
+      `${label} text truncated on ${cardSizeName(cardSize, customSizes).toLowerCase()}`
+    );
+  }
   return messages;
 }
 
@@ -0,0 +1,346 @@
+/**
+ * Batch PDF jobs
+ *
+ * A job describes a batch export as plain data so it can be posted to the
+ * PDF worker (workers/pdf.worker.ts). runPdfJob does the actual work and is
+ * also used directly on the main thread where workers are unavailable.
+ */
+
+import type {
+  PrebuildConfig,
+  CardSize,
+  BrandIcon,
+  CustomFont,
+  CustomCardSize,
+  SpecVisibility,
+  CustomFieldDefinition,
+} from '../types';
+import type { jsPDF } from 'jspdf';
+import type { SheetProfile, SheetFillOrder } from './imposition';
+import type { PreparedCard } from './pdfGenerator';
+import type { CardRenderOptions } from './layoutSchema';
+import type { ArchiveFile } from './zipArchive';
+import type { ImageExportOptions } from './imageExport';
+import type { PrintProductionSettings } from './printProduction';
+import type { CardBackSettings } from './cardBacks';
+import type { CardDesign } from './cardDesigns';
+import type { SpecAbbreviations } from './specAbbreviations';
+import { resolveCardSize } from './cardSizes';
+import { hasCardBack } from './cardBacks';
+import { withAssetCache } from './assetCache';
+import { createEmptyWarnings, PDFGenerationWarnings } from './logger';
+
+/** Assets shared by every job */
+interface PdfJobAssets {
+  brandIcons: BrandIcon[];
+  customFonts: CustomFont[];
+  customSizes: CustomCardSize[];
+  /** Designs in use, at most one per card size */
+  designs?: CardDesign[];
+  abbreviations?: SpecAbbreviations;
+  /** Default specs shown on each size */
+  specVisibility?: SpecVisibility;
+  customFields?: CustomFieldDefinition[];
+}
+
+/** One PDF per card size of a single config */
+export interface PdfSizesJob extends PdfJobAssets {
+  kind: 'sizes';
+  config: PrebuildConfig;
+  cardSizes: CardSize[];
+  /** Bleed and printer's marks for every PDF */
+  production?: PrintProductionSettings;
+  /** Sizes that get a back page */
+  cardBacks?: CardBackSettings;
+}
+
+export interface PdfQueueJobItem {
+  id: string;
+  name: string;
+  config: PrebuildConfig;
+  cardSizes: CardSize[];
+  copies: number;
+  multiUp: boolean;
+}
+
+/**
+ * The print queue:
+ * - merged: one PDF with single cards first, then multi-up sheets
+ * - zip: a ZIP with one PDF per entry and size plus manifest.json
+ * - images: a ZIP with one image per entry and size plus manifest.json;
+ *   copies and multi-up don't apply. Needs the main thread.
+ */
+export interface PdfQueueJob extends PdfJobAssets {
+  kind: 'queue';
+  items: PdfQueueJobItem[];
+  output: 'merged' | 'zip' | 'images';
+  sheetProfile: SheetProfile;
+  fillOrder?: SheetFillOrder;
+  /** Format and resolution of 'images' output */
+  image?: ImageExportOptions;
+  /** Sizes whose PDFs get back pages or back sheets; images stay front only */
+  cardBacks?: CardBackSettings;
+}
+
+export type PdfJob = PdfSizesJob | PdfQueueJob;
+
+export interface PdfJobProgress {
+  current: number;
+  total: number;
+  /** What is being generated, e.g. the preset name */
+  label: string;
+}
+
+export interface PdfJobFile {
+  name: string;
+  blob: Blob;
+}
+
+export interface PdfJobResult {
+  /** Files to download, in order */
+  files: PdfJobFile[];
+  /** Error message per queue item id that could not be generated */
+  failures: Record<string, string>;
+  /** Codes that failed to generate and text that was cut, across the job */
+  warnings: PDFGenerationWarnings;
+}
+
+/** One entry of the ZIP manifest */
+export interface PdfManifestEntry {
+  file: string;
+  preset: string;
+  modelName: string;
+  sku: string;
+  price: number;
+  cardSize: string;
+  copies: number;
+  multiUp: boolean;
+}
+
+// Messages between pdfWorkerClient and the worker
+export type PdfWorkerRequest =
+  | { type: 'start'; jobId: number; job: PdfJob }
+  | { type: 'cancel'; jobId: number };
+
+export type PdfWorkerResponse =
+  | { type: 'progress'; jobId: number; progress: PdfJobProgress }
+  | { type: 'done'; jobId: number; result: PdfJobResult }
+  | { type: 'error'; jobId: number; message: string }
+  | { type: 'cancelled'; jobId: number };
+
+export interface PdfJobHooks {
+  onProgress?: (progress: PdfJobProgress) => void;
+  /** Polled between cards; when true the job stops with Error('Cancelled') */
+  isCancelled?: () => boolean;
+}
+
+/** One card size of an entry, with its back when that size has one */
+interface PreparedSize {
+  cardSize: CardSize;
+  card: PreparedCard;
+  back?: PreparedCard;
+}
+
+/** An entry whose cards were laid out successfully */
+interface PreparedItem {
+  item: PdfQueueJobItem;
+  cards: PreparedSize[];
+}
+
+const toFilenamePart = (name: string) => name.replace(/[^a-zA-Z0-9-_\s]/g, '').replace(/\s+/g, '-');
+
+const toPdfBlob = (doc: jsPDF) =>
+  new Blob([doc.output('arraybuffer')], { type: 'application/pdf' });
+
+/** Pages of single cards, each front followed by its back when it has one */
+const withBacks = (cards: PreparedSize[]): PreparedCard[] =>
+  cards.flatMap(({ card, back }) => (back ? [card, back] : [card]));
+
+/** What every card of a job is built with */
+const getRenderOptions = (job: PdfJob): CardRenderOptions => ({
+  brandIcons: job.brandIcons,
+  customFonts: job.customFonts,
+  customSizes: job.customSizes,
+  designs: job.designs,
+  abbreviations: job.abbreviations,
+  specVisibility: job.specVisibility,
+  customFields: job.customFields,
+});
+
+function checkCancelled(hooks: PdfJobHooks): void {
+  if (hooks.isCancelled?.()) throw new Error('Cancelled');
+}
+
+async function runSizesJob(job: PdfSizesJob, hooks: PdfJobHooks): Promise<PdfJobResult> {
+  const { generatePDF } = await import('./pdfGenerator');
+  const files: PdfJobFile[] = [];
+  const warnings = createEmptyWarnings();
+
+  for (let i = 0; i < job.cardSizes.length; i++) {
+    checkCancelled(hooks);
+    const size = resolveCardSize(job.cardSizes[i], job.customSizes);
+    hooks.onProgress?.({ current: i + 1, total: job.cardSizes.length, label: size.name });
+
+    const doc = await generatePDF(job.config, job.cardSizes[i], {
+      ...getRenderOptions(job),
+      production: job.production,
+      withBack: hasCardBack(job.cardBacks, job.cardSizes[i]),
+      warnings,
+    });
+    files.push({
+      name: `${job.config.modelName || 'PC-Build'}-${size.name.replace(/\s+/g, '-')}.pdf`,
+      blob: toPdfBlob(doc),
+    });
+  }
+
+  return { files, failures: {}, warnings };
+}
+
+async function runQueueJob(job: PdfQueueJob, hooks: PdfJobHooks): Promise<PdfJobResult> {
+  const { prepareCard, generateCombinedPDF, generateMixedSheets } = await import('./pdfGenerator');
+  const { items, sheetProfile, customSizes } = job;
+  const warnings = createEmptyWarnings();
+  const renderOptions = { ...getRenderOptions(job), warnings };
+  const sizeName = (cardSize: CardSize) =>
+    toFilenamePart(resolveCardSize(cardSize, customSizes).name);
+
+  // Lay out every entry; a failing entry is recorded and skipped
+  const prepared: PreparedItem[] = [];
+  const failures: Record<string, string> = {};
+  for (let i = 0; i < items.length; i++) {
+    checkCancelled(hooks);
+
+    const item = items[i];
+    hooks.onProgress?.({ current: i + 1, total: items.length, label: item.name });
+
+    try {
+      if (item.cardSizes.length === 0) {
+        throw new Error('No card size selected');
+      }
+      const cards = [];
+      for (const cardSize of item.cardSizes) {
+        const card = await prepareCard(item.config, cardSize, renderOptions);
+        // Image output has no back pages
+        const back =
+          job.output !== 'images' && hasCardBack(job.cardBacks, cardSize)
+            ? await prepareCard(item.config, cardSize, { ...renderOptions, designs: [] }, 'back')
+            : undefined;
+        cards.push({ cardSize, card, back });
+      }
+      prepared.push({ item, cards });
+    } catch (error) {
+      failures[item.id] = (error as Error).message;
+    }
+  }
+  checkCancelled(hooks);
+
+  if (prepared.length === 0) {
+    return { files: [], failures, warnings };
+  }
+
+  if (job.output !== 'merged') {
+    const { createZipArchive, uniqueFilename } = await import('./zipArchive');
+    const imageExport = job.output === 'images' ? await import('./imageExport') : null;
+    const imageOptions = job.image ?? imageExport?.DEFAULT_IMAGE_EXPORT;
+    const usedNames = new Set<string>();
+    const manifest: PdfManifestEntry[] = [];
+    const files: ArchiveFile[] = [];
+
+    for (const { item, cards } of prepared) {
+      for (const { cardSize, card, back } of cards) {
+        checkCancelled(hooks);
+        const baseName = `${toFilenamePart(item.name)}-${sizeName(cardSize)}`;
+        let name: string;
+        let data: Uint8Array;
+        if (imageExport && imageOptions) {
+          const blob = await imageExport.exportCardImage(card.layout, imageOptions, card.asyncData);
+          const extension = imageExport.IMAGE_FORMATS[imageOptions.format].extension;
+          name = uniqueFilename(`${baseName}.${extension}`, usedNames);
+          data = new Uint8Array(await blob.arrayBuffer());
+        } else {
+          const doc = item.multiUp
+            ? await generateMixedSheets([card], sheetProfile, {
+                copies: item.copies,
+                backs: back && [back],
+                flip: job.cardBacks?.flip,
+              })
+            : await generateCombinedPDF(
+                withBacks(Array<PreparedSize>(item.copies).fill({ cardSize, card, back }))
+              );
+          name = uniqueFilename(`${baseName}.pdf`, usedNames);
+          data = new Uint8Array(doc.output('arraybuffer'));
+        }
+        manifest.push({
+          file: name,
+          preset: item.name,
+          modelName: item.config.modelName,
+          sku: item.config.sku,
+          price: item.config.price,
+          cardSize: resolveCardSize(cardSize, customSizes).name,
+          copies: imageExport ? 1 : item.copies,
+          multiUp: imageExport ? false : item.multiUp,
+        });
+        files.push({ name, data });
+      }
+    }
+
+    files.push({
+      name: 'manifest.json',
+      data: JSON.stringify({ generatedAt: new Date().toISOString(), files: manifest }, null, 2),
+    });
+    const archiveName = imageExport ? 'Print-Queue-Images.zip' : 'Print-Queue.zip';
+    return { files: [{ name: archiveName, blob: createZipArchive(files) }], failures, warnings };
+  }
+
+  // Single cards first, one page per copy, each front followed by its back
+  const singles = withBacks(
+    prepared
+      .filter(({ item }) => !item.multiUp)
+      .flatMap(({ item, cards }) =>
+        cards.flatMap((size) => Array<PreparedSize>(item.copies).fill(size))
+      )
+  );
+  let doc: jsPDF | undefined = singles.length > 0 ? await generateCombinedPDF(singles) : undefined;
+
+  // Then multi-up sheets, one run per card size so each grid fits its cards
+  // (every card of a size has a back, or none does)
+  const sheetsBySize = new Map<
+    CardSize,
+    { cards: PreparedCard[]; backs: PreparedCard[]; copies: number[] }
+  >();
+  for (const { item, cards } of prepared.filter(({ item }) => item.multiUp)) {
+    for (const { cardSize, card, back } of cards) {
+      const group = sheetsBySize.get(cardSize) ?? { cards: [], backs: [], copies: [] };
+      group.cards.push(card);
+      if (back) group.backs.push(back);
+      group.copies.push(item.copies);
+      sheetsBySize.set(cardSize, group);
+    }
+  }
+  for (const group of sheetsBySize.values()) {
+    checkCancelled(hooks);
+    doc = await generateMixedSheets(group.cards, sheetProfile, {
+      copies: group.copies,
+      fillOrder: job.fillOrder,
+      doc,
+      backs: group.backs.length > 0 ? group.backs : undefined,
+      flip: job.cardBacks?.flip,
+    });
+  }
+
+  return {
+    files: doc ? [{ name: 'Print-Queue.pdf', blob: toPdfBlob(doc) }] : [],
+    failures,
+    warnings,
+  };
+}
+
+/**
+ * Generate the files of a job
+ */
+export function runPdfJob(job: PdfJob, hooks: PdfJobHooks = {}): Promise<PdfJobResult> {
+  // Presets in a batch usually share the store logo and brand icons
+  return withAssetCache(() =>
+    job.kind === 'sizes' ? runSizesJob(job, hooks) : runQueueJob(job, hooks)
+  );
+}
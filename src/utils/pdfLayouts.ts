@@ -533,59 +533,92 @@ export const POSTER_SPEC_HEADER: SpecHeaderConfig = {
 };
 
 // ============================================================================
-// MULTI-UP PRINTING CONFIGURATION
+// CARD TEMPLATES
+// Visual treatments layered on top of the per-size layouts above.
+// Optional values fall back to the card size's own configuration.
 // ============================================================================
 
-export interface MultiUpConfig {
-  /** Page width */
-  pageWidth: number;
-  /** Page height */
-  pageHeight: number;
-  /** Number of columns */
-  cols: number;
-  /** Number of rows */
-  rows: number;
-  /** Crop mark length */
-  cropMarkLength: number;
-  /** Crop mark gap from edge */
-  cropMarkGap: number;
-  /** Crop mark line width */
-  cropMarkWidth: number;
-  /** Footer text font size */
-  footerFontSize: number;
-  /** Footer Y position from bottom */
-  footerY: number;
+/** Per-template styling applied by the layout builders */
+export interface CardTemplateStyle {
+  header: {
+    /** Fill the header with the theme accent (otherwise white with accent text) */
+    filled: boolean;
+    /** Render the store name in capitals */
+    uppercase: boolean;
+    /** Stripe height under the header, overriding the size default */
+    stripeHeight?: number;
+  };
+  modelName: {
+    /** Render the model name in capitals */
+    uppercase: boolean;
+  };
+  price: {
+    /** Draw the tinted price box, overriding the size default */
+    showBox?: boolean;
+    /** Multiplier applied to the size's box corner radius */
+    radiusScale: number;
+    /** How far the price color is lightened for the box fill (0-1) */
+    tint: number;
+  };
+  specs: {
+    /** Draw the tinted panel behind the spec list, overriding the size default */
+    panel?: boolean;
+    /** Panel fill, overriding the size default */
+    panelColor?: string;
+    /** Left accent bar width, overriding the size default */
+    accentWidth?: number;
+    /** Which theme color labels use */
+    labelColor: 'primary' | 'accent';
+  };
+  footer: {
+    /** Draw the footer accent bar */
+    show: boolean;
+    /** Multiplier applied to the size's footer accent height */
+    heightScale: number;
+    /** Minimum bar height, so sizes without a footer bar still get one */
+    minHeight: number;
+    /** Draw a primary stripe along the top of the bar, overriding the size default */
+    stripe?: boolean;
+  };
 }
 
-export const SHELF_TAG_MULTI_UP: MultiUpConfig = {
-  pageWidth: 8.5,
-  pageHeight: 11,
-  cols: 4,
-  rows: 3,
-  cropMarkLength: 0.1,
-  cropMarkGap: 0.02,
-  cropMarkWidth: 0.005,
-  footerFontSize: 6,
-  footerY: 0.15,
+export const DEFAULT_TEMPLATE: CardTemplateStyle = {
+  header: { filled: true, uppercase: false },
+  modelName: { uppercase: false },
+  price: { radiusScale: 1, tint: 0.92 },
+  specs: { labelColor: 'primary' },
+  footer: { show: true, heightScale: 1, minHeight: 0 },
+};
+
+export const MINIMAL_TEMPLATE: CardTemplateStyle = {
+  header: { filled: false, uppercase: false, stripeHeight: 0.02 },
+  modelName: { uppercase: false },
+  price: { showBox: false, radiusScale: 1, tint: 0.92 },
+  specs: { panel: false, accentWidth: 0, labelColor: 'accent' },
+  footer: { show: false, heightScale: 0, minHeight: 0 },
+};
+
+export const TECH_TEMPLATE: CardTemplateStyle = {
+  header: { filled: true, uppercase: true, stripeHeight: 0.06 },
+  modelName: { uppercase: true },
+  price: { showBox: true, radiusScale: 0, tint: 0.85 },
+  specs: { panel: true, panelColor: '#f1f5f9', accentWidth: 0.08, labelColor: 'primary' },
+  footer: { show: true, heightScale: 1.5, minHeight: 0.06, stripe: true },
 };
 
-export const PRICE_CARD_MULTI_UP: MultiUpConfig = {
-  pageWidth: 8.5,
-  pageHeight: 11,
-  cols: 2,
-  rows: 1,
-  cropMarkLength: 0.15,
-  cropMarkGap: 0.03,
-  cropMarkWidth: 0.005,
-  footerFontSize: 6,
-  footerY: 0.15,
+export const ELEGANT_TEMPLATE: CardTemplateStyle = {
+  header: { filled: true, uppercase: false, stripeHeight: 0.015 },
+  modelName: { uppercase: false },
+  price: { showBox: true, radiusScale: 2.5, tint: 0.95 },
+  specs: { panel: true, panelColor: '#fcfbf8', accentWidth: 0.02, labelColor: 'accent' },
+  footer: { show: true, heightScale: 0.5, minHeight: 0.03, stripe: true },
 };
 
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
 
-import type { CardSize } from '../types';
+import type { CardSize, CardTemplate } from '../types';
 
 /**
  * Get layout configuration for a given card size
@@ -603,16 +636,69 @@ export function getLayoutConfig(cardSize: CardSize): LayoutConfig {
   }
 }
 
+/** Multiply every number in a config object by `scale` */
+function scaleNumbers<T>(value: T, scale: number): T {
+  if (typeof value === 'number') {
+    return (value * scale) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, scaleNumbers(v, scale)])
+    ) as T;
+  }
+  return value;
+}
+
 /**
- * Get multi-up configuration for a given card size
+ * Scale a layout's measurements and font sizes, for user-defined card sizes
+ * that borrow a built-in layout. Counts such as maxFeatures are kept.
  */
-export function getMultiUpConfig(cardSize: CardSize): MultiUpConfig | null {
-  switch (cardSize) {
-    case 'shelf':
-      return SHELF_TAG_MULTI_UP;
-    case 'price':
-      return PRICE_CARD_MULTI_UP;
+export function scaleLayoutConfig(config: LayoutConfig, scale: number): LayoutConfig {
+  if (scale === 1) return config;
+  return { ...scaleNumbers(config, scale), maxFeatures: config.maxFeatures };
+}
+
+/**
+ * Layout config values to replace, each group (fontSize, spacing, ...)
+ * overridden field by field
+ */
+export type LayoutConfigOverrides = {
+  [K in keyof LayoutConfig]?: LayoutConfig[K] extends object
+    ? Partial<LayoutConfig[K]>
+    : LayoutConfig[K];
+};
+
+/**
+ * Replace values of a layout config, e.g. a design's own font sizes
+ */
+export function applyLayoutOverrides(
+  config: LayoutConfig,
+  overrides: LayoutConfigOverrides | undefined
+): LayoutConfig {
+  if (!overrides) return config;
+  const result: Record<string, unknown> = { ...config };
+  for (const [key, value] of Object.entries(overrides)) {
+    const base = result[key];
+    result[key] =
+      typeof base === 'object' && base !== null && typeof value === 'object'
+        ? { ...base, ...value }
+        : value;
+  }
+  return result as unknown as LayoutConfig;
+}
+
+/**
+ * Get the style for a card template (unknown templates use the default)
+ */
+export function getCardTemplateStyle(template: CardTemplate | undefined): CardTemplateStyle {
+  switch (template) {
+    case 'minimal':
+      return MINIMAL_TEMPLATE;
+    case 'tech':
+      return TECH_TEMPLATE;
+    case 'elegant':
+      return ELEGANT_TEMPLATE;
     default:
-      return null;
+      return DEFAULT_TEMPLATE;
   }
 }
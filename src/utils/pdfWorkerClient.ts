@@ -0,0 +1,123 @@
+/**
+ * PDF Worker client - starts batch PDF jobs in the shared PDF worker
+ *
+ * Falls back to running the job on the main thread when the browser (or the
+ * test environment) has no Worker or OffscreenCanvas support, and for image
+ * exports.
+ */
+
+import type {
+  PdfJob,
+  PdfJobProgress,
+  PdfJobResult,
+  PdfWorkerRequest,
+  PdfWorkerResponse,
+} from './pdfJobs';
+
+export interface PdfJobHandle {
+  /** Resolves with the generated files; rejects with Error('Cancelled') when cancelled */
+  promise: Promise<PdfJobResult>;
+  cancel: () => void;
+}
+
+interface PendingJob {
+  resolve: (result: PdfJobResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: PdfJobProgress) => void;
+}
+
+let worker: Worker | null = null;
+let nextJobId = 1;
+const pendingJobs = new Map<number, PendingJob>();
+
+export function supportsPdfWorker(): boolean {
+  return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+}
+
+function handleMessage(event: MessageEvent<PdfWorkerResponse>): void {
+  const message = event.data;
+  const pending = pendingJobs.get(message.jobId);
+  if (!pending) return;
+
+  switch (message.type) {
+    case 'progress':
+      pending.onProgress?.(message.progress);
+      return;
+    case 'done':
+      pending.resolve(message.result);
+      break;
+    case 'error':
+      pending.reject(new Error(message.message));
+      break;
+    case 'cancelled':
+      pending.reject(new Error('Cancelled'));
+      break;
+  }
+  pendingJobs.delete(message.jobId);
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/pdf.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+    worker.onmessage = handleMessage;
+    worker.onerror = (event) => {
+      // The worker is unusable; fail everything in flight and start fresh next time
+      for (const pending of pendingJobs.values()) {
+        pending.reject(new Error(event.message || 'PDF worker failed'));
+      }
+      pendingJobs.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+}
+
+function post(request: PdfWorkerRequest): void {
+  getWorker().postMessage(request);
+}
+
+function runOnMainThread(
+  job: PdfJob,
+  onProgress?: (progress: PdfJobProgress) => void
+): PdfJobHandle {
+  let cancelled = false;
+  const promise = import('./pdfJobs').then(({ runPdfJob }) =>
+    runPdfJob(job, { onProgress, isCancelled: () => cancelled })
+  );
+  return {
+    promise,
+    cancel: () => {
+      cancelled = true;
+    },
+  };
+}
+
+/**
+ * Start a batch PDF job
+ */
+export function startPdfJob(
+  job: PdfJob,
+  onProgress?: (progress: PdfJobProgress) => void
+): PdfJobHandle {
+  // Image exports draw decoded <img> elements, which workers don't have
+  const needsDom = job.kind === 'queue' && job.output === 'images';
+  if (needsDom || !supportsPdfWorker()) {
+    return runOnMainThread(job, onProgress);
+  }
+
+  const jobId = nextJobId++;
+  const promise = new Promise<PdfJobResult>((resolve, reject) => {
+    pendingJobs.set(jobId, { resolve, reject, onProgress });
+  });
+  post({ type: 'start', jobId, job });
+
+  return {
+    promise,
+    cancel: () => {
+      if (pendingJobs.has(jobId)) post({ type: 'cancel', jobId });
+    },
+  };
+}
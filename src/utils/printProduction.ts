@@ -0,0 +1,362 @@
+/**
+ * Print Production - Bleed, trim marks and safe-zone checks for print shops
+ *
+ * A production PDF page is the card (the trim box) surrounded by the bleed,
+ * where the background, header and footer keep going so a slightly-off cut
+ * leaves no white slivers, and a slug area for crop and registration marks.
+ * The page carries TrimBox and BleedBox entries so RIP and imposition
+ * software know where to cut.
+ *
+ * All measurements are in inches.
+ */
+
+import type { jsPDF } from 'jspdf';
+import type { CardLayout } from './layoutSchema';
+import type { PdfSurface, RenderToPdfOptions } from './renderToPdf';
+import { renderLayoutToPdf } from './renderToPdf';
+import { createTextMeasurer, TextMeasurer, wrapText } from './canvasDocument';
+import { getCustomFontPdfName } from './fontManager';
+import { hashContent } from './assetCache';
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+export interface PrintProductionSettings {
+  /** Background, header and footer extended past the trim on every side */
+  bleed: number;
+  /** Draw crop marks at the trim corners, outside the bleed */
+  cropMarks: boolean;
+  /** Draw registration targets centred on each side, outside the bleed */
+  registrationMarks: boolean;
+  /** Text and codes should stay at least this far inside the trim */
+  safeMargin: number;
+  /** Outline the safe zone on the preview */
+  showSafeZone: boolean;
+}
+
+export const DEFAULT_PRINT_PRODUCTION: PrintProductionSettings = {
+  bleed: 0,
+  cropMarks: false,
+  registrationMarks: false,
+  safeMargin: 0.125,
+  showSafeZone: false,
+};
+
+export const BLEED_OPTIONS: Array<{ value: number; label: string }> = [
+  { value: 0, label: 'None' },
+  { value: 0.0625, label: '1/16"' },
+  { value: 0.125, label: '1/8" (standard)' },
+  { value: 3 / 25.4, label: '3 mm' },
+  { value: 0.25, label: '1/4"' },
+];
+
+export const SAFE_MARGIN_OPTIONS: Array<{ value: number; label: string }> = [
+  { value: 0.0625, label: '1/16"' },
+  { value: 0.125, label: '1/8"' },
+  { value: 3 / 25.4, label: '3 mm' },
+  { value: 0.25, label: '1/4"' },
+];
+
+// ============================================================================
+// PAGE GEOMETRY
+// ============================================================================
+
+/** Gap between the bleed edge and the start of each mark */
+const MARK_OFFSET = 0.0625;
+const MARK_LENGTH = 0.25;
+const MARK_LINE_WIDTH = 0.003;
+const REGISTRATION_RADIUS = 0.07;
+
+/** PDF points per inch, the unit of page boxes */
+const PT_PER_INCH = 72;
+
+export interface ProductionPage {
+  pageWidth: number;
+  pageHeight: number;
+  /** Top-left corner of the trim box on the page */
+  trimX: number;
+  trimY: number;
+}
+
+/** True when the settings change the page beyond the card itself */
+export function usesProductionPage(settings: PrintProductionSettings): boolean {
+  return settings.bleed > 0 || settings.cropMarks || settings.registrationMarks;
+}
+
+/**
+ * Size of the page holding one trimmed card with its bleed and marks
+ */
+export function getProductionPage(
+  width: number,
+  height: number,
+  settings: PrintProductionSettings
+): ProductionPage {
+  const marks = settings.cropMarks || settings.registrationMarks;
+  const slug = settings.bleed + (marks ? MARK_OFFSET + MARK_LENGTH : 0);
+  return {
+    pageWidth: width + slug * 2,
+    pageHeight: height + slug * 2,
+    trimX: slug,
+    trimY: slug,
+  };
+}
+
+/** A PDF page box: inches from the top-left, stored in points from the bottom-left */
+function toPageBox(doc: jsPDF, x: number, y: number, width: number, height: number) {
+  const pageHeight = doc.internal.pageSize.getHeight();
+  return {
+    bottomLeftX: x * PT_PER_INCH,
+    bottomLeftY: (pageHeight - y - height) * PT_PER_INCH,
+    topRightX: (x + width) * PT_PER_INCH,
+    topRightY: (pageHeight - y) * PT_PER_INCH,
+  };
+}
+
+/**
+ * Set the current page's TrimBox to the card and BleedBox to the card plus bleed
+ */
+export function setPrintBoxes(
+  doc: jsPDF,
+  page: ProductionPage,
+  width: number,
+  height: number,
+  bleed: number
+): void {
+  const { pageContext } = doc.getCurrentPageInfo();
+  pageContext.trimBox = toPageBox(doc, page.trimX, page.trimY, width, height);
+  pageContext.bleedBox = toPageBox(
+    doc,
+    page.trimX - bleed,
+    page.trimY - bleed,
+    width + bleed * 2,
+    height + bleed * 2
+  );
+}
+
+/**
+ * Draw crop and/or registration marks around a trimmed card, clear of its bleed
+ */
+export function drawProductionMarks(
+  doc: jsPDF,
+  page: ProductionPage,
+  width: number,
+  height: number,
+  settings: PrintProductionSettings
+): void {
+  const { trimX, trimY } = page;
+  const start = settings.bleed + MARK_OFFSET;
+  const end = start + MARK_LENGTH;
+
+  doc.setDrawColor(0, 0, 0);
+  doc.setLineWidth(MARK_LINE_WIDTH);
+
+  if (settings.cropMarks) {
+    for (const x of [trimX, trimX + width]) {
+      for (const y of [trimY, trimY + height]) {
+        const outX = x === trimX ? -1 : 1;
+        const outY = y === trimY ? -1 : 1;
+        doc.line(x + outX * start, y, x + outX * end, y);
+        doc.line(x, y + outY * start, x, y + outY * end);
+      }
+    }
+  }
+
+  if (settings.registrationMarks) {
+    const distance = (start + end) / 2;
+    const targets: Array<[number, number]> = [
+      [trimX + width / 2, trimY - distance],
+      [trimX + width / 2, trimY + height + distance],
+      [trimX - distance, trimY + height / 2],
+      [trimX + width + distance, trimY + height / 2],
+    ];
+    for (const [x, y] of targets) {
+      doc.circle(x, y, REGISTRATION_RADIUS, 'S');
+      doc.line(x - MARK_LENGTH / 2, y, x + MARK_LENGTH / 2, y);
+      doc.line(x, y - MARK_LENGTH / 2, x, y + MARK_LENGTH / 2);
+    }
+  }
+}
+
+// ============================================================================
+// SAFE ZONE
+// ============================================================================
+
+/** Approximate ascent and descent of the core fonts, as a fraction of font size */
+const ASCENT = 0.78;
+const DESCENT = 0.22;
+
+export type SafeZoneItemKind = 'text' | 'barcode' | 'qrcode';
+
+/** Text or a code that sits closer to the trim than the safe margin */
+export interface SafeZoneIssue {
+  kind: SafeZoneItemKind;
+  /** The text itself, or the kind of code */
+  label: string;
+  /** Closest distance to the trim edge (negative when past it) */
+  distance: number;
+}
+
+interface ItemBounds {
+  kind: SafeZoneItemKind;
+  label: string;
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/**
+ * Records where the renderer puts text and codes. Shapes drawn on this
+ * PdfSurface are decoration and are ignored.
+ */
+class SafeZoneDocument implements PdfSurface {
+  readonly items: ItemBounds[] = [];
+  private fontSize = 16;
+  private fontStyle = 'normal';
+  private readonly measure: TextMeasurer = createTextMeasurer();
+
+  constructor(
+    private readonly fontFamily: string,
+    private readonly registeredFonts: string[],
+    /** addImage alias of each code image */
+    private readonly codeAliases: Record<string, SafeZoneItemKind>
+  ) {}
+
+  setFontSize(size: number): this {
+    this.fontSize = size;
+    return this;
+  }
+
+  setFont(_name: string, style: string = 'normal'): this {
+    this.fontStyle = style;
+    return this;
+  }
+
+  getFontList(): Record<string, string[]> {
+    return Object.fromEntries(this.registeredFonts.map((name) => [name, ['normal']]));
+  }
+
+  getTextWidth(text: string): number {
+    const bold = this.fontStyle.includes('bold') ? 'bold ' : '';
+    const italic = this.fontStyle.includes('italic') ? 'italic ' : '';
+    const font = `${italic}${bold}${this.fontSize}px ${this.fontFamily}`;
+    return this.measure(text, font, this.fontSize) / PT_PER_INCH;
+  }
+
+  splitTextToSize(text: string, maxWidth: number): string[] {
+    return wrapText(text, maxWidth, (line) => this.getTextWidth(line));
+  }
+
+  text(
+    text: string | string[],
+    x: number,
+    y: number,
+    options: { align?: 'left' | 'center' | 'right' } = {}
+  ): this {
+    const lines = Array.isArray(text) ? text : [text];
+    const size = this.fontSize / PT_PER_INCH;
+    lines.forEach((line, i) => {
+      if (!line.trim()) return;
+      const width = this.getTextWidth(line);
+      const left =
+        options.align === 'center' ? x - width / 2 : options.align === 'right' ? x - width : x;
+      const baseline = y + i * size * 1.15;
+      this.items.push({
+        kind: 'text',
+        label: line,
+        left,
+        top: baseline - size * ASCENT,
+        right: left + width,
+        bottom: baseline + size * DESCENT,
+      });
+    });
+    return this;
+  }
+
+  addImage(
+    _source: unknown,
+    _format: string,
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+    alias?: string
+  ): this {
+    const kind = alias ? this.codeAliases[alias] : undefined;
+    if (kind) {
+      const label = kind === 'barcode' ? 'Barcode' : 'QR code';
+      this.items.push({ kind, label, left: x, top: y, right: x + w, bottom: y + h });
+    }
+    return this;
+  }
+
+  // Shapes and colours don't affect the safe zone
+  setFillColor(): this {
+    return this;
+  }
+  setDrawColor(): this {
+    return this;
+  }
+  setTextColor(): this {
+    return this;
+  }
+  setLineWidth(): this {
+    return this;
+  }
+  rect(): this {
+    return this;
+  }
+  roundedRect(): this {
+    return this;
+  }
+  line(): this {
+    return this;
+  }
+  lines(): this {
+    return this;
+  }
+  circle(): this {
+    return this;
+  }
+  addFileToVFS(): this {
+    return this;
+  }
+  addFont(): string {
+    return '';
+  }
+}
+
+/**
+ * Find text, barcodes and QR codes that sit within `safeMargin` of the trim
+ *
+ * @param assets - The QR code and barcode images the layout is rendered with
+ */
+export async function findSafeZoneIssues(
+  layout: CardLayout,
+  safeMargin: number,
+  assets: Pick<RenderToPdfOptions, 'qrCodeImage' | 'barcodeImage'> = {}
+): Promise<SafeZoneIssue[]> {
+  const codeAliases: Record<string, SafeZoneItemKind> = {};
+  // Same aliases as loadImage gives the decoded images
+  if (assets.barcodeImage) codeAliases[`img-${hashContent(assets.barcodeImage)}`] = 'barcode';
+  if (assets.qrCodeImage) codeAliases[`img-${hashContent(assets.qrCodeImage)}`] = 'qrcode';
+
+  const doc = new SafeZoneDocument(
+    layout.fontFamily,
+    layout.customFont ? [getCustomFontPdfName(layout.customFont)] : [],
+    codeAliases
+  );
+  await renderLayoutToPdf(layout, doc, { x: 0, y: 0 }, assets);
+
+  const { width, height } = layout.dimensions;
+  return doc.items
+    .map(
+      (item): SafeZoneIssue => ({
+        kind: item.kind,
+        label: item.label,
+        distance: Math.min(item.left, item.top, width - item.right, height - item.bottom),
+      })
+    )
+    .filter((issue) => issue.distance < safeMargin - 1e-6);
+}
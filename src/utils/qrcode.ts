@@ -1,8 +1,15 @@
 import QRCode from 'qrcode';
+import type { QRCodeErrorCorrectionLevel } from 'qrcode';
 import { logger } from './logger';
+import { createCanvas, canvasToDataUrl, isWorkerScope, AnyCanvas } from './canvas';
+
+const QR_COLORS = {
+  dark: '#000000',
+  light: '#ffffff',
+};
 
 /**
- * Generate QR code as data URL
+ * Generate QR code as data URL (works in workers via OffscreenCanvas)
  */
 export async function generateQRCodeDataUrl(text: string, size: number = 128): Promise<string> {
   if (!text) {
@@ -11,14 +18,19 @@ export async function generateQRCodeDataUrl(text: string, size: number = 128): P
   }
 
   try {
-    const dataUrl = await QRCode.toDataURL(text, {
-      width: size,
-      margin: 1,
-      color: {
-        dark: '#000000',
-        light: '#ffffff',
-      },
-    });
+    let dataUrl: string;
+    if (isWorkerScope()) {
+      // toDataURL creates a DOM canvas internally, so draw onto our own
+      const canvas = createCanvas(size, size);
+      await QRCode.toCanvas(canvas as HTMLCanvasElement, text, {
+        width: size,
+        margin: 1,
+        color: QR_COLORS,
+      });
+      dataUrl = await canvasToDataUrl(canvas);
+    } else {
+      dataUrl = await QRCode.toDataURL(text, { width: size, margin: 1, color: QR_COLORS });
+    }
     logger.debug('QRCode', 'Successfully generated QR code', { textLength: text.length, size });
     return dataUrl;
   } catch (err) {
@@ -27,27 +39,41 @@ export async function generateQRCodeDataUrl(text: string, size: number = 128): P
   }
 }
 
+/**
+ * Modules along each side of the smallest QR code that holds the text at the
+ * given error correction level (no quiet zone); null if the text won't fit
+ */
+export function getQRCodeModuleCount(
+  text: string,
+  errorCorrectionLevel: QRCodeErrorCorrectionLevel = 'M'
+): number | null {
+  try {
+    return QRCode.create(text, { errorCorrectionLevel }).modules.size;
+  } catch (err) {
+    logger.error('QRCode', 'Failed to size QR code', err);
+    return null;
+  }
+}
+
 /**
  * Generate QR code as canvas for PDF embedding
  */
 export async function generateQRCodeCanvas(
   text: string,
   size: number = 128
-): Promise<HTMLCanvasElement | null> {
+): Promise<AnyCanvas | null> {
   if (!text) {
     logger.debug('QRCode', 'Skipping QR code canvas generation - no text provided');
     return null;
   }
 
   try {
-    const canvas = document.createElement('canvas');
-    await QRCode.toCanvas(canvas, text, {
+    const canvas = createCanvas(size, size);
+    // The qrcode typings only know DOM canvases; it duck-types OffscreenCanvas fine
+    await QRCode.toCanvas(canvas as HTMLCanvasElement, text, {
       width: size,
       margin: 1,
-      color: {
-        dark: '#000000',
-        light: '#ffffff',
-      },
+      color: QR_COLORS,
     });
     logger.debug('QRCode', 'Successfully generated QR code canvas', {
       textLength: text.length,
@@ -11,6 +11,7 @@ import {
   LayoutElement,
   HeaderElement,
   TextElement,
+  BadgeElement,
   BadgeRowElement,
   ImageElement,
   PriceElement,
@@ -20,8 +21,16 @@ import {
   BarcodeElement,
   QRCodeElement,
   SKUElement,
+  DividerElement,
+  ContainerElement,
   FooterAccentElement,
+  getFinancingText,
+  getSpecColumns,
+  splitFooterElements,
 } from './layoutSchema';
+import { BoxNode, layoutContainer, lineHeightOf } from './boxLayout';
+import { createCanvasTextMetrics, fitLayoutText } from './textFitting';
+import { getSizeLayoutConfig } from './cardSizes';
 import { formatPrice } from '../types';
 
 // ============================================================================
@@ -44,6 +53,9 @@ const DEFAULT_SCALE: ScaleFactors = {
   inch: 40, // 1 inch = 40px in preview (roughly)
 };
 
+/** Points per inch */
+const PT_PER_INCH = 72;
+
 // ============================================================================
 // ELEMENT RENDERERS
 // ============================================================================
@@ -56,6 +68,8 @@ function renderHeader(el: HeaderElement, scale: ScaleFactors): React.ReactNode {
       style={{
         backgroundColor: el.style.backgroundColor,
         padding: `${el.style.height * scale.inch * 0.15}px ${scale.inch * 0.1}px`,
+        // A designed header fills its frame
+        height: el.frame ? `${el.style.height * scale.inch}px` : undefined,
       }}
     >
       <p
@@ -91,6 +105,32 @@ function renderText(el: TextElement, scale: ScaleFactors): React.ReactNode {
 
   const className = el.maxLines ? `line-clamp-${el.maxLines}` : '';
 
+  if (el.band) {
+    return (
+      <div
+        key={el.id}
+        className="relative flex items-center justify-center"
+        style={{
+          height: `${el.band.height * scale.inch}px`,
+          backgroundColor: el.band.backgroundColor,
+        }}
+      >
+        {el.band.accentColor && el.band.accentHeight && (
+          <div
+            className="absolute bottom-0 left-0 right-0"
+            style={{
+              height: `${el.band.accentHeight * scale.inch}px`,
+              backgroundColor: el.band.accentColor,
+            }}
+          />
+        )}
+        <p className={className} style={style}>
+          {el.text}
+        </p>
+      </div>
+    );
+  }
+
   if (el.strikethrough) {
     return (
       <p key={el.id} className={`line-through ${className}`} style={style}>
@@ -131,6 +171,39 @@ function renderBadgeRow(el: BadgeRowElement, scale: ScaleFactors): React.ReactNo
   );
 }
 
+function badgeStyle(style: BadgeElement['style'], scale: ScaleFactors): React.CSSProperties {
+  return {
+    backgroundColor: style.backgroundColor,
+    color: style.textColor,
+    fontSize: `${style.fontSize * scale.font}px`,
+    padding: `${style.paddingY * scale.inch}px ${style.paddingX * scale.inch}px`,
+    borderRadius: `${style.borderRadius * scale.inch}px`,
+  };
+}
+
+function renderBadge(el: BadgeElement, scale: ScaleFactors): React.ReactNode {
+  return (
+    <div key={el.id} className="flex justify-center my-0.5">
+      <span className="font-bold" style={badgeStyle(el.style, scale)}>
+        {el.text}
+      </span>
+    </div>
+  );
+}
+
+function renderDivider(el: DividerElement, scale: ScaleFactors): React.ReactNode {
+  return (
+    <div
+      key={el.id}
+      className="my-0.5"
+      style={{
+        height: `${el.style.thickness * scale.inch}px`,
+        backgroundColor: el.style.color,
+      }}
+    />
+  );
+}
+
 function renderImage(el: ImageElement, scale: ScaleFactors): React.ReactNode {
   return (
     <img
@@ -150,7 +223,7 @@ function renderPrice(el: PriceElement, scale: ScaleFactors): React.ReactNode {
   const boxStyle: React.CSSProperties = el.style.showBox
     ? {
         backgroundColor: el.style.boxColor,
-        borderRadius: `${(el.style.boxRadius || 0.06) * scale.inch}px`,
+        borderRadius: `${(el.style.boxRadius ?? 0.06) * scale.inch}px`,
         padding: `${scale.inch * 0.05}px ${scale.inch * 0.1}px`,
         margin: '0.25rem 0',
       }
@@ -183,10 +256,7 @@ function renderPrice(el: PriceElement, scale: ScaleFactors): React.ReactNode {
 }
 
 function renderFinancing(el: FinancingElement, scale: ScaleFactors): React.ReactNode {
-  let text = `As low as $${el.monthlyAmount}/mo for ${el.months} months`;
-  if (el.showApr && el.apr > 0) {
-    text += ` @ ${el.apr}% APR`;
-  }
+  const text = getFinancingText(el);
 
   return (
     <p
@@ -213,9 +283,7 @@ function renderSpecs(el: SpecsElement, scale: ScaleFactors): React.ReactNode {
   const gridClass =
     el.layout === 'two-column' ? 'grid grid-cols-2 gap-x-1 gap-y-0.5' : 'space-y-0.5';
 
-  // Split specs for two-column layout
-  const leftSpecs = el.layout === 'two-column' ? el.specs.slice(0, 4) : el.specs;
-  const rightSpecs = el.layout === 'two-column' ? el.specs.slice(4) : [];
+  const columns = getSpecColumns(el);
 
   const renderSpecItem = (spec: (typeof el.specs)[0]) => (
     <div key={spec.key}>
@@ -243,12 +311,23 @@ function renderSpecs(el: SpecsElement, scale: ScaleFactors): React.ReactNode {
         <p
           className="truncate leading-tight"
           style={{
-            fontSize: `${el.style.valueFontSize * scale.font}px`,
+            fontSize: `${(spec.valueFontSize ?? el.style.valueFontSize) * scale.font}px`,
             color: el.style.valueColor,
           }}
         >
           {spec.value}
         </p>
+        {!!spec.price && (
+          <p
+            className="ml-auto flex-shrink-0 pl-1 font-bold leading-tight"
+            style={{
+              fontSize: `${el.style.valueFontSize * scale.font}px`,
+              color: el.style.valueColor,
+            }}
+          >
+            {formatPrice(spec.price)}
+          </p>
+        )}
       </div>
     </div>
   );
@@ -256,7 +335,7 @@ function renderSpecs(el: SpecsElement, scale: ScaleFactors): React.ReactNode {
   return (
     <div key={el.id} className="flex-1 relative my-0.5" style={containerStyle}>
       {/* Left accent bar */}
-      {el.style.accentWidth && el.style.accentWidth > 0 && (
+      {!!el.style.accentWidth && (
         <div
           className="absolute left-0 top-0 bottom-0 rounded-l"
           style={{
@@ -273,14 +352,13 @@ function renderSpecs(el: SpecsElement, scale: ScaleFactors): React.ReactNode {
             : undefined,
         }}
       >
-        {el.layout === 'two-column' ? (
-          <>
-            <div className="space-y-0.5">{leftSpecs.map(renderSpecItem)}</div>
-            <div className="space-y-0.5">{rightSpecs.map(renderSpecItem)}</div>
-          </>
-        ) : (
-          leftSpecs.map(renderSpecItem)
-        )}
+        {el.layout === 'two-column'
+          ? columns.map((column, i) => (
+              <div key={i} className="space-y-0.5">
+                {column.map(renderSpecItem)}
+              </div>
+            ))
+          : columns[0].map(renderSpecItem)}
       </div>
     </div>
   );
@@ -312,7 +390,7 @@ function renderInfoBar(el: InfoBarElement, scale: ScaleFactors): React.ReactNode
           <p
             className="truncate leading-tight"
             style={{
-              fontSize: `${el.style.valueFontSize * scale.font}px`,
+              fontSize: `${(item.valueFontSize ?? el.style.valueFontSize) * scale.font}px`,
               color: el.style.valueColor,
             }}
           >
@@ -374,6 +452,120 @@ function renderSKU(el: SKUElement, scale: ScaleFactors): React.ReactNode {
   );
 }
 
+/**
+ * Render a placed box. Positions come from the box layout, so text inside
+ * boxes is sized to the inch scale (not the font scale) to fill its box the
+ * way it does in the PDF.
+ */
+function renderBoxNode(node: BoxNode, ctx: RenderContext, root = false): React.ReactNode {
+  const { scale } = ctx;
+  const el = node.element;
+  const px = (inches: number) => `${inches * scale.inch}px`;
+  const box: React.CSSProperties = {
+    position: root ? 'relative' : 'absolute',
+    left: root ? undefined : px(node.x),
+    top: root ? undefined : px(node.y),
+    width: px(node.width),
+    height: px(node.height),
+  };
+  const fontPx = (pt: number) => `${(pt / PT_PER_INCH) * scale.inch}px`;
+
+  switch (el.type) {
+    case 'text':
+    case 'sku':
+      return (
+        <div
+          key={el.id}
+          style={{
+            ...box,
+            fontSize: fontPx(el.style.fontSize),
+            fontWeight: el.style.fontWeight,
+            fontStyle: el.style.fontStyle || 'normal',
+            color: el.style.color,
+            textAlign: el.style.align,
+            lineHeight: px(lineHeightOf(el.style)),
+            whiteSpace: 'pre',
+          }}
+        >
+          {(node.lines ?? []).map((line, i) => (
+            <div key={i}>{line}</div>
+          ))}
+        </div>
+      );
+    case 'badge':
+      return (
+        <span
+          key={el.id}
+          className="font-bold"
+          style={{
+            ...box,
+            ...badgeStyle(el.style, scale),
+            boxSizing: 'border-box',
+            fontSize: fontPx(el.style.fontSize),
+            lineHeight: fontPx(el.style.fontSize),
+            whiteSpace: 'nowrap',
+          }}
+        >
+          {el.text}
+        </span>
+      );
+    case 'divider':
+      return <div key={el.id} style={{ ...box, backgroundColor: el.style.color }} />;
+    case 'image':
+      return (
+        <img
+          key={el.id}
+          src={el.src}
+          alt={el.alt}
+          className="object-contain"
+          style={{ ...box, objectPosition: 'center top' }}
+        />
+      );
+    case 'qrcode':
+      return <img key={el.id} src={ctx.qrCodeImage} alt="QR Code" style={box} />;
+    case 'barcode':
+      return (
+        <img
+          key={el.id}
+          src={ctx.barcodeImage}
+          alt="Barcode"
+          className="object-contain"
+          style={{ ...box, objectPosition: 'center top' }}
+        />
+      );
+    case 'container': {
+      const style = el.style ?? {};
+      return (
+        <div
+          key={el.id}
+          className={root ? 'mx-auto my-0.5 flex-shrink-0' : undefined}
+          style={{
+            ...box,
+            boxSizing: 'border-box',
+            backgroundColor: style.backgroundColor,
+            borderRadius: style.borderRadius ? px(style.borderRadius) : undefined,
+            border:
+              style.borderWidth && style.borderColor
+                ? `${px(style.borderWidth)} solid ${style.borderColor}`
+                : undefined,
+          }}
+        >
+          {(node.children ?? []).map((child) => renderBoxNode(child, ctx))}
+        </div>
+      );
+    }
+  }
+}
+
+function renderContainer(el: ContainerElement, ctx: RenderContext): React.ReactNode {
+  const node = layoutContainer(el, ctx.contentWidth, {
+    metrics: createCanvasTextMetrics(ctx.fontFamily),
+    hasQrCode: !!ctx.qrCodeImage,
+    hasBarcode: !!ctx.barcodeImage,
+  });
+  return renderBoxNode(node, ctx, true);
+}
+
 function renderFooterAccent(el: FooterAccentElement, scale: ScaleFactors): React.ReactNode {
   return (
     <div
@@ -405,6 +597,9 @@ interface RenderContext {
   qrCodeImage?: string;
   barcodeImage?: string;
   scale: ScaleFactors;
+  fontFamily: string;
+  /** Width of the content area between the side margins, in inches */
+  contentWidth: number;
 }
 
 function renderElement(el: LayoutElement, ctx: RenderContext): React.ReactNode {
@@ -438,15 +633,37 @@ function renderElement(el: LayoutElement, ctx: RenderContext): React.ReactNode {
     case 'footer-accent':
       return renderFooterAccent(el, scale);
     case 'badge':
+      return renderBadge(el, scale);
     case 'divider':
+      return renderDivider(el, scale);
     case 'container':
-      // Not yet implemented - fallback to null
-      return null;
+      return renderContainer(el, ctx);
     default:
       return null;
   }
 }
 
+/** Render a designed element inside its frame */
+function renderFramed(el: LayoutElement, ctx: RenderContext): React.ReactNode {
+  if (!el.frame || !el.visible) return null;
+  const { frame } = el;
+  const { scale } = ctx;
+  return (
+    <div
+      key={el.id}
+      className="absolute flex flex-col"
+      style={{
+        left: `${frame.x * scale.inch}px`,
+        top: `${frame.y * scale.inch}px`,
+        width: `${frame.width * scale.inch}px`,
+        height: `${frame.height * scale.inch}px`,
+      }}
+    >
+      {renderElement(el, { ...ctx, contentWidth: frame.width })}
+    </div>
+  );
+}
+
 // ============================================================================
 // MAIN RENDER FUNCTION
 // ============================================================================
@@ -471,12 +688,25 @@ export function renderLayoutToHtml(
     ...options.scale,
   };
 
+  const { margin } = getSizeLayoutConfig({
+    baseSize: layout.baseSize,
+    scale: layout.layoutScale,
+  });
+
   const ctx: RenderContext = {
     qrCodeImage: options.qrCodeImage,
     barcodeImage: options.barcodeImage,
     scale,
+    fontFamily: layout.fontFamily,
+    contentWidth: layout.dimensions.width - margin * 2,
   };
 
+  // Text is fitted the way the PDF renderer fits it, measured in the CSS font
+  const { elements } = fitLayoutText(layout, createCanvasTextMetrics(layout.fontFamily)).layout;
+
+  // Barcode/SKU/footer accent sit at the bottom, matching the PDF renderer
+  const { body, footer } = splitFooterElements(elements.filter((el) => !el.frame));
+
   // Get background style
   const backgroundStyle: React.CSSProperties =
     layout.background.pattern && layout.background.pattern !== 'solid'
@@ -494,9 +724,11 @@ export function renderLayoutToHtml(
         fontFamily: layout.fontFamily,
       }}
     >
-      <div className="flex-1 flex flex-col">
-        {layout.elements.map((el) => renderElement(el, ctx))}
-      </div>
+      <div className="flex-1 flex flex-col">{body.map((el) => renderElement(el, ctx))}</div>
+      {footer.length > 0 && (
+        <div className="flex flex-col">{footer.map((el) => renderElement(el, ctx))}</div>
+      )}
+      {elements.map((el) => renderFramed(el, ctx))}
     </div>
   );
 }
@@ -0,0 +1,1202 @@
+/**
+ * PDF Renderer - Renders CardLayout to a jsPDF document
+ *
+ * Counterpart to renderToHtml: takes the same declarative CardLayout
+ * the preview uses and draws it onto a jsPDF page at a given offset.
+ * All coordinates are in inches (the document must use unit: 'in').
+ */
+
+import {
+  CardLayout,
+  LayoutElement,
+  HeaderElement,
+  TextElement,
+  BadgeElement,
+  BadgeRowElement,
+  ImageElement,
+  PriceElement,
+  FinancingElement,
+  SpecsElement,
+  SpecItem,
+  InfoBarElement,
+  BarcodeElement,
+  QRCodeElement,
+  SKUElement,
+  DividerElement,
+  ContainerElement,
+  FooterAccentElement,
+  BoxStyle,
+  Frame,
+  Position,
+  RGB,
+  TextAlign,
+  FontWeight,
+  FontStyle,
+  hexToRgb,
+  darkenColor,
+  splitFooterElements,
+  getFinancingText,
+  getSpecColumns,
+} from './layoutSchema';
+import { LayoutConfig } from './pdfLayouts';
+import { getSizeLayoutConfig } from './cardSizes';
+import { formatPrice } from '../types';
+import { logger, PDFGenerationWarnings } from './logger';
+import { registerPdfFont, PdfFontRegistry } from './fontManager';
+import { loadImage, CachedImage } from './assetCache';
+import { BoxNode, BoxTextMetrics, FontSpec, layoutContainer } from './boxLayout';
+import {
+  fitLayoutText,
+  recordTextOverflows,
+  specColumnWidth,
+  INFO_VALUE_INSET,
+  SPEC_ICON_GAP,
+  SPEC_PRICE_GAP,
+} from './textFitting';
+
+// ============================================================================
+// TEXT METRICS
+// ============================================================================
+
+/** Points per inch */
+const PT_PER_INCH = 72;
+
+/** Default line height multiplier */
+const LINE_HEIGHT = 1.2;
+
+/** Approximate ascent of the core fonts, as a fraction of font size */
+const ASCENT = 0.78;
+
+/** Offset from a box's vertical center to a centered text baseline */
+const CENTER_BASELINE = 0.35;
+
+function ptToIn(pt: number): number {
+  return pt / PT_PER_INCH;
+}
+
+function lineHeightOf(fontSize: number, multiplier: number = LINE_HEIGHT): number {
+  return ptToIn(fontSize) * multiplier;
+}
+
+// ============================================================================
+// RENDER CONTEXT
+// ============================================================================
+
+/** jsPDF draw styles: fill, stroke, or both */
+type DrawStyle = 'F' | 'S' | 'FD' | 'DF' | null;
+
+/**
+ * The part of the jsPDF API the renderer draws with. jsPDF documents have it,
+ * and so do SvgDocument, CanvasDocument and the safe-zone checker.
+ */
+export interface PdfSurface extends PdfFontRegistry {
+  setFillColor(r: number, g: number, b: number): unknown;
+  setDrawColor(r: number, g: number, b: number): unknown;
+  setTextColor(r: number, g: number, b: number): unknown;
+  setLineWidth(width: number): unknown;
+  setFontSize(size: number): unknown;
+  setFont(fontName: string, fontStyle?: string): unknown;
+  getTextWidth(text: string): number;
+  splitTextToSize(text: string, maxWidth: number): string[];
+  text(
+    text: string | string[],
+    x: number,
+    y: number,
+    options?: { align?: 'left' | 'center' | 'right' }
+  ): unknown;
+  rect(x: number, y: number, w: number, h: number, style?: DrawStyle): unknown;
+  roundedRect(
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+    rx: number,
+    ry: number,
+    style?: DrawStyle
+  ): unknown;
+  line(x1: number, y1: number, x2: number, y2: number): unknown;
+  lines(
+    segments: number[][],
+    x: number,
+    y: number,
+    scale?: [number, number],
+    style?: DrawStyle,
+    closed?: boolean
+  ): unknown;
+  circle(x: number, y: number, r: number, style?: DrawStyle): unknown;
+  addImage(
+    source: HTMLImageElement | Uint8Array,
+    format: string,
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+    alias?: string
+  ): unknown;
+}
+
+interface PdfRenderContext {
+  doc: PdfSurface;
+  layout: CardLayout;
+  layoutConfig: LayoutConfig;
+  origin: Position;
+  /** Left edge of the content area */
+  contentX: number;
+  /** Width of the content area */
+  contentWidth: number;
+  /** Vertical gap after each flowed element */
+  gap: number;
+  /** How far full-bleed elements extend past the trim edge */
+  bleed: number;
+  /** Frame of the element being drawn, for designed layouts */
+  frame?: Frame;
+  fontName: string;
+  qrCodeImage?: string;
+  barcodeImage?: string;
+}
+
+function setFont(
+  ctx: PdfRenderContext,
+  weight: FontWeight = 'normal',
+  style: FontStyle = 'normal'
+): void {
+  let fontStyle: string = weight === 'bold' ? 'bold' : 'normal';
+  if (style === 'italic') {
+    fontStyle = weight === 'bold' ? 'bolditalic' : 'italic';
+  }
+  ctx.doc.setFont(ctx.fontName, fontStyle);
+}
+
+function alignX(ctx: PdfRenderContext, align: TextAlign): number {
+  switch (align) {
+    case 'left':
+      return ctx.contentX;
+    case 'right':
+      return ctx.contentX + ctx.contentWidth;
+    default:
+      return ctx.contentX + ctx.contentWidth / 2;
+  }
+}
+
+/** Truncate text to the first line that fits the given width */
+function fitLine(doc: PdfSurface, text: string, maxWidth: number): string {
+  const lines = doc.splitTextToSize(text, maxWidth);
+  return lines[0] ?? '';
+}
+
+// ============================================================================
+// IMAGE HELPERS
+// ============================================================================
+
+async function addImageToPdf(
+  doc: PdfSurface,
+  src: string,
+  x: number,
+  y: number,
+  maxWidth: number,
+  maxHeight: number,
+  center: boolean = true,
+  imageType: string = 'image'
+): Promise<{ width: number; height: number; success: boolean }> {
+  let image: CachedImage;
+  try {
+    image = await loadImage(src);
+  } catch (event) {
+    logger.warn('PDFRenderer', `Failed to load ${imageType}`, {
+      src: src.substring(0, 100),
+      event,
+    });
+    return { width: 0, height: 0, success: false };
+  }
+
+  const aspectRatio = image.width / image.height;
+  let width = maxWidth;
+  let height = width / aspectRatio;
+
+  if (height > maxHeight) {
+    height = maxHeight;
+    width = height * aspectRatio;
+  }
+
+  const finalX = center ? x + (maxWidth - width) / 2 : x;
+  doc.addImage(image.source, 'PNG', finalX, y, width, height, image.alias);
+  return { width, height, success: true };
+}
+
+// ============================================================================
+// BACKGROUND PATTERNS
+// Vector equivalents of the CSS patterns in BACKGROUND_PATTERNS. Translucent
+// CSS overlays are drawn as the equivalent opaque tint of the background.
+// ============================================================================
+
+/** Gradient end colors (matches the CSS linear-gradient) */
+const GRADIENT_FROM = '#f5f7fa';
+const GRADIENT_TO = '#c3cfe2';
+/** Number of bands used to approximate the gradient */
+const GRADIENT_STEPS = 40;
+/** Geometric stripe period and tint */
+const STRIPE_PERIOD = 0.28;
+const STRIPE_TINT = 0.03;
+/** Circuit grid spacing, line width and tint */
+const GRID_SPACING = 0.25;
+const GRID_LINE_WIDTH = 0.01;
+const GRID_TINT = 0.04;
+/** Dot grid spacing, radius and tint */
+const DOT_SPACING = 0.25;
+const DOT_RADIUS = 0.015;
+const DOT_TINT = 0.08;
+
+type Point = [number, number];
+
+/** Clip a convex polygon to the half-plane where `f(p) >= 0` */
+function clipHalfPlane(polygon: Point[], f: (p: Point) => number): Point[] {
+  const result: Point[] = [];
+  for (let i = 0; i < polygon.length; i++) {
+    const current = polygon[i];
+    const next = polygon[(i + 1) % polygon.length];
+    const fc = f(current);
+    const fn = f(next);
+    if (fc >= 0) result.push(current);
+    if (fc >= 0 !== fn >= 0) {
+      const t = fc / (fc - fn);
+      result.push([
+        current[0] + (next[0] - current[0]) * t,
+        current[1] + (next[1] - current[1]) * t,
+      ]);
+    }
+  }
+  return result;
+}
+
+function fillPolygon(doc: PdfSurface, polygon: Point[]): void {
+  if (polygon.length < 3) return;
+  const deltas = polygon
+    .slice(1)
+    .map((p, i): Point => [p[0] - polygon[i][0], p[1] - polygon[i][1]]);
+  doc.lines(deltas, polygon[0][0], polygon[0][1], [1, 1], 'F', true);
+}
+
+/**
+ * First position of a repeating pattern (nominally at `first`, every
+ * `spacing`) that still lands inside `extent` before the card's edge
+ */
+function patternStart(first: number, spacing: number, extent: number): number {
+  return first - (Math.ceil((first + extent) / spacing) - 1) * spacing;
+}
+
+/**
+ * Fill the part of the card (and its bleed) where `c0 <= a*x + b*y <= c1`,
+ * with x/y measured from the card's top-left corner. Used for diagonal bands
+ * and stripes.
+ */
+function fillDiagonalBand(
+  ctx: PdfRenderContext,
+  a: number,
+  b: number,
+  c0: number,
+  c1: number
+): void {
+  const { origin, layout, bleed } = ctx;
+  const { width, height } = layout.dimensions;
+  const card: Point[] = [
+    [-bleed, -bleed],
+    [width + bleed, -bleed],
+    [width + bleed, height + bleed],
+    [-bleed, height + bleed],
+  ];
+  const band = clipHalfPlane(
+    clipHalfPlane(card, ([x, y]) => a * x + b * y - c0),
+    ([x, y]) => c1 - (a * x + b * y)
+  );
+  fillPolygon(
+    ctx.doc,
+    band.map(([x, y]): Point => [origin.x + x, origin.y + y])
+  );
+}
+
+function mixColors(from: string, to: string, t: number): RGB {
+  const a = hexToRgb(from);
+  const b = hexToRgb(to);
+  return [0, 1, 2].map((i) => Math.round(a[i] + (b[i] - a[i]) * t)) as RGB;
+}
+
+function renderGradient(ctx: PdfRenderContext): void {
+  const { width, height } = ctx.layout.dimensions;
+  // 135deg: runs from the top-left corner to the bottom-right corner
+  for (let step = 0; step < GRADIENT_STEPS; step++) {
+    ctx.doc.setFillColor(...mixColors(GRADIENT_FROM, GRADIENT_TO, (step + 0.5) / GRADIENT_STEPS));
+    // The end bands run on into the bleed
+    const c0 = step === 0 ? -Infinity : (step / GRADIENT_STEPS) * 2;
+    // Overlap bands slightly so no hairline gaps show between them
+    const c1 = step === GRADIENT_STEPS - 1 ? Infinity : ((step + 1) / GRADIENT_STEPS) * 2 + 0.001;
+    fillDiagonalBand(ctx, 1 / width, 1 / height, c0, c1);
+  }
+}
+
+function renderStripes(ctx: PdfRenderContext): void {
+  const { width, height } = ctx.layout.dimensions;
+  // Diagonal distance the bleed adds at each end
+  const reach = ctx.bleed * 2;
+  ctx.doc.setFillColor(...hexToRgb(darkenColor(ctx.layout.background.color, STRIPE_TINT)));
+  for (
+    let c = patternStart(STRIPE_PERIOD / 2, STRIPE_PERIOD, reach);
+    c < width + height + reach;
+    c += STRIPE_PERIOD
+  ) {
+    fillDiagonalBand(ctx, 1, 1, c, c + STRIPE_PERIOD / 2);
+  }
+}
+
+function renderGrid(ctx: PdfRenderContext): void {
+  const { doc, origin, layout, bleed } = ctx;
+  const { width, height } = layout.dimensions;
+  const top = origin.y - bleed;
+  const bottom = origin.y + height + bleed;
+  const left = origin.x - bleed;
+  const right = origin.x + width + bleed;
+  const start = patternStart(GRID_SPACING, GRID_SPACING, bleed);
+  doc.setDrawColor(...hexToRgb(darkenColor(layout.background.color, GRID_TINT)));
+  doc.setLineWidth(GRID_LINE_WIDTH);
+  for (let x = start; x < width + bleed; x += GRID_SPACING) {
+    doc.line(origin.x + x, top, origin.x + x, bottom);
+  }
+  for (let y = start; y < height + bleed; y += GRID_SPACING) {
+    doc.line(left, origin.y + y, right, origin.y + y);
+  }
+}
+
+function renderDots(ctx: PdfRenderContext): void {
+  const { doc, origin, layout, bleed } = ctx;
+  const { width, height } = layout.dimensions;
+  const start = patternStart(DOT_SPACING / 2, DOT_SPACING, bleed);
+  doc.setFillColor(...hexToRgb(darkenColor(layout.background.color, DOT_TINT)));
+  for (let y = start; y < height + bleed; y += DOT_SPACING) {
+    for (let x = start; x < width + bleed; x += DOT_SPACING) {
+      doc.circle(origin.x + x, origin.y + y, DOT_RADIUS, 'F');
+    }
+  }
+}
+
+/** Fill the card background (and bleed) and draw its pattern */
+function renderBackground(ctx: PdfRenderContext, fill: boolean = true): void {
+  const { doc, origin, layout, bleed } = ctx;
+  const { width, height } = layout.dimensions;
+
+  if (fill) {
+    doc.setFillColor(...hexToRgb(layout.background.color));
+    doc.rect(origin.x - bleed, origin.y - bleed, width + bleed * 2, height + bleed * 2, 'F');
+  }
+
+  switch (layout.background.patternId) {
+    case 'gradient':
+      renderGradient(ctx);
+      break;
+    case 'geometric':
+      renderStripes(ctx);
+      break;
+    case 'circuit':
+      renderGrid(ctx);
+      break;
+    case 'dots':
+      renderDots(ctx);
+      break;
+    default:
+      break;
+  }
+}
+
+// ============================================================================
+// ELEMENT RENDERERS
+// Each renderer draws at the given top Y and returns the Y below the element.
+// ============================================================================
+
+function renderHeader(el: HeaderElement, ctx: PdfRenderContext, y: number): number {
+  const { doc, origin, layout, bleed } = ctx;
+  const width = layout.dimensions.width;
+  const accentHeight = el.style.accentHeight ?? 0;
+  // The bar runs into the bleed on every card edge it touches
+  const frame = ctx.frame ?? { x: 0, y: y - origin.y, width, height: el.style.height };
+  const edgeBleed = (distance: number) => (distance <= 0 ? bleed : 0);
+  const left = origin.x + frame.x - edgeBleed(frame.x);
+  const right = origin.x + frame.x + frame.width + edgeBleed(width - frame.x - frame.width);
+  const topBleed = edgeBleed(frame.y);
+
+  doc.setFillColor(...hexToRgb(el.style.backgroundColor));
+  doc.rect(left, y - topBleed, right - left, el.style.height + topBleed, 'F');
+
+  if (accentHeight > 0) {
+    doc.setFillColor(...hexToRgb(el.style.accentColor || el.style.backgroundColor));
+    doc.rect(left, y + el.style.height - accentHeight, right - left, accentHeight, 'F');
+  }
+
+  if (el.text) {
+    doc.setFontSize(el.style.fontSize);
+    setFont(ctx, 'bold');
+    doc.setTextColor(...hexToRgb(el.style.textColor));
+    const textY =
+      y + (el.style.height - accentHeight) / 2 + ptToIn(el.style.fontSize) * CENTER_BASELINE;
+    doc.text(el.text, origin.x + frame.x + frame.width / 2, textY, { align: 'center' });
+  }
+
+  return y + el.style.height + ctx.layoutConfig.spacing.sectionGap;
+}
+
+function renderText(el: TextElement, ctx: PdfRenderContext, y: number): number {
+  const { doc } = ctx;
+  const { fontSize } = el.style;
+
+  if (el.band) {
+    // Full card width, or the element's frame
+    const x = ctx.frame ? ctx.contentX : ctx.origin.x;
+    const width = ctx.frame ? ctx.contentWidth : ctx.layout.dimensions.width;
+    const accentHeight = el.band.accentHeight ?? 0;
+    doc.setFillColor(...hexToRgb(el.band.backgroundColor));
+    doc.rect(x, y, width, el.band.height, 'F');
+    if (accentHeight > 0) {
+      doc.setFillColor(...hexToRgb(el.band.accentColor || el.band.backgroundColor));
+      doc.rect(x, y + el.band.height - accentHeight, width, accentHeight, 'F');
+    }
+  }
+
+  doc.setFontSize(fontSize);
+  setFont(ctx, el.style.fontWeight, el.style.fontStyle);
+  doc.setTextColor(...hexToRgb(el.style.color));
+
+  let lines = doc.splitTextToSize(el.text, ctx.contentWidth);
+  if (el.maxLines && lines.length > el.maxLines) {
+    lines = lines.slice(0, el.maxLines);
+  }
+
+  const lineHeight = lineHeightOf(fontSize, el.style.lineHeight);
+  const x = alignX(ctx, el.style.align);
+  const blockHeight = lines.length * lineHeight;
+  const top = el.band ? y + (el.band.height - blockHeight) / 2 : y;
+
+  lines.forEach((line, i) => {
+    const baseline = top + i * lineHeight + ptToIn(fontSize) * ASCENT;
+    doc.text(line, x, baseline, { align: el.style.align });
+
+    if (el.strikethrough) {
+      const w = doc.getTextWidth(line);
+      const left = el.style.align === 'left' ? x : el.style.align === 'right' ? x - w : x - w / 2;
+      const strikeY = baseline - ptToIn(fontSize) * 0.3;
+      doc.setDrawColor(...hexToRgb(el.style.color));
+      doc.setLineWidth(0.01);
+      doc.line(left, strikeY, left + w, strikeY);
+    }
+  });
+
+  const height = el.band ? Math.max(el.band.height, blockHeight) : blockHeight;
+  return y + height + ctx.gap;
+}
+
+/** Draw a single pill badge and return its width */
+function drawBadge(
+  ctx: PdfRenderContext,
+  text: string,
+  x: number,
+  y: number,
+  style: BadgeElement['style']
+): number {
+  const { doc } = ctx;
+  doc.setFontSize(style.fontSize);
+  setFont(ctx, 'bold');
+  const width = doc.getTextWidth(text) + style.paddingX * 2;
+  const height = ptToIn(style.fontSize) + style.paddingY * 2;
+
+  doc.setFillColor(...hexToRgb(style.backgroundColor));
+  doc.roundedRect(x, y, width, height, style.borderRadius, style.borderRadius, 'F');
+
+  doc.setTextColor(...hexToRgb(style.textColor));
+  doc.text(text, x + style.paddingX, y + style.paddingY + ptToIn(style.fontSize) * ASCENT);
+
+  return width;
+}
+
+function renderBadge(el: BadgeElement, ctx: PdfRenderContext, y: number): number {
+  const { doc } = ctx;
+  doc.setFontSize(el.style.fontSize);
+  setFont(ctx, 'bold');
+  const width = doc.getTextWidth(el.text) + el.style.paddingX * 2;
+  drawBadge(ctx, el.text, ctx.contentX + (ctx.contentWidth - width) / 2, y, el.style);
+  return y + ptToIn(el.style.fontSize) + el.style.paddingY * 2 + ctx.gap;
+}
+
+function renderBadgeRow(el: BadgeRowElement, ctx: PdfRenderContext, y: number): number {
+  if (el.badges.length === 0) return y;
+
+  const { doc } = ctx;
+  const { fontSize, paddingX, paddingY, borderRadius, spacing } = el.style;
+  doc.setFontSize(fontSize);
+  setFont(ctx, 'bold');
+
+  // Greedy wrap badges into rows that fit the content width
+  const rows: Array<{ badges: BadgeRowElement['badges']; width: number }> = [];
+  let current: { badges: BadgeRowElement['badges']; width: number } = { badges: [], width: 0 };
+  for (const badge of el.badges) {
+    const w = doc.getTextWidth(badge.text) + paddingX * 2;
+    const next = current.badges.length > 0 ? current.width + spacing + w : w;
+    if (current.badges.length > 0 && next > ctx.contentWidth) {
+      rows.push(current);
+      current = { badges: [badge], width: w };
+    } else {
+      current.badges.push(badge);
+      current.width = next;
+    }
+  }
+  rows.push(current);
+
+  const badgeHeight = ptToIn(fontSize) + paddingY * 2;
+  let rowY = y;
+  for (const row of rows) {
+    let x =
+      el.align === 'left'
+        ? ctx.contentX
+        : el.align === 'right'
+          ? ctx.contentX + ctx.contentWidth - row.width
+          : ctx.contentX + (ctx.contentWidth - row.width) / 2;
+
+    for (const badge of row.badges) {
+      x +=
+        drawBadge(ctx, badge.text, x, rowY, {
+          backgroundColor: badge.backgroundColor,
+          textColor: badge.textColor,
+          fontSize,
+          paddingX,
+          paddingY,
+          borderRadius,
+        }) + spacing;
+    }
+    rowY += badgeHeight + spacing;
+  }
+
+  return rowY - spacing + ctx.gap;
+}
+
+async function renderImage(el: ImageElement, ctx: PdfRenderContext, y: number): Promise<number> {
+  const maxWidth = Math.min(el.size.width, ctx.contentWidth);
+  const x = ctx.contentX + (ctx.contentWidth - maxWidth) / 2;
+  const result = await addImageToPdf(ctx.doc, el.src, x, y, maxWidth, el.size.height, true, el.alt);
+  return result.success ? y + result.height + ctx.gap : y;
+}
+
+function renderPrice(el: PriceElement, ctx: PdfRenderContext, y: number): number {
+  const { doc } = ctx;
+  const centerX = ctx.contentX + ctx.contentWidth / 2;
+  let currentY = y;
+
+  if (el.showStrikethrough && el.originalPrice && el.originalPrice > 0) {
+    const strikeSize = el.style.strikeFontSize;
+    doc.setFontSize(strikeSize);
+    setFont(ctx, 'normal');
+    doc.setTextColor(...hexToRgb(el.style.strikeColor));
+    const text = formatPrice(el.originalPrice);
+    const w = doc.getTextWidth(text);
+    const baseline = currentY + ptToIn(strikeSize) * ASCENT;
+    doc.text(text, centerX, baseline, { align: 'center' });
+    doc.setDrawColor(...hexToRgb(el.style.strikeColor));
+    doc.setLineWidth(0.015);
+    const strikeY = baseline - ptToIn(strikeSize) * 0.3;
+    doc.line(centerX - w / 2 - 0.02, strikeY, centerX + w / 2 + 0.02, strikeY);
+    currentY += lineHeightOf(strikeSize);
+  }
+
+  const mainSize = el.style.mainFontSize;
+  doc.setFontSize(mainSize);
+  setFont(ctx, 'bold');
+
+  if (el.style.showBox) {
+    const boxHeight = el.style.boxHeight || lineHeightOf(mainSize, 1.4);
+    const radius = el.style.boxRadius ?? 0.06;
+    doc.setFillColor(...hexToRgb(el.style.boxColor || '#ffffff'));
+    doc.roundedRect(ctx.contentX, currentY, ctx.contentWidth, boxHeight, radius, radius, 'F');
+    doc.setTextColor(...hexToRgb(el.style.priceColor));
+    doc.text(
+      formatPrice(el.currentPrice),
+      centerX,
+      currentY + boxHeight / 2 + ptToIn(mainSize) * CENTER_BASELINE,
+      { align: 'center' }
+    );
+    currentY += boxHeight;
+  } else {
+    doc.setTextColor(...hexToRgb(el.style.priceColor));
+    doc.text(formatPrice(el.currentPrice), centerX, currentY + ptToIn(mainSize) * ASCENT, {
+      align: 'center',
+    });
+    currentY += lineHeightOf(mainSize);
+  }
+
+  return currentY + ctx.gap;
+}
+
+function renderFinancing(el: FinancingElement, ctx: PdfRenderContext, y: number): number {
+  const { doc } = ctx;
+  doc.setFontSize(el.style.fontSize);
+  setFont(ctx, el.style.fontWeight, el.style.fontStyle);
+  doc.setTextColor(...hexToRgb(el.style.color));
+  doc.text(
+    getFinancingText(el),
+    alignX(ctx, el.style.align),
+    y + ptToIn(el.style.fontSize) * ASCENT,
+    {
+      align: el.style.align,
+    }
+  );
+  return y + lineHeightOf(el.style.fontSize) + ctx.gap;
+}
+
+/** Height of one spec item (label line + icon/value line) */
+function specItemHeight(el: SpecsElement): number {
+  const labelLine = lineHeightOf(el.style.labelFontSize);
+  const valueLine = Math.max(lineHeightOf(el.style.valueFontSize), el.style.iconSize);
+  return Math.max(labelLine + valueLine, el.style.lineHeight);
+}
+
+async function renderSpecItem(
+  el: SpecsElement,
+  spec: SpecItem,
+  ctx: PdfRenderContext,
+  x: number,
+  y: number,
+  width: number
+): Promise<void> {
+  const { doc } = ctx;
+  const { labelFontSize, valueFontSize, iconSize } = el.style;
+
+  doc.setFontSize(labelFontSize);
+  setFont(ctx, 'bold');
+  doc.setTextColor(...hexToRgb(el.style.labelColor));
+  doc.text(spec.label.toUpperCase(), x, y + ptToIn(labelFontSize) * ASCENT);
+
+  const rowY = y + lineHeightOf(labelFontSize);
+  const rowHeight = Math.max(lineHeightOf(valueFontSize), iconSize);
+  let valueX = x;
+
+  if (spec.brandIcon) {
+    await addImageToPdf(
+      doc,
+      spec.brandIcon.src,
+      x,
+      rowY + (rowHeight - iconSize) / 2,
+      iconSize,
+      iconSize,
+      false,
+      `${spec.brandIcon.name} icon`
+    );
+    valueX += iconSize + SPEC_ICON_GAP;
+  }
+
+  const baseline = rowY + rowHeight / 2 + ptToIn(valueFontSize) * CENTER_BASELINE;
+  doc.setFontSize(valueFontSize);
+  doc.setTextColor(...hexToRgb(el.style.valueColor));
+
+  // Price at the right end of the value line; the value gets the rest
+  let priceWidth = 0;
+  if (spec.price) {
+    setFont(ctx, 'bold');
+    const price = formatPrice(spec.price);
+    priceWidth = doc.getTextWidth(price) + SPEC_PRICE_GAP;
+    doc.text(price, x + width, baseline, { align: 'right' });
+  }
+
+  // Values shrunk to fit keep the line's baseline
+  doc.setFontSize(spec.valueFontSize ?? valueFontSize);
+  setFont(ctx, 'normal');
+  const value = fitLine(doc, spec.value, width - (valueX - x) - priceWidth);
+  doc.text(value, valueX, baseline);
+}
+
+async function renderSpecs(el: SpecsElement, ctx: PdfRenderContext, y: number): Promise<number> {
+  if (el.specs.length === 0) return y;
+
+  const { doc } = ctx;
+  const padding = el.style.padding ?? 0;
+  const accentWidth = el.style.accentWidth ?? 0;
+  const itemHeight = specItemHeight(el);
+
+  const columns = getSpecColumns(el);
+  const rows = Math.max(...columns.map((c) => c.length));
+  const boxHeight = rows * itemHeight + padding * 2;
+
+  if (el.style.backgroundColor) {
+    const radius = el.style.borderRadius ?? 0;
+    doc.setFillColor(...hexToRgb(el.style.backgroundColor));
+    doc.roundedRect(ctx.contentX, y, ctx.contentWidth, boxHeight, radius, radius, 'F');
+  }
+  if (accentWidth > 0 && el.style.accentColor) {
+    doc.setFillColor(...hexToRgb(el.style.accentColor));
+    doc.roundedRect(ctx.contentX, y, accentWidth, boxHeight, accentWidth / 2, accentWidth / 2, 'F');
+  }
+
+  const innerX = ctx.contentX + accentWidth + padding;
+  const columnGap = ctx.layoutConfig.specs.columnGap;
+  const columnWidth = specColumnWidth(el, ctx.contentWidth, columnGap);
+
+  for (let col = 0; col < columns.length; col++) {
+    const colX = innerX + col * (columnWidth + columnGap);
+    for (let row = 0; row < columns[col].length; row++) {
+      await renderSpecItem(
+        el,
+        columns[col][row],
+        ctx,
+        colX,
+        y + padding + row * itemHeight,
+        columnWidth
+      );
+    }
+  }
+
+  return y + boxHeight + ctx.gap;
+}
+
+function renderInfoBar(el: InfoBarElement, ctx: PdfRenderContext, y: number): number {
+  if (el.items.length === 0) return y;
+
+  const { doc } = ctx;
+  const { height, borderRadius } = el.style;
+  const barHeight = height || lineHeightOf(el.style.labelFontSize + el.style.valueFontSize, 1.6);
+
+  doc.setFillColor(...hexToRgb(el.style.backgroundColor));
+  doc.roundedRect(ctx.contentX, y, ctx.contentWidth, barHeight, borderRadius, borderRadius, 'F');
+
+  const colWidth = ctx.contentWidth / el.items.length;
+  el.items.forEach((item, i) => {
+    const cx = ctx.contentX + colWidth * i + colWidth / 2;
+
+    doc.setFontSize(el.style.labelFontSize);
+    setFont(ctx, 'bold');
+    doc.setTextColor(...hexToRgb(el.style.labelColor));
+    doc.text(item.label, cx, y + barHeight * 0.4, { align: 'center' });
+
+    doc.setFontSize(item.valueFontSize ?? el.style.valueFontSize);
+    setFont(ctx, 'normal');
+    doc.setTextColor(...hexToRgb(el.style.valueColor));
+    doc.text(fitLine(doc, item.value, colWidth - INFO_VALUE_INSET), cx, y + barHeight * 0.78, {
+      align: 'center',
+    });
+  });
+
+  return y + barHeight + ctx.gap;
+}
+
+async function renderQRCode(el: QRCodeElement, ctx: PdfRenderContext, y: number): Promise<number> {
+  if (!ctx.qrCodeImage) return y;
+  const x = ctx.contentX + (ctx.contentWidth - el.size) / 2;
+  const result = await addImageToPdf(
+    ctx.doc,
+    ctx.qrCodeImage,
+    x,
+    y,
+    el.size,
+    el.size,
+    false,
+    'QR code'
+  );
+  return result.success ? y + el.size + ctx.gap : y;
+}
+
+async function renderBarcode(
+  el: BarcodeElement,
+  ctx: PdfRenderContext,
+  y: number
+): Promise<number> {
+  if (!ctx.barcodeImage) return y;
+  const width = Math.min(el.size.width, ctx.contentWidth);
+  const x = ctx.contentX + (ctx.contentWidth - width) / 2;
+  const result = await addImageToPdf(
+    ctx.doc,
+    ctx.barcodeImage,
+    x,
+    y,
+    width,
+    el.size.height,
+    true,
+    'barcode'
+  );
+  return result.success ? y + el.size.height : y;
+}
+
+function renderSKU(el: SKUElement, ctx: PdfRenderContext, y: number): number {
+  const { doc } = ctx;
+  doc.setFontSize(el.style.fontSize);
+  setFont(ctx, el.style.fontWeight, el.style.fontStyle);
+  doc.setTextColor(...hexToRgb(el.style.color));
+  doc.text(
+    `SKU: ${el.value}`,
+    alignX(ctx, el.style.align),
+    y + ptToIn(el.style.fontSize) * ASCENT,
+    {
+      align: el.style.align,
+    }
+  );
+  return y + lineHeightOf(el.style.fontSize);
+}
+
+function renderDivider(el: DividerElement, ctx: PdfRenderContext, y: number): number {
+  const { doc } = ctx;
+  doc.setDrawColor(...hexToRgb(el.style.color));
+  doc.setLineWidth(el.style.thickness);
+  const lineY = y + el.style.thickness / 2;
+  doc.line(ctx.contentX, lineY, ctx.contentX + ctx.contentWidth, lineY);
+  return y + el.style.thickness + ctx.gap;
+}
+
+/** Text metrics for box layout, measured with the document's own fonts */
+function boxMetrics(ctx: PdfRenderContext): BoxTextMetrics {
+  const { doc } = ctx;
+  const applyFont = (font: FontSpec) => {
+    doc.setFontSize(font.fontSize);
+    setFont(ctx, font.fontWeight, font.fontStyle);
+  };
+  return {
+    width: (text, font) => {
+      applyFont(font);
+      return doc.getTextWidth(text);
+    },
+    wrap: (text, maxWidth, font) => {
+      applyFont(font);
+      return doc.splitTextToSize(text, maxWidth);
+    },
+  };
+}
+
+/** Fill and stroke a container's box */
+function drawBoxStyle(
+  ctx: PdfRenderContext,
+  style: BoxStyle,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void {
+  const { doc } = ctx;
+  const radius = style.borderRadius ?? 0;
+  if (style.backgroundColor) {
+    doc.setFillColor(...hexToRgb(style.backgroundColor));
+    doc.roundedRect(x, y, width, height, radius, radius, 'F');
+  }
+  if (style.borderWidth && style.borderColor) {
+    // Keep the stroke inside the box
+    const inset = style.borderWidth / 2;
+    doc.setDrawColor(...hexToRgb(style.borderColor));
+    doc.setLineWidth(style.borderWidth);
+    doc.roundedRect(
+      x + inset,
+      y + inset,
+      width - style.borderWidth,
+      height - style.borderWidth,
+      Math.max(radius - inset, 0),
+      Math.max(radius - inset, 0),
+      'S'
+    );
+  }
+}
+
+/** Draw a placed box and its children, with the parent's top-left at (left, top) */
+async function drawBoxNode(
+  node: BoxNode,
+  ctx: PdfRenderContext,
+  left: number,
+  top: number
+): Promise<void> {
+  const { doc } = ctx;
+  const el = node.element;
+  const x = left + node.x;
+  const y = top + node.y;
+
+  switch (el.type) {
+    case 'text':
+    case 'sku': {
+      const lineHeight = lineHeightOf(el.style.fontSize, el.style.lineHeight);
+      const textX =
+        el.style.align === 'left'
+          ? x
+          : el.style.align === 'right'
+            ? x + node.width
+            : x + node.width / 2;
+      doc.setFontSize(el.style.fontSize);
+      setFont(ctx, el.style.fontWeight, el.style.fontStyle);
+      doc.setTextColor(...hexToRgb(el.style.color));
+      (node.lines ?? []).forEach((line, i) => {
+        const baseline = y + i * lineHeight + ptToIn(el.style.fontSize) * ASCENT;
+        doc.text(line, textX, baseline, { align: el.style.align });
+      });
+      break;
+    }
+    case 'badge':
+      drawBadge(ctx, el.text, x, y, el.style);
+      break;
+    case 'divider':
+      doc.setFillColor(...hexToRgb(el.style.color));
+      doc.rect(x, y, node.width, node.height, 'F');
+      break;
+    case 'image':
+      await addImageToPdf(doc, el.src, x, y, node.width, node.height, true, el.alt);
+      break;
+    case 'qrcode':
+      if (ctx.qrCodeImage) {
+        await addImageToPdf(doc, ctx.qrCodeImage, x, y, node.width, node.height, true, 'QR code');
+      }
+      break;
+    case 'barcode':
+      if (ctx.barcodeImage) {
+        await addImageToPdf(doc, ctx.barcodeImage, x, y, node.width, node.height, true, 'barcode');
+      }
+      break;
+    case 'container':
+      if (el.style) drawBoxStyle(ctx, el.style, x, y, node.width, node.height);
+      for (const child of node.children ?? []) {
+        await drawBoxNode(child, ctx, x, y);
+      }
+      break;
+  }
+}
+
+async function renderContainer(
+  el: ContainerElement,
+  ctx: PdfRenderContext,
+  y: number
+): Promise<number> {
+  const node = layoutContainer(el, ctx.contentWidth, {
+    metrics: boxMetrics(ctx),
+    hasQrCode: !!ctx.qrCodeImage,
+    hasBarcode: !!ctx.barcodeImage,
+  });
+  await drawBoxNode(node, ctx, ctx.contentX, y);
+  return y + node.height + ctx.gap;
+}
+
+function renderFooterAccent(el: FooterAccentElement, ctx: PdfRenderContext): void {
+  const { doc, origin, layout, bleed } = ctx;
+  const { width, height } = layout.dimensions;
+  const top = origin.y + height - el.style.height;
+
+  // The accent runs into the side and bottom bleed
+  doc.setFillColor(...hexToRgb(el.style.primaryColor));
+  doc.rect(origin.x - bleed, top, width + bleed * 2, el.style.height + bleed, 'F');
+
+  if (el.style.accentColor && el.style.accentHeight) {
+    doc.setFillColor(...hexToRgb(el.style.accentColor));
+    doc.rect(origin.x - bleed, top, width + bleed * 2, el.style.accentHeight, 'F');
+  }
+}
+
+// ============================================================================
+// ELEMENT DISPATCHER
+// ============================================================================
+
+async function renderElement(el: LayoutElement, ctx: PdfRenderContext, y: number): Promise<number> {
+  if (!el.visible) return y;
+
+  switch (el.type) {
+    case 'header':
+      return renderHeader(el, ctx, y);
+    case 'text':
+      return renderText(el, ctx, y);
+    case 'badge':
+      return renderBadge(el, ctx, y);
+    case 'badge-row':
+      return renderBadgeRow(el, ctx, y);
+    case 'image':
+      return renderImage(el, ctx, y);
+    case 'price':
+      return renderPrice(el, ctx, y);
+    case 'financing':
+      return renderFinancing(el, ctx, y);
+    case 'specs':
+      return renderSpecs(el, ctx, y);
+    case 'info-bar':
+      return renderInfoBar(el, ctx, y);
+    case 'barcode':
+      return renderBarcode(el, ctx, y);
+    case 'qrcode':
+      return renderQRCode(el, ctx, y);
+    case 'sku':
+      return renderSKU(el, ctx, y);
+    case 'divider':
+      return renderDivider(el, ctx, y);
+    case 'container':
+      return renderContainer(el, ctx, y);
+    case 'footer-accent':
+      renderFooterAccent(el, ctx);
+      return y;
+    default:
+      return y;
+  }
+}
+
+/** Width an image or QR element occupies when placed in a media row */
+function mediaWidth(el: ImageElement | QRCodeElement): number {
+  return el.type === 'qrcode' ? el.size : el.size.width;
+}
+
+function isMediaElement(el: LayoutElement): el is ImageElement | QRCodeElement {
+  return el.visible && (el.type === 'image' || el.type === 'qrcode');
+}
+
+/**
+ * Render consecutive image/QR elements side by side (product image + QR),
+ * mirroring the preview's media row.
+ */
+async function renderMediaRow(
+  items: Array<ImageElement | QRCodeElement>,
+  ctx: PdfRenderContext,
+  y: number
+): Promise<number> {
+  const spacing = ctx.gap * 2;
+  const totalWidth =
+    items.reduce((sum, el) => sum + mediaWidth(el), 0) + spacing * (items.length - 1);
+  let x = ctx.contentX + (ctx.contentWidth - totalWidth) / 2;
+  let rowHeight = 0;
+
+  for (const el of items) {
+    if (el.type === 'qrcode') {
+      if (ctx.qrCodeImage) {
+        await addImageToPdf(ctx.doc, ctx.qrCodeImage, x, y, el.size, el.size, false, 'QR code');
+        rowHeight = Math.max(rowHeight, el.size);
+      }
+    } else {
+      const result = await addImageToPdf(
+        ctx.doc,
+        el.src,
+        x,
+        y,
+        el.size.width,
+        el.size.height,
+        true,
+        el.alt
+      );
+      rowHeight = Math.max(rowHeight, result.height);
+    }
+    x += mediaWidth(el) + spacing;
+  }
+
+  return rowHeight > 0 ? y + rowHeight + ctx.gap : y;
+}
+
+/** Render a designed element inside its frame */
+async function renderFramed(el: LayoutElement, frame: Frame, ctx: PdfRenderContext): Promise<void> {
+  await renderElement(
+    el,
+    { ...ctx, contentX: ctx.origin.x + frame.x, contentWidth: frame.width, gap: 0, frame },
+    ctx.origin.y + frame.y
+  );
+}
+
+/** Render the footer group bottom-up from the card's bottom edge */
+async function renderFooter(footer: LayoutElement[], ctx: PdfRenderContext): Promise<void> {
+  const { origin, layout, layoutConfig } = ctx;
+  const accent = footer.find((el): el is FooterAccentElement => el.type === 'footer-accent');
+  let bottom =
+    origin.y + layout.dimensions.height - (accent?.style.height ?? 0) - layoutConfig.margin;
+
+  for (const el of [...footer].reverse()) {
+    if (!el.visible) continue;
+    if (el.type === 'footer-accent') {
+      renderFooterAccent(el, ctx);
+    } else if (el.type === 'sku') {
+      bottom -= lineHeightOf(el.style.fontSize);
+      renderSKU(el, ctx, bottom);
+      bottom -= 0.02;
+    } else if (el.type === 'barcode') {
+      if (!ctx.barcodeImage) continue;
+      bottom -= el.size.height;
+      await renderBarcode(el, ctx, bottom);
+      bottom -= 0.02;
+    }
+  }
+}
+
+// ============================================================================
+// MAIN RENDER FUNCTION
+// ============================================================================
+
+export interface RenderToPdfOptions {
+  qrCodeImage?: string;
+  barcodeImage?: string;
+  /** Stroke a thin cut border around the card */
+  border?: boolean;
+  /** Skip the background colour (patterns are still drawn), for transparent images */
+  transparentBackground?: boolean;
+  /** Extend the background, header and footer accent this far past the trim edge */
+  bleed?: number;
+  /** Collects the text that had to be cut to fit */
+  warnings?: PDFGenerationWarnings;
+}
+
+/**
+ * Render a CardLayout onto a jsPDF page (or another PdfSurface) with its
+ * top-left corner at `offset`
+ */
+export async function renderLayoutToPdf(
+  layout: CardLayout,
+  doc: PdfSurface,
+  offset: Position = { x: 0, y: 0 },
+  options: RenderToPdfOptions = {}
+): Promise<void> {
+  const layoutConfig = getSizeLayoutConfig({
+    baseSize: layout.baseSize,
+    scale: layout.layoutScale,
+  });
+  const { width, height } = layout.dimensions;
+
+  const ctx: PdfRenderContext = {
+    doc,
+    layout,
+    layoutConfig,
+    origin: offset,
+    contentX: offset.x + layoutConfig.margin,
+    contentWidth: width - layoutConfig.margin * 2,
+    gap: layoutConfig.spacing.afterBadges,
+    bleed: options.bleed ?? 0,
+    fontName: (layout.customFont && registerPdfFont(doc, layout.customFont)) || layout.pdfFontName,
+    qrCodeImage: options.qrCodeImage,
+    barcodeImage: options.barcodeImage,
+  };
+
+  // Shrink or cut text that doesn't fit before anything is drawn
+  const fitted = fitLayoutText(layout, boxMetrics(ctx));
+  if (options.warnings) {
+    recordTextOverflows(options.warnings, fitted.overflows, layout.cardSize);
+  }
+  const { elements } = fitted.layout;
+
+  renderBackground(ctx, !options.transparentBackground);
+
+  const { body, footer } = splitFooterElements(elements.filter((el) => !el.frame));
+
+  // Body flows top-down; a leading header sits flush with the top edge
+  let y = body[0]?.type === 'header' ? offset.y : offset.y + layoutConfig.spacing.sectionGap;
+  for (let i = 0; i < body.length; i++) {
+    const el = body[i];
+    if (isMediaElement(el) && i + 1 < body.length && isMediaElement(body[i + 1])) {
+      const group: Array<ImageElement | QRCodeElement> = [];
+      let j = i;
+      while (j < body.length) {
+        const next = body[j];
+        if (!isMediaElement(next)) break;
+        group.push(next);
+        j++;
+      }
+      y = await renderMediaRow(group, ctx, y);
+      i = j - 1;
+      continue;
+    }
+    y = await renderElement(el, ctx, y);
+  }
+
+  await renderFooter(footer, ctx);
+
+  // Designed elements, in their frames
+  for (const el of elements) {
+    if (el.frame) await renderFramed(el, el.frame, ctx);
+  }
+
+  if (options.border) {
+    doc.setDrawColor(200, 200, 200);
+    doc.setLineWidth(layoutConfig.borderWidth);
+    doc.rect(offset.x, offset.y, width, height, 'S');
+  }
+}
+
+export default renderLayoutToPdf;
@@ -0,0 +1,276 @@
+/**
+ * SVG Renderer - Renders CardLayout to a standalone SVG document
+ *
+ * SvgDocument implements PdfSurface, the part of the jsPDF API that
+ * renderToPdf uses, and records each call as an SVG element, so the SVG is
+ * the PDF card in vector form: real <text>, vector boxes and accents, and
+ * images embedded as data URLs. Coordinates are in points (72 per inch) for print software.
+ */
+
+import type { PrebuildConfig, CardSize } from '../types';
+import type { CardLayout, CardRenderOptions } from './layoutSchema';
+import { renderLayoutToPdf, PdfSurface, RenderToPdfOptions } from './renderToPdf';
+import { wrapText, createTextMeasurer, TextMeasurer } from './canvasDocument';
+import { buildFontFaceCss, getCustomFontPdfName } from './fontManager';
+
+type DrawStyle = 'F' | 'S' | 'FD' | 'DF' | null | undefined;
+
+const PT_PER_INCH = 72;
+
+const rgb = (r: number, g: number = r, b: number = r) => `rgb(${r},${g},${b})`;
+
+/** Round to 0.01pt to keep the file small */
+const n = (value: number) => Math.round(value * 100) / 100;
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export class SvgDocument implements PdfSurface {
+  private readonly elements: string[] = [];
+  private fillColor = rgb(0);
+  private strokeColor = rgb(0);
+  private textColor = rgb(0);
+  private lineWidth = 0.01 * PT_PER_INCH;
+  private fontSize = 16;
+  private fontStyle = 'normal';
+  private readonly measure: TextMeasurer = createTextMeasurer();
+
+  constructor(
+    /** CSS font-family for all text */
+    private readonly fontFamily: string,
+    /** jsPDF font names that count as registered (see registerPdfFont) */
+    private readonly registeredFonts: string[] = []
+  ) {}
+
+  /** The recorded elements, in drawing order */
+  get content(): string {
+    return this.elements.join('\n');
+  }
+
+  // --------------------------------------------------------------------------
+  // State
+  // --------------------------------------------------------------------------
+
+  setFillColor(r: number, g?: number, b?: number): this {
+    this.fillColor = rgb(r, g, b);
+    return this;
+  }
+
+  setDrawColor(r: number, g?: number, b?: number): this {
+    this.strokeColor = rgb(r, g, b);
+    return this;
+  }
+
+  setTextColor(r: number, g?: number, b?: number): this {
+    this.textColor = rgb(r, g, b);
+    return this;
+  }
+
+  setLineWidth(width: number): this {
+    this.lineWidth = width * PT_PER_INCH;
+    return this;
+  }
+
+  setFontSize(size: number): this {
+    this.fontSize = size;
+    return this;
+  }
+
+  /** Every font name maps to the layout's font family; only the style matters */
+  setFont(_name: string, style: string = 'normal'): this {
+    this.fontStyle = style;
+    return this;
+  }
+
+  getFontList(): Record<string, string[]> {
+    return Object.fromEntries(this.registeredFonts.map((name) => [name, ['normal']]));
+  }
+
+  addFileToVFS(): this {
+    return this;
+  }
+
+  addFont(): string {
+    return '';
+  }
+
+  // --------------------------------------------------------------------------
+  // Text
+  // --------------------------------------------------------------------------
+
+  private get cssFont(): string {
+    const italic = this.fontStyle.includes('italic') ? 'italic ' : '';
+    const bold = this.fontStyle.includes('bold') ? 'bold ' : '';
+    return `${italic}${bold}${this.fontSize}px ${this.fontFamily}`;
+  }
+
+  getTextWidth(text: string): number {
+    return this.measure(text, this.cssFont, this.fontSize) / PT_PER_INCH;
+  }
+
+  splitTextToSize(text: string, maxWidth: number): string[] {
+    return wrapText(text, maxWidth, (line) => this.getTextWidth(line));
+  }
+
+  text(
+    text: string | string[],
+    x: number,
+    y: number,
+    options: { align?: 'left' | 'center' | 'right' } = {}
+  ): this {
+    const lines = Array.isArray(text) ? text : [text];
+    const anchor = { left: 'start', center: 'middle', right: 'end' }[options.align ?? 'left'];
+    const weight = this.fontStyle.includes('bold') ? ' font-weight="bold"' : '';
+    const italic = this.fontStyle.includes('italic') ? ' font-style="italic"' : '';
+    lines.forEach((line, i) => {
+      const lineY = y * PT_PER_INCH + i * this.fontSize * 1.15;
+      this.elements.push(
+        `<text x="${n(x * PT_PER_INCH)}" y="${n(lineY)}" font-size="${n(this.fontSize)}"${weight}${italic} fill="${this.textColor}" text-anchor="${anchor}">${escapeXml(line)}</text>`
+      );
+    });
+    return this;
+  }
+
+  // --------------------------------------------------------------------------
+  // Shapes
+  // --------------------------------------------------------------------------
+
+  private paint(style: DrawStyle): string {
+    const fill = style === 'S' ? 'none' : this.fillColor;
+    const stroke =
+      style === 'S' || style === 'FD' || style === 'DF' || !style
+        ? ` stroke="${this.strokeColor}" stroke-width="${n(this.lineWidth)}"`
+        : '';
+    return `fill="${fill}"${stroke}`;
+  }
+
+  rect(x: number, y: number, w: number, h: number, style?: DrawStyle): this {
+    this.elements.push(
+      `<rect x="${n(x * PT_PER_INCH)}" y="${n(y * PT_PER_INCH)}" width="${n(w * PT_PER_INCH)}" height="${n(h * PT_PER_INCH)}" ${this.paint(style)}/>`
+    );
+    return this;
+  }
+
+  roundedRect(
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+    rx: number,
+    ry: number,
+    style?: DrawStyle
+  ): this {
+    this.elements.push(
+      `<rect x="${n(x * PT_PER_INCH)}" y="${n(y * PT_PER_INCH)}" width="${n(w * PT_PER_INCH)}" height="${n(h * PT_PER_INCH)}" rx="${n(rx * PT_PER_INCH)}" ry="${n(ry * PT_PER_INCH)}" ${this.paint(style)}/>`
+    );
+    return this;
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number): this {
+    this.elements.push(
+      `<line x1="${n(x1 * PT_PER_INCH)}" y1="${n(y1 * PT_PER_INCH)}" x2="${n(x2 * PT_PER_INCH)}" y2="${n(y2 * PT_PER_INCH)}" ${this.paint('S')}/>`
+    );
+    return this;
+  }
+
+  /** jsPDF's relative segments map directly onto SVG's relative l and c commands */
+  lines(
+    segments: number[][],
+    x: number,
+    y: number,
+    scale: [number, number] = [1, 1],
+    style?: DrawStyle,
+    closed: boolean = false
+  ): this {
+    const commands = segments.map((segment) => {
+      const values = segment.map((v, i) => n(v * scale[i % 2] * PT_PER_INCH));
+      return `${values.length === 6 ? 'c' : 'l'}${values.join(' ')}`;
+    });
+    const d = `M${n(x * PT_PER_INCH)} ${n(y * PT_PER_INCH)} ${commands.join(' ')}${closed ? ' Z' : ''}`;
+    this.elements.push(`<path d="${d}" ${this.paint(style)}/>`);
+    return this;
+  }
+
+  circle(x: number, y: number, r: number, style?: DrawStyle): this {
+    this.elements.push(
+      `<circle cx="${n(x * PT_PER_INCH)}" cy="${n(y * PT_PER_INCH)}" r="${n(r * PT_PER_INCH)}" ${this.paint(style)}/>`
+    );
+    return this;
+  }
+
+  // --------------------------------------------------------------------------
+  // Images
+  // --------------------------------------------------------------------------
+
+  addImage(
+    source: HTMLImageElement | Uint8Array,
+    _format: string,
+    x: number,
+    y: number,
+    w: number,
+    h: number
+  ): this {
+    const href =
+      source instanceof Uint8Array
+        ? `data:image/png;base64,${bytesToBase64(source)}`
+        : source.currentSrc || source.src;
+    this.elements.push(
+      `<image x="${n(x * PT_PER_INCH)}" y="${n(y * PT_PER_INCH)}" width="${n(w * PT_PER_INCH)}" height="${n(h * PT_PER_INCH)}" preserveAspectRatio="none" href="${escapeXml(href)}"/>`
+    );
+    return this;
+  }
+}
+
+/**
+ * Render a CardLayout as a standalone SVG document
+ */
+export async function renderLayoutToSvg(
+  layout: CardLayout,
+  options: RenderToPdfOptions = {}
+): Promise<string> {
+  const { width, height } = layout.dimensions;
+  const customFont = layout.customFont;
+  const doc = new SvgDocument(
+    layout.fontFamily,
+    customFont ? [getCustomFontPdfName(customFont)] : []
+  );
+  await renderLayoutToPdf(layout, doc, { x: 0, y: 0 }, options);
+
+  const fontFace = customFont
+    ? `<defs><style>${buildFontFaceCss(customFont)}</style></defs>\n`
+    : '';
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}in" height="${height}in" viewBox="0 0 ${n(width * PT_PER_INCH)} ${n(height * PT_PER_INCH)}" font-family="${escapeXml(layout.fontFamily)}">`,
+    `${fontFace}${doc.content}`,
+    '</svg>',
+  ].join('\n');
+}
+
+/**
+ * Build a config's layout for a card size and render it as SVG
+ */
+export async function generateCardSvg(
+  config: PrebuildConfig,
+  cardSize: CardSize,
+  options: CardRenderOptions = {}
+): Promise<string> {
+  // Loaded on demand to keep jsPDF out of the main bundle
+  const { prepareCard } = await import('./pdfGenerator');
+  const { layout, asyncData } = await prepareCard(config, cardSize, options);
+  return renderLayoutToSvg(layout, asyncData);
+}
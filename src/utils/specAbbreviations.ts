@@ -0,0 +1,194 @@
+/**
+ * Spec Abbreviations - Shorter component names for small cards
+ *
+ * "NVIDIA GeForce RTX 4070 Ti Super" won't fit a shelf tag, but
+ * "RTX 4070 Ti S" next to the NVIDIA icon says the same. Each component
+ * category has its own rules: drop the vendor name when its brand icon is
+ * shown, replace whole words from a token dictionary, then replace endings
+ * from a suffix dictionary. Rules apply only on the card sizes they're
+ * turned on for.
+ */
+
+import type { CardSize, ComponentCategory } from '../types';
+import { stripBrandPrefix } from './brandDetection';
+import { COMPONENT_VALUE_SEPARATOR } from './componentItems';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface AbbreviationRule {
+  /** Text to find, ignoring case */
+  find: string;
+  /** Text to put in its place; empty removes it */
+  replace: string;
+}
+
+export type AbbreviationRuleKind = 'tokens' | 'suffixes';
+
+export interface CategoryAbbreviations {
+  /** Drop the vendor name from the start when its brand icon is shown */
+  stripVendor: boolean;
+  /** Replaced wherever they appear as whole words */
+  tokens: AbbreviationRule[];
+  /** Replaced only at the end of the value */
+  suffixes: AbbreviationRule[];
+}
+
+export interface SpecAbbreviations {
+  /** Card sizes the rules are applied on */
+  sizes: CardSize[];
+  categories: Record<ComponentCategory, CategoryAbbreviations>;
+}
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+const remove = (...words: string[]): AbbreviationRule[] =>
+  words.map((find) => ({ find, replace: '' }));
+
+export const DEFAULT_CATEGORY_ABBREVIATIONS: Record<ComponentCategory, CategoryAbbreviations> = {
+  cpu: {
+    stripVendor: true,
+    tokens: remove('Core'),
+    suffixes: remove('Processor'),
+  },
+  gpu: {
+    stripVendor: true,
+    tokens: [...remove('GeForce', 'Radeon'), { find: 'Super', replace: 'S' }],
+    suffixes: remove('Graphics Card'),
+  },
+  ram: {
+    stripVendor: true,
+    tokens: remove(
+      'Vengeance',
+      'Dominator',
+      'Trident Z5',
+      'Ripjaws',
+      'Fury Beast',
+      'RGB',
+      '(2x8GB)',
+      '(2x16GB)',
+      '(2x32GB)'
+    ),
+    suffixes: remove('CL30', 'CL32', 'CL36', 'CL40'),
+  },
+  storage: {
+    stripVendor: true,
+    tokens: [
+      { find: 'Solid State Drive', replace: 'SSD' },
+      { find: 'Hard Drive', replace: 'HDD' },
+    ],
+    suffixes: [],
+  },
+  motherboard: {
+    stripVendor: true,
+    tokens: remove('Gaming', 'WiFi'),
+    suffixes: [],
+  },
+  psu: {
+    stripVendor: true,
+    tokens: [{ find: 'Platinum', replace: 'Plat' }, ...remove('Fully Modular')],
+    suffixes: [],
+  },
+  case: {
+    stripVendor: true,
+    tokens: remove('Mid Tower'),
+    suffixes: remove('Airflow'),
+  },
+  cooling: {
+    stripVendor: true,
+    tokens: [],
+    suffixes: [
+      { find: 'Liquid Cooler', replace: '' },
+      { find: 'Liquid Cooling', replace: 'Liquid' },
+      { find: 'Air Cooler', replace: 'Air' },
+    ],
+  },
+  fans: {
+    stripVendor: true,
+    tokens: remove('ARGB', 'RGB'),
+    suffixes: [{ find: 'Case Fans', replace: 'Fans' }],
+  },
+  expansion: {
+    stripVendor: true,
+    tokens: [{ find: 'Capture Card', replace: 'Capture' }],
+    suffixes: remove('PCIe Card'),
+  },
+  peripherals: {
+    stripVendor: true,
+    tokens: [],
+    suffixes: [],
+  },
+  monitor: {
+    stripVendor: true,
+    tokens: [{ find: 'Ultrawide', replace: 'UW' }],
+    suffixes: remove('Gaming Monitor', 'Monitor'),
+  },
+};
+
+export const DEFAULT_SPEC_ABBREVIATIONS: SpecAbbreviations = {
+  sizes: ['shelf'],
+  categories: DEFAULT_CATEGORY_ABBREVIATIONS,
+};
+
+// ============================================================================
+// ABBREVIATION
+// ============================================================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** True when spec values on this card size are abbreviated */
+export function usesAbbreviations(
+  abbreviations: SpecAbbreviations | undefined,
+  cardSize: CardSize
+): boolean {
+  return !!abbreviations?.sizes.includes(cardSize);
+}
+
+/**
+ * Shorten a component value with a category's rules
+ *
+ * @param vendor - Brand whose icon is shown with the value, if any
+ */
+export function abbreviateSpec(
+  value: string,
+  rules: CategoryAbbreviations,
+  vendor?: string | null
+): string {
+  let text = rules.stripVendor && vendor ? stripBrandPrefix(value, vendor) : value;
+
+  for (const { find, replace } of rules.tokens) {
+    if (!find.trim()) continue;
+    // Whole words only, so "Core" leaves "Cores" alone
+    const pattern = new RegExp(`(^|[\\s/])${escapeRegExp(find.trim())}(?=[\\s/,]|$)`, 'gi');
+    text = text.replace(pattern, (_, before: string) => `${before}${replace}`);
+  }
+
+  for (const { find, replace } of rules.suffixes) {
+    if (!find.trim()) continue;
+    const pattern = new RegExp(`${escapeRegExp(find.trim())}\\s*$`, 'i');
+    text = text.replace(pattern, () => replace);
+  }
+
+  const shortened = text.replace(/\s+/g, ' ').trim();
+  // Rules that remove everything would leave the spec blank
+  return shortened || value;
+}
+
+/**
+ * Shorten each of a category's line items and join them. Only the first is
+ * shown with its brand icon, so only it drops the vendor.
+ */
+export function abbreviateSpecValues(
+  values: string[],
+  rules: CategoryAbbreviations,
+  vendor?: string | null
+): string {
+  return values
+    .map((value, i) => abbreviateSpec(value, rules, i === 0 ? vendor : null))
+    .join(COMPONENT_VALUE_SEPARATOR);
+}
@@ -0,0 +1,187 @@
+/**
+ * Spec Visibility - Which specs and info bar items each card size shows
+ *
+ * Every card size has an ordered list of component categories and info bar
+ * items, each shown or hidden and optionally relabeled. A preset can carry
+ * its own lists for some sizes; sizes it leaves out use the global default,
+ * and sizes without a default use the lists of their built-in base size.
+ * Custom fields placed as specs or info bar items join the lists after the
+ * built-in items.
+ */
+
+import { COMPONENT_LABELS, INFO_ITEM_LABELS } from '../types';
+import type {
+  BuiltInCardSize,
+  CardSize,
+  ComponentCategory,
+  CustomFieldDefinition,
+  DisplayedItem,
+  InfoItemKey,
+  InfoListKey,
+  PrebuildConfig,
+  SizeSpecVisibility,
+  SpecListKey,
+  SpecVisibility,
+} from '../types';
+import { getComponentText } from './componentItems';
+import { getCustomFieldText, isCustomFieldId } from './customFields';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/** An item to show, with the label it's shown with */
+export interface ShownItem<K extends string> {
+  key: K;
+  label: string;
+}
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+const ALL_SPECS = Object.keys(COMPONENT_LABELS) as ComponentCategory[];
+
+const ALL_INFO_ITEMS: InfoItemKey[] = ['os', 'warranty', 'wifi'];
+
+/** Shelf tags only have room for the main components */
+const SHELF_SPECS: ComponentCategory[] = ['cpu', 'gpu', 'ram', 'storage'];
+
+function showOnly(specs: ComponentCategory[]): SizeSpecVisibility {
+  return {
+    specs: ALL_SPECS.map((key) => ({ key, visible: specs.includes(key) })),
+    info: ALL_INFO_ITEMS.map((key) => ({ key, visible: true })),
+  };
+}
+
+export const DEFAULT_SIZE_SPEC_VISIBILITY: Record<BuiltInCardSize, SizeSpecVisibility> = {
+  shelf: showOnly(SHELF_SPECS),
+  price: showOnly(ALL_SPECS),
+  poster: showOnly(ALL_SPECS),
+};
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+/** A base size's built-in lists, with the custom fields placed on cards added */
+function getDefaultVisibility(
+  baseSize: BuiltInCardSize,
+  fields: CustomFieldDefinition[]
+): SizeSpecVisibility {
+  const defaults = DEFAULT_SIZE_SPEC_VISIBILITY[baseSize];
+  if (fields.length === 0) return defaults;
+  const placed = (placement: CustomFieldDefinition['placement']) =>
+    fields.filter((field) => field.placement === placement).map((field) => field.id);
+  return {
+    // Shelf tags keep to the main components; fields are turned on per size
+    specs: [
+      ...defaults.specs,
+      ...placed('spec').map((key) => ({ key, visible: baseSize !== 'shelf' })),
+    ],
+    info: [...defaults.info, ...placed('info').map((key) => ({ key, visible: true }))],
+  };
+}
+
+/** Add the keys a saved list is missing, as the default list has them */
+function completeItems<K extends string>(
+  items: DisplayedItem<K>[],
+  defaults: DisplayedItem<K>[]
+): DisplayedItem<K>[] {
+  const known = defaults.map((item) => item.key);
+  const kept = items.filter((item) => known.includes(item.key));
+  const missing = defaults.filter((item) => !kept.some((k) => k.key === item.key));
+  return [...kept, ...missing];
+}
+
+/**
+ * Resolve what a card size shows. Sources are tried in order (e.g. the
+ * preset's lists, then the global default); the first with an entry for the
+ * size wins. Removed custom fields drop out and new ones are added.
+ */
+export function getSizeSpecVisibility(
+  cardSize: CardSize,
+  baseSize: BuiltInCardSize,
+  sources: Array<SpecVisibility | undefined> = [],
+  fields: CustomFieldDefinition[] = []
+): SizeSpecVisibility {
+  const defaults = getDefaultVisibility(baseSize, fields);
+  const found = sources.find((source) => source?.[cardSize])?.[cardSize];
+  if (!found) return defaults;
+  return {
+    specs: completeItems(found.specs, defaults.specs),
+    info: completeItems(found.info, defaults.info),
+  };
+}
+
+// ============================================================================
+// LABELS AND VALUES
+// ============================================================================
+
+/** The label an item has unless it's given its own */
+export function getDefaultItemLabel(
+  key: SpecListKey | InfoListKey,
+  fields: CustomFieldDefinition[] = []
+): string {
+  if (isCustomFieldId(key)) return fields.find((field) => field.id === key)?.label ?? key;
+  return key in COMPONENT_LABELS
+    ? COMPONENT_LABELS[key as ComponentCategory]
+    : INFO_ITEM_LABELS[key as InfoItemKey];
+}
+
+function toShownItems<K extends SpecListKey | InfoListKey>(
+  items: DisplayedItem<K>[],
+  fields: CustomFieldDefinition[],
+  includeHidden: boolean
+): ShownItem<K>[] {
+  return items
+    .filter((item) => includeHidden || item.visible)
+    .map((item) => ({
+      key: item.key,
+      label: item.label?.trim() || getDefaultItemLabel(item.key, fields),
+    }));
+}
+
+/** The specs a card size shows, in order and with their labels */
+export function getShownSpecs(
+  visibility: SizeSpecVisibility,
+  fields: CustomFieldDefinition[] = [],
+  includeHidden: boolean = false
+): ShownItem<SpecListKey>[] {
+  return toShownItems(visibility.specs, fields, includeHidden);
+}
+
+/** The info bar items a card size shows, in order and with their labels */
+export function getShownInfoItems(
+  visibility: SizeSpecVisibility,
+  fields: CustomFieldDefinition[] = []
+): ShownItem<InfoListKey>[] {
+  return toShownItems(visibility.info, fields, false);
+}
+
+/**
+ * A build's value for a spec or info bar item, as text; empty when unset.
+ * A category's line items share one line.
+ */
+export function getItemText(
+  config: PrebuildConfig,
+  key: SpecListKey | InfoListKey,
+  fields: CustomFieldDefinition[] = []
+): string {
+  if (isCustomFieldId(key)) {
+    const field = fields.find((f) => f.id === key);
+    return field ? getCustomFieldText(config, field) : '';
+  }
+  return key in COMPONENT_LABELS
+    ? getComponentText(config, key as ComponentCategory)
+    : config[key as InfoItemKey];
+}
+
+/** Move the item at `from` to `to` */
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (to < 0 || to >= items.length || from === to) return items;
+  const moved = [...items];
+  const [item] = moved.splice(from, 1);
+  moved.splice(to, 0, item);
+  return moved;
+}
@@ -0,0 +1,357 @@
+/**
+ * Text Fitting - Shrinks and cuts text to the space it's drawn in
+ *
+ * A measurement pass over a CardLayout that runs before either renderer
+ * draws it. Text with a line limit (model names, spec and info bar values,
+ * framed text) first shrinks toward its element's smallest font size, then
+ * has its last line cut with an ellipsis; the header's store name and the
+ * financing line are cut to one line. Each cut is reported, so staff can see
+ * what won't print in full.
+ *
+ * Measurement comes from the renderer: jsPDF for the PDF, a canvas for the
+ * preview. Widths are in inches, font sizes in points.
+ */
+
+import { formatPrice } from '../types';
+import type { CardSize } from '../types';
+import {
+  CardLayout,
+  FinancingElement,
+  HeaderElement,
+  InfoBarElement,
+  LayoutElement,
+  SpecsElement,
+  TextElement,
+  TextFit,
+  getElementRole,
+  getFinancingText,
+} from './layoutSchema';
+import type { BoxTextMetrics, FontSpec } from './boxLayout';
+import { createTextMeasurer, wrapText } from './canvasDocument';
+import { getSizeLayoutConfig } from './cardSizes';
+import type { PDFGenerationWarnings } from './logger';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/** Text that had to be cut */
+export interface TextOverflow {
+  elementId: string;
+  /** What the text is, e.g. "CPU" or "Model name" */
+  label: string;
+  /** The text before it was cut */
+  text: string;
+}
+
+export interface FittedText {
+  lines: string[];
+  fontSize: number;
+  /** Whether the last line was cut */
+  truncated: boolean;
+}
+
+export interface LayoutTextFit {
+  layout: CardLayout;
+  overflows: TextOverflow[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Points per inch */
+const PT_PER_INCH = 72;
+
+/** Default line height multiplier (matches the renderers) */
+const LINE_HEIGHT = 1.2;
+
+/** Font sizes are tried in steps of this many points */
+const FONT_SIZE_STEP = 0.5;
+
+export const ELLIPSIS = '…';
+
+/** Gap between a spec's brand icon and its value */
+export const SPEC_ICON_GAP = 0.02;
+
+/** Gap between a spec's value and its price */
+export const SPEC_PRICE_GAP = 0.04;
+
+/** Room left around an info bar value in its column */
+export const INFO_VALUE_INSET = 0.1;
+
+/** Names for text elements in warnings, by element role */
+const TEXT_LABELS: Record<string, string> = {
+  header: 'Store name',
+  financing: 'Financing',
+  model: 'Model name',
+  description: 'Description',
+  warranty: 'Warranty',
+  'financing-terms': 'Financing terms',
+  'specs-header': 'Specs heading',
+};
+
+// ============================================================================
+// MEASUREMENT
+// ============================================================================
+
+/** Text metrics measured with a canvas in a CSS font family */
+export function createCanvasTextMetrics(fontFamily: string): BoxTextMetrics {
+  const measure = createTextMeasurer();
+  const width: BoxTextMetrics['width'] = (text, font) => {
+    const italic = font.fontStyle === 'italic' ? 'italic ' : '';
+    const bold = font.fontWeight === 'bold' ? 'bold ' : '';
+    const css = `${italic}${bold}${font.fontSize}px ${fontFamily}`;
+    return measure(text, css, font.fontSize) / PT_PER_INCH;
+  };
+  return {
+    width,
+    wrap: (text, maxWidth, font) => wrapText(text, maxWidth, (line) => width(line, font)),
+  };
+}
+
+/** Width of each spec column in a specs element `width` wide */
+export function specColumnWidth(el: SpecsElement, width: number, columnGap: number): number {
+  const columns = el.layout === 'two-column' ? 2 : 1;
+  const innerWidth = width - (el.style.accentWidth ?? 0) - (el.style.padding ?? 0) * 2;
+  return (innerWidth - columnGap * (columns - 1)) / columns;
+}
+
+// ============================================================================
+// FITTING
+// ============================================================================
+
+/**
+ * Cut text to the longest start that fits `maxWidth` with an ellipsis.
+ * Text that already fits is returned as is.
+ */
+export function ellipsize(
+  text: string,
+  maxWidth: number,
+  font: FontSpec,
+  metrics: BoxTextMetrics
+): string {
+  if (metrics.width(text, font) <= maxWidth) return text;
+
+  const cut = (length: number) => `${text.slice(0, length).trimEnd()}${ELLIPSIS}`;
+  let fits = 0;
+  let tooLong = text.length;
+  while (tooLong - fits > 1) {
+    const mid = Math.floor((fits + tooLong) / 2);
+    if (metrics.width(cut(mid), font) <= maxWidth) {
+      fits = mid;
+    } else {
+      tooLong = mid;
+    }
+  }
+  return cut(fits);
+}
+
+/**
+ * Fit text into at most `maxLines` lines of `maxWidth`: shrink the font
+ * within `fit`'s bounds until it does, or cut the last line at the smallest
+ * size
+ */
+export function fitText(
+  text: string,
+  maxWidth: number,
+  maxLines: number,
+  font: FontSpec,
+  fit: TextFit | undefined,
+  metrics: BoxTextMetrics
+): FittedText {
+  const start = fit?.maxFontSize ?? font.fontSize;
+  const min = Math.min(fit?.minFontSize ?? start, start);
+  const wrapAt = (fontSize: number) => metrics.wrap(text, maxWidth, { ...font, fontSize });
+
+  let fontSize = start;
+  let lines = wrapAt(fontSize);
+  while (lines.length > maxLines && fontSize > min) {
+    fontSize = Math.max(min, fontSize - FONT_SIZE_STEP);
+    lines = wrapAt(fontSize);
+  }
+  if (lines.length <= maxLines) return { lines, fontSize, truncated: false };
+
+  // The last line takes the rest of the text, cut to fit
+  const rest = lines.slice(maxLines - 1).join(' ');
+  return {
+    lines: [
+      ...lines.slice(0, maxLines - 1),
+      ellipsize(rest, maxWidth, { ...font, fontSize }, metrics),
+    ],
+    fontSize,
+    truncated: true,
+  };
+}
+
+function fitTextElement(
+  el: TextElement,
+  width: number,
+  metrics: BoxTextMetrics,
+  overflows: TextOverflow[]
+): TextElement {
+  const { fontSize } = el.style;
+  // Framed text can't grow past its frame
+  const frameLines = el.frame
+    ? Math.max(
+        1,
+        Math.floor(
+          el.frame.height / ((fontSize / PT_PER_INCH) * (el.style.lineHeight ?? LINE_HEIGHT))
+        )
+      )
+    : undefined;
+  const maxLines = Math.min(el.maxLines ?? Infinity, frameLines ?? Infinity);
+  if (maxLines === Infinity) return el;
+
+  const fitted = fitText(el.text, width, maxLines, el.style, el.fit, metrics);
+  if (fitted.truncated) {
+    overflows.push({
+      elementId: el.id,
+      label: TEXT_LABELS[getElementRole(el)] ?? 'Text',
+      text: el.text,
+    });
+  }
+  if (!fitted.truncated && fitted.fontSize === fontSize) return el;
+  return {
+    ...el,
+    text: fitted.truncated ? fitted.lines.join(' ') : el.text,
+    style: { ...el.style, fontSize: fitted.fontSize },
+  };
+}
+
+function fitHeader(
+  el: HeaderElement,
+  width: number,
+  metrics: BoxTextMetrics,
+  overflows: TextOverflow[]
+): HeaderElement {
+  const text = ellipsize(
+    el.text,
+    width,
+    { fontSize: el.style.fontSize, fontWeight: 'bold' },
+    metrics
+  );
+  if (text === el.text) return el;
+  overflows.push({ elementId: el.id, label: TEXT_LABELS.header, text: el.text });
+  return { ...el, text };
+}
+
+function fitFinancing(
+  el: FinancingElement,
+  width: number,
+  metrics: BoxTextMetrics,
+  overflows: TextOverflow[]
+): FinancingElement {
+  const full = getFinancingText(el);
+  const text = ellipsize(full, width, el.style, metrics);
+  if (text === full) return el;
+  overflows.push({ elementId: el.id, label: TEXT_LABELS.financing, text: full });
+  return { ...el, text };
+}
+
+function fitSpecs(
+  el: SpecsElement,
+  width: number,
+  columnGap: number,
+  metrics: BoxTextMetrics,
+  overflows: TextOverflow[]
+): SpecsElement {
+  const { valueFontSize, iconSize } = el.style;
+  const columnWidth = specColumnWidth(el, width, columnGap);
+
+  const specs = el.specs.map((spec) => {
+    const iconWidth = spec.brandIcon ? iconSize + SPEC_ICON_GAP : 0;
+    const priceWidth = spec.price
+      ? metrics.width(formatPrice(spec.price), { fontSize: valueFontSize, fontWeight: 'bold' }) +
+        SPEC_PRICE_GAP
+      : 0;
+    const fitted = fitText(
+      spec.value,
+      columnWidth - iconWidth - priceWidth,
+      1,
+      { fontSize: valueFontSize, fontWeight: 'normal' },
+      el.fit,
+      metrics
+    );
+    if (fitted.truncated) {
+      overflows.push({ elementId: el.id, label: spec.label, text: spec.value });
+    }
+    if (!fitted.truncated && fitted.fontSize === valueFontSize) return spec;
+    return { ...spec, value: fitted.lines[0], valueFontSize: fitted.fontSize };
+  });
+
+  return specs.every((spec, i) => spec === el.specs[i]) ? el : { ...el, specs };
+}
+
+function fitInfoBar(
+  el: InfoBarElement,
+  width: number,
+  metrics: BoxTextMetrics,
+  overflows: TextOverflow[]
+): InfoBarElement {
+  const { valueFontSize } = el.style;
+  const valueWidth = width / el.items.length - INFO_VALUE_INSET;
+
+  const items = el.items.map((item) => {
+    const fitted = fitText(
+      item.value,
+      valueWidth,
+      1,
+      { fontSize: valueFontSize, fontWeight: 'normal' },
+      el.fit,
+      metrics
+    );
+    if (fitted.truncated) {
+      overflows.push({ elementId: el.id, label: item.label, text: item.value });
+    }
+    if (!fitted.truncated && fitted.fontSize === valueFontSize) return item;
+    return { ...item, value: fitted.lines[0], valueFontSize: fitted.fontSize };
+  });
+
+  return items.every((item, i) => item === el.items[i]) ? el : { ...el, items };
+}
+
+/**
+ * Fit the layout's text to the space the renderers give it. Elements that
+ * fit are kept as they are; hidden elements are skipped.
+ */
+export function fitLayoutText(layout: CardLayout, metrics: BoxTextMetrics): LayoutTextFit {
+  const config = getSizeLayoutConfig({ baseSize: layout.baseSize, scale: layout.layoutScale });
+  const contentWidth = layout.dimensions.width - config.margin * 2;
+  const overflows: TextOverflow[] = [];
+
+  const elements = layout.elements.map((el): LayoutElement => {
+    if (!el.visible) return el;
+    const width = el.frame?.width ?? contentWidth;
+    switch (el.type) {
+      case 'header':
+        return fitHeader(el, width, metrics, overflows);
+      case 'text':
+        return fitTextElement(el, width, metrics, overflows);
+      case 'financing':
+        return fitFinancing(el, width, metrics, overflows);
+      case 'specs':
+        return fitSpecs(el, width, config.specs.columnGap, metrics, overflows);
+      case 'info-bar':
+        return fitInfoBar(el, width, metrics, overflows);
+      default:
+        return el;
+    }
+  });
+
+  return { layout: { ...layout, elements }, overflows };
+}
+
+/** Add cut text to the warnings, once per label and card size */
+export function recordTextOverflows(
+  warnings: PDFGenerationWarnings,
+  overflows: TextOverflow[],
+  cardSize: CardSize
+): void {
+  for (const { label } of overflows) {
+    const known = warnings.truncatedText.some(
+      (entry) => entry.label === label && entry.cardSize === cardSize
+    );
+    if (!known) warnings.truncatedText.push({ label, cardSize });
+  }
+}
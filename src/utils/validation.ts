@@ -175,6 +175,54 @@ export function validateImageDataUrl(dataUrl: string): ValidationResult {
   return { valid: true };
 }
 
+// ============================================================================
+// FONT VALIDATION
+// ============================================================================
+
+const ALLOWED_FONT_EXTENSIONS = ['ttf', 'otf'];
+// Fonts are persisted in localStorage alongside everything else, so keep them small
+const MAX_FONT_SIZE_MB = 2;
+const MAX_FONT_SIZE_BYTES = MAX_FONT_SIZE_MB * 1024 * 1024;
+
+export function validateFontFile(file: File): ValidationResult {
+  // Browsers report inconsistent MIME types for fonts, so check the extension
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  if (!ALLOWED_FONT_EXTENSIONS.includes(extension)) {
+    return {
+      valid: false,
+      error: `Invalid font type. Allowed: ${ALLOWED_FONT_EXTENSIONS.join(', ')}`,
+    };
+  }
+
+  if (file.size > MAX_FONT_SIZE_BYTES) {
+    return { valid: false, error: `Font too large. Maximum size: ${MAX_FONT_SIZE_MB}MB` };
+  }
+
+  return { valid: true };
+}
+
+// ============================================================================
+// CARD SIZE VALIDATION
+// ============================================================================
+
+/** Smallest and largest printable card edge, in inches */
+const MIN_CARD_EDGE_IN = 1;
+const MAX_CARD_EDGE_IN = 24;
+
+export function validateCardDimension(value: number, unit: 'in' | 'mm'): ValidationResult {
+  const perInch = unit === 'mm' ? 25.4 : 1;
+  if (!Number.isFinite(value) || value <= 0) {
+    return { valid: false, error: 'Enter a size greater than zero' };
+  }
+  if (value < MIN_CARD_EDGE_IN * perInch || value > MAX_CARD_EDGE_IN * perInch) {
+    return {
+      valid: false,
+      error: `Size must be between ${MIN_CARD_EDGE_IN * perInch} and ${MAX_CARD_EDGE_IN * perInch} ${unit}`,
+    };
+  }
+  return { valid: true };
+}
+
 // ============================================================================
 // STOCK QUANTITY VALIDATION
 // ============================================================================
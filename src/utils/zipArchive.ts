@@ -0,0 +1,53 @@
+/**
+ * ZIP archive helpers for batch exports
+ *
+ * Archives are built in memory. PDFs are already compressed, so entries are
+ * stored rather than deflated.
+ */
+
+import { zipSync, strToU8, Zippable } from 'fflate';
+
+export interface ArchiveFile {
+  name: string;
+  data: Uint8Array | string;
+}
+
+/**
+ * Make a file name unique among those already used, e.g. "Build.pdf" → "Build-2.pdf"
+ */
+export function uniqueFilename(name: string, used: Set<string>): string {
+  const dot = name.lastIndexOf('.');
+  const stem = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : '';
+
+  let candidate = name;
+  for (let n = 2; used.has(candidate); n++) {
+    candidate = `${stem}-${n}${extension}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
+
+/**
+ * Bundle files into a ZIP archive
+ */
+export function createZipArchive(files: ArchiveFile[]): Blob {
+  const entries: Zippable = {};
+  for (const file of files) {
+    // Copy encoded text so fflate sees a Uint8Array from this realm; a foreign
+    // TextEncoder result would be mistaken for a directory
+    entries[file.name] =
+      typeof file.data === 'string' ? new Uint8Array(strToU8(file.data)) : file.data;
+  }
+  const archive = zipSync(entries, { level: 0 }) as Uint8Array<ArrayBuffer>;
+  return new Blob([archive], { type: 'application/zip' });
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,373 @@
+/**
+ * ZPL Generator - Shelf tags for Zebra thermal label printers
+ *
+ * Converts the shelf-tag CardLayout into ZPL II. Text elements flow top-down
+ * like the PDF renderer, scaled from inches to printer dots; the SKU barcode
+ * and QR code are placed along the bottom of the label. Thermal printers are
+ * monochrome, so colours, background patterns and images are left out.
+ */
+
+import type { PrebuildConfig } from '../types';
+import { formatPrice, getThemeColors } from '../types';
+import {
+  CardLayout,
+  CardRenderOptions,
+  LayoutElement,
+  TextAlign,
+  getFinancingText,
+} from './layoutSchema';
+import { buildCardLayout } from './layoutBuilders';
+import { getSizeLayoutConfig } from './cardSizes';
+import { isValidBarcode } from './barcode';
+import { getQRCodeModuleCount } from './qrcode';
+import type { PDFGenerationWarnings } from './logger';
+import { downloadBlob } from './zipArchive';
+
+export type ZplDpi = 203 | 300;
+
+export const ZPL_DPI_OPTIONS: ZplDpi[] = [203, 300];
+
+/** Printable label area in printer dots */
+export interface ZplLabelSettings {
+  dpi: ZplDpi;
+  widthDots: number;
+  heightDots: number;
+}
+
+/** How the label is printed */
+export interface ZplOutputOptions {
+  /** Labels to print */
+  copies?: number;
+  /** Collects the codes that had to be left off the label */
+  warnings?: PDFGenerationWarnings;
+}
+
+/** What shapes the shelf tag besides the config, as on the printed cards */
+export interface ShelfTagZplOptions extends CardRenderOptions, ZplOutputOptions {}
+
+/** A 2" × 3" shelf tag at 203 dpi */
+export const DEFAULT_ZPL_LABEL: ZplLabelSettings = {
+  dpi: 203,
+  widthDots: 406,
+  heightDots: 609,
+};
+
+/** Smallest legible height of the scalable font, in dots */
+const MIN_FONT_DOTS = 14;
+/** Height of the barcode/QR strip at the bottom of the label, in inches */
+const CODE_HEIGHT_IN = 0.35;
+/** Error correction level sent with the QR code data (^FDQA,) */
+const QR_ERROR_CORRECTION = 'Q';
+/** Largest ^BQ magnification */
+const QR_MAX_MAGNIFICATION = 10;
+
+export function inchesToDots(inches: number, dpi: ZplDpi): number {
+  return Math.round(inches * dpi);
+}
+
+/**
+ * Escape field data for ^FH: "_", "^" and "~" would otherwise be read as
+ * commands, so they are written as hex
+ */
+export function escapeZplText(text: string): string {
+  return text.replace(/[_^~]/g, (char) => `_${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+const ZPL_ALIGN: Record<TextAlign, string> = { left: 'L', center: 'C', right: 'R' };
+
+/** Shared state while converting one layout */
+interface ZplContext {
+  commands: string[];
+  /** Dots per layout inch */
+  scale: number;
+  margin: number;
+  contentWidth: number;
+  labelWidth: number;
+  warnings?: PDFGenerationWarnings;
+}
+
+const ptToDots = (ctx: ZplContext, pt: number) =>
+  Math.max(MIN_FONT_DOTS, Math.round((pt / 72) * ctx.scale));
+
+/** Write a text block and return the y below it */
+function writeText(
+  ctx: ZplContext,
+  text: string,
+  y: number,
+  fontSize: number,
+  options: {
+    align?: TextAlign;
+    maxLines?: number;
+    reverse?: boolean;
+    x?: number;
+    width?: number;
+  } = {}
+): number {
+  const { align = 'center', maxLines = 1, reverse = false } = options;
+  const height = ptToDots(ctx, fontSize);
+  const x = options.x ?? ctx.margin;
+  const width = options.width ?? ctx.contentWidth;
+  ctx.commands.push(
+    `^FO${x},${y}^A0N,${height},${height}^FB${width},${maxLines},0,${ZPL_ALIGN[align]},0` +
+      `${reverse ? '^FR' : ''}^FH^FD${escapeZplText(text)}^FS`
+  );
+  return y + Math.round(height * 1.2 * maxLines);
+}
+
+function writeBox(
+  ctx: ZplContext,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  thickness: number
+) {
+  ctx.commands.push(`^FO${x},${y}^GB${width},${height},${thickness}^FS`);
+}
+
+function writeElement(ctx: ZplContext, el: LayoutElement, y: number): number {
+  const gap = Math.round(0.04 * ctx.scale);
+
+  switch (el.type) {
+    case 'header': {
+      // A solid bar with the text knocked out of it
+      const height = Math.round(el.style.height * ctx.scale);
+      writeBox(ctx, 0, y, ctx.labelWidth, height, height);
+      const textHeight = ptToDots(ctx, el.style.fontSize);
+      writeText(ctx, el.text, y + Math.round((height - textHeight) / 2), el.style.fontSize, {
+        reverse: true,
+      });
+      return y + height + gap;
+    }
+    case 'text':
+      return (
+        writeText(ctx, el.text, y, el.style.fontSize, {
+          align: el.style.align,
+          maxLines: el.maxLines ?? 1,
+        }) + gap
+      );
+    case 'badge':
+      return writeText(ctx, el.text, y, el.style.fontSize) + gap;
+    case 'badge-row': {
+      const text = el.badges.map((badge) => badge.text).join(' | ');
+      const bottom = writeText(ctx, text, y + 4, el.style.fontSize, { align: el.align });
+      writeBox(ctx, ctx.margin, y, ctx.contentWidth, bottom - y + 4, 2);
+      return bottom + 4 + gap;
+    }
+    case 'price': {
+      let next = y;
+      if (el.showStrikethrough && el.originalPrice) {
+        next = writeText(
+          ctx,
+          `Was ${formatPrice(el.originalPrice)}`,
+          next,
+          el.style.strikeFontSize
+        );
+      }
+      return writeText(ctx, formatPrice(el.currentPrice), next, el.style.mainFontSize) + gap;
+    }
+    case 'financing':
+      return (
+        writeText(ctx, getFinancingText(el), y, el.style.fontSize, { align: el.style.align }) + gap
+      );
+    case 'specs': {
+      let next = y;
+      for (const spec of el.specs) {
+        next = writeText(ctx, `${spec.label}: ${spec.value}`, next, el.style.valueFontSize, {
+          align: 'left',
+        });
+      }
+      return next + gap;
+    }
+    case 'info-bar': {
+      const text = el.items.map((item) => `${item.label}: ${item.value}`).join(' | ');
+      return writeText(ctx, text, y, el.style.valueFontSize) + gap;
+    }
+    case 'sku':
+      return (
+        writeText(ctx, `SKU: ${el.value}`, y, el.style.fontSize, { align: el.style.align }) + gap
+      );
+    case 'divider': {
+      const thickness = Math.max(1, Math.round(el.style.thickness * ctx.scale));
+      writeBox(ctx, ctx.margin, y, ctx.contentWidth, thickness, thickness);
+      return y + thickness + gap;
+    }
+    case 'container':
+      return el.children.reduce(
+        (next, child) => (child.visible ? writeElement(ctx, child, next) : next),
+        y
+      );
+    default:
+      // Images and decorative accents don't translate to a monochrome label;
+      // barcode and QR code are placed by writeCodes
+      return y;
+  }
+}
+
+/** Barcode from the SKU on the left, QR code on the right, along the bottom */
+function writeCodes(ctx: ZplContext, config: PrebuildConfig, label: ZplLabelSettings): void {
+  const codeHeight = inchesToDots(CODE_HEIGHT_IN, label.dpi);
+  const y = label.heightDots - ctx.margin - codeHeight;
+  const qrUrl = config.visualSettings?.showQrCode ? config.visualSettings.qrCodeUrl : '';
+
+  let barcodeWidth = ctx.contentWidth;
+  if (qrUrl) {
+    // The printer picks the symbol version from the data, so size it the same way
+    const modules = getQRCodeModuleCount(qrUrl, QR_ERROR_CORRECTION);
+    const magnification = modules
+      ? Math.min(QR_MAX_MAGNIFICATION, Math.floor(codeHeight / modules))
+      : 0;
+    if (modules && magnification >= 1) {
+      const qrSize = magnification * modules;
+      // ^BQ data starts with the error correction level and input mode
+      ctx.commands.push(
+        `^FO${label.widthDots - ctx.margin - qrSize},${y}^BQN,2,${magnification}^FH^FD${QR_ERROR_CORRECTION}A,${escapeZplText(qrUrl)}^FS`
+      );
+      barcodeWidth -= qrSize + ctx.margin;
+    } else if (ctx.warnings) {
+      ctx.warnings.qrCodeFailed = true;
+    }
+  }
+
+  const sku = config.sku;
+  if (!sku || !isValidBarcode(sku)) return;
+
+  // EAN-13 is 95 modules wide; Code 128 has 11 per character plus start, check and stop
+  const isEan = /^\d{13}$/.test(sku);
+  const modules = isEan ? 95 : 11 * sku.length + 35;
+  const moduleWidth = Math.min(label.dpi === 300 ? 3 : 2, Math.floor(barcodeWidth / modules));
+  if (moduleWidth < 1) {
+    // Narrower than a dot per module it would run into the QR code or off the label
+    if (ctx.warnings) ctx.warnings.barcodeFailed = true;
+    return;
+  }
+
+  if (isEan) {
+    // The printer adds the check digit
+    ctx.commands.push(
+      `^FO${ctx.margin},${y}^BY${moduleWidth}^BEN,${codeHeight},N,N^FD${sku.slice(0, 12)}^FS`
+    );
+    return;
+  }
+
+  ctx.commands.push(
+    `^FO${ctx.margin},${y}^BY${moduleWidth}^BCN,${codeHeight},N,N,N^FH^FD${escapeZplText(sku)}^FS`
+  );
+}
+
+/**
+ * Convert a card layout into a ZPL II label
+ */
+export function layoutToZpl(
+  layout: CardLayout,
+  config: PrebuildConfig,
+  label: ZplLabelSettings = DEFAULT_ZPL_LABEL,
+  options: ZplOutputOptions = {}
+): string {
+  const { copies = 1, warnings } = options;
+  const { width, height } = layout.dimensions;
+  const scale = Math.min(label.widthDots / width, label.heightDots / height);
+  const layoutConfig = getSizeLayoutConfig({
+    baseSize: layout.baseSize,
+    scale: layout.layoutScale,
+  });
+  const margin = Math.round(layoutConfig.margin * scale);
+
+  const ctx: ZplContext = {
+    commands: [],
+    scale,
+    margin,
+    contentWidth: label.widthDots - margin * 2,
+    labelWidth: label.widthDots,
+    warnings,
+  };
+
+  let y = layout.elements[0]?.type === 'header' ? 0 : margin;
+  for (const el of layout.elements) {
+    if (el.visible) {
+      y = writeElement(ctx, el, y);
+    }
+  }
+  writeCodes(ctx, config, label);
+
+  return [
+    '^XA',
+    // UTF-8 field data
+    '^CI28',
+    `^PW${label.widthDots}`,
+    `^LL${label.heightDots}`,
+    '^LH0,0',
+    ...ctx.commands,
+    `^PQ${Math.max(1, Math.floor(copies))}`,
+    '^XZ',
+  ].join('\n');
+}
+
+/**
+ * Build the shelf tag for a config and convert it to ZPL
+ */
+export function generateShelfTagZpl(
+  config: PrebuildConfig,
+  label: ZplLabelSettings = DEFAULT_ZPL_LABEL,
+  options: ShelfTagZplOptions = {}
+): string {
+  const { brandIcons = [], copies, warnings, ...layoutOptions } = options;
+  const layout = buildCardLayout({
+    config,
+    cardSize: 'shelf',
+    colors: getThemeColors(config),
+    brandIcons,
+    ...layoutOptions,
+  });
+  return layoutToZpl(layout, config, label, { copies, warnings });
+}
+
+export function downloadZpl(zpl: string, filename: string): void {
+  downloadBlob(new Blob([zpl], { type: 'text/plain' }), filename);
+}
+
+/**
+ * Turn a printer address ("192.168.1.50", "printer.local:8080" or a full URL)
+ * into the URL that accepts raw ZPL
+ */
+export function getPrinterUrl(address: string): string {
+  const trimmed = address.trim();
+  const withScheme = /^https?:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`;
+  const url = new URL(withScheme);
+  if (url.pathname === '/' || url.pathname === '') {
+    url.pathname = '/pstprnt';
+  }
+  return url.toString();
+}
+
+/**
+ * Send ZPL to a network printer.
+ *
+ * Browsers cannot open raw TCP sockets (port 9100), so the label is POSTed to
+ * the printer's web server, which Zebra printers accept at /pstprnt and pass
+ * to the same raw print channel. Printers don't send CORS headers, so the
+ * response can't be read; a resolved promise means the request went out.
+ */
+export async function sendZplToPrinter(zpl: string, address: string): Promise<void> {
+  if (!address.trim()) {
+    throw new Error('Enter the printer address');
+  }
+
+  let url: string;
+  try {
+    url = getPrinterUrl(address);
+  } catch {
+    throw new Error(`Invalid printer address: ${address}`);
+  }
+
+  try {
+    await fetch(url, {
+      method: 'POST',
+      mode: 'no-cors',
+      headers: { 'Content-Type': 'text/plain' },
+      body: zpl,
+    });
+  } catch {
+    throw new Error(`Could not reach the printer at ${address}`);
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * PDF Worker - runs batch PDF jobs off the main thread
+ *
+ * Receives PdfWorkerRequest messages from utils/pdfWorkerClient and answers
+ * with progress, the generated files, or an error.
+ */
+
+import { runPdfJob, PdfWorkerRequest, PdfWorkerResponse } from '../utils/pdfJobs';
+
+// The project compiles against the DOM lib, so describe the worker scope we use
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<PdfWorkerRequest>) => void) | null;
+  postMessage: (message: PdfWorkerResponse) => void;
+};
+
+const cancelledJobs = new Set<number>();
+
+scope.onmessage = async (event) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    cancelledJobs.add(request.jobId);
+    return;
+  }
+
+  const { jobId, job } = request;
+  try {
+    const result = await runPdfJob(job, {
+      onProgress: (progress) => scope.postMessage({ type: 'progress', jobId, progress }),
+      isCancelled: () => cancelledJobs.has(jobId),
+    });
+    scope.postMessage({ type: 'done', jobId, result });
+  } catch (error) {
+    if (cancelledJobs.has(jobId)) {
+      scope.postMessage({ type: 'cancelled', jobId });
+    } else {
+      scope.postMessage({ type: 'error', jobId, message: (error as Error).message });
+    }
+  } finally {
+    cancelledJobs.delete(jobId);
+  }
+};
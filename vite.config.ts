@@ -94,6 +94,10 @@ export default defineConfig(({ mode }) => {
     define: {
       __APP_VERSION__: JSON.stringify(env.npm_package_version || '1.0.0'),
     },
+    worker: {
+      // The PDF worker lazy-loads jsPDF, which needs a code-splitting format
+      format: 'es',
+    },
     server: {
       port: 5173,
       open: true,